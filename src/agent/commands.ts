@@ -0,0 +1,259 @@
+import { ILogger } from "@microsoft/teams.common";
+import { CAPABILITY_DEFINITIONS } from "../capabilities/registry";
+import { MessageContext } from "../utils/messageContext";
+import { extractEndTime, extractStartTime, extractTimeRange } from "../utils/utils";
+import { runFeedbackReport } from "./feedbackReport";
+import { runLimitsCommand } from "./rateLimitCommands";
+import { runRetentionCommand } from "./retentionCommands";
+import { runUsageReport } from "./usageReport";
+import { runExportCommand, runForgetCommand } from "./userDataCommands";
+
+/**
+ * Deterministic command router
+ *
+ * Recognizes the commands advertised in the app manifest (`commandLists`) and dispatches
+ * them straight to the matching capability, bypassing the LLM manager. Free-form text
+ * returns null from parseCommand and is left to the manager. Admin commands ("usage",
+ * "feedback", "limits", "retention", "export user" and "forget user") answer on their own
+ * without a capability.
+ *
+ * Admin commands need a leading "/" ("/usage last month"), so a question that happens to start
+ * with the same word ("usage of the new API?") still reaches the manager.
+ *
+ * Supported arguments:
+ * - since:<time>   start of the time range (e.g., since:monday, since:"last week")
+ * - until:<time>   end of the time range
+ * - from:<name>    only messages from this participant (search)
+ * Any remaining text is passed to the capability as the topic/query.
+ */
+
+export interface CommandArgs {
+  since?: string;
+  until?: string;
+  from?: string;
+  query: string;
+}
+
+export interface ParsedCommand {
+  name: string;
+  // Unset for commands that answer on their own
+  capability?: string;
+  args: CommandArgs;
+}
+
+interface CommandDefinition {
+  name: string;
+  capability?: string;
+  // Whether free text without since:/until: should be tried as a time phrase ("summarize last week")
+  freeTextIsTimeRange: boolean;
+  buildRequest(args: CommandArgs): string;
+  // Answers the command directly instead of routing it to a capability
+  run?(args: CommandArgs, context: MessageContext, logger: ILogger): Promise<string>;
+  // Only recognized when the message starts with "/"
+  slashOnly?: boolean;
+}
+
+const COMMANDS: CommandDefinition[] = [
+  {
+    name: "summarize",
+    capability: "summarizer",
+    freeTextIsTimeRange: true,
+    buildRequest: (args) =>
+      args.query ? `Summarize the conversation about: ${args.query}` : "Summarize the conversation",
+  },
+  {
+    name: "action items",
+    capability: "action_items",
+    freeTextIsTimeRange: true,
+    buildRequest: (args) =>
+      args.query
+        ? `List the action items related to: ${args.query}`
+        : "List the action items from the conversation",
+  },
+  {
+    name: "search",
+    capability: "search",
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => {
+      const topic = args.query ? `Find messages about "${args.query}"` : "Find messages";
+      return args.from ? `${topic} from ${args.from}` : topic;
+    },
+  },
+  {
+    name: "meeting notes",
+    capability: "meeting_manager",
+    freeTextIsTimeRange: true,
+    buildRequest: (args) =>
+      args.query
+        ? `Get the meeting transcript and notes for: ${args.query}`
+        : "Get the meeting transcript and notes for this chat",
+  },
+  {
+    name: "create tasks",
+    capability: "planner",
+    freeTextIsTimeRange: false,
+    buildRequest: (args) =>
+      args.query
+        ? `Create Planner tasks for: ${args.query}`
+        : "Create Planner tasks from the action items in this conversation",
+  },
+  {
+    name: "digest",
+    capability: "digest",
+    freeTextIsTimeRange: false,
+    // e.g. "digest every weekday at 5pm", "digest pause 2", "digest delete 2"
+    buildRequest: (args) =>
+      args.query ? `Digest schedules: ${args.query}` : "List the digest schedules for this chat",
+  },
+  {
+    // Admin only: model spend by capability and chat, e.g. "usage this month", "usage last month"
+    name: "usage",
+    slashOnly: true,
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => args.query,
+    run: (args, context, logger) => runUsageReport(args.query, context, logger),
+  },
+  {
+    // Admin only: likes and dislikes per capability over time, e.g. "feedback last month"
+    name: "feedback",
+    slashOnly: true,
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => args.query,
+    run: (args, context, logger) => runFeedbackReport(args.query, context, logger),
+  },
+  {
+    // Admin only: show or override rate limits, e.g. "limits user <id> 100/hour", "limits chat off"
+    name: "limits",
+    slashOnly: true,
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => args.query,
+    run: (args, context, logger) => runLimitsCommand(args.query, context, logger),
+  },
+  {
+    // Admin only: show or override this chat's retention, e.g. "retention 30", "retention forever"
+    name: "retention",
+    slashOnly: true,
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => args.query,
+    run: (args, context, logger) => runRetentionCommand(args.query, context, logger),
+  },
+  {
+    // Admin only: everything stored about a user as JSON, e.g. "export user <id> dry run"
+    name: "export user",
+    slashOnly: true,
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => args.query,
+    run: (args, context, logger) => runExportCommand(args.query, context, logger),
+  },
+  {
+    // Admin only: erase a user's messages and feedback, e.g. "forget user <id> redact dry run"
+    name: "forget user",
+    slashOnly: true,
+    freeTextIsTimeRange: false,
+    buildRequest: (args) => args.query,
+    run: (args, context, logger) => runForgetCommand(args.query, context, logger),
+  },
+];
+
+const ARGUMENT_PATTERN = /\b(since|until|from):(?:"([^"]*)"|(\S+))/gi;
+
+/**
+ * Parse a message into a command, or return null if it is free-form text
+ */
+export function parseCommand(text: string): ParsedCommand | null {
+  const trimmed = text
+    .replace(/<at>.*?<\/at>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const slashed = trimmed.startsWith("/");
+  const normalized = trimmed.replace(/^\//, "");
+  const lower = normalized.toLowerCase();
+
+  const command = COMMANDS.find(
+    (cmd) =>
+      (slashed || !cmd.slashOnly) && (lower === cmd.name || lower.startsWith(`${cmd.name} `))
+  );
+  if (!command) {
+    return null;
+  }
+
+  const rest = normalized.slice(command.name.length);
+  const args: CommandArgs = { query: "" };
+
+  const query = rest.replace(ARGUMENT_PATTERN, (_match, key: string, quoted?: string, bare?: string) => {
+    args[key.toLowerCase() as "since" | "until" | "from"] = quoted ?? bare;
+    return "";
+  });
+  args.query = query.replace(/\s+/g, " ").trim();
+
+  return { name: command.name, capability: command.capability, args };
+}
+
+/**
+ * Run a parsed command against its capability and return the response text
+ */
+export async function dispatchCommand(
+  command: ParsedCommand,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  const definition = COMMANDS.find((cmd) => cmd.name === command.name)!;
+  if (definition.run) {
+    logger.debug(`⚡ Command "${command.name}"`);
+    context.capabilities.push(command.name);
+    return definition.run(command.args, context, logger);
+  }
+
+  const capability = CAPABILITY_DEFINITIONS.find((cap) => cap.name === command.capability);
+  if (!capability) {
+    return `The "${command.name}" command is not available right now.`;
+  }
+
+  const args = { ...command.args };
+  const now = new Date(context.endTime);
+
+  if (args.since) {
+    const from = extractStartTime(args.since, now, context.timezone);
+    if (!from) {
+      return `I couldn't understand the time in \`since:${args.since}\`. Try something like \`since:monday\` or \`since:"last week"\`.`;
+    }
+    if (from > now) {
+      return `\`since:${args.since}\` is in the future. Pick a time that has already happened.`;
+    }
+    context.startTime = from.toISOString();
+  }
+
+  if (args.until) {
+    const to = extractEndTime(args.until, now, context.timezone);
+    if (!to) {
+      return `I couldn't understand the time in \`until:${args.until}\`. Try something like \`until:yesterday\`.`;
+    }
+    if (to > now) {
+      return `\`until:${args.until}\` is in the future. Leave it out to include everything up to now.`;
+    }
+    if (args.since && to <= new Date(context.startTime)) {
+      return `\`until:${args.until}\` is before \`since:${args.since}\`. Pick an end after the start.`;
+    }
+    context.endTime = to.toISOString();
+  }
+
+  if (!args.since && !args.until && definition.freeTextIsTimeRange && args.query) {
+    const range = extractTimeRange(args.query, now);
+    if (range) {
+      context.startTime = range.from.toISOString();
+      context.endTime = range.to.toISOString();
+      args.query = "";
+    }
+  }
+
+  context.text = definition.buildRequest(args);
+  logger.debug(
+    `⚡ Command "${command.name}" → ${capability.name} (${context.startTime} - ${context.endTime})`
+  );
+
+  const result = await capability.handler(context, logger.child(capability.name));
+  if (result.payload) {
+    context.payloads.push(result.payload);
+  }
+  return result.response;
+}
@@ -0,0 +1,87 @@
+import {
+  AdaptiveCardActionResponse,
+  IAdaptiveCardActionInvokeActivity,
+} from "@microsoft/teams.api";
+import { ILogger } from "@microsoft/teams.common";
+import { DraftResult, EMAIL_DRAFT_VERBS, EmailDrafts } from "../services/emailDrafts";
+import { renderPayloadCard } from "../utils/cards";
+
+/**
+ * Send, Edit and Cancel on an email draft card
+ *
+ * The card is replaced with its new state (sent, cancelled or the edited draft). Anything
+ * that stops the action, such as someone other than the requester clicking Send, is
+ * answered with a message and leaves the draft as it was.
+ */
+
+const DRAFT_VERBS: string[] = Object.values(EMAIL_DRAFT_VERBS);
+
+export function isEmailDraftAction(activity: IAdaptiveCardActionInvokeActivity): boolean {
+  return DRAFT_VERBS.includes(activity.value?.action?.verb ?? "");
+}
+
+export async function handleEmailDraftAction(
+  drafts: EmailDrafts,
+  activity: IAdaptiveCardActionInvokeActivity,
+  logger: ILogger
+): Promise<AdaptiveCardActionResponse> {
+  const { verb, data } = activity.value.action;
+  const draftId = Number(data?.draftId);
+  logger.debug(`🖱️ ${verb} on email draft #${draftId} by ${activity.from.name}`);
+
+  try {
+    const found = await drafts.getOwnPending(draftId, activity.from.id, activity.conversation.id);
+    if (!found.success || !found.draft) {
+      return messageResponse(found.error || "This email draft is no longer available");
+    }
+
+    let result: DraftResult;
+    switch (verb) {
+      case EMAIL_DRAFT_VERBS.send:
+        result = await drafts.send(found.draft);
+        break;
+      case EMAIL_DRAFT_VERBS.cancel:
+        result = await drafts.cancel(found.draft);
+        break;
+      default: {
+        // The addresses in the form were typed or kept by the requester themselves
+        const to = splitAddresses(data?.to);
+        const cc = splitAddresses(data?.cc);
+        // The form shows the plain-text preview; an untouched body keeps its HTML formatting
+        const bodyChanged = data?.body !== drafts.toPayload(found.draft).body;
+        const changes = {
+          subject: data?.subject,
+          body: bodyChanged ? data?.body : undefined,
+          is_html: false,
+          to_recipients: to,
+          cc_recipients: cc,
+        };
+        result = await drafts.edit(found.draft, changes, [...to, ...cc]);
+      }
+    }
+
+    if (!result.success || !result.draft) {
+      return messageResponse(result.error || "The email draft could not be updated");
+    }
+    return {
+      statusCode: 200,
+      type: "application/vnd.microsoft.card.adaptive",
+      value: renderPayloadCard(drafts.toPayload(result.draft)),
+    };
+  } catch (error) {
+    logger.error("❌ Error handling email draft action:", error);
+    return messageResponse("Something went wrong with this email draft. Please try again.");
+  }
+}
+
+function splitAddresses(value: unknown): string[] {
+  if (typeof value !== "string") return [];
+  return value
+    .split(/[,;\s]+/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+function messageResponse(text: string): AdaptiveCardActionResponse {
+  return { statusCode: 200, type: "application/vnd.microsoft.activity.message", value: text };
+}
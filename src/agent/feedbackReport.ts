@@ -0,0 +1,155 @@
+import { ILogger } from "@microsoft/teams.common";
+import { FeedbackWithReply } from "../storage/types";
+import { isBotAdmin, MessageContext } from "../utils/messageContext";
+import { resolveReportPeriod } from "../utils/utils";
+
+/**
+ * Feedback Report
+ * Likes and dislikes on the bot's replies per capability, week by week, with the written
+ * feedback, for the admin "feedback" command. Shows which prompts need work.
+ */
+
+// Most recent written comments shown
+const MAX_COMMENTS = 10;
+const MAX_REPLY_PREVIEW = 80;
+
+/**
+ * Answer the "feedback" command. Only admins get the report, and only in a 1:1 chat since it
+ * quotes replies and comments from every chat.
+ */
+export async function runFeedbackReport(
+  phrase: string,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  if (!isBotAdmin(context)) {
+    return "The feedback report is only available to bot admins.";
+  }
+  if (!context.isPersonalChat) {
+    return "Ask me for the feedback report in a 1:1 chat, since it quotes replies from other chats.";
+  }
+
+  const period = resolveReportPeriod(phrase);
+  if (!period) {
+    return `I couldn't understand the period "${phrase}". Try \`/feedback this month\` or \`/feedback last month\`.`;
+  }
+
+  const rows = await context.storage.getFeedbackWithReplies(
+    period.from.toISOString(),
+    period.to.toISOString()
+  );
+  logger.debug(`📊 Feedback report ${period.label}: ${rows.length} rows`);
+  return formatFeedbackReport(rows, period.label);
+}
+
+export function formatFeedbackReport(rows: FeedbackWithReply[], label: string): string {
+  if (rows.length === 0) {
+    return `No feedback recorded ${label}.`;
+  }
+
+  // A reply written by several capabilities has a row for each; count its reaction once overall
+  const reactions = [...new Map(rows.map((row) => [row.id, row])).values()];
+
+  const lines = [
+    `**Feedback ${label}**`,
+    `Overall: ${formatRate(reactions)}`,
+    "",
+    // Least liked first: those are the prompts to look at
+    "**By capability**",
+    ...groupBy(rows, capabilityName)
+      .sort(([, a], [, b]) => likeRate(a) - likeRate(b))
+      .map(([capability, group]) => `- ${capability}: ${formatRate(group)}`),
+    "",
+    "**By week**",
+    ...groupBy(rows, (row) => weekStart(row.created_at)).map(
+      ([week, group]) =>
+        `- Week of ${week}: ` +
+        groupBy(group, capabilityName)
+          .map(([capability, byCapability]) => `${capability} ${formatRate(byCapability)}`)
+          .join(", ")
+    ),
+  ];
+
+  const comments = reactions
+    .map((row) => ({ row, text: feedbackText(row.feedback) }))
+    .filter((comment) => comment.text)
+    .slice(-MAX_COMMENTS)
+    .reverse();
+  if (comments.length > 0) {
+    lines.push("", "**Written feedback**");
+    for (const { row, text } of comments) {
+      const capabilities = rows
+        .filter((other) => other.id === row.id)
+        .map(capabilityName)
+        .join(", ");
+      const reply = row.reply_content
+        ? ` (on "${truncate(row.reply_content.replace(/\s+/g, " "), MAX_REPLY_PREVIEW)}")`
+        : "";
+      lines.push(
+        `- ${reactionIcon(row.reaction)} ${capabilities}, ${row.created_at.slice(0, 10)}: ` +
+          `"${text}"${reply}`
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The comment typed with a reaction. Teams sends it as JSON ({"feedbackText": "..."}), which is
+ * stored as received.
+ */
+export function feedbackText(feedback: string | null): string {
+  if (!feedback) return "";
+  let value: unknown = feedback;
+  // Unwrap up to two layers: the stored JSON, and the JSON string Teams sent inside it
+  for (let depth = 0; depth < 2 && typeof value === "string"; depth++) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      break;
+    }
+  }
+  if (typeof value === "string") return value.trim();
+  const text = (value as { feedbackText?: unknown } | null)?.feedbackText;
+  return typeof text === "string" ? text.trim() : "";
+}
+
+function capabilityName(row: FeedbackWithReply): string {
+  return row.capability ?? "unattributed";
+}
+
+function likeRate(rows: FeedbackWithReply[]): number {
+  return rows.filter((row) => row.reaction === "like").length / rows.length;
+}
+
+function formatRate(rows: FeedbackWithReply[]): string {
+  const likes = rows.filter((row) => row.reaction === "like").length;
+  return `${likes} 👍 · ${rows.length - likes} 👎 (${Math.round(likeRate(rows) * 100)}% liked)`;
+}
+
+// Groups in order of first appearance
+function groupBy(
+  rows: FeedbackWithReply[],
+  key: (row: FeedbackWithReply) => string
+): Array<[string, FeedbackWithReply[]]> {
+  const groups = new Map<string, FeedbackWithReply[]>();
+  for (const row of rows) {
+    groups.set(key(row), [...(groups.get(key(row)) ?? []), row]);
+  }
+  return [...groups.entries()];
+}
+
+// Monday of the week, in UTC
+function weekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function reactionIcon(reaction: string): string {
+  return reaction === "like" ? "👍" : "👎";
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
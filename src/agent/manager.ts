@@ -1,11 +1,14 @@
-import { ChatPrompt } from "@microsoft/teams.ai";
+import { ChatPrompt, ModelMessage } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
 import { CAPABILITY_DEFINITIONS } from "../capabilities/registry";
+import { createChatModel } from "../services/modelProviders";
+import { runWithUsageScope, usageScopeFor } from "../services/usageTracker";
 import { getModelConfig } from "../utils/config";
 import { MessageContext } from "../utils/messageContext";
 import { extractTimeRange } from "../utils/utils";
 import { generateManagerPrompt } from "./prompt";
+import { createExecutePlanSchema, ExecutePlanArgs } from "./schema";
+import { formatPlanResults, StepPlanner } from "./stepPlanner";
 
 export interface ManagerResult {
   response: string;
@@ -24,12 +27,7 @@ export class ManagerPrompt {
     const managerModelConfig = getModelConfig("manager");
     const prompt = new ChatPrompt({
       instructions: generateManagerPrompt(CAPABILITY_DEFINITIONS),
-      model: new OpenAIChatModel({
-        model: managerModelConfig.model,
-        apiKey: managerModelConfig.apiKey,
-        endpoint: managerModelConfig.endpoint,
-        apiVersion: managerModelConfig.apiVersion,
-      }),
+      model: createChatModel(managerModelConfig),
       messages: await this.context.memory.values(),
     })
       .function(
@@ -62,7 +60,16 @@ export class ManagerPrompt {
         "clear_conversation_history",
         "Clear conversation history in the database for the current conversation",
         async () => {
+          const messagesDeleted = await this.context.memory.length();
           await this.context.memory.clear();
+          await this.context.storage.recordPurge({
+            conversation_id: this.context.conversationId,
+            reason: "cleared",
+            cutoff: null,
+            retention_days: null,
+            messages_deleted: messagesDeleted,
+            requested_by: this.context.userUpn ?? this.context.userId ?? null,
+          });
           this.logger.debug("The conversation history has been cleared!");
         }
       );
@@ -76,10 +83,27 @@ export class ManagerPrompt {
         `delegate_to_${capability.name}`,
         `Delegate to ${capability.name} capability`,
         async () => {
-          return capability.handler(this.context, this.logger.child(capability.name));
+          const result = await capability.handler(this.context, this.logger.child(capability.name));
+          if (result.payload) {
+            this.context.payloads.push(result.payload);
+          }
+          return result.response;
         }
       );
     }
+
+    // Compound requests ("summarize ... and email it ...") run as an ordered multi-step plan
+    const stepPlanner = new StepPlanner(CAPABILITY_DEFINITIONS, this.logger.child("plan"));
+    this.prompt.function(
+      "execute_plan",
+      "Run a compound request as ordered steps across several capabilities, passing each step's output to the next",
+      createExecutePlanSchema(CAPABILITY_DEFINITIONS.map((capability) => capability.name)),
+      async ({ steps }: ExecutePlanArgs) => {
+        this.logger.debug(`🧭 FUNCTION CALL: execute_plan with ${steps.length} steps`);
+        const results = await stepPlanner.execute(steps, this.context);
+        return formatPlanResults(results);
+      }
+    );
   }
 
   private async initialize(): Promise<void> {
@@ -93,7 +117,10 @@ export class ManagerPrompt {
   async processRequest(): Promise<ManagerResult> {
     try {
       await this.initialize();
-      const response = await this.prompt.send(this.context.text);
+      const response = await runWithUsageScope<ModelMessage>(
+        usageScopeFor(this.context, "manager", this.logger),
+        () => this.prompt.send(this.context.text)
+      );
       return {
         response: response.content || "No response generated",
       };
@@ -0,0 +1,87 @@
+import { ILogger } from "@microsoft/teams.common";
+import { conversationBucketKey, userBucketKey } from "../services/rateLimiter";
+import { parseRateLimit, RATE_LIMIT_CONFIG } from "../utils/config";
+import { isBotAdmin, MessageContext } from "../utils/messageContext";
+
+/**
+ * Rate Limit Commands
+ * The admin "limits" command for viewing rate limits and overriding them:
+ * - limits                                  show the limits and overrides in force
+ * - limits user <id> <rate | off | default> override one user's limit
+ * - limits chat <rate | off | default>      override this chat's limit
+ */
+
+const USAGE =
+  "Try `/limits`, `/limits user <id> 100/hour`, `/limits chat off` or `/limits chat default`.";
+
+export async function runLimitsCommand(
+  query: string,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  if (!isBotAdmin(context)) {
+    return "Rate limits can only be viewed and changed by bot admins.";
+  }
+
+  const words = query.split(" ").filter(Boolean);
+  if (words.length === 0) {
+    return describeLimits(context);
+  }
+
+  const [target, ...rest] = words;
+  let key: string;
+  let label: string;
+  if (target.toLowerCase() === "user" && rest.length === 2) {
+    key = userBucketKey(rest[0]);
+    label = `user ${rest[0]}`;
+  } else if (target.toLowerCase() === "chat" && rest.length === 1) {
+    key = conversationBucketKey(context.conversationId);
+    label = "this chat";
+  } else {
+    return USAGE;
+  }
+
+  const rate = rest[rest.length - 1].toLowerCase();
+  if (rate === "default") {
+    await context.storage.setRateLimitOverride(key, null, context.userUpn ?? context.userId!);
+    logger.info(`🚦 ${context.userName} removed the rate limit override for ${key}`);
+    return `Rate limit for ${label} is back to the default.`;
+  }
+
+  try {
+    parseRateLimit(rate);
+  } catch (error) {
+    return error instanceof Error ? error.message : USAGE;
+  }
+  await context.storage.setRateLimitOverride(key, rate, context.userUpn ?? context.userId!);
+  logger.info(`🚦 ${context.userName} set the rate limit for ${key} to ${rate}`);
+  return rate === "off"
+    ? `Rate limit for ${label} is off.`
+    : `Rate limit for ${label} is now ${rate}.`;
+}
+
+async function describeLimits(context: MessageContext): Promise<string> {
+  const overrides = await context.storage.getRateLimitOverrides();
+  const lines = [
+    "**Rate limits**",
+    `- Per user: ${RATE_LIMIT_CONFIG.user}`,
+    `- Per chat: ${RATE_LIMIT_CONFIG.conversation}`,
+    ...Object.entries(RATE_LIMIT_CONFIG.capabilities).map(
+      ([capability, rate]) => `- ${capability} per user: ${rate}`
+    ),
+    "",
+    "**Overrides**",
+  ];
+  if (overrides.length === 0) {
+    lines.push("- None");
+  }
+  for (const override of overrides) {
+    const target =
+      override.bucket_key === conversationBucketKey(context.conversationId)
+        ? "this chat"
+        : override.bucket_key;
+    const setOn = override.updated_at.slice(0, 10);
+    lines.push(`- ${target}: ${override.rate} (set by ${override.updated_by} on ${setOn})`);
+  }
+  return lines.join("\n");
+}
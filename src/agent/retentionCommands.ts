@@ -0,0 +1,109 @@
+import { ILogger } from "@microsoft/teams.common";
+import { PurgeAuditRecord, RetentionPolicyRecord } from "../storage/types";
+import { parseRetentionDays, RETENTION_CONFIG } from "../utils/config";
+import { isBotAdmin, MessageContext } from "../utils/messageContext";
+
+/**
+ * Retention Commands
+ * The admin "retention" command for this chat's data retention:
+ * - retention                              show the period in force and recent purges
+ * - retention <days | forever | default>   override the period for this chat
+ */
+
+const USAGE =
+  "Try `/retention`, `/retention 30 days`, `/retention forever` or `/retention default`.";
+
+// Purges listed by "retention"
+const MAX_AUDIT_ENTRIES = 5;
+
+export async function runRetentionCommand(
+  query: string,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  if (!isBotAdmin(context)) {
+    return "Data retention can only be viewed and changed by bot admins.";
+  }
+
+  const value = query.trim().toLowerCase();
+  if (!value) {
+    return describeRetention(context);
+  }
+
+  if (!RETENTION_CONFIG.enabled) {
+    return (
+      "Retention is off for this bot, so nothing is purged. " +
+      "Set `RETENTION_DAYS` to turn it on."
+    );
+  }
+
+  if (value === "default") {
+    await context.storage.deleteRetentionPolicy(context.conversationId);
+    logger.info(`🧹 ${context.userName} removed the retention override for this chat`);
+    return `Messages in this chat are kept for the default ${describeDays(defaultDays())} again.`;
+  }
+
+  let days: number | null;
+  try {
+    days = parseRetentionDays(value);
+  } catch {
+    return USAGE;
+  }
+  await context.storage.setRetentionPolicy(
+    context.conversationId,
+    days,
+    context.userUpn ?? context.userId!
+  );
+  logger.info(
+    `🧹 ${context.userName} set retention for ${context.conversationId} to ${describeDays(days)}`
+  );
+  return days === null
+    ? "Messages in this chat are now kept forever."
+    : `Messages in this chat are now kept for ${describeDays(days)}. Older ones are purged at the next sweep.`;
+}
+
+async function describeRetention(context: MessageContext): Promise<string> {
+  const policy = (await context.storage.getRetentionPolicies()).find(
+    (candidate) => candidate.conversation_id === context.conversationId
+  );
+  const audit = await context.storage.getPurgeAudit(context.conversationId, MAX_AUDIT_ENTRIES);
+
+  const lines = [
+    "**Data retention**",
+    describePeriod(policy),
+    "",
+    "**Recent purges**",
+  ];
+  if (audit.length === 0) {
+    lines.push("- None");
+  }
+  lines.push(...audit.map(describePurge));
+  return lines.join("\n");
+}
+
+function describePeriod(policy: RetentionPolicyRecord | undefined): string {
+  if (!RETENTION_CONFIG.enabled) {
+    return "- Off for this bot: nothing is purged until `RETENTION_DAYS` is set";
+  }
+  return policy
+    ? `- This chat: ${describeDays(policy.retention_days)} (set by ${
+        policy.updated_by
+      } on ${policy.updated_at.slice(0, 10)})`
+    : `- This chat: ${describeDays(defaultDays())} (default)`;
+}
+
+function describePurge(entry: PurgeAuditRecord): string {
+  const messages = `${entry.messages_deleted} message${entry.messages_deleted === 1 ? "" : "s"}`;
+  const when = entry.purged_at.slice(0, 10);
+  return entry.reason === "cleared"
+    ? `- ${when}: ${messages} cleared by ${entry.requested_by ?? "unknown"}`
+    : `- ${when}: ${messages} older than ${describeDays(entry.retention_days)} purged`;
+}
+
+function defaultDays(): number | null {
+  return parseRetentionDays(RETENTION_CONFIG.days);
+}
+
+function describeDays(days: number | null): string {
+  return days === null ? "forever" : `${days} day${days === 1 ? "" : "s"}`;
+}
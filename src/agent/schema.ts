@@ -0,0 +1,41 @@
+// Function schemas for the manager prompt
+
+export interface PlanStepArgs {
+  capability: string;
+  instruction: string;
+}
+
+export interface ExecutePlanArgs {
+  steps: PlanStepArgs[];
+}
+
+// The capability enum is built from the registered capabilities so the model can only pick real ones
+export function createExecutePlanSchema(capabilityNames: string[]) {
+  return {
+    type: "object" as const,
+    properties: {
+      steps: {
+        type: "array" as const,
+        description:
+          "Ordered steps to run. Each step is handled by one capability and receives the output of the previous steps.",
+        items: {
+          type: "object" as const,
+          properties: {
+            capability: {
+              type: "string" as const,
+              enum: capabilityNames,
+              description: "Name of the capability that handles this step",
+            },
+            instruction: {
+              type: "string" as const,
+              description:
+                'What this capability should do, phrased as a standalone request (e.g., "Email the summary to the team")',
+            },
+          },
+          required: ["capability", "instruction"] as string[],
+        },
+      },
+    },
+    required: ["steps"] as string[],
+  };
+}
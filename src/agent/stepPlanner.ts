@@ -0,0 +1,160 @@
+import { ILogger } from "@microsoft/teams.common";
+import { CapabilityDefinition } from "../capabilities/capability";
+import { renderPayloadText } from "../utils/cards";
+import { MessageContext } from "../utils/messageContext";
+import { PlanStepArgs } from "./schema";
+
+export type StepStatus = "completed" | "failed" | "skipped";
+
+export interface StepResult {
+  step: number;
+  capability: string;
+  instruction: string;
+  status: StepStatus;
+  output: string;
+  // Text handed to later steps when it differs from the displayed output
+  handoff?: string;
+}
+
+// Producers run before consumers so each step has something to work with:
+// summarizer/search/meetings → action_items → planner → email_sender
+const PIPELINE_ORDER: Record<string, number> = {
+  summarizer: 0,
+  search: 0,
+  meeting_manager: 0,
+  action_items: 1,
+  planner: 2,
+  email_sender: 3,
+};
+
+/**
+ * Executes a compound request as an ordered list of capability steps.
+ * Each step receives the original request plus the output of every step before it.
+ */
+export class StepPlanner {
+  constructor(private capabilities: CapabilityDefinition[], private logger: ILogger) {}
+
+  /**
+   * Drop unknown capabilities and order the remaining steps along the pipeline.
+   * Steps with the same rank keep the order the manager gave them.
+   */
+  buildPlan(steps: PlanStepArgs[]): PlanStepArgs[] {
+    const known = new Set(this.capabilities.map((cap) => cap.name));
+    const valid = steps.filter((step) => {
+      if (!known.has(step.capability)) {
+        this.logger.warn(`⚠️ Ignoring plan step for unknown capability "${step.capability}"`);
+        return false;
+      }
+      return true;
+    });
+
+    return valid
+      .map((step, index) => ({ step, index }))
+      .sort((a, b) => rank(a.step) - rank(b.step) || a.index - b.index)
+      .map(({ step }) => step);
+  }
+
+  async execute(steps: PlanStepArgs[], context: MessageContext): Promise<StepResult[]> {
+    const plan = this.buildPlan(steps);
+    const results: StepResult[] = [];
+    let halted = false;
+
+    this.logger.debug(`🧭 Executing plan: ${plan.map((s) => s.capability).join(" → ")}`);
+
+    for (const [index, step] of plan.entries()) {
+      const result: StepResult = {
+        step: index + 1,
+        capability: step.capability,
+        instruction: step.instruction,
+        status: "skipped",
+        output: "",
+      };
+      results.push(result);
+
+      // Later steps depend on earlier output, so stop feeding them once a step fails
+      if (halted) {
+        result.output = "Skipped because a previous step failed.";
+        continue;
+      }
+
+      const capability = this.capabilities.find((cap) => cap.name === step.capability)!;
+      const stepContext: MessageContext = {
+        ...context,
+        text: buildStepInput(context.text, step, index + 1, plan.length, results.slice(0, index)),
+      };
+
+      try {
+        const capabilityResult = await capability.handler(
+          stepContext,
+          this.logger.child(capability.name)
+        );
+        result.status = capabilityResult.error ? "failed" : "completed";
+        result.output = capabilityResult.response;
+        if (capabilityResult.payload) {
+          context.payloads.push(capabilityResult.payload);
+          // Later steps need the content itself, not the short lead-in that accompanies a card
+          result.handoff = renderPayloadText(capabilityResult.payload);
+        }
+        halted = !!capabilityResult.error;
+      } catch (error) {
+        this.logger.error(`❌ Plan step ${index + 1} (${step.capability}) failed:`, error);
+        result.status = "failed";
+        result.output = error instanceof Error ? error.message : "Unknown error";
+        halted = true;
+      }
+    }
+
+    return results;
+  }
+}
+
+function rank(step: PlanStepArgs): number {
+  return PIPELINE_ORDER[step.capability] ?? 0;
+}
+
+function buildStepInput(
+  originalRequest: string,
+  step: PlanStepArgs,
+  stepNumber: number,
+  totalSteps: number,
+  previous: StepResult[]
+): string {
+  const previousOutputs = previous
+    .filter((result) => result.status === "completed")
+    .map(
+      (result) =>
+        `[Step ${result.step} - ${result.capability}]\n${result.handoff ?? result.output}`
+    )
+    .join("\n\n");
+
+  return `${step.instruction}
+
+<ORIGINAL REQUEST>
+${originalRequest}
+
+<YOUR STEP>
+Step ${stepNumber} of ${totalSteps}. Only do this step; other capabilities handle the rest.
+${previousOutputs ? `\n<OUTPUT FROM PREVIOUS STEPS>\n${previousOutputs}\n` : ""}`;
+}
+
+/**
+ * Combine step results into a single reply with a status line per step
+ */
+export function formatPlanResults(results: StepResult[]): string {
+  if (results.length === 0) {
+    return "I couldn't build a plan for that request. Try asking for one thing at a time.";
+  }
+
+  const icons: Record<StepStatus, string> = {
+    completed: "✅",
+    failed: "❌",
+    skipped: "⏭️",
+  };
+
+  return results
+    .map(
+      (result) =>
+        `**Step ${result.step} · ${result.capability}** ${icons[result.status]} ${result.status}\n${result.output}`
+    )
+    .join("\n\n");
+}
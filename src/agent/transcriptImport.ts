@@ -0,0 +1,163 @@
+import { IMessageActivity } from "@microsoft/teams.api";
+import { ILogger } from "@microsoft/teams.common";
+import { createHash } from "node:crypto";
+import {
+  DownloadTooLargeError,
+  getGraphClient,
+  readResponseBody,
+  TranscriptContent,
+} from "../services/graphClient";
+import {
+  MAX_TRANSCRIPT_FILE_BYTES,
+  parseTranscriptFile,
+  TranscriptFileError,
+  transcriptFileType,
+} from "../services/transcriptFiles";
+import { MessageContext } from "../utils/messageContext";
+
+/**
+ * Transcript files shared in chat
+ *
+ * A .vtt, .srt, .docx or .txt transcript sent to the bot or dropped into a chat it's in is
+ * saved as a meeting of that chat, so search_transcript, analyze_speakers and the summarizer
+ * work on it like on a transcript fetched from Teams. Sharing a file with the same name again
+ * in the same chat replaces the earlier import.
+ */
+
+export interface SharedTranscriptFile {
+  name: string;
+  // Files sent to the bot in a personal chat come with a download URL that needs no sign-in
+  downloadUrl?: string;
+  // Files shared in group chats and channels are OneDrive or SharePoint links
+  sharingUrl?: string;
+}
+
+export interface TranscriptImportResult {
+  imported: number;
+  message: string;
+}
+
+const FILE_DOWNLOAD_INFO = "application/vnd.microsoft.teams.file.download.info";
+const FILE_TRANSCRIPT_ID = "file";
+// Speakers named in the confirmation before the rest are counted
+const LISTED_SPEAKERS = 5;
+
+/**
+ * The attachments of a message that look like transcript files
+ */
+export function findTranscriptFiles(activity: IMessageActivity): SharedTranscriptFile[] {
+  return (activity.attachments ?? []).flatMap((attachment): SharedTranscriptFile[] => {
+    const name = attachment.name ?? "";
+    if (!transcriptFileType(name)) return [];
+    if (attachment.contentType === FILE_DOWNLOAD_INFO && attachment.content?.downloadUrl) {
+      return [{ name, downloadUrl: attachment.content.downloadUrl }];
+    }
+    if (attachment.contentType === "reference" && attachment.contentUrl) {
+      return [{ name, sharingUrl: attachment.contentUrl }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Read each file into a meeting of this chat and index it for semantic search. Files that
+ * can't be read are reported in the message rather than failing the others.
+ */
+export async function importTranscriptFiles(
+  files: SharedTranscriptFile[],
+  context: MessageContext,
+  logger: ILogger
+): Promise<TranscriptImportResult> {
+  const lines: string[] = [];
+  let imported = 0;
+
+  for (const file of files) {
+    try {
+      const content = await downloadFile(file, logger);
+      const entries = parseTranscriptFile(file.name, content);
+      await saveTranscript(file.name, entries, context);
+      imported++;
+
+      const speakers = [...new Set(entries.map((entry) => entry.speakerName).filter(Boolean))];
+      const named = speakers.slice(0, LISTED_SPEAKERS).join(", ");
+      const more =
+        speakers.length > LISTED_SPEAKERS ? ` and ${speakers.length - LISTED_SPEAKERS} more` : "";
+      lines.push(
+        `📄 Imported **${file.name}**: ${entries.length} segments` +
+          (speakers.length > 0 ? ` from ${named}${more}` : " without speaker names")
+      );
+      logger.debug(`📄 Imported ${entries.length} transcript segments from ${file.name}`);
+    } catch (error) {
+      if (error instanceof TranscriptFileError) {
+        lines.push(`❌ Couldn't import **${file.name}**: ${error.message}`);
+      } else {
+        logger.error(`❌ Error importing transcript file ${file.name}:`, error);
+        lines.push(`❌ Couldn't import **${file.name}**. Please try again.`);
+      }
+    }
+  }
+
+  if (imported > 0) {
+    lines.push("Ask me to summarize it, search it for a topic or show who spoke the most.");
+  }
+  return { imported, message: lines.join("\n\n") };
+}
+
+// Too large for a transcript: the download stops as soon as it passes the limit
+async function downloadFile(file: SharedTranscriptFile, logger: ILogger): Promise<Buffer> {
+  try {
+    if (file.sharingUrl) {
+      const content = await getGraphClient(logger).downloadSharedFile(
+        file.sharingUrl,
+        MAX_TRANSCRIPT_FILE_BYTES
+      );
+      if (!content) {
+        throw new TranscriptFileError(
+          "I couldn't open the file. It may have been moved, or I don't have access to it."
+        );
+      }
+      return content;
+    }
+
+    const response = await fetch(file.downloadUrl!);
+    if (!response.ok) {
+      throw new Error(`Failed to download transcript file: ${response.status}`);
+    }
+    return await readResponseBody(response, MAX_TRANSCRIPT_FILE_BYTES);
+  } catch (error) {
+    if (error instanceof DownloadTooLargeError) {
+      throw new TranscriptFileError(
+        `The file is over ${MAX_TRANSCRIPT_FILE_BYTES / 1024 / 1024} MB, too large for a transcript`
+      );
+    }
+    throw error;
+  }
+}
+
+async function saveTranscript(
+  fileName: string,
+  entries: TranscriptContent[],
+  context: MessageContext
+): Promise<void> {
+  const meetingId = `file-${createHash("sha256")
+    .update(`${context.conversationId}\n${fileName.toLowerCase()}`)
+    .digest("hex")
+    .slice(0, 16)}`;
+
+  await context.storage.upsertMeeting({
+    meeting_id: meetingId,
+    conversation_id: context.conversationId,
+    subject: fileName.replace(/\.[^.]+$/, ""),
+  });
+  await context.storage.saveTranscript(
+    meetingId,
+    FILE_TRANSCRIPT_ID,
+    entries.map((entry) => ({
+      speaker_name: entry.speakerName || null,
+      content: entry.text,
+      timestamp_start: entry.timestamp || null,
+    }))
+  );
+  // Embed the stored segments so semantic search can find them by meaning
+  await context.memory.indexTranscript(meetingId, await context.storage.getTranscript(meetingId));
+}
@@ -0,0 +1,113 @@
+import { ILogger } from "@microsoft/teams.common";
+import { UsageTotals } from "../storage/types";
+import { isBotAdmin, MessageContext } from "../utils/messageContext";
+import { resolveReportPeriod } from "../utils/utils";
+
+/**
+ * Usage Report
+ * Model spend broken down by capability and by chat, for the admin "usage" command
+ */
+
+// Chats listed by name; the rest are folded into one line
+const MAX_CHATS = 10;
+
+/**
+ * Answer the "usage" command. Only admins get the report, and only in a 1:1 chat so spend
+ * figures aren't posted to a group.
+ */
+export async function runUsageReport(
+  phrase: string,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  if (!isBotAdmin(context)) {
+    return "The usage report is only available to bot admins.";
+  }
+  if (!context.isPersonalChat) {
+    return "Ask me for the usage report in a 1:1 chat so spend isn't shared with the whole group.";
+  }
+
+  const period = resolveReportPeriod(phrase);
+  if (!period) {
+    return `I couldn't understand the period "${phrase}". Try \`/usage this month\` or \`/usage last month\`.`;
+  }
+
+  const totals = await context.storage.getUsageTotals(
+    period.from.toISOString(),
+    period.to.toISOString()
+  );
+  logger.debug(`📊 Usage report ${period.label}: ${totals.length} capability/chat totals`);
+  return formatUsageReport(totals, period.label);
+}
+
+export function formatUsageReport(totals: UsageTotals[], label: string): string {
+  if (totals.length === 0) {
+    return `No model usage recorded ${label}.`;
+  }
+
+  const overall = sumTotals(totals);
+  const byCapability = groupTotals(totals, (row) => row.capability);
+  const byChat = groupTotals(totals, (row) => row.conversation_id);
+
+  const lines = [
+    `**Model usage ${label}**`,
+    `Total: ${formatLine(overall)}`,
+    "",
+    "**By capability**",
+    ...byCapability.map(([capability, sum]) => `- ${capability}: ${formatLine(sum)}`),
+    "",
+    "**By chat**",
+    ...byChat
+      .slice(0, MAX_CHATS)
+      .map(([, sum, rows]) => `- ${chatName(rows[0])}: ${formatLine(sum)}`),
+  ];
+  if (byChat.length > MAX_CHATS) {
+    const rest = sumTotals(byChat.slice(MAX_CHATS).flatMap(([, , rows]) => rows));
+    lines.push(`- ${byChat.length - MAX_CHATS} other chats: ${formatLine(rest)}`);
+  }
+  return lines.join("\n");
+}
+
+type UsageSum = Pick<UsageTotals, "requests" | "prompt_tokens" | "completion_tokens" | "cost_usd">;
+
+function sumTotals(rows: UsageTotals[]): UsageSum {
+  return rows.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      prompt_tokens: sum.prompt_tokens + row.prompt_tokens,
+      completion_tokens: sum.completion_tokens + row.completion_tokens,
+      cost_usd: sum.cost_usd + row.cost_usd,
+    }),
+    { requests: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 }
+  );
+}
+
+// Groups ordered by cost, most expensive first
+function groupTotals(
+  rows: UsageTotals[],
+  key: (row: UsageTotals) => string
+): Array<[string, UsageSum, UsageTotals[]]> {
+  const groups = new Map<string, UsageTotals[]>();
+  for (const row of rows) {
+    groups.set(key(row), [...(groups.get(key(row)) ?? []), row]);
+  }
+  return [...groups.entries()]
+    .map(([name, group]): [string, UsageSum, UsageTotals[]] => [name, sumTotals(group), group])
+    .sort((a, b) => b[1].cost_usd - a[1].cost_usd);
+}
+
+function formatLine(sum: UsageSum): string {
+  const tokens = sum.prompt_tokens + sum.completion_tokens;
+  // Single requests cost fractions of a cent, which two decimals would show as $0.00
+  const cost = sum.cost_usd.toFixed(sum.cost_usd < 1 ? 4 : 2);
+  return (
+    `${sum.requests} ${sum.requests === 1 ? "request" : "requests"} · ` +
+    `${tokens.toLocaleString("en-US")} tokens (${sum.prompt_tokens.toLocaleString("en-US")} in, ` +
+    `${sum.completion_tokens.toLocaleString("en-US")} out) · $${cost}`
+  );
+}
+
+// 1:1 chats and some group chats have no title
+function chatName(row: UsageTotals): string {
+  return row.conversation_name || `Untitled chat (${row.conversation_id.slice(0, 12)}…)`;
+}
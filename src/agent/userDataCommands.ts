@@ -0,0 +1,260 @@
+import { IFileConsentInvokeActivity, MessageActivity } from "@microsoft/teams.api";
+import { ILogger } from "@microsoft/teams.common";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { UserDataErasure, UserDataExport } from "../storage/types";
+import { USER_DATA_EXPORT_DIR } from "../utils/config";
+import { isBotAdmin, isBotAdminId, MessageContext } from "../utils/messageContext";
+
+/**
+ * User Data Commands
+ * The admin commands for data subject requests about one user, by AAD object ID or display name:
+ * - export user <id | name> [dry run]            send everything stored about them as a JSON file
+ * - forget user <id | name> [redact] [dry run]   delete their messages, feedback and the rest,
+ *                                                or with "redact" keep placeholders for what
+ *                                                they said
+ * A dry run only reports what would be exported or erased.
+ *
+ * The export is offered with a file consent card. It waits in USER_DATA_EXPORT_DIR until the
+ * admin accepts, when it's uploaded to their OneDrive and shared in the chat, or declines.
+ */
+
+const FILE_CONSENT_CARD = "application/vnd.microsoft.teams.card.file.consent";
+const FILE_INFO_CARD = "application/vnd.microsoft.teams.card.file.info";
+
+// What the consent card hands back when the admin answers it
+interface ExportConsentContext {
+  exportFile: string;
+}
+
+interface UserDataRequest {
+  user: string;
+  dryRun: boolean;
+  redact: boolean;
+}
+
+export async function runExportCommand(
+  query: string,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  const denied = checkAccess(context);
+  if (denied) return denied;
+
+  const request = parseRequest(query);
+  if (!request || request.redact) {
+    return "Try `/export user <AAD object ID or name>` or `/export user <name> dry run`.";
+  }
+
+  const data = await context.storage.getUserData(request.user);
+  const found = describeExport(countUserData(data));
+  if (request.dryRun) {
+    return `**Dry run:** exporting ${request.user} would include ${found}.${sameNameWarning(data)}`;
+  }
+
+  const exportedAt = new Date().toISOString();
+  const fileName = `${exportedAt.replace(/[:.]/g, "-")}-${fileSafe(request.user)}.json`;
+  const content = JSON.stringify(
+    { user: request.user, exported_at: exportedAt, exported_by: requester(context), ...data },
+    null,
+    2
+  );
+  await fs.mkdir(USER_DATA_EXPORT_DIR, { recursive: true });
+  await fs.writeFile(path.join(USER_DATA_EXPORT_DIR, fileName), content);
+
+  const consent: ExportConsentContext = { exportFile: fileName };
+  context.attachments.push({
+    contentType: FILE_CONSENT_CARD,
+    name: fileName,
+    content: {
+      description: `Data stored about ${request.user}`,
+      sizeInBytes: Buffer.byteLength(content),
+      acceptContext: consent,
+      declineContext: consent,
+    },
+  });
+  logger.info(`📦 ${requester(context)} exported the data stored about ${request.user}`);
+  return (
+    `Exported ${found} about ${request.user}. Allow the upload below to save the file to ` +
+    `your OneDrive.${sameNameWarning(data)}`
+  );
+}
+
+/**
+ * The admin's answer to an export's file consent card: upload the file they accepted to the
+ * location Teams gives, or discard it. Either way the copy waiting on this server is removed.
+ * Returns the message to post in the chat.
+ */
+export async function handleExportFileConsent(
+  activity: IFileConsentInvokeActivity,
+  logger: ILogger
+): Promise<MessageActivity> {
+  const { action, context, uploadInfo } = activity.value;
+  const fileName = (context as ExportConsentContext | undefined)?.exportFile;
+  // Only names written by the export command, never a path into another directory
+  if (!fileName || path.basename(fileName) !== fileName || !fileName.endsWith(".json")) {
+    return new MessageActivity("This file is no longer available.");
+  }
+  if (!isBotAdminId(activity.from.id, activity.from.aadObjectId)) {
+    return new MessageActivity("Exporting user data is only available to bot admins.");
+  }
+
+  const filePath = path.join(USER_DATA_EXPORT_DIR, fileName);
+  let content: Buffer;
+  try {
+    content = await fs.readFile(filePath);
+  } catch {
+    return new MessageActivity("This export was already saved or discarded. Run it again.");
+  }
+
+  if (action !== "accept" || !uploadInfo?.uploadUrl) {
+    await fs.rm(filePath, { force: true });
+    return new MessageActivity(`Discarded the export \`${fileName}\`.`);
+  }
+
+  try {
+    const response = await fetch(uploadInfo.uploadUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Length": String(content.length),
+        "Content-Range": `bytes 0-${content.length - 1}/${content.length}`,
+      },
+      body: new Uint8Array(content),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+  } catch (error) {
+    logger.error(`❌ Error uploading the export ${fileName}:`, error);
+    return new MessageActivity("I couldn't upload the export. Run it again to get a new file.");
+  }
+
+  await fs.rm(filePath, { force: true });
+  logger.info(`📤 Uploaded the export ${fileName} for ${activity.from.name}`);
+  return new MessageActivity("Here is the export:").addAttachments({
+    contentType: FILE_INFO_CARD,
+    contentUrl: uploadInfo.contentUrl,
+    name: uploadInfo.name,
+    content: { uniqueId: uploadInfo.uniqueId, fileType: uploadInfo.fileType },
+  });
+}
+
+export async function runForgetCommand(
+  query: string,
+  context: MessageContext,
+  logger: ILogger
+): Promise<string> {
+  const denied = checkAccess(context);
+  if (denied) return denied;
+
+  const request = parseRequest(query);
+  if (!request) {
+    return "Try `/forget user <AAD object ID or name> dry run` first, then without `dry run`.";
+  }
+
+  const action = request.redact ? "redacted" : "deleted";
+  if (request.dryRun) {
+    const data = await context.storage.getUserData(request.user);
+    return (
+      `**Dry run:** forgetting ${request.user} would affect ` +
+      `${describeErasure(countUserData(data), action)}. Nothing has been changed yet.` +
+      sameNameWarning(data)
+    );
+  }
+
+  const erased = await context.storage.eraseUserData(
+    request.user,
+    request.redact ? "redact" : "delete"
+  );
+  logger.info(
+    `🗑️ ${requester(context)} erased the data stored about ${request.user} ` +
+      `(${JSON.stringify(erased)})`
+  );
+  return `Forgot ${request.user}: ${describeErasure(erased, action)}.`;
+}
+
+// Both commands name someone else's data, so they stay in admins' 1:1 chats
+function checkAccess(context: MessageContext): string | null {
+  if (!isBotAdmin(context)) {
+    return "Exporting and erasing user data is only available to bot admins.";
+  }
+  if (!context.isPersonalChat) {
+    return "Ask me about a user's data in a 1:1 chat, so it isn't shared with the whole group.";
+  }
+  return null;
+}
+
+function parseRequest(query: string): UserDataRequest | null {
+  let text = query.trim();
+  const dryRun = /(^|\s)(--)?dry[- ]run$/i.test(text);
+  text = text.replace(/(^|\s)(--)?dry[- ]run$/i, "").trim();
+  const redact = /(^|\s)redact$/i.test(text);
+  text = text.replace(/(^|\s)redact$/i, "").trim();
+
+  const user = text.replace(/^"(.*)"$/, "$1").trim();
+  return user ? { user, dryRun, redact } : null;
+}
+
+function countUserData(data: UserDataExport): UserDataErasure {
+  return {
+    messages: data.messages.length,
+    feedback: data.feedback.length,
+    meeting_notes: data.meeting_notes.length,
+    action_items: data.action_items.length,
+    transcript_segments: data.transcript_segments.length,
+    email_drafts: data.email_drafts.length,
+    usage: data.usage.length,
+    rate_limit_buckets: data.rate_limit_buckets.length,
+    rate_limit_overrides: data.rate_limit_overrides.length,
+  };
+}
+
+function describeExport(counts: UserDataErasure): string {
+  return (
+    `${plural(counts.messages, "message")}, ${plural(counts.feedback, "feedback reaction")}, ` +
+    `${plural(counts.meeting_notes, "meeting note")} they saved, ` +
+    `${plural(counts.action_items, "action item")} assigned to them, ` +
+    `${plural(counts.transcript_segments, "transcript segment")} they spoke, ` +
+    `${plural(counts.email_drafts, "email draft")}, ${plural(counts.usage, "usage record")} and ` +
+    `${plural(rateLimits(counts), "rate limit record")}`
+  );
+}
+
+// Notes, action items and usage records stay; only the user's name or ID is taken off them
+function describeErasure(counts: UserDataErasure, messageAction: string): string {
+  return (
+    `${plural(counts.messages, "message")} and ` +
+    `${plural(counts.transcript_segments, "transcript segment")} ${messageAction}, ` +
+    `${plural(counts.feedback, "feedback reaction")}, ` +
+    `${plural(counts.email_drafts, "email draft")} and ` +
+    `${plural(rateLimits(counts), "rate limit record")} deleted, and their name removed from ` +
+    `${plural(counts.meeting_notes, "meeting note")}, ` +
+    `${plural(counts.action_items, "action item")} and ${plural(counts.usage, "usage record")}`
+  );
+}
+
+// Buckets and overrides are reported together
+function rateLimits(counts: UserDataErasure): number {
+  return counts.rate_limit_buckets + counts.rate_limit_overrides;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// A display name can belong to more than one person
+function sameNameWarning(data: UserDataExport): string {
+  const senders = new Set(data.messages.map((message) => message.user_id).filter(Boolean));
+  return senders.size > 1
+    ? `\n\n⚠️ These messages were sent from ${senders.size} different accounts. ` +
+        "Use the AAD object ID to pick out one person."
+    : "";
+}
+
+function requester(context: MessageContext): string {
+  return context.userUpn ?? context.userId ?? context.userName;
+}
+
+function fileSafe(user: string): string {
+  return user.replace(/[^a-z0-9@._-]+/gi, "_").slice(0, 64);
+}
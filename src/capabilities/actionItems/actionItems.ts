@@ -1,61 +1,244 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
+import { createChatModel } from "../../services/modelProviders";
+import { ActionItemRecord } from "../../storage/types";
 import { MessageContext } from "../../utils/messageContext";
-import { BaseCapability, CapabilityDefinition } from "../capability";
+import { ActionItemsPayload, BaseCapability, CapabilityDefinition } from "../capability";
+import { ChunkedSummarizer } from "../summarizer/chunkedSummarizer";
 import { ACTION_ITEMS_PROMPT } from "./prompt";
+import {
+  GET_OPEN_ACTION_ITEMS_SCHEMA,
+  GetOpenActionItemsArgs,
+  MARK_ACTION_ITEM_DONE_SCHEMA,
+  MarkActionItemDoneArgs,
+  PRESENT_ACTION_ITEMS_SCHEMA,
+  PresentActionItemsArgs,
+  REASSIGN_ACTION_ITEM_SCHEMA,
+  ReassignActionItemArgs,
+} from "./schema";
 
 export class ActionItemsCapability extends BaseCapability {
   readonly name = "action_items";
 
   createPrompt(context: MessageContext): ChatPrompt {
-    const actionItemsModelConfig = this.getModelConfig("actionItems");
+    const actionItemsModelConfig = this.getModelConfig();
 
     const prompt = new ChatPrompt({
       instructions: ACTION_ITEMS_PROMPT,
-      model: new OpenAIChatModel({
-        model: actionItemsModelConfig.model,
-        apiKey: actionItemsModelConfig.apiKey,
-        endpoint: actionItemsModelConfig.endpoint,
-        apiVersion: actionItemsModelConfig.apiVersion,
-      }),
-    }).function(
-      "generate_action_items",
-      "Generate a list of action items based on the conversation",
-      async () => {
-        const allMessages = await context.memory.getMessagesByTimeRange(
-          context.startTime,
-          context.endTime
-        );
-        return JSON.stringify({
-          messages: allMessages.map((msg: any) => ({
-            timestamp: msg.timestamp,
-            name: msg.name,
-            content: msg.content,
-          })),
-        });
-      }
-    );
+      model: createChatModel(actionItemsModelConfig),
+    })
+      .function(
+        "generate_action_items",
+        "Generate a list of action items based on the conversation",
+        async () => {
+          const allMessages = await context.memory.getMessagesByTimeRange(
+            context.startTime,
+            context.endTime
+          );
+          // Periods too long for one prompt come back as cached partial action item lists
+          const summarizer = new ChunkedSummarizer(context, "action_items", this.logger, {
+            modelConfig: actionItemsModelConfig,
+          });
+          return JSON.stringify(await summarizer.digest(allMessages));
+        }
+      )
+      .function(
+        "present_action_items",
+        "Show the extracted action items to the user as a card",
+        PRESENT_ACTION_ITEMS_SCHEMA,
+        async ({ items }: PresentActionItemsArgs) => {
+          // Record new items in the ledger; items already open in this conversation are reused
+          const open = await context.storage.getOpenActionItems({
+            conversationId: context.conversationId,
+          });
+          const openByTitle = new Map(open.map((item) => [normalizeTitle(item.title), item]));
+          const fresh = items.filter((item) => !openByTitle.has(normalizeTitle(item.task)));
+
+          const created = await context.storage.addActionItems(
+            fresh.map((item) => ({
+              conversation_id: context.conversationId,
+              title: item.task,
+              assignee_name: item.owner ?? null,
+              assignee_email: findMemberEmail(context, item.owner),
+              due_date: item.due_date ?? null,
+            }))
+          );
+          created.forEach((record) => openByTitle.set(normalizeTitle(record.title), record));
+          this.logger.debug(
+            `📝 Recorded ${created.length} new action items (${items.length - fresh.length} already tracked)`
+          );
+
+          this.payload = {
+            type: "action_items",
+            title: "Action Items",
+            items: items.map((item) => ({
+              id: openByTitle.get(normalizeTitle(item.task))?.id,
+              task: item.task,
+              owner: item.owner,
+              dueDate: item.due_date,
+            })),
+          };
+          return "The action items card will be shown to the user.";
+        }
+      )
+      .function(
+        "get_open_action_items",
+        "Look up tracked action items that are not done yet",
+        GET_OPEN_ACTION_ITEMS_SCHEMA,
+        async ({ assignee, scope }: GetOpenActionItemsArgs) => {
+          const isMe = assignee?.trim().toLowerCase() === "me";
+          const conversationId = context.conversationId;
+
+          let records: ActionItemRecord[];
+          if (scope === "all") {
+            // Other chats' items are only listed for the user asking, matched exactly on their
+            // own identity rather than on a name anyone could type
+            const ownIds = [context.userUpn, context.userId].filter((id): id is string => !!id);
+            if ((assignee && !isMe) || ownIds.length === 0) {
+              return JSON.stringify({
+                success: false,
+                error: "Action items from other chats can only be listed for yourself",
+              });
+            }
+            records = await context.storage.getOpenActionItems({ assigneeIds: ownIds });
+          } else if (isMe) {
+            // Match the user by either their UPN or their whole display name, so "me" for Ann
+            // doesn't also list items owned by Joanna
+            const byName = await context.storage.getOpenActionItems({
+              conversationId,
+              assigneeExactName: context.userName,
+            });
+            const byUpn = context.userUpn
+              ? await context.storage.getOpenActionItems({
+                  conversationId,
+                  assigneeIds: [context.userUpn],
+                })
+              : [];
+            records = [...new Map([...byName, ...byUpn].map((item) => [item.id, item])).values()];
+          } else {
+            records = await context.storage.getOpenActionItems({ conversationId, assignee });
+          }
+
+          const owner = isMe || scope === "all" ? context.userName : assignee;
+          this.payload = toPayload(owner ? `Open Action Items · ${owner}` : "Open Action Items", records);
+          return JSON.stringify({
+            success: true,
+            count: records.length,
+            items: records.map((item) => ({
+              id: item.id,
+              title: item.title,
+              assignee: item.assignee_name,
+              due_date: item.due_date,
+              created_at: item.created_at,
+            })),
+          });
+        }
+      )
+      .function(
+        "mark_action_item_done",
+        "Mark a tracked action item as done",
+        MARK_ACTION_ITEM_DONE_SCHEMA,
+        async ({ item_id }: MarkActionItemDoneArgs) => {
+          const item = await this.getOwnActionItem(context, item_id);
+          if (!item) {
+            return JSON.stringify({ success: false, error: `Action item #${item_id} not found` });
+          }
+          if (item.status === "done") {
+            return JSON.stringify({ success: true, message: `Action item #${item_id} was already done` });
+          }
+
+          const updated = await context.storage.setActionItemStatus(item_id, "done");
+          if (updated) {
+            this.payload = toPayload("Action Item Completed", [{ ...item, status: "done" }]);
+          }
+          return JSON.stringify({
+            success: updated,
+            message: updated ? `Marked #${item_id} "${item.title}" as done` : undefined,
+            error: updated ? undefined : `Failed to update action item #${item_id}`,
+          });
+        }
+      )
+      .function(
+        "reassign_action_item",
+        "Give a tracked action item to someone else",
+        REASSIGN_ACTION_ITEM_SCHEMA,
+        async ({ item_id, assignee_name, assignee_email }: ReassignActionItemArgs) => {
+          const item = await this.getOwnActionItem(context, item_id);
+          if (!item) {
+            return JSON.stringify({ success: false, error: `Action item #${item_id} not found` });
+          }
+
+          const email = assignee_email || findMemberEmail(context, assignee_name) || undefined;
+          const updated = await context.storage.reassignActionItem(item_id, assignee_name, email);
+          if (updated) {
+            this.payload = toPayload("Action Item Reassigned", [
+              { ...item, assignee_name, assignee_email: email ?? null },
+            ]);
+          }
+          return JSON.stringify({
+            success: updated,
+            message: updated
+              ? `Reassigned #${item_id} "${item.title}" from ${item.assignee_name || "nobody"} to ${assignee_name}`
+              : undefined,
+            error: updated ? undefined : `Failed to reassign action item #${item_id}`,
+          });
+        }
+      );
 
     this.logger.debug(
       `Initialized Action Items Capability using ${context.members.length} members from context`
     );
     return prompt;
   }
+
+  // Item IDs run across every chat; an item from another chat is treated as not found
+  private async getOwnActionItem(
+    context: MessageContext,
+    itemId: number
+  ): Promise<ActionItemRecord | null> {
+    const item = await context.storage.getActionItem(itemId);
+    return item?.conversation_id === context.conversationId ? item : null;
+  }
+}
+
+// Titles are compared this way wherever the ledger is checked for an existing item
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function findMemberEmail(context: MessageContext, name?: string): string | null {
+  if (!name) return null;
+  const member = context.members.find((m) => m.name.toLowerCase() === name.toLowerCase());
+  return member?.email ?? null;
+}
+
+function toPayload(title: string, records: ActionItemRecord[]): ActionItemsPayload {
+  return {
+    type: "action_items",
+    title,
+    items: records.map((item) => ({
+      id: item.id,
+      task: item.title,
+      owner: item.assignee_name ?? undefined,
+      dueDate: item.due_date ?? undefined,
+      status: item.status,
+    })),
+  };
 }
 
 // Capability definition for manager registration
 export const ACTION_ITEMS_CAPABILITY_DEFINITION: CapabilityDefinition = {
   name: "action_items",
   manager_desc: `**Action Items**: Use for requests like:
-- "next steps", "to-do", "assign task", "my tasks", "what needs to be done"`,
+- "next steps", "to-do", "assign task", "my tasks", "what needs to be done"
+- "my open action items", "what's still open", "mark #12 done", "reassign #7 to Alex"`,
   handler: async (context: MessageContext, logger: ILogger) => {
     const actionItemsCapability = new ActionItemsCapability(logger);
     const result = await actionItemsCapability.processRequest(context);
     if (result.error) {
       logger.error(`Error in Action Items Capability: ${result.error}`);
-      return `Error in Action Items Capability: ${result.error}`;
+      return { ...result, response: `Error in Action Items Capability: ${result.error}` };
     }
-    return result.response || "No response from Action Items Capability";
+    return { ...result, response: result.response || "No response from Action Items Capability" };
   },
 };
@@ -1,3 +1,95 @@
 // Function schemas for the action items capability
 
-// Not needed for this capability because it has no custom functions
+export interface PresentActionItemsArgs {
+  items: Array<{ task: string; owner?: string; due_date?: string }>;
+}
+
+export const PRESENT_ACTION_ITEMS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    items: {
+      type: "array" as const,
+      description: "Action items found in the conversation",
+      items: {
+        type: "object" as const,
+        properties: {
+          task: {
+            type: "string" as const,
+            description: "What needs to be done",
+          },
+          owner: {
+            type: "string" as const,
+            description: "Person responsible, if mentioned",
+          },
+          due_date: {
+            type: "string" as const,
+            description: 'Deadline as mentioned in the conversation (e.g., "Friday"), if any',
+          },
+        },
+        required: ["task"] as string[],
+      },
+    },
+  },
+  required: ["items"] as string[],
+};
+
+export interface GetOpenActionItemsArgs {
+  assignee?: string;
+  scope?: "conversation" | "all";
+}
+
+export const GET_OPEN_ACTION_ITEMS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    assignee: {
+      type: "string" as const,
+      description: 'Only items assigned to this person. Use "me" for the user who is asking.',
+    },
+    scope: {
+      type: "string" as const,
+      enum: ["conversation", "all"],
+      description:
+        'Use "conversation" for items from this chat (default) or "all" for the user\'s own items across every conversation',
+    },
+  },
+};
+
+export interface MarkActionItemDoneArgs {
+  item_id: number;
+}
+
+export const MARK_ACTION_ITEM_DONE_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    item_id: {
+      type: "number" as const,
+      description: "ID of the action item (shown as #ID in the action item list)",
+    },
+  },
+  required: ["item_id"] as string[],
+};
+
+export interface ReassignActionItemArgs {
+  item_id: number;
+  assignee_name: string;
+  assignee_email?: string;
+}
+
+export const REASSIGN_ACTION_ITEM_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    item_id: {
+      type: "number" as const,
+      description: "ID of the action item (shown as #ID in the action item list)",
+    },
+    assignee_name: {
+      type: "string" as const,
+      description: "Name of the new owner",
+    },
+    assignee_email: {
+      type: "string" as const,
+      description: "Email of the new owner, if known from the conversation members",
+    },
+  },
+  required: ["item_id", "assignee_name"] as string[],
+};
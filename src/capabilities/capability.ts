@@ -1,5 +1,7 @@
-import { ChatPrompt } from "@microsoft/teams.ai";
+import { ChatPrompt, ModelMessage } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
+import { checkRateLimit, rateLimitMessage } from "../services/rateLimiter";
+import { runWithUsageScope, usageScopeFor } from "../services/usageTracker";
 import { getModelConfig } from "../utils/config";
 import { MessageContext } from "../utils/messageContext";
 
@@ -9,15 +11,76 @@ import { MessageContext } from "../utils/messageContext";
 export interface CapabilityDefinition {
   name: string;
   manager_desc: string;
-  handler: (context: MessageContext, logger: ILogger) => Promise<string>;
+  handler: (context: MessageContext, logger: ILogger) => Promise<CapabilityResult>;
 }
 
+/**
+ * Summary broken into titled sections of bullet points
+ */
+export interface SummaryPayload {
+  type: "summary";
+  title: string;
+  sections: Array<{ heading: string; points: string[] }>;
+}
+
+/**
+ * Action items with their owners and due dates
+ */
+export interface ActionItemsPayload {
+  type: "action_items";
+  title: string;
+  items: Array<{ id?: number; task: string; owner?: string; dueDate?: string; status?: string }>;
+}
+
+/**
+ * Outcome of creating or updating Planner tasks
+ */
+export interface PlannerTasksPayload {
+  type: "planner_tasks";
+  title: string;
+  tasks: Array<{
+    title: string;
+    status: "created" | "updated" | "skipped" | "failed" | "preview";
+    id?: string;
+    assignees?: string[];
+    dueDate?: string;
+    priority?: string;
+    note?: string;
+  }>;
+}
+
+/**
+ * An email that was sent or is waiting to be sent
+ */
+export interface EmailPreviewPayload {
+  type: "email_preview";
+  status: "sent" | "draft" | "failed" | "cancelled";
+  // Set while the email is a stored draft; the card then offers Send, Edit and Cancel
+  draftId?: number;
+  subject: string;
+  to: string[];
+  cc?: string[];
+  body: string;
+  from?: string;
+}
+
+/**
+ * Typed payloads a capability can return alongside its text response.
+ * They are rendered as Adaptive Cards (see utils/cards.ts) with a text fallback.
+ */
+export type CapabilityPayload =
+  | SummaryPayload
+  | ActionItemsPayload
+  | PlannerTasksPayload
+  | EmailPreviewPayload;
+
 /**
  * Result interface for capability responses
  */
 export interface CapabilityResult {
   response: string;
   error?: string;
+  payload?: CapabilityPayload;
 }
 
 /**
@@ -46,21 +109,38 @@ export interface Capability {
 export abstract class BaseCapability implements Capability {
   abstract readonly name: string;
 
+  /**
+   * Structured payload set by the capability's functions while handling a request
+   */
+  protected payload?: CapabilityPayload;
+
   constructor(public logger: ILogger) {}
 
   abstract createPrompt(context: MessageContext): ChatPrompt;
 
   /**
-   * Default implementation of processRequest that creates a prompt and sends the request
+   * Default implementation of processRequest that creates a prompt and sends the request.
+   * Model usage is recorded under the capability's name, and the capability's rate limit
+   * (RATE_LIMIT_<NAME>) is checked first.
    */
   async processRequest(context: MessageContext): Promise<CapabilityResult> {
     try {
+      this.payload = undefined;
+      const limit = await checkRateLimit(context, this.logger, this.name);
+      if (!limit.allowed) {
+        return { response: rateLimitMessage(limit) };
+      }
+      context.capabilities.push(this.name);
       const prompt = this.createPrompt(context);
 
-      const response = await prompt.send(context.text);
+      const response = await runWithUsageScope<ModelMessage>(
+        usageScopeFor(context, this.name, this.logger),
+        () => prompt.send(context.text)
+      );
 
       return {
         response: response.content || "No response generated",
+        payload: this.payload,
       };
     } catch (error) {
       return {
@@ -71,9 +151,9 @@ export abstract class BaseCapability implements Capability {
   }
 
   /**
-   * Helper method to get model configuration
+   * Helper method to get model configuration, looked up by the capability's name
    */
-  protected getModelConfig(configKey: string) {
-    return getModelConfig(configKey);
+  protected getModelConfig() {
+    return getModelConfig(this.name);
   }
 }
@@ -0,0 +1,207 @@
+import { ChatPrompt } from "@microsoft/teams.ai";
+import { ILogger } from "@microsoft/teams.common";
+import {
+  computeNextRun,
+  describeSchedule,
+  parseTimeOfDay,
+  WEEKDAY_NAMES,
+} from "../../scheduler/cadence";
+import { createChatModel } from "../../services/modelProviders";
+import { DigestScheduleRecord } from "../../storage/types";
+import { MessageContext } from "../../utils/messageContext";
+import { normalizeTimeZone } from "../../utils/timeZones";
+import { BaseCapability, CapabilityDefinition } from "../capability";
+import { DIGEST_PROMPT } from "./prompt";
+import {
+  CREATE_DIGEST_SCHEDULE_SCHEMA,
+  CreateDigestScheduleArgs,
+  DIGEST_SCHEDULE_ID_SCHEMA,
+  DigestScheduleIdArgs,
+} from "./schema";
+
+/**
+ * Digest Capability
+ *
+ * Manages per-conversation schedules for recap posts. The posts themselves are made by
+ * the DigestScheduler (src/scheduler), which reads the same schedules from storage.
+ */
+export class DigestCapability extends BaseCapability {
+  readonly name = "digest";
+
+  createPrompt(context: MessageContext): ChatPrompt {
+    const modelConfig = this.getModelConfig();
+
+    const prompt = new ChatPrompt({
+      instructions: DIGEST_PROMPT,
+      model: createChatModel(modelConfig),
+    })
+      .function(
+        "create_digest_schedule",
+        "Schedule a recurring recap of this chat",
+        CREATE_DIGEST_SCHEDULE_SCHEMA,
+        async (args: CreateDigestScheduleArgs) => {
+          this.logger.debug(`🗓️ Creating digest schedule:`, args);
+
+          const timeOfDay = parseTimeOfDay(args.time);
+          if (!timeOfDay) {
+            return JSON.stringify({
+              success: false,
+              error: `Couldn't understand the time "${args.time}". Use something like "17:00" or "5pm".`,
+            });
+          }
+
+          let dayOfWeek: number | null = null;
+          if (args.cadence === "weekly") {
+            dayOfWeek = WEEKDAY_NAMES.findIndex(
+              (day) => day.toLowerCase() === args.day_of_week?.toLowerCase()
+            );
+            if (dayOfWeek < 0) {
+              return JSON.stringify({
+                success: false,
+                error: "Weekly digests need a day of the week.",
+              });
+            }
+          }
+
+          const timing = {
+            cadence: args.cadence,
+            time_of_day: timeOfDay,
+            day_of_week: dayOfWeek,
+            timezone: normalizeTimeZone(context.timezone),
+          };
+          const schedule = await context.storage.addDigestSchedule({
+            ...timing,
+            conversation_id: context.conversationId,
+            created_by: context.userName,
+            next_run_at: computeNextRun(timing, new Date()).toISOString(),
+          });
+
+          return JSON.stringify({ success: true, schedule: toSummary(schedule) });
+        }
+      )
+      .function(
+        "list_digest_schedules",
+        "List the digest schedules for this chat",
+        async () => {
+          const schedules = await context.storage.getDigestSchedules(context.conversationId);
+          return JSON.stringify({
+            success: true,
+            count: schedules.length,
+            schedules: schedules.map(toSummary),
+          });
+        }
+      )
+      .function(
+        "pause_digest_schedule",
+        "Stop posting a digest until it is resumed",
+        DIGEST_SCHEDULE_ID_SCHEMA,
+        async ({ schedule_id }: DigestScheduleIdArgs) => {
+          const schedule = await this.findSchedule(context, schedule_id);
+          if (!schedule) {
+            return JSON.stringify({
+              success: false,
+              error: `Digest #${schedule_id} not found in this chat`,
+            });
+          }
+
+          const updated = await context.storage.updateDigestSchedule(schedule_id, {
+            status: "paused",
+          });
+          return JSON.stringify({
+            success: updated,
+            schedule: toSummary({ ...schedule, status: "paused" }),
+          });
+        }
+      )
+      .function(
+        "resume_digest_schedule",
+        "Start posting a paused digest again",
+        DIGEST_SCHEDULE_ID_SCHEMA,
+        async ({ schedule_id }: DigestScheduleIdArgs) => {
+          const schedule = await this.findSchedule(context, schedule_id);
+          if (!schedule) {
+            return JSON.stringify({
+              success: false,
+              error: `Digest #${schedule_id} not found in this chat`,
+            });
+          }
+
+          // Resume from the next upcoming slot rather than catching up on the paused period:
+          // the next recap's window starts now instead of at the last run before the pause
+          const now = new Date();
+          const nextRunAt = computeNextRun(schedule, now).toISOString();
+          const updated = await context.storage.updateDigestSchedule(schedule_id, {
+            status: "active",
+            next_run_at: nextRunAt,
+            last_run_at: now.toISOString(),
+          });
+          return JSON.stringify({
+            success: updated,
+            schedule: toSummary({ ...schedule, status: "active", next_run_at: nextRunAt }),
+          });
+        }
+      )
+      .function(
+        "delete_digest_schedule",
+        "Permanently remove a digest schedule",
+        DIGEST_SCHEDULE_ID_SCHEMA,
+        async ({ schedule_id }: DigestScheduleIdArgs) => {
+          const schedule = await this.findSchedule(context, schedule_id);
+          if (!schedule) {
+            return JSON.stringify({
+              success: false,
+              error: `Digest #${schedule_id} not found in this chat`,
+            });
+          }
+
+          const deleted = await context.storage.deleteDigestSchedule(schedule_id);
+          return JSON.stringify({
+            success: deleted,
+            message: deleted
+              ? `Deleted digest #${schedule_id} (${describeSchedule(schedule)})`
+              : undefined,
+          });
+        }
+      );
+
+    this.logger.debug("✅ Initialized Digest Capability!");
+    return prompt;
+  }
+
+  // Schedules can only be managed from the chat they post into
+  private async findSchedule(
+    context: MessageContext,
+    id: number
+  ): Promise<DigestScheduleRecord | null> {
+    const schedule = await context.storage.getDigestSchedule(id);
+    return schedule?.conversation_id === context.conversationId ? schedule : null;
+  }
+}
+
+function toSummary(schedule: DigestScheduleRecord) {
+  return {
+    id: schedule.id,
+    description: describeSchedule(schedule),
+    status: schedule.status,
+    nextRun: schedule.status === "active" ? schedule.next_run_at : null,
+    lastRun: schedule.last_run_at,
+    createdBy: schedule.created_by,
+  };
+}
+
+// Capability definition for manager registration
+export const DIGEST_CAPABILITY_DEFINITION: CapabilityDefinition = {
+  name: "digest",
+  manager_desc: `**Digest**: Use for scheduling recurring recaps of this chat:
+- "post a recap every weekday at 5pm", "weekly digest on Fridays", "daily summary at 9am"
+- "list digests", "pause the recap", "resume the digest", "delete the daily summary"`,
+  handler: async (context: MessageContext, logger: ILogger) => {
+    const digestCapability = new DigestCapability(logger);
+    const result = await digestCapability.processRequest(context);
+    if (result.error) {
+      logger.error(`❌ Error in Digest Capability: ${result.error}`);
+      return { ...result, response: `Error in Digest Capability: ${result.error}` };
+    }
+    return { ...result, response: result.response || "No response from Digest Capability" };
+  },
+};
@@ -0,0 +1,43 @@
+// Function schemas for the digest scheduling capability
+
+export interface CreateDigestScheduleArgs {
+  cadence: "daily" | "weekdays" | "weekly";
+  time: string;
+  day_of_week?: string;
+}
+
+export const CREATE_DIGEST_SCHEDULE_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    cadence: {
+      type: "string" as const,
+      enum: ["daily", "weekdays", "weekly"],
+      description: 'How often to post: every day, Monday-Friday ("weekdays") or once a week',
+    },
+    time: {
+      type: "string" as const,
+      description: 'Time of day to post, e.g. "17:00" or "5pm"',
+    },
+    day_of_week: {
+      type: "string" as const,
+      enum: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+      description: "Day to post on, for weekly schedules",
+    },
+  },
+  required: ["cadence", "time"] as string[],
+};
+
+export interface DigestScheduleIdArgs {
+  schedule_id: number;
+}
+
+export const DIGEST_SCHEDULE_ID_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    schedule_id: {
+      type: "number" as const,
+      description: "ID of the digest schedule (shown as #ID in the schedule list)",
+    },
+  },
+  required: ["schedule_id"] as string[],
+};
@@ -1,24 +1,37 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
-import { getGraphClient, EmailMessage } from "../../services/graphClient";
+import {
+  describeRejected,
+  DraftResult,
+  EmailDrafts,
+  findEmailAddresses,
+} from "../../services/emailDrafts";
+import { createEmailTransport } from "../../services/emailTransport";
+import { EmailMessage, getGraphClient } from "../../services/graphClient";
+import { createChatModel } from "../../services/modelProviders";
+import { EMAIL_TRANSPORT_CONFIG } from "../../utils/config";
 import { MessageContext } from "../../utils/messageContext";
 import { BaseCapability, CapabilityDefinition } from "../capability";
 import { EMAIL_SENDER_PROMPT } from "./prompt";
 import {
-  SEND_EMAIL_SCHEMA,
-  SendEmailArgs,
+  DRAFT_EMAIL_SCHEMA,
+  DraftEmailArgs,
   COMPOSE_EMAIL_SCHEMA,
   ComposeEmailArgs,
-  SEND_MEETING_SUMMARY_SCHEMA,
-  SendMeetingSummaryArgs,
+  DRAFT_MEETING_SUMMARY_SCHEMA,
+  DraftMeetingSummaryArgs,
+  SEND_EMAIL_DRAFT_SCHEMA,
+  SendEmailDraftArgs,
+  UPDATE_EMAIL_DRAFT_SCHEMA,
+  UpdateEmailDraftArgs,
 } from "./schema";
 
 /**
  * Email Sender Capability
  * 
  * Handles email operations including:
- * - Sending emails via Microsoft Graph
+ * - Drafting emails for review and sending them once confirmed, through the configured
+ *   transport (Microsoft Graph, SMTP or a local outbox directory)
  * - Composing professional emails
  * - Sending meeting summaries
  * - Sending action item reminders
@@ -26,23 +39,28 @@ import {
 export class EmailSenderCapability extends BaseCapability {
   readonly name = "email_sender";
 
+  // Drafts created while handling this message; the user hasn't seen them yet, so they can't
+  // be confirmed in the same turn
+  private draftsCreatedThisTurn = new Set<number>();
+
   createPrompt(context: MessageContext): ChatPrompt {
-    const modelConfig = this.getModelConfig("email_sender");
+    const modelConfig = this.getModelConfig();
     const graphClient = getGraphClient(this.logger);
+    const transport = createEmailTransport(EMAIL_TRANSPORT_CONFIG, this.logger);
+    const drafts = new EmailDrafts(context.storage, graphClient, transport, this.logger);
 
     // Add preliminary check that we have Graph API credentials
     if (!process.env.AAD_APP_CLIENT_ID || !process.env.SECRET_AAD_APP_CLIENT_SECRET) {
-      this.logger.warn("⚠️ Graph API credentials not configured - email features will not work");
+      this.logger.warn(
+        transport.name === "graph"
+          ? "⚠️ Graph API credentials not configured - email features will not work"
+          : "⚠️ Graph API credentials not configured - only addresses users type can be emailed"
+      );
     }
 
     const prompt = new ChatPrompt({
       instructions: EMAIL_SENDER_PROMPT,
-      model: new OpenAIChatModel({
-        model: modelConfig.model,
-        apiKey: modelConfig.apiKey,
-        endpoint: modelConfig.endpoint,
-        apiVersion: modelConfig.apiVersion,
-      }),
+      model: createChatModel(modelConfig),
     })
       .function(
         "check_graph_connectivity",
@@ -108,71 +126,24 @@ export class EmailSenderCapability extends BaseCapability {
         }
       )
       .function(
-        "send_email",
-        "Send an email to specified recipients",
-        SEND_EMAIL_SCHEMA,
-        async (args: SendEmailArgs) => {
-          this.logger.debug(`📧 Sending email to:`, args.recipients);
+        "draft_email",
+        "Save an email as a draft and show it to the user for review. Does not send it",
+        DRAFT_EMAIL_SCHEMA,
+        async (args: DraftEmailArgs) => {
+          this.logger.debug(`📝 Drafting email to:`, args.recipients);
 
           try {
-            // Validate recipients
-            if (!args.recipients || args.recipients.length === 0) {
-              return JSON.stringify({
-                success: false,
-                error: "No recipients specified. Please provide at least one email address.",
-              });
-            }
-
-            // Validate email format
-            const invalidEmails = args.recipients.filter(
-              email => !email.match(/^[^\s@]+@[^\s@]+\.[^\s@]+$/)
+            return JSON.stringify(
+              await this.createDraft(context, drafts, {
+                subject: args.subject,
+                body: args.body,
+                is_html: args.is_html,
+                recipients: args.recipients,
+                cc_recipients: args.cc_recipients,
+              })
             );
-            if (invalidEmails.length > 0) {
-              return JSON.stringify({
-                success: false,
-                error: `Invalid email format: ${invalidEmails.join(", ")}`,
-              });
-            }
-
-            // Build email message
-            const emailMessage: EmailMessage = {
-              subject: args.subject,
-              body: {
-                contentType: args.is_html ? "HTML" : "Text",
-                content: args.body,
-              },
-              toRecipients: args.recipients.map(email => ({
-                emailAddress: { address: email },
-              })),
-            };
-
-            if (args.cc_recipients && args.cc_recipients.length > 0) {
-              emailMessage.ccRecipients = args.cc_recipients.map(email => ({
-                emailAddress: { address: email },
-              }));
-            }
-
-            // Send email using bot's email address (ai.solutions@armely.com)
-            const botEmail = graphClient.getBotEmail();
-            this.logger.debug(`📧 Sending email from bot address: ${botEmail}`);
-
-            const result = await graphClient.sendEmail(emailMessage);
-
-            if (result) {
-              return JSON.stringify({
-                success: true,
-                message: `Email sent successfully from ${botEmail} to: ${args.recipients.join(", ")}`,
-                sentFrom: botEmail,
-                sentAt: new Date().toISOString(),
-              });
-            } else {
-              return JSON.stringify({
-                success: false,
-                error: "Failed to send email. Please check Graph API permissions for Mail.Send.",
-              });
-            }
           } catch (error) {
-            this.logger.error("Error sending email:", error);
+            this.logger.error("Error drafting email:", error);
             return JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : "Unknown error",
@@ -181,11 +152,11 @@ export class EmailSenderCapability extends BaseCapability {
         }
       )
       .function(
-        "send_meeting_summary_email",
-        "Send a formatted meeting summary email to participants",
-        SEND_MEETING_SUMMARY_SCHEMA,
-        async (args: SendMeetingSummaryArgs) => {
-          this.logger.debug(`📋 Sending meeting summary email for:`, args.meeting_subject);
+        "draft_meeting_summary_email",
+        "Draft a formatted meeting summary email to participants for the user to review",
+        DRAFT_MEETING_SUMMARY_SCHEMA,
+        async (args: DraftMeetingSummaryArgs) => {
+          this.logger.debug(`📋 Drafting meeting summary email for:`, args.meeting_subject);
 
           try {
             // Build HTML email content
@@ -236,44 +207,16 @@ export class EmailSenderCapability extends BaseCapability {
               </html>
             `;
 
-            const emailMessage: EmailMessage = {
-              subject: `📋 Meeting Summary: ${args.meeting_subject}`,
-              body: {
-                contentType: "HTML",
-                content: emailBody,
-              },
-              toRecipients: args.recipients.map(email => ({
-                emailAddress: { address: email },
-              })),
-            };
-
-            // Send email using bot's email address (ai.solutions@armely.com)
-            const botEmail = graphClient.getBotEmail();
-            this.logger.debug(`📧 Sending meeting summary from bot address: ${botEmail}`);
-
-            const result = await graphClient.sendEmail(emailMessage);
-
-            if (result) {
-              return JSON.stringify({
-                success: true,
-                message: `Meeting summary email sent successfully from ${botEmail} to: ${args.recipients.join(", ")}`,
-                sentFrom: botEmail,
-                preview: {
-                  subject: emailMessage.subject,
-                  recipients: args.recipients,
-                  hasActionItems: (args.action_items?.length || 0) > 0,
-                  actionItemCount: args.action_items?.length || 0,
-                },
-                sentAt: new Date().toISOString(),
-              });
-            } else {
-              return JSON.stringify({
-                success: false,
-                error: "Failed to send meeting summary email. Please check Graph API permissions.",
-              });
-            }
+            return JSON.stringify(
+              await this.createDraft(context, drafts, {
+                subject: `📋 Meeting Summary: ${args.meeting_subject}`,
+                body: emailBody,
+                is_html: true,
+                recipients: args.recipients,
+              })
+            );
           } catch (error) {
-            this.logger.error("Error sending meeting summary email:", error);
+            this.logger.error("Error drafting meeting summary email:", error);
             return JSON.stringify({
               success: false,
               error: error instanceof Error ? error.message : "Unknown error",
@@ -295,16 +238,21 @@ export class EmailSenderCapability extends BaseCapability {
             // Get members from context
             const members = context.members || [];
             
-            const recipients = members.map((member: any) => ({
-              name: member.name || member.displayName,
-              email: member.email || member.mail || `${member.name}@unknown.com`,
-            }));
+            const recipients = members
+              .filter((member) => member.email)
+              .map((member) => ({ name: member.name, email: member.email }));
+            const withoutEmail = members
+              .filter((member) => !member.email)
+              .map((member) => member.name);
 
             return JSON.stringify({
               success: true,
               recipients: recipients,
               count: recipients.length,
-              note: "These are the participants in the current conversation.",
+              participants_without_email: withoutEmail,
+              note:
+                "These are the participants in the current conversation. Ask the user for the " +
+                "address of anyone listed without an email; don't guess it.",
             });
           } catch (error) {
             this.logger.error("Error getting recipients:", error);
@@ -315,6 +263,74 @@ export class EmailSenderCapability extends BaseCapability {
           }
         }
       )
+      .function(
+        "send_email_draft",
+        "Send a draft the user has reviewed and explicitly confirmed",
+        SEND_EMAIL_DRAFT_SCHEMA,
+        async (args: SendEmailDraftArgs) => {
+          const found = await this.findDraft(context, drafts, args.draft_id);
+          if (!found.success || !found.draft) {
+            return JSON.stringify({ success: false, error: found.error });
+          }
+          if (this.draftsCreatedThisTurn.has(found.draft.id)) {
+            return JSON.stringify({
+              success: false,
+              error: "The user hasn't reviewed this draft yet. Wait for them to confirm it.",
+            });
+          }
+
+          this.logger.debug(`📧 Sending email draft #${found.draft.id}`);
+          return JSON.stringify(
+            this.reportDraft(
+              drafts,
+              await drafts.send(found.draft),
+              `Email sent from ${transport.from}`
+            )
+          );
+        }
+      )
+      .function(
+        "update_email_draft",
+        "Change the subject, body or recipients of a pending draft",
+        UPDATE_EMAIL_DRAFT_SCHEMA,
+        async (args: UpdateEmailDraftArgs) => {
+          const found = await this.findDraft(context, drafts, args.draft_id);
+          if (!found.success || !found.draft) {
+            return JSON.stringify({ success: false, error: found.error });
+          }
+
+          const result = await drafts.edit(
+            found.draft,
+            {
+              subject: args.subject,
+              body: args.body,
+              is_html: args.is_html,
+              to_recipients: args.recipients,
+              cc_recipients: args.cc_recipients,
+            },
+            this.addressesFromUser(context)
+          );
+          // The edited draft needs a fresh review before it can be sent
+          if (result.draft) this.draftsCreatedThisTurn.add(result.draft.id);
+          return JSON.stringify(
+            this.reportDraft(drafts, result, "Draft updated and shown again. It has NOT been sent.")
+          );
+        }
+      )
+      .function(
+        "cancel_email_draft",
+        "Discard a pending draft without sending it",
+        SEND_EMAIL_DRAFT_SCHEMA,
+        async (args: SendEmailDraftArgs) => {
+          const found = await this.findDraft(context, drafts, args.draft_id);
+          if (!found.success || !found.draft) {
+            return JSON.stringify({ success: false, error: found.error });
+          }
+          return JSON.stringify(
+            this.reportDraft(drafts, await drafts.cancel(found.draft), "Draft cancelled")
+          );
+        }
+      )
       .function(
         "test_email_integration",
         "Send a test email to verify email integration is working",
@@ -331,21 +347,39 @@ export class EmailSenderCapability extends BaseCapability {
         async (args: { recipient_email: string }) => {
           this.logger.debug(`🧪 Testing email integration`);
 
+          if (findEmailAddresses(args.recipient_email)[0] !== args.recipient_email.trim()) {
+            return JSON.stringify({
+              success: false,
+              message: `❌ Invalid email format: ${args.recipient_email}`,
+            });
+          }
+
           try {
-            const result = await graphClient.sendTestEmail(args.recipient_email);
-            
+            const testMessage: EmailMessage = {
+              subject: "[TEST] Collaborator Bot - Email Integration Test",
+              body: {
+                contentType: "Text",
+                content: [
+                  "This is a test email from the Collaborator bot.",
+                  `Sent at ${new Date().toISOString()} through the ${transport.name} transport.`,
+                  "If you received this, email integration is working.",
+                ].join("\n"),
+              },
+              toRecipients: [{ emailAddress: { address: args.recipient_email.trim() } }],
+            };
+            await transport.send(testMessage);
+
             return JSON.stringify({
-              success: result.success,
-              message: result.message,
-              recommendation: result.success 
-                ? "✅ Email integration is working! All email features are enabled."
-                : "⚠️ Email integration test failed. Check Graph API permissions.",
+              success: true,
+              message: `✅ Test email sent to ${args.recipient_email} from ${transport.from}`,
+              recommendation: "✅ Email integration is working! All email features are enabled.",
             });
           } catch (error) {
             this.logger.error("Error testing email:", error);
             return JSON.stringify({
               success: false,
               message: error instanceof Error ? error.message : "Unknown error",
+              recommendation: `⚠️ Email integration test failed. Check the ${transport.name} setup.`,
             });
           }
         }
@@ -355,6 +389,111 @@ export class EmailSenderCapability extends BaseCapability {
     return prompt;
   }
 
+  /**
+   * Check the recipients and store the email as a draft for the user to review
+   */
+  private async createDraft(
+    context: MessageContext,
+    drafts: EmailDrafts,
+    email: {
+      subject: string;
+      body: string;
+      is_html?: boolean;
+      recipients: string[];
+      cc_recipients?: string[];
+    }
+  ) {
+    if (!email.recipients || email.recipients.length === 0) {
+      return {
+        success: false,
+        error: "No recipients specified. Please provide at least one email address.",
+      };
+    }
+    if (!context.userId) {
+      return { success: false, error: "Drafts need a user to confirm them" };
+    }
+
+    const typedByUser = this.addressesFromUser(context);
+    const to = await drafts.checkRecipients(email.recipients, typedByUser);
+    const cc = await drafts.checkRecipients(email.cc_recipients ?? [], typedByUser);
+    const rejected = [...to.rejected, ...cc.rejected];
+    if (rejected.length > 0) {
+      return {
+        success: false,
+        error: describeRejected({ accepted: [], rejected }),
+        suggestion: "No draft was created. Ask the user for the correct addresses.",
+      };
+    }
+
+    const draft = await drafts.create({
+      conversation_id: context.conversationId,
+      created_by: context.userId,
+      subject: email.subject,
+      body: email.body,
+      is_html: email.is_html,
+      to_recipients: to.accepted,
+      cc_recipients: cc.accepted,
+    });
+    this.draftsCreatedThisTurn.add(draft.id);
+    this.payload = drafts.toPayload(draft);
+
+    return {
+      success: true,
+      draftId: draft.id,
+      status: "draft",
+      to: draft.to_recipients,
+      cc: draft.cc_recipients,
+      message:
+        `Draft #${draft.id} is shown to the user with Send, Edit and Cancel buttons. ` +
+        "It has NOT been sent.",
+    };
+  }
+
+  /**
+   * The draft to act on: the one asked for, or the user's most recent pending draft
+   */
+  private async findDraft(
+    context: MessageContext,
+    drafts: EmailDrafts,
+    draftId?: number
+  ): Promise<DraftResult> {
+    if (draftId === undefined) {
+      const pending = await context.storage.getPendingEmailDrafts(context.conversationId);
+      const own = pending.filter((draft) => draft.created_by === context.userId);
+      if (own.length === 0) {
+        return { success: false, error: "There is no pending email draft to act on" };
+      }
+      draftId = own[own.length - 1].id;
+    }
+    return drafts.getOwnPending(draftId, context.userId, context.conversationId);
+  }
+
+  private reportDraft(drafts: EmailDrafts, result: DraftResult, message: string) {
+    if (result.draft) {
+      this.payload = drafts.toPayload(result.draft);
+    }
+    if (!result.success || !result.draft) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      draftId: result.draft.id,
+      status: result.draft.status,
+      to: result.draft.to_recipients,
+      cc: result.draft.cc_recipients,
+      subject: result.draft.subject,
+      message,
+    };
+  }
+
+  // Addresses the user wrote in their request, plus those Teams reports for participants
+  private addressesFromUser(context: MessageContext): string[] {
+    return [
+      ...findEmailAddresses(context.text),
+      ...context.members.flatMap((member) => (member.email ? [member.email] : [])),
+    ];
+  }
+
   private composeMeetingSummaryTemplate(args: ComposeEmailArgs): string {
     const keyPoints = args.key_points || [];
     const meetingSubject = args.meeting_subject || "Recent Meeting";
@@ -444,8 +583,8 @@ export const EMAIL_SENDER_CAPABILITY_DEFINITION: CapabilityDefinition = {
     const result = await emailCapability.processRequest(context);
     if (result.error) {
       logger.error(`❌ Error in Email Sender Capability: ${result.error}`);
-      return `Error in Email Sender Capability: ${result.error}`;
+      return { ...result, response: `Error in Email Sender Capability: ${result.error}` };
     }
-    return result.response || "No response from Email Sender Capability";
+    return { ...result, response: result.response || "No response from Email Sender Capability" };
   },
 };
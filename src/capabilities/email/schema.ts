@@ -1,10 +1,12 @@
-export const SEND_EMAIL_SCHEMA = {
+export const DRAFT_EMAIL_SCHEMA = {
   type: "object" as const,
   properties: {
     recipients: {
       type: "array" as const,
       items: { type: "string" as const },
-      description: "List of email addresses to send to",
+      description:
+        "Email addresses to send to, exactly as given by the user or listed by " +
+        "get_email_recipients_from_context. Never guess an address",
     },
     subject: {
       type: "string" as const,
@@ -27,7 +29,7 @@ export const SEND_EMAIL_SCHEMA = {
   required: ["recipients", "subject", "body"] as string[],
 };
 
-export interface SendEmailArgs {
+export interface DraftEmailArgs {
   recipients: string[];
   subject: string;
   body: string;
@@ -67,7 +69,7 @@ export interface ComposeEmailArgs {
   meeting_subject?: string;
 }
 
-export const SEND_MEETING_SUMMARY_SCHEMA = {
+export const DRAFT_MEETING_SUMMARY_SCHEMA = {
   type: "object" as const,
   properties: {
     meeting_subject: {
@@ -77,7 +79,9 @@ export const SEND_MEETING_SUMMARY_SCHEMA = {
     recipients: {
       type: "array" as const,
       items: { type: "string" as const },
-      description: "Email addresses of meeting participants",
+      description:
+        "Email addresses of meeting participants, exactly as given by the user or listed by " +
+        "get_email_recipients_from_context. Never guess an address",
     },
     summary: {
       type: "string" as const,
@@ -96,10 +100,66 @@ export const SEND_MEETING_SUMMARY_SCHEMA = {
   required: ["meeting_subject", "recipients", "summary"] as string[],
 };
 
-export interface SendMeetingSummaryArgs {
+export interface DraftMeetingSummaryArgs {
   meeting_subject: string;
   recipients: string[];
   summary: string;
   action_items?: string[];
   include_next_steps?: boolean;
 }
+
+const DRAFT_ID_PROPERTY = {
+  type: "number" as const,
+  description: "ID of the draft; defaults to the user's most recent pending draft",
+};
+
+export const SEND_EMAIL_DRAFT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    draft_id: DRAFT_ID_PROPERTY,
+  },
+  required: [] as string[],
+};
+
+export interface SendEmailDraftArgs {
+  draft_id?: number;
+}
+
+export const UPDATE_EMAIL_DRAFT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    draft_id: DRAFT_ID_PROPERTY,
+    subject: {
+      type: "string" as const,
+      description: "New subject line",
+    },
+    body: {
+      type: "string" as const,
+      description: "New body, replacing the whole current body",
+    },
+    is_html: {
+      type: "boolean" as const,
+      description: "Whether the new body is HTML formatted",
+    },
+    recipients: {
+      type: "array" as const,
+      items: { type: "string" as const },
+      description: "Full new list of recipients, replacing the current ones",
+    },
+    cc_recipients: {
+      type: "array" as const,
+      items: { type: "string" as const },
+      description: "Full new list of CC recipients; use [] to remove them all",
+    },
+  },
+  required: [] as string[],
+};
+
+export interface UpdateEmailDraftArgs {
+  draft_id?: number;
+  subject?: string;
+  body?: string;
+  is_html?: boolean;
+  recipients?: string[];
+  cc_recipients?: string[];
+}
@@ -1,8 +1,23 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
+import { randomUUID } from "node:crypto";
 import { getGraphClient, TranscriptContent } from "../../services/graphClient";
-import { createAudioService, AudioService } from "../../services/audioService";
+import {
+  AudioInputError,
+  prepareAudio,
+  restoreOffsets,
+} from "../../services/audioPreprocessing";
+import {
+  createAudioService,
+  AudioFormat,
+  AudioService,
+  DownloadedAudio,
+  TranscribedSegment,
+} from "../../services/audioService";
+import { createDiarizer, mapSpeakersToAttendees } from "../../services/diarization";
+import { createChatModel } from "../../services/modelProviders";
+import { MeetingRecord } from "../../storage/types";
+import { DIARIZATION_CONFIG } from "../../utils/config";
 
 // TypeScript compilation refresh
 import { MessageContext } from "../../utils/messageContext";
@@ -15,6 +30,10 @@ import {
   ListMeetingsArgs,
   ANALYZE_SPEAKERS_SCHEMA,
   AnalyzeSpeakersArgs,
+  GET_MEETING_NOTES_SCHEMA,
+  GetMeetingNotesArgs,
+  SAVE_MEETING_NOTES_SCHEMA,
+  SaveMeetingNotesArgs,
 } from "./schema";
 
 /**
@@ -27,7 +46,7 @@ import {
  * - Creating meeting summaries
  * - Analyzing meeting content
  * - Joining meetings as a bot
- * - Listening to meeting audio in real-time
+ * - Listening to meeting audio in real-time (streamed in by services/audioIngestion.ts)
  */
 export class MeetingManagerCapability extends BaseCapability {
   readonly name = "meeting_manager";
@@ -38,7 +57,7 @@ export class MeetingManagerCapability extends BaseCapability {
   private audioService: AudioService | null = null;
 
   createPrompt(context: MessageContext): ChatPrompt {
-    const modelConfig = this.getModelConfig("meeting_manager");
+    const modelConfig = this.getModelConfig();
     const graphClient = getGraphClient(this.logger);
     
     // Initialize audio service if credentials available
@@ -46,12 +65,7 @@ export class MeetingManagerCapability extends BaseCapability {
 
     const prompt = new ChatPrompt({
       instructions: MEETING_MANAGER_PROMPT,
-      model: new OpenAIChatModel({
-        model: modelConfig.model,
-        apiKey: modelConfig.apiKey,
-        endpoint: modelConfig.endpoint,
-        apiVersion: modelConfig.apiVersion,
-      }),
+      model: createChatModel(modelConfig),
     })
       .function(
         "check_meeting_access",
@@ -122,6 +136,28 @@ export class MeetingManagerCapability extends BaseCapability {
                   this.lastTranscript = fullTranscript.transcript;
                   this.lastMeetingId = meetingInfo.id;
 
+                  // Keep the transcript so later requests can search it without another Graph call
+                  await context.storage.upsertMeeting({
+                    meeting_id: meetingInfo.id,
+                    conversation_id: context.conversationId,
+                    subject: meetingInfo.subject ?? null,
+                    join_url: meetingInfo.joinWebUrl ?? null,
+                  });
+                  await context.storage.saveTranscript(
+                    meetingInfo.id,
+                    transcripts[0].id,
+                    this.lastTranscript.map((entry) => ({
+                      speaker_name: entry.speakerName,
+                      content: entry.text,
+                      timestamp_start: entry.timestamp,
+                    }))
+                  );
+                  // Embed the stored segments so semantic search can find them by meaning
+                  await context.memory.indexTranscript(
+                    meetingInfo.id,
+                    await context.storage.getTranscript(meetingInfo.id)
+                  );
+
                   const summary = graphClient.getTranscriptSummary(this.lastTranscript);
                   
                   return JSON.stringify({
@@ -133,6 +169,7 @@ export class MeetingManagerCapability extends BaseCapability {
                     })),
                     segments: summary.segments,
                     duration: summary.totalDuration,
+                    meetingId: meetingInfo.id,
                   });
                 }
               }
@@ -184,19 +221,32 @@ export class MeetingManagerCapability extends BaseCapability {
               });
             }
 
-            // Audio format support (wav, mp3, m4a) - reserved for future use
-            const result = await this.audioService.transcribeAudioFromUrl(args.audio_url);
+            const downloaded = await this.audioService.downloadAudio(args.audio_url);
+            // Decoded to 16 kHz mono WAV; corrupt, silent or oversized files stop here
+            const audio = await prepareAudio(
+              downloaded.buffer,
+              (args.audio_format as AudioFormat | undefined) ?? downloaded.format
+            );
+            const result = await this.audioService.transcribeLongAudio(audio.buffer, audio.format, {
+              onProgress: (progress) =>
+                this.logger.debug(
+                  `🎙️ Transcribed ${progress.chunksDone}/${progress.chunkCount} chunks ` +
+                    `(${progress.secondsDone}s of ${progress.totalSeconds}s)`
+                ),
+            });
 
             if (result.success) {
-              // Speaker identification is performed but not yet used in output
-              this.audioService.identifySpeakers(result.segments);
-              const stats = this.audioService.getAudioStats(result.segments);
+              const segments = restoreOffsets(
+                await this.diarize(audio, result.segments, context),
+                audio
+              );
+              const stats = this.audioService.getAudioStats(segments);
 
               return JSON.stringify({
                 success: true,
                 message: result.message,
                 text: result.text.substring(0, 500) + (result.text.length > 500 ? "..." : ""),
-                segments: result.segments.length,
+                segments: segments.length,
                 duration: `${stats.totalDuration} seconds`,
                 speakers: Array.from(stats.speakers.entries()).map(([name, wordCount]) => ({
                   name,
@@ -211,6 +261,9 @@ export class MeetingManagerCapability extends BaseCapability {
               });
             }
           } catch (error) {
+            if (error instanceof AudioInputError) {
+              return JSON.stringify({ success: false, message: `❌ ${error.message}` });
+            }
             this.logger.error("Error transcribing audio:", error);
             return JSON.stringify({
               success: false,
@@ -233,13 +286,18 @@ export class MeetingManagerCapability extends BaseCapability {
               type: "string" as const,
               description: "Optional: Filter results to specific speaker",
             },
+            meeting_id: {
+              type: "string" as const,
+              description: "Optional: ID of a previously fetched meeting to search",
+            },
           },
           required: ["search_query"],
         },
-        async (args: { search_query: string; speaker_name?: string }) => {
+        async (args: { search_query: string; speaker_name?: string; meeting_id?: string }) => {
           this.logger.debug(`🔍 Searching transcript for: ${args.search_query}`);
 
           try {
+            await this.loadStoredTranscript(context, args.meeting_id);
             if (this.lastTranscript.length === 0) {
               return JSON.stringify({
                 success: false,
@@ -341,6 +399,7 @@ export class MeetingManagerCapability extends BaseCapability {
           this.logger.debug(`🎤 Analyzing speakers with args:`, args);
 
           try {
+            await this.loadStoredTranscript(context, args.meeting_id);
             if (this.lastTranscript.length === 0) {
               return JSON.stringify({
                 success: false,
@@ -395,49 +454,56 @@ export class MeetingManagerCapability extends BaseCapability {
       )
       .function(
         "get_meeting_notes",
-        "Get stored notes for a meeting from the database",
-        {
-          type: "object",
-          properties: {
-            meeting_id: {
-              type: "string",
-              description: "Meeting ID to get notes for",
-            },
-          },
-        },
-        async (args: { meeting_id?: string }) => {
-          this.logger.debug(`📝 Getting meeting notes for:`, args.meeting_id);
+        "Get stored notes, summaries and action items for a meeting from the database",
+        GET_MEETING_NOTES_SCHEMA,
+        async (args: GetMeetingNotesArgs) => {
+          this.logger.debug(`📝 Getting meeting notes with args:`, args);
 
           try {
-            // Get notes from conversation memory - meetings are stored as special messages
-            const allMessages = await context.memory.getMessagesByTimeRange(
-              context.startTime,
-              context.endTime
-            );
+            let meetings: MeetingRecord[];
+            if (args.meeting_id) {
+              const meeting = await context.storage.getMeeting(args.meeting_id);
+              meetings = meeting && !belongsToOtherChat(meeting, context) ? [meeting] : [];
+            } else if (args.meeting_subject) {
+              meetings = await context.storage.findMeetings({
+                conversationId: context.conversationId,
+                subject: args.meeting_subject,
+              });
+            } else {
+              meetings = await context.storage.findMeetings({ conversationId: context.conversationId });
+            }
 
-            // Filter for meeting-related messages (could be tagged with meeting ID)
-            const meetingNotes = allMessages.filter((msg: any) => 
-              msg.content.includes("[MEETING NOTES]") || 
-              msg.content.includes("[MEETING SUMMARY]") ||
-              (args.meeting_id && msg.content.includes(args.meeting_id))
-            );
+            const results = [];
+            for (const meeting of meetings) {
+              const notes = await context.storage.getMeetingNotes(meeting.meeting_id, args.note_type);
+              if (notes.length > 0) {
+                results.push({
+                  meetingId: meeting.meeting_id,
+                  subject: meeting.subject,
+                  startTime: meeting.start_time,
+                  hasTranscript: meeting.has_transcript,
+                  notes: notes.map((note) => ({
+                    type: note.note_type,
+                    content: note.content,
+                    author: note.created_by,
+                    savedAt: note.created_at,
+                  })),
+                });
+              }
+            }
 
-            if (meetingNotes.length === 0) {
+            if (results.length === 0) {
               return JSON.stringify({
                 success: true,
-                message: "No stored meeting notes found for the specified time range.",
+                message: "No stored meeting notes found.",
                 suggestion: "Would you like me to create notes from the conversation?",
               });
             }
 
             return JSON.stringify({
               success: true,
-              notes: meetingNotes.map((note: any) => ({
-                timestamp: note.timestamp,
-                content: note.content,
-                author: note.name,
-              })),
-              count: meetingNotes.length,
+              meetings: results,
+              count: results.reduce((total, meeting) => total + meeting.notes.length, 0),
             });
           } catch (error) {
             this.logger.error("Error getting meeting notes:", error);
@@ -451,38 +517,51 @@ export class MeetingManagerCapability extends BaseCapability {
       .function(
         "save_meeting_notes",
         "Save meeting notes or summary to the database",
-        {
-          type: "object",
-          properties: {
-            meeting_subject: {
-              type: "string",
-              description: "Subject/title of the meeting",
-            },
-            notes: {
-              type: "string",
-              description: "Notes content to save",
-            },
-            note_type: {
-              type: "string",
-              enum: ["summary", "action_items", "notes", "transcript"],
-              description: "Type of notes being saved",
-            },
-          },
-          required: ["meeting_subject", "notes"],
-        },
-        async (args: { meeting_subject: string; notes: string; note_type?: string }) => {
+        SAVE_MEETING_NOTES_SCHEMA,
+        async (args: SaveMeetingNotesArgs) => {
           this.logger.debug(`💾 Saving meeting notes:`, args.meeting_subject);
 
           try {
             const noteType = args.note_type || "notes";
-            // Format notes for storage (used in future persistence implementation)
-            this.logger.debug(`Formatted note type: ${noteType.toUpperCase()}`);
 
-            // Notes will be saved through the normal message flow
+            // Reuse the meeting this chat already saved under the same subject, if any
+            let meetingId = args.meeting_id;
+            if (meetingId) {
+              const existing = await context.storage.getMeeting(meetingId);
+              if (existing && belongsToOtherChat(existing, context)) {
+                return JSON.stringify({
+                  success: false,
+                  error: `Meeting ${meetingId} belongs to another chat; notes can't be saved to it from here`,
+                });
+              }
+            } else {
+              const existing = await context.storage.findMeetings({
+                conversationId: context.conversationId,
+                subject: args.meeting_subject,
+              });
+              meetingId =
+                existing.find(
+                  (meeting) => meeting.subject?.toLowerCase() === args.meeting_subject.toLowerCase()
+                )?.meeting_id ?? randomUUID();
+            }
+
+            const meeting = await context.storage.upsertMeeting({
+              meeting_id: meetingId,
+              conversation_id: context.conversationId,
+              subject: args.meeting_subject,
+            });
+            const note = await context.storage.addMeetingNote({
+              meeting_id: meeting.meeting_id,
+              note_type: noteType,
+              content: args.notes,
+              created_by: context.userName,
+            });
+
             return JSON.stringify({
               success: true,
               message: `Meeting ${noteType} saved successfully for: ${args.meeting_subject}`,
-              savedAt: new Date().toISOString(),
+              meetingId: meeting.meeting_id,
+              savedAt: note.created_at,
             });
           } catch (error) {
             this.logger.error("Error saving meeting notes:", error);
@@ -497,6 +576,77 @@ export class MeetingManagerCapability extends BaseCapability {
     this.logger.debug("✅ Initialized Meeting Manager Capability!");
     return prompt;
   }
+
+  /**
+   * Load a saved transcript when none has been fetched in this request.
+   * Uses the given meeting, or the most recent transcribed meeting in this chat. A meeting of
+   * another chat is treated as not found.
+   */
+  private async loadStoredTranscript(context: MessageContext, meetingId?: string): Promise<void> {
+    if (this.lastTranscript.length > 0 && (!meetingId || meetingId === this.lastMeetingId)) {
+      return;
+    }
+
+    const targetId =
+      meetingId ??
+      (await context.storage.findMeetings({ conversationId: context.conversationId })).find(
+        (meeting) => meeting.has_transcript
+      )?.meeting_id;
+    if (!targetId) return;
+    const meeting = await context.storage.getMeeting(targetId);
+    if (!meeting || belongsToOtherChat(meeting, context)) return;
+
+    const segments = await context.storage.getTranscript(targetId);
+    if (segments.length === 0) return;
+
+    this.lastTranscript = segments.map((segment) => ({
+      speakerName: segment.speaker_name || "Unknown",
+      text: segment.content,
+      timestamp: segment.timestamp_start || "",
+    }));
+    this.lastMeetingId = targetId;
+    this.logger.debug(`📂 Loaded ${segments.length} stored transcript segments for ${targetId}`);
+  }
+
+  /**
+   * Label the transcribed segments with their speakers, named after this chat's meeting
+   * attendees where the conversation gives them away. Without diarization the segments come
+   * back unlabelled.
+   */
+  private async diarize(
+    audio: DownloadedAudio,
+    segments: TranscribedSegment[],
+    context: MessageContext
+  ): Promise<TranscribedSegment[]> {
+    let diarized: TranscribedSegment[];
+    try {
+      const diarizer = createDiarizer(
+        DIARIZATION_CONFIG.provider,
+        this.logger,
+        DIARIZATION_CONFIG.maxSpeakers
+      );
+      diarized = await diarizer.diarize(audio.buffer, audio.format, segments);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Could not tell speakers apart: ${error instanceof Error ? error.message : error}`
+      );
+      return segments;
+    }
+
+    const graphClient = getGraphClient(this.logger);
+    const userUpn = context.userUpn || context.userId;
+    const meetingInfo = await graphClient.getChatOnlineMeeting(context.conversationId);
+    const meeting =
+      meetingInfo?.joinWebUrl && userUpn
+        ? await graphClient.getMeetingByJoinUrl(meetingInfo.joinWebUrl, userUpn)
+        : null;
+    return meeting ? mapSpeakersToAttendees(diarized, meeting) : diarized;
+  }
+}
+
+// Meetings saved without a chat (such as streamed audio) aren't tied to one
+function belongsToOtherChat(meeting: MeetingRecord, context: MessageContext): boolean {
+  return meeting.conversation_id !== null && meeting.conversation_id !== context.conversationId;
 }
 
 // Capability definition for manager registration
@@ -512,8 +662,8 @@ export const MEETING_MANAGER_CAPABILITY_DEFINITION: CapabilityDefinition = {
     const result = await meetingCapability.processRequest(context);
     if (result.error) {
       logger.error(`❌ Error in Meeting Manager Capability: ${result.error}`);
-      return `Error in Meeting Manager Capability: ${result.error}`;
+      return { ...result, response: `Error in Meeting Manager Capability: ${result.error}` };
     }
-    return result.response || "No response from Meeting Manager Capability";
+    return { ...result, response: result.response || "No response from Meeting Manager Capability" };
   },
 };
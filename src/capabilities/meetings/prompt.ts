@@ -40,6 +40,10 @@ Available functions:
 - search_transcript: Find specific content within a transcript
 - list_recent_meetings: Lists the user's recent meetings
 - analyze_speakers: Identifies speakers and their contributions
-- get_meeting_notes: Retrieves any stored notes for a meeting
+- get_meeting_notes: Retrieves stored notes, summaries and action items for a meeting (by ID, subject, or this chat)
+- save_meeting_notes: Saves notes, a summary or action items for a meeting so they can be found later
+
+Fetched transcripts are saved, so search_transcript and analyze_speakers work on a meeting fetched earlier without calling get_meeting_transcript again.
+Transcript files shared in the chat (VTT, SRT, DOCX or TXT, e.g. exported from Zoom) are saved the same way, as a meeting named after the file; search_transcript and analyze_speakers work on them too. Don't call get_meeting_transcript for them.
 
 Always call the appropriate function before providing analysis. Do not make up meeting content.`;
@@ -1,3 +1,5 @@
+import { MeetingNoteType } from "../../storage/types";
+
 export const MEETING_MANAGER_SCHEMA = {
   type: "object" as const,
   properties: {
@@ -62,3 +64,60 @@ export interface AnalyzeSpeakersArgs {
   meeting_id?: string;
   speaker_name?: string;
 }
+
+export const GET_MEETING_NOTES_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    meeting_id: {
+      type: "string" as const,
+      description: "Meeting ID to get notes for",
+    },
+    meeting_subject: {
+      type: "string" as const,
+      description: "Subject (or part of it) of the meeting to get notes for",
+    },
+    note_type: {
+      type: "string" as const,
+      enum: ["summary", "action_items", "notes", "transcript"],
+      description: "Optional: only return notes of this type",
+    },
+  },
+  required: [] as string[],
+};
+
+export interface GetMeetingNotesArgs {
+  meeting_id?: string;
+  meeting_subject?: string;
+  note_type?: MeetingNoteType;
+}
+
+export const SAVE_MEETING_NOTES_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    meeting_subject: {
+      type: "string" as const,
+      description: "Subject/title of the meeting",
+    },
+    notes: {
+      type: "string" as const,
+      description: "Notes content to save",
+    },
+    note_type: {
+      type: "string" as const,
+      enum: ["summary", "action_items", "notes", "transcript"],
+      description: "Type of notes being saved",
+    },
+    meeting_id: {
+      type: "string" as const,
+      description: "Optional: ID of the meeting, if known (e.g., from get_meeting_transcript)",
+    },
+  },
+  required: ["meeting_subject", "notes"] as string[],
+};
+
+export interface SaveMeetingNotesArgs {
+  meeting_subject: string;
+  notes: string;
+  note_type?: MeetingNoteType;
+  meeting_id?: string;
+}
@@ -1,20 +1,30 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
-import { getGraphClient, PlannerTask } from "../../services/graphClient";
+import {
+  getGraphClient,
+  GraphClient,
+  PlannerAssignment,
+  PlannerTask,
+  PlannerTaskUpdate,
+} from "../../services/graphClient";
+import { createChatModel } from "../../services/modelProviders";
 import { MessageContext } from "../../utils/messageContext";
-import { BaseCapability, CapabilityDefinition } from "../capability";
+import { normalizeTitle } from "../actionItems/actionItems";
+import { BaseCapability, CapabilityDefinition, PlannerTasksPayload } from "../capability";
 import { PLANNER_PROMPT } from "./prompt";
 import {
   CREATE_TASK_SCHEMA,
   CreateTaskArgs,
   BULK_CREATE_TASKS_SCHEMA,
   BulkCreateTasksArgs,
+  CREATE_TASKS_FROM_ACTION_ITEMS_SCHEMA,
+  CreateTasksFromActionItemsArgs,
   LIST_TASKS_SCHEMA,
   ListTasksArgs,
   UPDATE_TASK_SCHEMA,
   UpdateTaskArgs,
 } from "./schema";
+import { ExtractedTask, TaskExtractor } from "./taskExtractor";
 
 /**
  * Planner Integration Capability
@@ -33,7 +43,7 @@ export class PlannerCapability extends BaseCapability {
   private userIdCache: Map<string, string> = new Map();
 
   createPrompt(context: MessageContext): ChatPrompt {
-    const modelConfig = this.getModelConfig("planner");
+    const modelConfig = this.getModelConfig();
     const graphClient = getGraphClient(this.logger);
 
     // Validate Graph API credentials are present
@@ -43,12 +53,7 @@ export class PlannerCapability extends BaseCapability {
 
     const prompt = new ChatPrompt({
       instructions: PLANNER_PROMPT,
-      model: new OpenAIChatModel({
-        model: modelConfig.model,
-        apiKey: modelConfig.apiKey,
-        endpoint: modelConfig.endpoint,
-        apiVersion: modelConfig.apiVersion,
-      }),
+      model: createChatModel(modelConfig),
     })
       .function(
         "check_planner_connectivity",
@@ -183,16 +188,7 @@ export class PlannerCapability extends BaseCapability {
               const assignments: Record<string, { "@odata.type": string; orderHint: string }> = {};
               
               for (const email of args.assignee_emails) {
-                let userId: string | undefined = this.userIdCache.get(email);
-                
-                if (!userId) {
-                  const user = await graphClient.getUserByEmail(email);
-                  if (user?.id) {
-                    userId = user.id;
-                    this.userIdCache.set(email, user.id);
-                  }
-                }
-
+                const userId = await this.resolveUserId(graphClient, email);
                 if (userId) {
                   assignments[userId] = {
                     "@odata.type": "#microsoft.graph.plannerAssignment",
@@ -209,6 +205,20 @@ export class PlannerCapability extends BaseCapability {
             const createdTask = await graphClient.createPlannerTask(task);
 
             if (createdTask) {
+              this.payload = {
+                type: "planner_tasks",
+                title: "Planner task created",
+                tasks: [
+                  {
+                    title: args.title,
+                    status: "created",
+                    id: createdTask.id,
+                    assignees: args.assignee_emails,
+                    dueDate: args.due_date,
+                    priority: this.getPriorityLabel(args.priority),
+                  },
+                ],
+              };
               return JSON.stringify({
                 success: true,
                 task: {
@@ -243,8 +253,8 @@ export class PlannerCapability extends BaseCapability {
           this.logger.debug(`📋 Creating ${args.tasks.length} tasks in bulk`);
 
           try {
-            const results = [];
-            const failures = [];
+            const results: Array<{ title: string; id?: string; status: string }> = [];
+            const failures: Array<{ title: string; error: string }> = [];
 
             for (const taskData of args.tasks) {
               try {
@@ -267,16 +277,7 @@ export class PlannerCapability extends BaseCapability {
 
                 // Handle assignee
                 if (taskData.assignee_email) {
-                  let userId: string | undefined = this.userIdCache.get(taskData.assignee_email);
-                  
-                  if (!userId) {
-                    const user = await graphClient.getUserByEmail(taskData.assignee_email);
-                    if (user?.id) {
-                      userId = user.id;
-                      this.userIdCache.set(taskData.assignee_email, user.id);
-                    }
-                  }
-
+                  const userId = await this.resolveUserId(graphClient, taskData.assignee_email);
                   if (userId) {
                     task.assignments = {
                       [userId]: {
@@ -308,6 +309,24 @@ export class PlannerCapability extends BaseCapability {
               }
             }
 
+            this.payload = {
+              type: "planner_tasks",
+              title: `Created ${results.length} of ${args.tasks.length} tasks`,
+              tasks: args.tasks.map((taskData) => {
+                const created = results.find((r) => r.title === taskData.title);
+                const failure = failures.find((f) => f.title === taskData.title);
+                return {
+                  title: taskData.title,
+                  status: created ? ("created" as const) : ("failed" as const),
+                  id: created?.id,
+                  assignees: taskData.assignee_email ? [taskData.assignee_email] : undefined,
+                  dueDate: taskData.due_date,
+                  priority: this.getPriorityLabel(taskData.priority),
+                  note: failure?.error,
+                };
+              }),
+            };
+
             return JSON.stringify({
               success: failures.length === 0,
               created: results,
@@ -394,42 +413,124 @@ export class PlannerCapability extends BaseCapability {
           this.logger.debug(`📝 Updating task: ${args.task_id}`);
 
           try {
-            // Note: Planner task updates require ETag for optimistic concurrency
-            // In a real implementation, you'd first GET the task to get the ETag
-            
-            const updates: Partial<PlannerTask> = {};
-            
+            const updates: PlannerTaskUpdate = {};
+
             if (args.title) {
               updates.title = args.title;
             }
-            
+
             if (args.percent_complete !== undefined) {
               updates.percentComplete = args.percent_complete;
             }
-            
+
             if (args.due_date) {
               updates.dueDateTime = new Date(args.due_date).toISOString();
             }
-            
+
             if (args.priority) {
               updates.priority = args.priority;
             }
 
-            // For demo purposes, return success message
-            // Real implementation needs ETag handling
+            // Resolve every new assignee up front so a typo doesn't half-apply the change
+            let assigneeIds: string[] | undefined;
+            if (args.assignee_emails) {
+              assigneeIds = [];
+              const unknown: string[] = [];
+              for (const email of args.assignee_emails) {
+                const userId = await this.resolveUserId(graphClient, email);
+                if (userId) {
+                  assigneeIds.push(userId);
+                } else {
+                  unknown.push(email);
+                }
+              }
+              if (unknown.length > 0) {
+                return JSON.stringify({
+                  success: false,
+                  error: `Could not find users for: ${unknown.join(", ")}`,
+                  suggestion: "Check the email addresses; the task was not changed.",
+                });
+              }
+            }
+
+            if (Object.keys(updates).length === 0 && !assigneeIds) {
+              return JSON.stringify({
+                success: false,
+                error: "No changes were requested for the task",
+              });
+            }
+
+            const result = await graphClient.updatePlannerTask(args.task_id, (current) => {
+              if (!assigneeIds) return updates;
+
+              // Planner replaces assignments key by key: null removes an assignee
+              const assignments: Record<string, PlannerAssignment | null> = {};
+              for (const userId of Object.keys(current.assignments || {})) {
+                if (!assigneeIds.includes(userId)) assignments[userId] = null;
+              }
+              for (const userId of assigneeIds) {
+                if (!current.assignments?.[userId]) {
+                  assignments[userId] = {
+                    "@odata.type": "#microsoft.graph.plannerAssignment",
+                    orderHint: " !",
+                  };
+                }
+              }
+              return Object.keys(assignments).length > 0 ? { ...updates, assignments } : updates;
+            });
+
+            if (!result.success || !result.task) {
+              this.payload = {
+                type: "planner_tasks",
+                title: "Planner task not updated",
+                tasks: [
+                  {
+                    title: args.title || args.task_id,
+                    status: "failed",
+                    id: args.task_id,
+                    note: result.error,
+                  },
+                ],
+              };
+              return JSON.stringify({
+                success: false,
+                taskId: args.task_id,
+                error: result.error || "Failed to update task",
+              });
+            }
+
+            // Report what Planner now holds, not what was requested
+            const task = result.task;
+            const dueDate = task.dueDateTime
+              ? new Date(task.dueDateTime).toLocaleDateString()
+              : undefined;
+            this.payload = {
+              type: "planner_tasks",
+              title: "Planner task updated",
+              tasks: [
+                {
+                  title: task.title,
+                  status: "updated",
+                  id: args.task_id,
+                  assignees: args.assignee_emails,
+                  dueDate,
+                  priority: this.getPriorityLabel(task.priority),
+                  note: this.getStatusLabel(task.percentComplete),
+                },
+              ],
+            };
+
             return JSON.stringify({
               success: true,
               taskId: args.task_id,
-              updates: {
-                title: args.title,
-                status: args.percent_complete !== undefined 
-                  ? this.getStatusLabel(args.percent_complete) 
-                  : undefined,
-                dueDate: args.due_date,
-                priority: args.priority ? this.getPriorityLabel(args.priority) : undefined,
+              task: {
+                title: task.title,
+                status: this.getStatusLabel(task.percentComplete),
+                dueDate: dueDate || "No due date",
+                priority: this.getPriorityLabel(task.priority),
+                assigneeCount: Object.keys(task.assignments || {}).length,
               },
-              message: `Task updated successfully!`,
-              note: "In production, this would apply the updates via Graph API with ETag handling.",
+              message: `Task "${task.title}" updated.`,
             });
           } catch (error) {
             this.logger.error("Error updating task:", error);
@@ -442,39 +543,183 @@ export class PlannerCapability extends BaseCapability {
       )
       .function(
         "create_tasks_from_action_items",
-        "Analyze conversation and create tasks from identified action items",
-        {
-          type: "object",
-          properties: {
-            plan_id: {
-              type: "string",
-              description: "Plan ID to create tasks in",
-            },
-            bucket_id: {
-              type: "string",
-              description: "Optional bucket ID",
-            },
-          },
-          required: ["plan_id"],
-        },
-        async (args: { plan_id: string; bucket_id?: string }) => {
+        "Find the action items in the conversation and create a Planner task for each",
+        CREATE_TASKS_FROM_ACTION_ITEMS_SCHEMA,
+        async (args: CreateTasksFromActionItemsArgs) => {
           this.logger.debug("🎯 Creating tasks from conversation action items");
 
           try {
-            // Get messages from context
             const messages = await context.memory.getMessagesByTimeRange(
               context.startTime,
               context.endTime
             );
+            const extracted = await new TaskExtractor(context, this.logger).extract(messages);
+            if (extracted.length === 0) {
+              return JSON.stringify({
+                success: true,
+                messagesAnalyzed: messages.length,
+                message: "No action items were found in this period, so no tasks were created.",
+              });
+            }
+
+            // Items filed on an earlier run keep their task; the same title is never filed twice
+            const filed = await context.storage.getFiledActionItems(context.conversationId);
+            const filedByTitle = new Map(filed.map((item) => [normalizeTitle(item.title), item]));
+            const seen = new Set<string>();
+            const pending: ExtractedTask[] = [];
+            const skipped: Array<{ task: ExtractedTask; plannerTaskId: string | null }> = [];
+            for (const task of extracted) {
+              const key = normalizeTitle(task.title);
+              if (seen.has(key)) continue;
+              seen.add(key);
+
+              const existing = filedByTitle.get(key);
+              if (existing) {
+                skipped.push({ task, plannerTaskId: existing.planner_task_id });
+              } else {
+                pending.push(task);
+              }
+            }
+
+            const describe = (task: ExtractedTask) => ({
+              title: task.title,
+              assignee: task.assigneeEmail || task.assigneeName,
+              dueDate: task.dueDate || task.dueText,
+              priority: this.getPriorityLabel(task.priority),
+            });
+            const toPayloadTask = (
+              task: ExtractedTask,
+              status: PlannerTasksPayload["tasks"][number]["status"],
+              id?: string,
+              note?: string
+            ) => {
+              const assignee = task.assigneeEmail || task.assigneeName;
+              return {
+                title: task.title,
+                status,
+                id,
+                assignees: assignee ? [assignee] : undefined,
+                dueDate: task.dueDate || task.dueText,
+                priority: this.getPriorityLabel(task.priority),
+                note,
+              };
+            };
+            const skippedNote = "Already filed from this conversation";
+
+            if (args.preview_only) {
+              this.payload = {
+                type: "planner_tasks",
+                title: `${pending.length} task(s) ready to create`,
+                tasks: [
+                  ...pending.map((task) =>
+                    toPayloadTask(task, "preview", undefined, this.previewNote(task))
+                  ),
+                  ...skipped.map(({ task, plannerTaskId }) =>
+                    toPayloadTask(task, "skipped", plannerTaskId ?? undefined, skippedNote)
+                  ),
+                ],
+              };
+              return JSON.stringify({
+                success: true,
+                preview: true,
+                tasks: pending.map(describe),
+                alreadyFiled: skipped.map(({ task }) => task.title),
+                message:
+                  "Nothing was created yet. Ask the user to confirm before creating these tasks.",
+              });
+            }
+
+            const open = await context.storage.getOpenActionItems({
+              conversationId: context.conversationId,
+            });
+            const openByTitle = new Map(open.map((item) => [normalizeTitle(item.title), item]));
+            const created: Array<{ task: ExtractedTask; id: string; note?: string }> = [];
+            const failures: Array<{ task: ExtractedTask; error: string }> = [];
+
+            for (const task of pending) {
+              try {
+                const plannerTask: PlannerTask = {
+                  planId: args.plan_id,
+                  title: task.title,
+                  priority: task.priority,
+                };
+                if (args.bucket_id) {
+                  plannerTask.bucketId = args.bucket_id;
+                }
+                if (task.dueDate) {
+                  plannerTask.dueDateTime = new Date(task.dueDate).toISOString();
+                }
+
+                const userId = task.assigneeEmail
+                  ? await this.resolveUserId(graphClient, task.assigneeEmail)
+                  : undefined;
+                if (userId) {
+                  plannerTask.assignments = {
+                    [userId]: {
+                      "@odata.type": "#microsoft.graph.plannerAssignment",
+                      orderHint: " !",
+                    },
+                  };
+                }
+
+                const createdTask = await graphClient.createPlannerTask(plannerTask);
+                if (!createdTask?.id) {
+                  failures.push({ task, error: "Creation failed" });
+                  continue;
+                }
+
+                // Link the ledger entry so the next run skips this item
+                const ledgerItem = openByTitle.get(normalizeTitle(task.title));
+                if (ledgerItem) {
+                  await context.storage.setActionItemPlannerTask(ledgerItem.id, createdTask.id);
+                } else {
+                  await context.storage.addActionItems([
+                    {
+                      conversation_id: context.conversationId,
+                      title: task.title,
+                      assignee_name: task.assigneeName ?? null,
+                      assignee_email: task.assigneeEmail ?? null,
+                      due_date: task.dueDate ?? task.dueText ?? null,
+                      planner_task_id: createdTask.id,
+                    },
+                  ]);
+                }
+                created.push({
+                  task,
+                  id: createdTask.id,
+                  note: userId ? undefined : this.previewNote(task),
+                });
+              } catch (taskError) {
+                failures.push({
+                  task,
+                  error: taskError instanceof Error ? taskError.message : "Unknown error",
+                });
+              }
+            }
+
+            this.payload = {
+              type: "planner_tasks",
+              title: `Created ${created.length} of ${pending.length} tasks`,
+              tasks: [
+                ...created.map(({ task, id, note }) => toPayloadTask(task, "created", id, note)),
+                ...failures.map(({ task, error }) =>
+                  toPayloadTask(task, "failed", undefined, error)
+                ),
+                ...skipped.map(({ task, plannerTaskId }) =>
+                  toPayloadTask(task, "skipped", plannerTaskId ?? undefined, skippedNote)
+                ),
+              ],
+            };
 
-            // Use AI to extract action items (this would be done by the LLM in a full implementation)
-            // For now, return a message indicating what would happen
             return JSON.stringify({
-              success: true,
-              message: "To create tasks from action items, I need to first analyze the conversation. Let me identify the action items from the discussion.",
+              success: failures.length === 0,
               messagesAnalyzed: messages.length,
-              planId: args.plan_id,
-              suggestion: "Use the bulk_create_tasks function after identifying specific action items.",
+              created: created.map(({ task, id }) => ({ id, ...describe(task) })),
+              failed: failures.map(({ task, error }) => ({ title: task.title, error })),
+              alreadyFiled: skipped.map(({ task }) => task.title),
+              summary:
+                `Created ${created.length} of ${pending.length} tasks; ` +
+                `${skipped.length} already filed`,
             });
           } catch (error) {
             this.logger.error("Error creating tasks from action items:", error);
@@ -490,6 +735,33 @@ export class PlannerCapability extends BaseCapability {
     return prompt;
   }
 
+  /**
+   * Look up a user's Graph ID by email, caching it for the rest of the request
+   */
+  private async resolveUserId(graphClient: GraphClient, email: string): Promise<string | undefined> {
+    let userId = this.userIdCache.get(email);
+    if (!userId) {
+      const user = await graphClient.getUserByEmail(email);
+      if (user?.id) {
+        userId = user.id as string;
+        this.userIdCache.set(email, userId);
+      }
+    }
+    return userId;
+  }
+
+  // Why an extracted task will be created without an assignee or due date
+  private previewNote(task: ExtractedTask): string | undefined {
+    const notes: string[] = [];
+    if (task.assigneeName && !task.assigneeEmail) {
+      notes.push(`"${task.assigneeName}" is not a member of this conversation; left unassigned`);
+    }
+    if (task.dueText) {
+      notes.push(`Could not read the due date "${task.dueText}"`);
+    }
+    return notes.length > 0 ? notes.join(". ") : undefined;
+  }
+
   private getStatusLabel(percentComplete?: number): string {
     switch (percentComplete) {
       case 100:
@@ -530,8 +802,8 @@ export const PLANNER_CAPABILITY_DEFINITION: CapabilityDefinition = {
     const result = await plannerCapability.processRequest(context);
     if (result.error) {
       logger.error(`❌ Error in Planner Capability: ${result.error}`);
-      return `Error in Planner Capability: ${result.error}`;
+      return { ...result, response: `Error in Planner Capability: ${result.error}` };
     }
-    return result.response || "No response from Planner Capability";
+    return { ...result, response: result.response || "No response from Planner Capability" };
   },
 };
@@ -23,7 +23,24 @@ Available functions:
 - create_task: Create a new Planner task
 - list_tasks: List tasks from a plan
 - get_plans: List available Planner plans
-- update_task: Update an existing task
+- update_task: Update an existing task (title, progress, due date, priority, assignees). Use list_tasks to find the task ID first. Only tell the user a task changed when update_task returns success; otherwise pass on its error
 - bulk_create_tasks: Create multiple tasks at once
+- create_tasks_from_action_items: Find the action items in the conversation and file them as tasks in one step. Items already filed from this conversation are skipped, so it is safe to run again. Call it with preview_only first when the user asks to see the tasks before they are created, then again without it once they confirm
 
 Always use the get_plans function first to identify available plans before creating tasks.`;
+
+
+// Structured extraction behind create_tasks_from_action_items
+export const TASK_EXTRACTION_PROMPT = `
+You turn a team conversation into Planner tasks.
+The input is JSON: either "messages" with timestamp, name and content, or "partial_summaries" listing the action items of consecutive stretches of a longer conversation.
+
+Call record_tasks exactly once with every open action item:
+- title: a short imperative task title (e.g., "Send the Q3 budget to finance")
+- assignee: the owner's name or email exactly as written in the conversation; omit it when nobody took the item
+- due: the deadline exactly as said (e.g., "Friday", "end of month", "March 3"); omit it when none was given
+- mentioned_at: the timestamp of the message (or end of the stretch) where the deadline was given, so relative dates can be resolved
+- priority: "urgent" only when described as urgent, blocking or ASAP; "important" for high priority or customer-facing work; "low" when explicitly optional; otherwise "medium"
+
+Leave out items reported as finished, vague intentions without a concrete task, and duplicates. If there are no action items, call record_tasks with an empty list.
+`;
@@ -136,6 +136,13 @@ export const UPDATE_TASK_SCHEMA = {
       enum: [1, 3, 5, 9],
       description: "New priority level",
     },
+    assignee_emails: {
+      type: "array" as const,
+      items: { type: "string" as const },
+      description:
+        "Email addresses of everyone who should be assigned afterwards. " +
+        "Replaces the current assignees; use [] to unassign everyone",
+    },
   },
   required: ["task_id"] as string[],
 };
@@ -146,4 +153,65 @@ export interface UpdateTaskArgs {
   percent_complete?: number;
   due_date?: string;
   priority?: number;
+  assignee_emails?: string[];
+}
+
+export const CREATE_TASKS_FROM_ACTION_ITEMS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    plan_id: {
+      type: "string" as const,
+      description: "Plan ID to create tasks in",
+    },
+    bucket_id: {
+      type: "string" as const,
+      description: "Optional bucket ID",
+    },
+    preview_only: {
+      type: "boolean" as const,
+      description: "Show the tasks that would be created without creating them",
+    },
+  },
+  required: ["plan_id"] as string[],
+};
+
+export interface CreateTasksFromActionItemsArgs {
+  plan_id: string;
+  bucket_id?: string;
+  preview_only?: boolean;
+}
+
+export const RECORD_TASKS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    tasks: {
+      type: "array" as const,
+      items: {
+        type: "object" as const,
+        properties: {
+          title: { type: "string" as const },
+          assignee: { type: "string" as const },
+          due: { type: "string" as const },
+          mentioned_at: { type: "string" as const },
+          priority: {
+            type: "string" as const,
+            enum: ["urgent", "important", "medium", "low"],
+          },
+        },
+        required: ["title"] as string[],
+      },
+      description: "Action items found in the conversation",
+    },
+  },
+  required: ["tasks"] as string[],
+};
+
+export interface RecordTasksArgs {
+  tasks: Array<{
+    title: string;
+    assignee?: string;
+    due?: string;
+    mentioned_at?: string;
+    priority?: "urgent" | "important" | "medium" | "low";
+  }>;
 }
@@ -0,0 +1,122 @@
+import { ChatPrompt } from "@microsoft/teams.ai";
+import { ILogger } from "@microsoft/teams.common";
+import * as chrono from "chrono-node";
+import { createChatModel } from "../../services/modelProviders";
+import { MessageRecord } from "../../storage/types";
+import { getModelConfig } from "../../utils/config";
+import { MessageContext } from "../../utils/messageContext";
+import { ChunkedSummarizer } from "../summarizer/chunkedSummarizer";
+import { TASK_EXTRACTION_PROMPT } from "./prompt";
+import { RECORD_TASKS_SCHEMA, RecordTasksArgs } from "./schema";
+
+/**
+ * Structured extraction of Planner-ready tasks from a conversation
+ *
+ * The model only reports what was said (names, "by Friday", "ASAP"); turning that into
+ * emails, dates and Planner priorities happens here, against the conversation's members and
+ * the time each deadline was given.
+ */
+
+export interface ExtractedTask {
+  title: string;
+  assigneeName?: string;
+  // Only set when the assignee matched a conversation member (or was written as an email)
+  assigneeEmail?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  // The deadline as written, kept when it could not be parsed
+  dueText?: string;
+  priority: number;
+}
+
+// Planner's priority scale: 1=Urgent, 3=Important, 5=Medium, 9=Low
+const PRIORITIES: Record<string, number> = { urgent: 1, important: 3, medium: 5, low: 9 };
+
+export class TaskExtractor {
+  constructor(private context: MessageContext, private logger: ILogger) {}
+
+  async extract(messages: MessageRecord[]): Promise<ExtractedTask[]> {
+    if (messages.length === 0) return [];
+
+    const modelConfig = getModelConfig("planner");
+    // Long periods are condensed into cached per-week action item lists first
+    const summarizer = new ChunkedSummarizer(this.context, "action_items", this.logger, {
+      modelConfig,
+    });
+    const digest = await summarizer.digest(messages);
+
+    let recorded: RecordTasksArgs["tasks"] | null = null;
+    const prompt = new ChatPrompt({
+      instructions: TASK_EXTRACTION_PROMPT,
+      model: createChatModel(modelConfig),
+    }).function(
+      "record_tasks",
+      "Record the action items found in the conversation",
+      RECORD_TASKS_SCHEMA,
+      async ({ tasks }: RecordTasksArgs) => {
+        recorded = tasks ?? [];
+        return "Recorded.";
+      }
+    );
+    await prompt.send(JSON.stringify(digest));
+
+    if (!recorded) {
+      this.logger.warn("⚠️ Task extraction finished without recording any tasks");
+      return [];
+    }
+
+    const fallbackReference = parseTimestamp(this.context.endTime) ?? new Date();
+    return (recorded as RecordTasksArgs["tasks"])
+      .filter((task) => task.title?.trim())
+      .map((task) => {
+        const member = this.findMember(task.assignee);
+        const reference = parseTimestamp(task.mentioned_at) ?? fallbackReference;
+        const dueDate = task.due ? parseDueDate(task.due, reference) : undefined;
+        return {
+          title: task.title.trim(),
+          assigneeName: member?.name ?? task.assignee,
+          assigneeEmail: member?.email,
+          dueDate,
+          dueText: task.due && !dueDate ? task.due : undefined,
+          priority: PRIORITIES[task.priority ?? "medium"] ?? PRIORITIES.medium,
+        };
+      });
+  }
+
+  /**
+   * Match a name as written ("Alex", "alex chen", "alex@contoso.com") to a conversation
+   * member. A first name only counts when exactly one member has it.
+   */
+  private findMember(assignee?: string): { name?: string; email?: string } | null {
+    const wanted = assignee?.trim().toLowerCase();
+    if (!wanted) return null;
+
+    const { members } = this.context;
+    if (wanted.includes("@")) {
+      const member = members.find((m) => m.email?.toLowerCase() === wanted);
+      return { name: member?.name, email: member?.email ?? assignee!.trim() };
+    }
+
+    const exact = members.find((m) => m.name.toLowerCase() === wanted);
+    if (exact) return exact;
+
+    const wantedWords = wanted.split(/\s+/);
+    const partial = members.filter((m) => {
+      const words = m.name.toLowerCase().split(/\s+/);
+      return wantedWords.every((word) => words.includes(word));
+    });
+    return partial.length === 1 ? partial[0] : null;
+  }
+}
+
+function parseTimestamp(timestamp?: string): Date | null {
+  if (!timestamp) return null;
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// "Friday" said on a Wednesday means the coming Friday, not the one before
+function parseDueDate(text: string, reference: Date): string | undefined {
+  const date = chrono.parseDate(text, reference, { forwardDate: true });
+  return date ? date.toISOString().slice(0, 10) : undefined;
+}
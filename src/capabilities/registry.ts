@@ -4,6 +4,7 @@
 // import the capability definition you've defined in the main file of your capability and add to the list below
 import { ACTION_ITEMS_CAPABILITY_DEFINITION } from "./actionItems/actionItems";
 import { CapabilityDefinition } from "./capability";
+import { DIGEST_CAPABILITY_DEFINITION } from "./digest/digest";
 import { EMAIL_SENDER_CAPABILITY_DEFINITION } from "./email/email";
 import { MEETING_MANAGER_CAPABILITY_DEFINITION } from "./meetings/meetings";
 import { PLANNER_CAPABILITY_DEFINITION } from "./planner/planner";
@@ -17,4 +18,5 @@ export const CAPABILITY_DEFINITIONS: CapabilityDefinition[] = [
   MEETING_MANAGER_CAPABILITY_DEFINITION,
   EMAIL_SENDER_CAPABILITY_DEFINITION,
   PLANNER_CAPABILITY_DEFINITION,
+  DIGEST_CAPABILITY_DEFINITION,
 ];
@@ -1,7 +1,8 @@
 import { ObjectSchema } from "@microsoft/teams.ai";
 
 export interface SearchMessagesArgs {
-  keywords: string[];
+  query?: string;
+  keywords?: string[];
   participants?: string[];
   max_results?: number;
 }
@@ -9,10 +10,17 @@ export interface SearchMessagesArgs {
 export const SEARCH_MESSAGES_SCHEMA: ObjectSchema = {
   type: "object",
   properties: {
+    query: {
+      type: "string",
+      description:
+        'Full-text search query. Words are matched by stem (e.g. "meeting" also finds "meetings"). ' +
+        'Supports "exact phrases", AND / OR / NOT (upper case), -word to exclude, ' +
+        "(grouping) and prefix* matching. Separate words are all required unless joined with OR.",
+    },
     keywords: {
       type: "array",
       items: { type: "string" },
-      description: "Keywords to search for in the message content",
+      description: "Optional: keywords to search for, matching any of them. Used when no query is given",
     },
     participants: {
       type: "array",
@@ -24,5 +32,46 @@ export const SEARCH_MESSAGES_SCHEMA: ObjectSchema = {
       description: "Optional: maximum number of results to return (default is 5)",
     },
   },
-  required: ["keywords"],
+  required: [],
+};
+
+export interface SemanticSearchArgs {
+  query: string;
+  keywords?: string[];
+  participants?: string[];
+  include_transcripts?: boolean;
+  max_results?: number;
+}
+
+export const SEMANTIC_SEARCH_SCHEMA: ObjectSchema = {
+  type: "object",
+  properties: {
+    query: {
+      type: "string",
+      description:
+        "What the user is looking for, in natural language (e.g., 'concerns about pricing'). " +
+        "Matched by meaning, so different wording of the same idea is found",
+    },
+    keywords: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Optional: literal words likely to appear in matching messages, including synonyms " +
+        "(e.g., ['price', 'cost', 'expensive']). Keyword matches are merged with the semantic matches",
+    },
+    participants: {
+      type: "array",
+      items: { type: "string" },
+      description: "Optional: list of participant names to filter messages by who said them",
+    },
+    include_transcripts: {
+      type: "boolean",
+      description: "Optional: also search saved meeting transcripts (default is true)",
+    },
+    max_results: {
+      type: "number",
+      description: "Optional: maximum number of results to return (default is 5)",
+    },
+  },
+  required: ["query"],
 };
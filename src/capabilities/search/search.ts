@@ -1,12 +1,18 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { CitationAppearance } from "@microsoft/teams.api";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
+import { createChatModel } from "../../services/modelProviders";
+import { keywordsToQuery } from "../../storage/searchQuery";
 import { MessageRecord } from "../../storage/types";
 import { MessageContext } from "../../utils/messageContext";
 import { BaseCapability, CapabilityDefinition } from "../capability";
 import { SEARCH_PROMPT } from "./prompt";
-import { SEARCH_MESSAGES_SCHEMA, SearchMessagesArgs } from "./schema";
+import {
+  SEARCH_MESSAGES_SCHEMA,
+  SEMANTIC_SEARCH_SCHEMA,
+  SearchMessagesArgs,
+  SemanticSearchArgs,
+} from "./schema";
 
 const dateFormat = new Intl.DateTimeFormat("en-US");
 
@@ -14,49 +20,89 @@ export class SearchCapability extends BaseCapability {
   readonly name = "search";
 
   createPrompt(context: MessageContext): ChatPrompt {
-    const searchModelConfig = this.getModelConfig("search");
+    const searchModelConfig = this.getModelConfig();
 
     const prompt = new ChatPrompt({
       instructions: SEARCH_PROMPT,
-      model: new OpenAIChatModel({
-        model: searchModelConfig.model,
-        apiKey: searchModelConfig.apiKey,
-        endpoint: searchModelConfig.endpoint,
-        apiVersion: searchModelConfig.apiVersion,
-      }),
+      model: createChatModel(searchModelConfig),
     }).function(
       "search_messages",
       "Search the conversation for relevant messages",
       SEARCH_MESSAGES_SCHEMA,
-      async ({ keywords, participants, max_results }: SearchMessagesArgs) => {
-        const selected = await context.memory.getFilteredMessages(
-          context.conversationId,
-          keywords,
-          context.startTime,
-          context.endTime,
+      async ({ query, keywords, participants, max_results }: SearchMessagesArgs) => {
+        const searchQuery = query?.trim() || keywordsToQuery(keywords ?? []);
+        const hits = await context.memory.searchMessages(searchQuery, {
+          startTime: context.startTime,
+          endTime: context.endTime,
           participants,
-          max_results
-        );
-        this.logger.debug(selected);
+          maxResults: max_results,
+        });
+        this.logger.debug(hits);
 
-        if (selected.length === 0) {
+        if (hits.length === 0) {
           return "No matching messages found.";
         }
 
-        // Create and store citations
-        const citations = selected.map((msg) =>
-          createCitationFromRecord(msg, context.conversationId)
+        // Create and store citations, best match first
+        const citations = hits.map((hit) =>
+          createCitationFromRecord(hit.message, context.conversationId, hit.snippet)
         );
         context.citations.push(...citations);
 
         // Return formatted message list with links
-        return selected
-          .map((msg) => {
-            const date = new Date(msg.timestamp).toLocaleString();
-            const preview = msg.content.slice(0, 100);
-            const citation = citations.find((c) => c.keywords?.includes(msg.name));
-            const link = citation?.url || "#";
-            return `• [${msg.name}](${link}) at ${date}: "${preview}"`;
+        return hits
+          .map((hit, index) => {
+            const date = new Date(hit.message.timestamp).toLocaleString();
+            const link = citations[index].url || "#";
+            return `• [${hit.message.name}](${link}) at ${date}: "${hit.snippet}"`;
+          })
+          .join("\n");
+      }
+    ).function(
+      "semantic_search",
+      "Search the conversation and saved meeting transcripts by meaning, merged with keyword matches",
+      SEMANTIC_SEARCH_SCHEMA,
+      async ({
+        query,
+        keywords,
+        participants,
+        include_transcripts,
+        max_results,
+      }: SemanticSearchArgs) => {
+        const hits = await context.memory.semanticSearch(query, {
+          startTime: context.startTime,
+          endTime: context.endTime,
+          participants,
+          includeTranscripts: include_transcripts,
+          maxResults: max_results,
+          keywordQuery: keywords && keywords.length > 0 ? keywordsToQuery(keywords) : undefined,
+        });
+        this.logger.debug(hits);
+
+        if (hits.length === 0) {
+          return "No matching messages found.";
+        }
+
+        return hits
+          .map((hit) => {
+            if (hit.source === "transcript") {
+              const speaker = hit.speakerName ?? "Unknown speaker";
+              const at = hit.timestamp ? ` at ${hit.timestamp}` : "";
+              return `• Meeting transcript, ${speaker}${at}: "${hit.snippet}"`;
+            }
+
+            const message = {
+              role: "user",
+              name: hit.speakerName ?? "Unknown",
+              content: hit.content,
+              timestamp: hit.timestamp ?? "",
+              activity_id: hit.activityId ?? undefined,
+            } as MessageRecord;
+            const citation = createCitationFromRecord(message, context.conversationId, hit.snippet);
+            context.citations.push(citation);
+
+            const date = new Date(message.timestamp).toLocaleString();
+            return `• [${message.name}](${citation.url || "#"}) at ${date}: "${hit.snippet}"`;
           })
           .join("\n");
       }
@@ -76,12 +122,14 @@ function createDeepLink(activityId: string, conversationId: string): string {
 
 function createCitationFromRecord(
   message: MessageRecord,
-  conversationId: string
+  conversationId: string,
+  snippet?: string
 ): CitationAppearance {
   const date = new Date(message.timestamp);
   const formatted = dateFormat.format(date);
   const preview =
-    message.content.length > 120 ? message.content.slice(0, 120) + "..." : message.content;
+    snippet ??
+    (message.content.length > 120 ? message.content.slice(0, 120) + "..." : message.content);
   const deepLink = createDeepLink(message.activity_id!, conversationId);
 
   return {
@@ -96,14 +144,15 @@ function createCitationFromRecord(
 export const SEARCH_CAPABILITY_DEFINITION: CapabilityDefinition = {
   name: "search",
   manager_desc: `**Search**: Use for:
-- "find", "search", "show me", "conversation with", "where did [person] say", "messages from last week"`,
+- "find", "search", "show me", "conversation with", "where did [person] say", "messages from last week"
+- "where did we talk about [topic]", finding discussions by meaning, including meeting transcripts`,
   handler: async (context: MessageContext, logger: ILogger) => {
     const searchCapability = new SearchCapability(logger);
     const result = await searchCapability.processRequest(context);
     if (result.error) {
       logger.error(`❌ Error in Search Capability: ${result.error}`);
-      return `Error in Search Capability: ${result.error}`;
+      return { ...result, response: `Error in Search Capability: ${result.error}` };
     }
-    return result.response || "No response from Search Capability";
+    return { ...result, response: result.response || "No response from Search Capability" };
   },
 };
@@ -0,0 +1,278 @@
+import { ChatPrompt } from "@microsoft/teams.ai";
+import { ILogger } from "@microsoft/teams.common";
+import { createHash } from "node:crypto";
+import { createChatModel } from "../../services/modelProviders";
+import { MessageRecord, SummaryCacheRecord, SummaryKind } from "../../storage/types";
+import { getModelConfig, ModelConfig } from "../../utils/config";
+import { MessageContext } from "../../utils/messageContext";
+import { CHUNK_PROMPTS, MERGE_PROMPTS } from "./prompt";
+
+/**
+ * Map-reduce summarization for message ranges too large for one model call.
+ *
+ * Messages are split into chunks that never cross a week boundary, so the same week is
+ * chunked the same way no matter which period was asked for. Chunk summaries are cached by
+ * a hash of their messages: a repeated "summarize last month" only summarizes the weeks
+ * that changed, typically just the current one.
+ */
+
+export interface ChunkedSummarizerOptions {
+  // Token budget for one chunk of messages and for the partial summaries handed back
+  chunkTokens?: number;
+  // Chunks summarized in parallel
+  concurrency?: number;
+  // Model for the chunk and merge calls; the calling capability's own, else the summarizer's
+  modelConfig?: ModelConfig;
+}
+
+export interface PartialSummary {
+  start_time: string;
+  end_time: string;
+  message_count: number;
+  summary: string;
+}
+
+/**
+ * What the summarizing functions hand to the model: the messages themselves when they fit,
+ * otherwise partial summaries covering the whole range in order
+ */
+export type ConversationDigest =
+  | { messages: Array<{ timestamp: string; name: string; content: string }> }
+  | {
+      message_count: number;
+      chunk_count: number;
+      partial_summaries: PartialSummary[];
+    };
+
+interface SummaryNode extends PartialSummary {
+  range_key: string;
+}
+
+interface Chunk {
+  messages: MessageRecord[];
+  text: string;
+}
+
+const DEFAULT_CHUNK_TOKENS = 12000;
+// Rough English average; close enough for budgeting without shipping a tokenizer
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_CONCURRENCY = 4;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// 1970-01-05 was a Monday; weeks are counted from there so chunks align to Monday 00:00 UTC
+const FIRST_MONDAY_MS = Date.UTC(1970, 0, 5);
+
+export class ChunkedSummarizer {
+  private chunkTokens: number;
+  private concurrency: number;
+  private modelConfig: ModelConfig;
+
+  constructor(
+    private context: MessageContext,
+    private kind: SummaryKind,
+    private logger: ILogger,
+    options: ChunkedSummarizerOptions = {}
+  ) {
+    this.chunkTokens = options.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.modelConfig = options.modelConfig ?? getModelConfig("summarizer");
+  }
+
+  async digest(messages: MessageRecord[]): Promise<ConversationDigest> {
+    const totalTokens = messages.reduce(
+      (sum, message) => sum + estimateTokens(formatMessage(message)),
+      0
+    );
+    if (totalTokens <= this.chunkTokens) {
+      return {
+        messages: messages.map((message) => ({
+          timestamp: message.timestamp,
+          name: message.name,
+          content: message.content,
+        })),
+      };
+    }
+
+    const chunks = this.splitIntoChunks(messages);
+    this.logger.debug(
+      `🧩 ${messages.length} messages (~${totalTokens} tokens) split into ${chunks.length} chunks`
+    );
+
+    let summaries: SummaryNode[] = [];
+    for (let start = 0; start < chunks.length; start += this.concurrency) {
+      const batch = chunks.slice(start, start + this.concurrency);
+      summaries.push(...(await Promise.all(batch.map((chunk) => this.summarizeChunk(chunk)))));
+    }
+    summaries = await this.reduce(summaries);
+
+    return {
+      message_count: messages.length,
+      chunk_count: chunks.length,
+      partial_summaries: summaries.map(({ start_time, end_time, message_count, summary }) => ({
+        start_time,
+        end_time,
+        message_count,
+        summary,
+      })),
+    };
+  }
+
+  private splitIntoChunks(messages: MessageRecord[]): Chunk[] {
+    const chunks: Chunk[] = [];
+    let current: MessageRecord[] = [];
+    let currentLines: string[] = [];
+    let currentTokens = 0;
+    let currentWeek: number | null = null;
+
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push({ messages: current, text: currentLines.join("\n") });
+      current = [];
+      currentLines = [];
+      currentTokens = 0;
+    };
+
+    for (const message of messages) {
+      const week = weekOf(message.timestamp);
+      let line = formatMessage(message);
+      // A single message larger than the budget is cut rather than sent whole
+      if (estimateTokens(line) > this.chunkTokens) {
+        line = `${line.slice(0, this.chunkTokens * CHARS_PER_TOKEN)}…`;
+      }
+      const tokens = estimateTokens(line);
+
+      if (week !== currentWeek || currentTokens + tokens > this.chunkTokens) flush();
+      current.push(message);
+      currentLines.push(line);
+      currentTokens += tokens;
+      currentWeek = week;
+    }
+    flush();
+    return chunks;
+  }
+
+  private async summarizeChunk(chunk: Chunk): Promise<SummaryNode> {
+    const rangeKey = hash(`${this.kind}\n${chunk.text}`);
+    const first = chunk.messages[0];
+    const last = chunk.messages[chunk.messages.length - 1];
+
+    return this.cached(rangeKey, async () => ({
+      range_key: rangeKey,
+      start_time: first.timestamp,
+      end_time: last.timestamp,
+      message_count: chunk.messages.length,
+      summary: await this.complete(CHUNK_PROMPTS[this.kind], chunk.text),
+    }));
+  }
+
+  /**
+   * Merge neighbouring summaries until they fit the budget together. Merges are cached by
+   * their children's keys, so an unchanged month merges from cache too.
+   */
+  private async reduce(summaries: SummaryNode[]): Promise<SummaryNode[]> {
+    let level = summaries;
+    while (level.length > 1 && totalSummaryTokens(level) > this.chunkTokens) {
+      const groups = this.groupByBudget(level);
+      if (groups.length === level.length) break; // Every summary is already at the budget
+
+      level = await Promise.all(
+        groups.map((group) => (group.length === 1 ? group[0] : this.mergeGroup(group)))
+      );
+    }
+    return level;
+  }
+
+  private groupByBudget(summaries: SummaryNode[]): SummaryNode[][] {
+    const groups: SummaryNode[][] = [];
+    let group: SummaryNode[] = [];
+    let tokens = 0;
+
+    for (const summary of summaries) {
+      const summaryTokens = estimateTokens(formatSummary(summary));
+      if (group.length > 0 && tokens + summaryTokens > this.chunkTokens) {
+        groups.push(group);
+        group = [];
+        tokens = 0;
+      }
+      group.push(summary);
+      tokens += summaryTokens;
+    }
+    if (group.length > 0) groups.push(group);
+    return groups;
+  }
+
+  private async mergeGroup(group: SummaryNode[]): Promise<SummaryNode> {
+    const childKeys = group.map((node) => node.range_key).join("\n");
+    const rangeKey = hash(`${this.kind}\nmerge\n${childKeys}`);
+
+    return this.cached(rangeKey, async () => ({
+      range_key: rangeKey,
+      start_time: group[0].start_time,
+      end_time: group[group.length - 1].end_time,
+      message_count: group.reduce((sum, node) => sum + node.message_count, 0),
+      summary: await this.complete(
+        MERGE_PROMPTS[this.kind],
+        group.map(formatSummary).join("\n\n")
+      ),
+    }));
+  }
+
+  private async cached(
+    rangeKey: string,
+    create: () => Promise<SummaryNode>
+  ): Promise<SummaryNode> {
+    const { storage, conversationId } = this.context;
+    const hit: SummaryCacheRecord | null = await storage.getCachedSummary(
+      conversationId,
+      this.kind,
+      rangeKey
+    );
+    if (hit) {
+      return {
+        range_key: rangeKey,
+        start_time: hit.start_time,
+        end_time: hit.end_time,
+        message_count: hit.message_count,
+        summary: hit.summary,
+      };
+    }
+
+    const node = await create();
+    await storage.saveCachedSummary({ conversation_id: conversationId, kind: this.kind, ...node });
+    return node;
+  }
+
+  private async complete(instructions: string, input: string): Promise<string> {
+    const prompt = new ChatPrompt({
+      instructions,
+      model: createChatModel(this.modelConfig),
+    });
+    const response = await prompt.send(input);
+    return response.content || "";
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function formatMessage(message: MessageRecord): string {
+  return `[${message.timestamp}] ${message.name}: ${message.content}`;
+}
+
+function formatSummary(summary: PartialSummary): string {
+  const heading = `## ${summary.start_time} – ${summary.end_time} (${summary.message_count} messages)`;
+  return `${heading}\n${summary.summary}`;
+}
+
+function totalSummaryTokens(summaries: PartialSummary[]): number {
+  return summaries.reduce((sum, summary) => sum + estimateTokens(formatSummary(summary)), 0);
+}
+
+function weekOf(timestamp: string): number {
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? -1 : Math.floor((time - FIRST_MONDAY_MS) / WEEK_MS);
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
@@ -10,13 +10,67 @@ Time ranges will be pre-calculated by the Manager and passed to you as ISO times
 1. Use the appropriate function to retrieve the messages you need based on the user's request
 2. If time ranges are specified in the request, they will be pre-calculated and provided as ISO timestamps
 3. If no specific timespan is mentioned, default to the last 24 hours using get_messages_by_time_range
+   - Long periods come back as partial_summaries (one per stretch of the conversation, in order) instead of raw messages; combine them into one summary and don't mention the partial summaries themselves
+   - For a meeting transcript, including a transcript file someone shared in the chat, use summarize_meeting_transcript instead; each message is one speaker's turn
 4. Analyze the retrieved messages and identify participants and topics
 5. Return a BRIEF summary with proper participant attribution
 6. Include participant names in your analysis and summary points
 7. Be concise and focus on the key topics discussed
 
 <OUTPUT FORMAT>
-- Use bullet points for main topics
-- Include participant names when attributing ideas or statements
+- Call present_summary once with a short title and one section per main topic
+- Each point should include participant names when attributing ideas or statements
+- Then reply with the same summary as concise bullet points; this text is shown when the card can't be displayed
 - Provide a brief overview if requested
 `;
+
+// Map step of chunked summarization: one chunk of raw messages in, notes out
+const CHUNK_SUMMARY_PROMPT = `
+You summarize one stretch of a longer team conversation. Other stretches are summarized separately and combined later.
+Each input line is "[timestamp] name: message".
+
+Write concise bullet points covering:
+- Topics discussed, with who said what (use participant names)
+- Decisions made
+- Open questions and unresolved disagreements
+- Action items with owners and due dates, if any
+
+Keep names, numbers, dates and product names exactly as written. No introduction or closing remarks.
+`;
+
+const CHUNK_ACTION_ITEMS_PROMPT = `
+You extract action items from one stretch of a longer team conversation. Other stretches are handled separately and combined later.
+Each input line is "[timestamp] name: message".
+
+List every action item as a bullet: the task, the owner if known, and the due date if mentioned.
+Include commitments ("I'll..."), requests ("Can you..."), and open decisions someone needs to make.
+Mark items that were later reported as finished with "(done)".
+Keep names and dates exactly as written. If there are no action items, reply "No action items."
+`;
+
+// Reduce step: partial summaries of consecutive stretches in, one combined summary out
+const MERGE_SUMMARY_PROMPT = `
+You combine summaries of consecutive stretches of a team conversation into one summary of the whole period.
+Each input section starts with its time range and message count.
+
+Merge topics that span several stretches, keep participant attribution, and prefer later information when an earlier decision was revisited.
+Write concise bullet points grouped by topic. Keep names, numbers and dates exactly as written.
+`;
+
+const MERGE_ACTION_ITEMS_PROMPT = `
+You combine action item lists from consecutive stretches of a team conversation into one list.
+Each input section starts with its time range and message count.
+
+Remove duplicates, keep the owner and due date, and keep the "(done)" marker when a later stretch reports an item finished.
+Reply with one bullet per action item.
+`;
+
+export const CHUNK_PROMPTS = {
+  summary: CHUNK_SUMMARY_PROMPT,
+  action_items: CHUNK_ACTION_ITEMS_PROMPT,
+};
+
+export const MERGE_PROMPTS = {
+  summary: MERGE_SUMMARY_PROMPT,
+  action_items: MERGE_ACTION_ITEMS_PROMPT,
+};
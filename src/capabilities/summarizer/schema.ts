@@ -1,3 +1,58 @@
 // Function schemas for the summarizer
 
-// Not needed for this capability because it has no custom functions
+export interface PresentSummaryArgs {
+  title: string;
+  sections: Array<{ heading: string; points: string[] }>;
+}
+
+export const PRESENT_SUMMARY_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    title: {
+      type: "string" as const,
+      description: 'Short title for the summary (e.g., "Recap: last 24 hours")',
+    },
+    sections: {
+      type: "array" as const,
+      description: "Topics discussed, one section per topic",
+      items: {
+        type: "object" as const,
+        properties: {
+          heading: {
+            type: "string" as const,
+            description: "Topic name",
+          },
+          points: {
+            type: "array" as const,
+            items: { type: "string" as const },
+            description: "Key points for the topic, with participant attribution",
+          },
+        },
+        required: ["heading", "points"] as string[],
+      },
+    },
+  },
+  required: ["title", "sections"] as string[],
+};
+
+export interface SummarizeTranscriptArgs {
+  meeting_id?: string;
+  subject?: string;
+}
+
+export const SUMMARIZE_TRANSCRIPT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    meeting_id: {
+      type: "string" as const,
+      description: "ID of the meeting whose transcript to summarize",
+    },
+    subject: {
+      type: "string" as const,
+      description:
+        "Meeting subject or transcript file name to look for (partial match). Leave both out " +
+        "for the latest transcript in this chat",
+    },
+  },
+  required: [] as string[],
+};
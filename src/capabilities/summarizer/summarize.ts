@@ -1,56 +1,126 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
+import { createChatModel } from "../../services/modelProviders";
+import { parseTimestamp } from "../../services/transcriptFiles";
+import { MeetingRecord, MessageRecord } from "../../storage/types";
 import { MessageContext } from "../../utils/messageContext";
 import { BaseCapability, CapabilityDefinition } from "../capability";
+import { ChunkedSummarizer } from "./chunkedSummarizer";
 import { SUMMARY_PROMPT } from "./prompt";
+import {
+  PRESENT_SUMMARY_SCHEMA,
+  PresentSummaryArgs,
+  SUMMARIZE_TRANSCRIPT_SCHEMA,
+  SummarizeTranscriptArgs,
+} from "./schema";
 
 export class SummarizerCapability extends BaseCapability {
   readonly name = "summarizer";
 
   createPrompt(context: MessageContext): ChatPrompt {
-    const summarizerModelConfig = this.getModelConfig("summarizer");
+    const summarizerModelConfig = this.getModelConfig();
 
     const prompt = new ChatPrompt({
       instructions: SUMMARY_PROMPT,
-      model: new OpenAIChatModel({
-        model: summarizerModelConfig.model,
-        apiKey: summarizerModelConfig.apiKey,
-        endpoint: summarizerModelConfig.endpoint,
-        apiVersion: summarizerModelConfig.apiVersion,
-      }),
-    }).function("summarize_conversation", "Summarize the conversation history", async () => {
-      const allMessages = await context.memory.getMessagesByTimeRange(
-        context.startTime,
-        context.endTime
+      model: createChatModel(summarizerModelConfig),
+    })
+      .function("summarize_conversation", "Summarize the conversation history", async () => {
+        const allMessages = await context.memory.getMessagesByTimeRange(
+          context.startTime,
+          context.endTime
+        );
+        // Periods too long for one prompt come back as cached partial summaries
+        const summarizer = new ChunkedSummarizer(context, "summary", this.logger, {
+          modelConfig: summarizerModelConfig,
+        });
+        return JSON.stringify(await summarizer.digest(allMessages));
+      })
+      .function(
+        "summarize_meeting_transcript",
+        "Summarize a meeting transcript saved in this chat, including transcript files shared here",
+        SUMMARIZE_TRANSCRIPT_SCHEMA,
+        async ({ meeting_id, subject }: SummarizeTranscriptArgs) => {
+          const meeting = await findTranscribedMeeting(context, meeting_id, subject);
+          if (!meeting) {
+            return JSON.stringify({
+              success: false,
+              message:
+                "No saved transcript found in this chat. Share a transcript file " +
+                "(VTT, SRT, DOCX or TXT) or fetch the meeting transcript first.",
+            });
+          }
+
+          // Each turn is a message from its speaker, timed from the start of the meeting
+          const startMs = Date.parse(meeting.start_time ?? meeting.created_at);
+          const segments = await context.storage.getTranscript(meeting.meeting_id);
+          const turns: MessageRecord[] = segments.map((segment) => ({
+            role: "user",
+            name: segment.speaker_name || "Unknown",
+            content: segment.content,
+            timestamp: new Date(
+              startMs + (parseTimestamp(segment.timestamp_start ?? "") ?? 0)
+            ).toISOString(),
+          }));
+          const summarizer = new ChunkedSummarizer(context, "summary", this.logger, {
+            modelConfig: summarizerModelConfig,
+          });
+          return JSON.stringify({
+            meeting: { meeting_id: meeting.meeting_id, subject: meeting.subject },
+            ...(await summarizer.digest(turns)),
+          });
+        }
+      )
+      .function(
+        "present_summary",
+        "Show the finished summary to the user as a card",
+        PRESENT_SUMMARY_SCHEMA,
+        async ({ title, sections }: PresentSummaryArgs) => {
+          this.payload = { type: "summary", title, sections };
+          return "The summary card will be shown to the user.";
+        }
       );
-      return JSON.stringify({
-        messages: allMessages.map((msg: any) => ({
-          timestamp: msg.timestamp,
-          name: msg.name,
-          content: msg.content,
-        })),
-      });
-    });
 
     this.logger.debug("Initialized Summarizer Capability!");
     return prompt;
   }
 }
 
+// The meeting asked for, or else the most recent one in this chat with a saved transcript.
+// Meetings of other chats are never returned.
+async function findTranscribedMeeting(
+  context: MessageContext,
+  meetingId?: string,
+  subject?: string
+): Promise<MeetingRecord | null> {
+  if (meetingId) {
+    const meeting = await context.storage.getMeeting(meetingId);
+    if (!meeting?.has_transcript) return null;
+    // Meetings saved without a chat (such as streamed audio) aren't tied to one
+    const otherChat =
+      meeting.conversation_id !== null && meeting.conversation_id !== context.conversationId;
+    return otherChat ? null : meeting;
+  }
+  const meetings = await context.storage.findMeetings({
+    conversationId: context.conversationId,
+    subject,
+  });
+  return meetings.find((meeting) => meeting.has_transcript) ?? null;
+}
+
 // Capability definition for manager registration
 export const SUMMARIZER_CAPABILITY_DEFINITION: CapabilityDefinition = {
   name: "summarizer",
   manager_desc: `**Summarizer**: Use for keywords like:
 - "summarize", "overview", "recap", "conversation history"
-- "what did we discuss", "catch me up", "who said what", "recent messages"`,
+- "what did we discuss", "catch me up", "who said what", "recent messages"
+- "summarize the transcript", "summarize the file I shared" (meeting transcripts shared as files)`,
   handler: async (context: MessageContext, logger: ILogger) => {
     const summarizerCapability = new SummarizerCapability(logger);
     const result = await summarizerCapability.processRequest(context);
     if (result.error) {
       logger.error(`Error in Summarizer Capability: ${result.error}`);
-      return `Error in Summarizer Capability: ${result.error}`;
+      return { ...result, response: `Error in Summarizer Capability: ${result.error}` };
     }
-    return result.response || "No response from Summarizer Capability";
+    return { ...result, response: result.response || "No response from Summarizer Capability" };
   },
 };
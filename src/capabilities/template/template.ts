@@ -1,7 +1,7 @@
 import { ChatPrompt } from "@microsoft/teams.ai";
 import { ILogger } from "@microsoft/teams.common";
-import { OpenAIChatModel } from "@microsoft/teams.openai";
 import { getGraphClient } from "../../services/graphClient";
+import { createChatModel } from "../../services/modelProviders";
 import { MessageContext } from "../../utils/messageContext";
 import { BaseCapability, CapabilityDefinition } from "../capability";
 import { TEMPLATE_PROMPT } from "./prompt";
@@ -41,7 +41,8 @@ import {
  *    ];
  *    ```
  * 
- * 5. ADD model config in src/utils/config.ts (optional - uses DEFAULT if not set)
+ * 5. ADD model settings under "capabilities" in models.json, keyed by the capability's name
+ *    (optional - uses the defaults if not set)
  * 
  * ============================================================================
  * 
@@ -49,6 +50,7 @@ import {
  * - graphClient: Microsoft Graph API (users, mail, planner, meetings)
  * - context.memory: Conversation memory for this chat
  * - this.logger: Logging with debug/info/warn/error levels
+ * - this.payload: Typed result (see CapabilityPayload) rendered as an Adaptive Card
  * 
  * CONTEXT AVAILABLE:
  * - context.text: User's message text
@@ -64,17 +66,12 @@ export class TemplateCapability extends BaseCapability {
   readonly name = "template"; // CHANGE THIS to your capability name
 
   createPrompt(context: MessageContext): ChatPrompt {
-    const modelConfig = this.getModelConfig("template"); // CHANGE "template" to your capability name
+    const modelConfig = this.getModelConfig(); // Looked up by the name above
     const graphClient = getGraphClient(this.logger); // Microsoft Graph client for API calls
 
     const prompt = new ChatPrompt({
       instructions: TEMPLATE_PROMPT,
-      model: new OpenAIChatModel({
-        model: modelConfig.model,
-        apiKey: modelConfig.apiKey,
-        endpoint: modelConfig.endpoint,
-        apiVersion: modelConfig.apiVersion,
-      }),
+      model: createChatModel(modelConfig),
     })
       // ========================================
       // PRIMARY FUNCTION - Main capability action
@@ -198,9 +195,9 @@ Examples:
     
     if (result.error) {
       logger.error(`❌ Error in Template Capability: ${result.error}`);
-      return `Error in Template Capability: ${result.error}`;
+      return { ...result, response: `Error in Template Capability: ${result.error}` };
     }
     
-    return result.response || "No response from Template Capability";
+    return { ...result, response: result.response || "No response from Template Capability" };
   },
 };
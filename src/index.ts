@@ -3,11 +3,32 @@ import { TokenCredentials } from "@microsoft/teams.api";
 import { App } from "@microsoft/teams.apps";
 import { ConsoleLogger } from "@microsoft/teams.common";
 import { DevtoolsPlugin } from "@microsoft/teams.dev";
+import { dispatchCommand, parseCommand } from "./agent/commands";
+import { handleEmailDraftAction, isEmailDraftAction } from "./agent/emailDraftActions";
+import { handleExportFileConsent } from "./agent/userDataCommands";
 import { ManagerPrompt } from "./agent/manager";
+import { findTranscriptFiles, importTranscriptFiles } from "./agent/transcriptImport";
+import { DigestScheduler } from "./scheduler/digestScheduler";
+import { RetentionSweeper } from "./scheduler/retentionSweeper";
+import { registerAudioIngestionRoute } from "./services/audioIngestion";
+import { EmailDrafts } from "./services/emailDrafts";
+import { createEmailTransport } from "./services/emailTransport";
+import { createEmbeddingProvider } from "./services/embeddingService";
+import { getGraphClient } from "./services/graphClient";
+import { validateModelConfigs } from "./services/modelProviders";
+import { checkRateLimit, rateLimitMessage } from "./services/rateLimiter";
+import { SemanticIndex } from "./services/semanticIndex";
 import { IDatabase } from "./storage/database";
 import { StorageFactory } from "./storage/storageFactory";
-import { logModelConfigs, validateEnvironment } from "./utils/config";
+import {
+  EMAIL_TRANSPORT_CONFIG,
+  EMBEDDING_CONFIG,
+  logModelConfigs,
+  RETENTION_CONFIG,
+  validateEnvironment,
+} from "./utils/config";
 import { createMessageContext } from "./utils/messageContext";
+import { watchModelConfigFile } from "./utils/modelConfigFile";
 import { createMessageRecords, finalizePromptResponse } from "./utils/utils";
 
 const logger = new ConsoleLogger("collaborator", { level: "debug" });
@@ -46,6 +67,7 @@ const app = new App({
 // Initialize storage
 let storage: IDatabase;
 let feedbackStorage: IDatabase;
+let semanticIndex: SemanticIndex;
 
 app.on("message.submit.feedback", async ({ activity }) => {
   try {
@@ -59,7 +81,8 @@ app.on("message.submit.feedback", async ({ activity }) => {
     const success = await feedbackStorage.recordFeedback(
       activity.replyToId,
       reaction,
-      feedbackJson
+      feedbackJson,
+      activity.from.aadObjectId
     );
 
     if (success) {
@@ -74,29 +97,97 @@ app.on("message.submit.feedback", async ({ activity }) => {
   }
 });
 
+app.on("card.action", async ({ activity }) => {
+  if (!isEmailDraftAction(activity)) {
+    logger.warn(`Unhandled card action: ${activity.value?.action?.verb}`);
+    return {
+      statusCode: 200,
+      type: "application/vnd.microsoft.activity.message",
+      value: "This card action is no longer available.",
+    };
+  }
+
+  const emailLogger = logger.child("email");
+  const drafts = new EmailDrafts(
+    storage,
+    getGraphClient(emailLogger),
+    createEmailTransport(EMAIL_TRANSPORT_CONFIG, emailLogger),
+    emailLogger
+  );
+  return handleEmailDraftAction(drafts, activity, emailLogger);
+});
+
+// An admin saving or discarding a user data export
+app.on("file.consent", async ({ activity, send }) => {
+  await send(await handleExportFileConsent(activity, logger.child("commands")));
+});
+
 app.on("message", async ({ send, activity, api }) => {
   try {
     logger.debug(`📨 Received message: "${activity.text}" from ${activity.from.name}`);
     
     const botMentioned = activity.entities?.some((e: any) => e.type === "mention");
-    const context = botMentioned
-      ? await createMessageContext(storage, activity, api)
-      : await createMessageContext(storage, activity);
+    const context = await createMessageContext(
+      storage,
+      activity,
+      botMentioned ? api : undefined,
+      semanticIndex
+    );
 
     let trackedMessages;
 
-    if (!activity.conversation.isGroup || botMentioned) {
+    // Transcript files are imported wherever they're shared; unasked, the bot only speaks up
+    // in group chats about files it could read
+    const transcriptFiles = findTranscriptFiles(activity);
+    if (transcriptFiles.length > 0) {
+      const imported = await importTranscriptFiles(
+        transcriptFiles,
+        context,
+        logger.child("transcriptImport")
+      );
+      if (imported.imported > 0 || !activity.conversation.isGroup || botMentioned) {
+        await send(imported.message);
+      }
+    }
+    // A file shared without a question is answered by the import alone
+    const hasRequest =
+      transcriptFiles.length === 0 ||
+      context.text.replace(/<at>.*?<\/at>|<[^>]*>/g, "").trim() !== "";
+
+    if ((!activity.conversation.isGroup || botMentioned) && hasRequest) {
       // process request if One-on-One chat or if @mentioned in Groupchat
       logger.debug("🤖 Bot processing message...");
       await send({ type: "typing" });
 
-      const manager = new ManagerPrompt(context, logger.child("manager"));
-      const result = await manager.processRequest();
-      const formattedResult = finalizePromptResponse(result.response, context, logger);
+      // Over-limit senders get a "slow down" reply without touching the model. Known commands
+      // go straight to their capability; everything else goes to the manager.
+      const limit = await checkRateLimit(context, logger.child("rateLimit"));
+      const command = parseCommand(context.text);
+      let response: string;
+      if (!limit.allowed) {
+        response = rateLimitMessage(limit);
+      } else if (command) {
+        response = await dispatchCommand(command, context, logger.child("commands"));
+      } else {
+        const manager = new ManagerPrompt(context, logger.child("manager"));
+        const result = await manager.processRequest();
+        response = result.response;
+      }
+      const formattedResult = finalizePromptResponse(response, context, logger);
 
       const sent = await send(formattedResult);
       formattedResult.id = sent.id;
 
+      // Feedback on the reply is reported against the capabilities that wrote it; replies
+      // the manager answered on its own count as "manager"
+      if (limit.allowed) {
+        await storage.recordReplyCapabilities(
+          sent.id,
+          context.conversationId,
+          context.capabilities.length > 0 ? context.capabilities : ["manager"]
+        );
+      }
+
       trackedMessages = createMessageRecords([activity, formattedResult]);
       logger.debug("✅ Response sent successfully");
     } else {
@@ -126,13 +217,25 @@ app.on("conversationUpdate", async ({ activity }) => {
   const port = process.env.PORT || process.env.port || 3978;
   try {
     validateEnvironment(logger);
+    validateModelConfigs();
     logModelConfigs(logger);
+    // Edits to the model config file apply from the next message on
+    watchModelConfigFile(logger, validateModelConfigs, () => logModelConfigs(logger));
 
     // Initialize storage
     storage = await StorageFactory.createStorage(logger.child("storage"));
     feedbackStorage = storage;
+    const embeddingLogger = logger.child("embeddings");
+    semanticIndex = new SemanticIndex(
+      storage,
+      createEmbeddingProvider(EMBEDDING_CONFIG, embeddingLogger),
+      embeddingLogger
+    );
 
     logger.debug("✅ Storage initialized successfully");
+
+    // Live meeting audio is streamed to the bot's own server, next to the messaging endpoint
+    registerAudioIngestionRoute(app.server.adapter, storage, logger.child("audio"));
   } catch (error) {
     logger.error("❌ Configuration error:", error instanceof Error ? error.message : JSON.stringify(error));
     if (error instanceof Error) {
@@ -143,6 +246,20 @@ app.on("conversationUpdate", async ({ activity }) => {
 
   await app.start(port);
 
+  // Scheduled digests are posted proactively, so start once the app can send
+  const digestScheduler = new DigestScheduler(
+    storage,
+    (conversationId, activity) => app.send(conversationId, activity),
+    logger.child("scheduler")
+  );
+  digestScheduler.start();
+
+  // Nothing is purged unless RETENTION_DAYS is set
+  if (RETENTION_CONFIG.enabled) {
+    const retentionSweeper = new RetentionSweeper(storage, logger.child("retention"));
+    retentionSweeper.start();
+  }
+
   logger.info(`\n${'='.repeat(60)}`);
   logger.info(`✅ BOT IS READY TO TEST`);
   logger.info(`${'='.repeat(60)}`);
@@ -0,0 +1,94 @@
+import { DigestCadence } from "../storage/types";
+import { getZonedParts, zonedTimeToUtc } from "../utils/timeZones";
+
+export interface ScheduleTiming {
+  cadence: DigestCadence;
+  time_of_day: string; // HH:MM
+  day_of_week: number | null;
+  timezone: string;
+}
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+/**
+ * Parse a time of day like "17:00", "5pm" or "5:30 pm" into HH:MM, or null if invalid
+ */
+export function parseTimeOfDay(text: string): string | null {
+  const match = text.trim().match(TIME_PATTERN);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Compute the first run strictly after `after` for the given schedule
+ */
+export function computeNextRun(timing: ScheduleTiming, after: Date): Date {
+  const [hours, minutes] = timing.time_of_day.split(":").map(Number);
+  const today = getZonedParts(after, timing.timezone);
+
+  // A week plus a day always contains the next matching slot
+  for (let offset = 0; offset <= 8; offset++) {
+    // Date.UTC normalizes day overflow, so this walks calendar days in the schedule's zone
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (!matchesCadence(timing, day.getUTCDay())) continue;
+
+    const candidate = zonedTimeToUtc(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      hours,
+      minutes,
+      timing.timezone
+    );
+    if (candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+
+  throw new Error(`Could not compute next run for ${describeSchedule(timing)}`);
+}
+
+/**
+ * Human readable description, e.g. "every weekday at 17:00 (Europe/London)"
+ */
+export function describeSchedule(timing: ScheduleTiming): string {
+  const when =
+    timing.cadence === "daily"
+      ? "every day"
+      : timing.cadence === "weekdays"
+        ? "every weekday"
+        : `every ${WEEKDAY_NAMES[timing.day_of_week ?? 1]}`;
+  return `${when} at ${timing.time_of_day} (${timing.timezone})`;
+}
+
+function matchesCadence(timing: ScheduleTiming, weekday: number): boolean {
+  switch (timing.cadence) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return weekday >= 1 && weekday <= 5;
+    case "weekly":
+      return weekday === (timing.day_of_week ?? 1);
+  }
+}
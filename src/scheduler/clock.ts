@@ -0,0 +1,20 @@
+/**
+ * Time source for the scheduler.
+ * Inject a fake clock to control "now" and timer firing without waiting on real time.
+ */
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => {
+    const handle = setTimeout(callback, ms);
+    // Don't keep the process alive just for the scheduler
+    handle.unref();
+    return handle;
+  },
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
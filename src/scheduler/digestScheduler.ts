@@ -0,0 +1,164 @@
+import { MessageActivity } from "@microsoft/teams.api";
+import { ILogger } from "@microsoft/teams.common";
+import { SUMMARIZER_CAPABILITY_DEFINITION } from "../capabilities/summarizer/summarize";
+import { IDatabase } from "../storage/database";
+import { DigestScheduleRecord } from "../storage/types";
+import { createSystemMessageContext } from "../utils/messageContext";
+import { finalizePromptResponse } from "../utils/utils";
+import { computeNextRun, describeSchedule } from "./cadence";
+import { Clock, systemClock } from "./clock";
+
+export type DigestSender = (conversationId: string, activity: MessageActivity) => Promise<unknown>;
+
+export interface DigestSchedulerOptions {
+  clock?: Clock;
+  // How often to check for due schedules
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+// A digest never reaches back further than this, even after a long outage
+const MAX_DIGEST_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DIGEST_REQUEST =
+  "Post a recap of this chat covering the key topics, decisions and open questions since the last recap.";
+
+/**
+ * Posts scheduled conversation recaps.
+ *
+ * Schedules live in storage, so they survive restarts. On start the scheduler runs every
+ * schedule whose run time passed while the bot was down (once, covering the whole missed
+ * window), then polls for due schedules.
+ */
+export class DigestScheduler {
+  private clock: Clock;
+  private pollIntervalMs: number;
+  private timer: unknown = null;
+  private ticking = false;
+  // Keeps a tick that is still running when stop() is called from re-arming the timer
+  private stopped = false;
+
+  constructor(
+    private storage: IDatabase,
+    private sendDigest: DigestSender,
+    private logger: ILogger,
+    options: DigestSchedulerOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.stopped = false;
+    this.logger.debug(`⏰ Digest scheduler started (polling every ${this.pollIntervalMs / 1000}s)`);
+    // The first tick doubles as catch-up for runs missed while the bot was offline
+    void this.tick().finally(() => this.scheduleNextTick());
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.logger.debug("⏹️ Digest scheduler stopped");
+  }
+
+  /**
+   * Run every schedule that is due now. Safe to call directly (e.g., from tests).
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = this.clock.now();
+      const due = await this.storage.getDueDigestSchedules(now.toISOString());
+      for (const schedule of due) {
+        await this.runSchedule(schedule, now);
+      }
+    } catch (error) {
+      this.logger.error("❌ Error checking digest schedules:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private scheduleNextTick(): void {
+    if (this.stopped) return;
+    this.timer = this.clock.setTimeout(() => {
+      void this.tick().finally(() => this.scheduleNextTick());
+    }, this.pollIntervalMs);
+  }
+
+  private async runSchedule(schedule: DigestScheduleRecord, now: Date): Promise<void> {
+    // Move to the next slot before running, so a failing digest doesn't retry every poll and
+    // only the instance that moves it posts this run
+    const claimed = await this.storage.claimDigestSchedule(
+      schedule.id,
+      schedule.next_run_at,
+      computeNextRun(schedule, now).toISOString()
+    );
+    if (!claimed) {
+      this.logger.debug(`⏭️ Digest #${schedule.id} was already run by another instance`);
+      return;
+    }
+
+    const windowStart = new Date(
+      Math.max(
+        new Date(schedule.last_run_at ?? schedule.created_at).getTime(),
+        now.getTime() - MAX_DIGEST_WINDOW_MS
+      )
+    );
+    const late = now.getTime() - new Date(schedule.next_run_at).getTime() > this.pollIntervalMs;
+    this.logger.debug(
+      `🗓️ Running digest #${schedule.id} (${describeSchedule(schedule)})${late ? " [catch-up]" : ""}`
+    );
+
+    let completed = false;
+    try {
+      const context = createSystemMessageContext(
+        this.storage,
+        schedule.conversation_id,
+        DIGEST_REQUEST,
+        windowStart.toISOString(),
+        now.toISOString()
+      );
+
+      const messages = await context.memory.getMessagesByTimeRange(
+        context.startTime,
+        context.endTime
+      );
+      if (messages.length === 0) {
+        this.logger.debug(`💤 No new messages for digest #${schedule.id}, skipping post`);
+        completed = true;
+      } else {
+        const logger = this.logger.child(SUMMARIZER_CAPABILITY_DEFINITION.name);
+        const result = await SUMMARIZER_CAPABILITY_DEFINITION.handler(context, logger);
+        if (result.error) {
+          this.logger.error(`❌ Digest #${schedule.id} summary failed: ${result.error}`);
+        } else {
+          if (result.payload) {
+            context.payloads.push(result.payload);
+          }
+          const activity = finalizePromptResponse(
+            `🗓️ **Scheduled recap** (${describeSchedule(schedule)})\n\n${result.response}`,
+            context,
+            this.logger
+          );
+          await this.sendDigest(schedule.conversation_id, activity);
+          this.logger.debug(`✅ Posted digest #${schedule.id} to ${schedule.conversation_id}`);
+          completed = true;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`❌ Error running digest #${schedule.id}:`, error);
+    }
+
+    // last_run_at only moves on success, so the next recap still covers a failed window
+    if (completed) {
+      await this.storage.updateDigestSchedule(schedule.id, { last_run_at: now.toISOString() });
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { ILogger } from "@microsoft/teams.common";
+import { IDatabase } from "../storage/database";
+import { parseRetentionDays, RETENTION_CONFIG } from "../utils/config";
+import { Clock, systemClock } from "./clock";
+
+export interface RetentionSweeperOptions {
+  clock?: Clock;
+  // How often to look for messages past their retention period
+  sweepIntervalMs?: number;
+  // Global retention in days; null keeps messages forever
+  retentionDays?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Purges messages older than their conversation's retention period.
+ *
+ * Conversations use the global period unless an admin set one for that chat. Every purge is
+ * written to the audit log with the cutoff it used and how many messages went.
+ */
+export class RetentionSweeper {
+  private clock: Clock;
+  private sweepIntervalMs: number;
+  private retentionDays: number | null;
+  private timer: unknown = null;
+  private ticking = false;
+  // Keeps a sweep that is still running when stop() is called from re-arming the timer
+  private stopped = false;
+
+  constructor(
+    private storage: IDatabase,
+    private logger: ILogger,
+    options: RetentionSweeperOptions = {}
+  ) {
+    this.clock = options.clock ?? systemClock;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? RETENTION_CONFIG.sweepIntervalMs;
+    this.retentionDays =
+      options.retentionDays !== undefined
+        ? options.retentionDays
+        : parseRetentionDays(RETENTION_CONFIG.days);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.stopped = false;
+    this.logger.debug(
+      `🧹 Retention sweeper started (${this.retentionDays ?? "unlimited"} days, ` +
+        `sweeping every ${this.sweepIntervalMs / 60000} min)`
+    );
+    void this.tick().finally(() => this.scheduleNextTick());
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.logger.debug("⏹️ Retention sweeper stopped");
+  }
+
+  /**
+   * Purge every conversation's expired messages now. Safe to call directly (e.g., from tests).
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = this.clock.now();
+      const overrides = new Map(
+        (await this.storage.getRetentionPolicies()).map((policy) => [
+          policy.conversation_id,
+          policy.retention_days,
+        ])
+      );
+
+      // Only conversations holding messages older than the shortest period can have any to purge
+      const periods = [this.retentionDays, ...overrides.values()].filter(
+        (days): days is number => days !== null
+      );
+      if (periods.length === 0) return;
+      const earliestCutoff = new Date(now.getTime() - Math.min(...periods) * DAY_MS);
+      const candidates = await this.storage.getConversationsWithMessagesBefore(
+        earliestCutoff.toISOString()
+      );
+
+      for (const conversationId of candidates) {
+        const days = overrides.has(conversationId)
+          ? overrides.get(conversationId)!
+          : this.retentionDays;
+        if (days === null) continue;
+        await this.purge(conversationId, days, now);
+      }
+    } catch (error) {
+      this.logger.error("❌ Error sweeping expired messages:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private scheduleNextTick(): void {
+    if (this.stopped) return;
+    this.timer = this.clock.setTimeout(() => {
+      void this.tick().finally(() => this.scheduleNextTick());
+    }, this.sweepIntervalMs);
+  }
+
+  private async purge(conversationId: string, days: number, now: Date): Promise<void> {
+    const cutoff = new Date(now.getTime() - days * DAY_MS).toISOString();
+    try {
+      const deleted = await this.storage.purgeMessagesBefore(conversationId, cutoff);
+      if (deleted === 0) return;
+
+      await this.storage.recordPurge({
+        conversation_id: conversationId,
+        reason: "retention",
+        cutoff,
+        retention_days: days,
+        messages_deleted: deleted,
+        requested_by: null,
+      });
+      this.logger.info(
+        `🧹 Purged ${deleted} message${deleted === 1 ? "" : "s"} older than ${days} days from ` +
+          conversationId
+      );
+    } catch (error) {
+      this.logger.error(`❌ Error purging expired messages from ${conversationId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { AudioFormat, TranscribedSegment } from "./audioService";
+import { Diarizer } from "./diarization";
+import { decodeWav, toMono } from "./wav";
+
+/**
+ * Acoustic Diarizer
+ * Tells speakers apart on the CPU, without a speech service. Each segment gets a voice
+ * fingerprint (typical pitch and how its energy spreads across the spectrum) and segments with
+ * close fingerprints are clustered into one speaker. It needs 16-bit PCM WAV audio.
+ */
+
+// Segment times are in 100-nanosecond ticks
+const TICKS_PER_SECOND = 10_000_000;
+const FRAME_MS = 40;
+// Frames analysed per segment, spread evenly across it; enough for a stable fingerprint
+const MAX_FRAMES_PER_SEGMENT = 30;
+// Segments with fewer voiced frames than this are labelled from their neighbours
+const MIN_VOICED_FRAMES = 4;
+// Frames quieter than this RMS amplitude (of 32768) are skipped as silence
+const SILENCE_THRESHOLD = 500;
+// Normalized autocorrelation a frame needs at its pitch lag to count as voiced
+const VOICING_THRESHOLD = 0.3;
+// Human speaking pitch range
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+// Pitch is estimated at about this rate, which keeps the autocorrelation cheap
+const PITCH_SAMPLE_RATE = 8000;
+// A peak this close to the best correlation is taken as the period, not a multiple of it
+const OCTAVE_TOLERANCE = 0.9;
+// Bands measured for the spectral shape of a voice, each sampled at its centre and either side
+const BAND_FREQUENCIES_HZ = [300, 600, 1200, 2400, 3400];
+const BAND_SPREAD = [0.85, 1, 1.15];
+// Fingerprint units: a difference this large counts as 1 in the distance between segments
+const PITCH_UNIT_SEMITONES = 2;
+const BAND_UNIT_DB = 8;
+// Clusters further apart than this are different speakers
+const MERGE_DISTANCE = 1.5;
+// Fingerprints clustered directly, spread evenly across the recording; the rest join the
+// closest speaker. Clustering time grows with the cube of this, so it stays bounded for
+// hours-long recordings.
+const MAX_CLUSTERED_SEGMENTS = 200;
+
+interface DecodedAudio {
+  sampleRate: number;
+  samples: Int16Array;
+}
+
+export class AcousticDiarizer implements Diarizer {
+  constructor(private maxSpeakers: number) {}
+
+  async diarize(
+    audio: Buffer,
+    format: AudioFormat,
+    segments: TranscribedSegment[]
+  ): Promise<TranscribedSegment[]> {
+    if (format !== "wav") {
+      throw new Error(`Local diarization needs WAV audio, not ${format}`);
+    }
+    const wav = decodeWav(audio);
+    const decoded = { sampleRate: wav.format.sampleRate, samples: toMono(wav) };
+
+    const fingerprints = segments.map((segment) => fingerprint(decoded, segment));
+    const clusters = clusterFingerprints(fingerprints, this.maxSpeakers);
+
+    // Number speakers in the order they first speak
+    const labels = new Map<number, string>();
+    let previous: string | undefined;
+    const speakers = clusters.map((cluster) => {
+      if (cluster === null) return null;
+      if (!labels.has(cluster)) labels.set(cluster, `Speaker ${labels.size + 1}`);
+      return labels.get(cluster)!;
+    });
+
+    return segments.map((segment, i) => {
+      // Too short or too quiet to fingerprint: most likely whoever spoke just before
+      const speaker =
+        speakers[i] ?? previous ?? speakers.find((label) => label !== null) ?? "Speaker 1";
+      previous = speaker;
+      return { ...segment, speaker };
+    });
+  }
+}
+
+// A segment's voice: median pitch and average band energies, in fingerprint units
+function fingerprint(audio: DecodedAudio, segment: TranscribedSegment): number[] | null {
+  const frameLength = Math.round((audio.sampleRate * FRAME_MS) / 1000);
+  const first = Math.floor((segment.startTime / TICKS_PER_SECOND) * audio.sampleRate);
+  const last = Math.min(
+    Math.floor((segment.endTime / TICKS_PER_SECOND) * audio.sampleRate),
+    audio.samples.length
+  ) - frameLength;
+  if (last < first) return null;
+
+  const frameCount = Math.floor((last - first) / frameLength) + 1;
+  const step = Math.max(1, frameCount / MAX_FRAMES_PER_SEGMENT);
+  const pitches: number[] = [];
+  const bands = BAND_FREQUENCIES_HZ.map(() => 0);
+
+  for (let position = 0; position < frameCount; position += step) {
+    const start = first + Math.floor(position) * frameLength;
+    const frame = audio.samples.subarray(start, start + frameLength);
+    if (rms(frame) < SILENCE_THRESHOLD) continue;
+    const pitch = estimatePitch(frame, audio.sampleRate);
+    if (pitch === null) continue;
+
+    pitches.push(pitch);
+    const energies = BAND_FREQUENCIES_HZ.map((hz) =>
+      BAND_SPREAD.reduce((sum, spread) => sum + goertzel(frame, audio.sampleRate, hz * spread), 0)
+    );
+    const total = energies.reduce((sum, energy) => sum + energy, 0) || 1;
+    // Energy shares rather than absolute levels, so a louder microphone is the same voice
+    energies.forEach((energy, band) => {
+      bands[band] += 10 * Math.log10(energy / total + 1e-9);
+    });
+  }
+  if (pitches.length < MIN_VOICED_FRAMES) return null;
+
+  pitches.sort((a, b) => a - b);
+  const medianPitch = pitches[Math.floor(pitches.length / 2)];
+  return [
+    (12 * Math.log2(medianPitch / 100)) / PITCH_UNIT_SEMITONES,
+    ...bands.map((sum) => sum / pitches.length / BAND_UNIT_DB),
+  ];
+}
+
+// Fundamental frequency from the autocorrelation peak, or null for an unvoiced frame
+function estimatePitch(frame: Int16Array, sampleRate: number): number | null {
+  // Averaging neighbouring samples lowers the rate and filters out the highs
+  const factor = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+  const rate = sampleRate / factor;
+  const x = new Float64Array(Math.floor(frame.length / factor));
+  for (let i = 0; i < x.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += frame[i * factor + j];
+    x[i] = sum / factor;
+  }
+
+  const minLag = Math.floor(rate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.ceil(rate / MIN_PITCH_HZ), x.length - 1);
+  const correlations: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < x.length; i++) {
+      product += x[i] * x[i + lag];
+      energyA += x[i] * x[i];
+      energyB += x[i + lag] * x[i + lag];
+    }
+    correlations.push(product / (Math.sqrt(energyA * energyB) || 1));
+  }
+
+  const best = Math.max(...correlations);
+  if (best < VOICING_THRESHOLD) return null;
+  // Multiples of the period correlate almost as well; the first peak near the best is the pitch
+  for (let k = 0; k < correlations.length; k++) {
+    const peak =
+      (k === 0 || correlations[k] >= correlations[k - 1]) &&
+      (k === correlations.length - 1 || correlations[k] >= correlations[k + 1]);
+    if (peak && correlations[k] >= best * OCTAVE_TOLERANCE) return rate / (minLag + k);
+  }
+  return null;
+}
+
+// Power of one frequency in the frame
+function goertzel(frame: Int16Array, sampleRate: number, hz: number): number {
+  const coefficient = 2 * Math.cos((2 * Math.PI * hz) / sampleRate);
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const current = frame[i] + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return (
+    previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious
+  );
+}
+
+function rms(frame: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / (frame.length || 1));
+}
+
+/**
+ * Average-linkage agglomerative clustering. Clusters keep merging while the closest two are
+ * within MERGE_DISTANCE, and beyond that until at most maxSpeakers are left. Past
+ * MAX_CLUSTERED_SEGMENTS fingerprints, an even sample is clustered and every other fingerprint
+ * joins the cluster with the nearest centroid. Returns each fingerprint's cluster, or null
+ * where there was no fingerprint.
+ */
+function clusterFingerprints(
+  fingerprints: (number[] | null)[],
+  maxSpeakers: number
+): (number | null)[] {
+  const fingerprinted = fingerprints.flatMap((point, i) => (point ? [i] : []));
+  const step = Math.max(1, fingerprinted.length / MAX_CLUSTERED_SEGMENTS);
+  const indexes: number[] = [];
+  for (let position = 0; position < fingerprinted.length; position += step) {
+    indexes.push(fingerprinted[Math.floor(position)]);
+  }
+  const members = new Map<number, number[]>(indexes.map((i) => [i, [i]]));
+  const distance = (a: number, b: number) => euclidean(fingerprints[a]!, fingerprints[b]!);
+
+  // Pairwise cluster distances, kept up to date as clusters merge
+  const distances = new Map<number, Map<number, number>>();
+  for (const a of indexes) {
+    distances.set(a, new Map(indexes.filter((b) => b !== a).map((b) => [b, distance(a, b)])));
+  }
+
+  while (members.size > 1) {
+    let closest: [number, number] | null = null;
+    let closestDistance = Infinity;
+    for (const [a, row] of distances) {
+      for (const [b, d] of row) {
+        if (a < b && d < closestDistance) {
+          closestDistance = d;
+          closest = [a, b];
+        }
+      }
+    }
+    if (!closest || (closestDistance > MERGE_DISTANCE && members.size <= maxSpeakers)) break;
+
+    // Merge b into a; the average linkage to every other cluster is weighted by size
+    const [a, b] = closest;
+    const sizeA = members.get(a)!.length;
+    const sizeB = members.get(b)!.length;
+    for (const [other, row] of distances) {
+      if (other === a || other === b) continue;
+      const merged = (row.get(a)! * sizeA + row.get(b)! * sizeB) / (sizeA + sizeB);
+      row.set(a, merged);
+      row.delete(b);
+      distances.get(a)!.set(other, merged);
+    }
+    distances.get(a)!.delete(b);
+    distances.delete(b);
+    members.get(a)!.push(...members.get(b)!);
+    members.delete(b);
+  }
+
+  const clusters: (number | null)[] = fingerprints.map(() => null);
+  for (const [cluster, points] of members) {
+    for (const point of points) clusters[point] = cluster;
+  }
+
+  // Fingerprints left out of the sample
+  const centroids = [...members].map(([cluster, points]) => ({
+    cluster,
+    centre: fingerprints[points[0]]!.map(
+      (_, k) => points.reduce((sum, point) => sum + fingerprints[point]![k], 0) / points.length
+    ),
+  }));
+  for (const i of fingerprinted) {
+    if (clusters[i] !== null) continue;
+    const nearest = centroids.reduce((best, centroid) =>
+      euclidean(fingerprints[i]!, centroid.centre) < euclidean(fingerprints[i]!, best.centre)
+        ? centroid
+        : best
+    );
+    clusters[i] = nearest.cluster;
+  }
+  return clusters;
+}
+
+function euclidean(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, k) => sum + (value - b[k]) ** 2, 0));
+}
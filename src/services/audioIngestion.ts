@@ -0,0 +1,203 @@
+import { ExpressAdapter, IHttpServerAdapter } from "@microsoft/teams.apps";
+import { ILogger } from "@microsoft/teams.common";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { IDatabase } from "../storage/database";
+import { AUDIO_INGESTION_CONFIG } from "../utils/config";
+import { TranscribedSegment } from "./audioService";
+import {
+  createStreamingRecognizer,
+  formatStreamOffset,
+  parseStreamOffset,
+  StreamingRecognizer,
+} from "./speechRecognizers";
+import { PcmFormat } from "./wav";
+
+/**
+ * Audio Ingestion
+ * Live meeting audio, e.g. from a calling bot in the meeting, is streamed to
+ *
+ *   POST /api/meetings/<meeting id>/audio?rate=16000&channels=1
+ *   Authorization: Bearer <AUDIO_INGEST_TOKEN>
+ *   Transfer-Encoding: chunked
+ *
+ * as raw 16-bit PCM. Segments are transcribed and stored with the meeting while the audio is
+ * still arriving, so the meeting capability can summarize and search a meeting in progress.
+ * Optional query parameters: `speaker` names the speaker of a per-participant stream, and
+ * `transcript` continues an earlier stream's transcript instead of starting a new one.
+ */
+
+export const AUDIO_INGESTION_PATH = "/api/meetings/:meetingId/audio";
+
+type AudioRequest = IncomingMessage & { params: { meetingId: string } };
+
+/**
+ * One audio stream: feeds its audio to the recognizer and appends each segment to the
+ * meeting's transcript as soon as it is recognized
+ */
+export class AudioIngestionSession {
+  private segmentCount = 0;
+
+  constructor(
+    private storage: IDatabase,
+    private recognizer: StreamingRecognizer,
+    readonly meetingId: string,
+    readonly transcriptId: string,
+    private logger: ILogger,
+    private speaker?: string,
+    // Where the stream starts in the transcript; later than zero when it continues one
+    private offsetTicks = 0
+  ) {}
+
+  async write(pcm: Buffer): Promise<void> {
+    await this.save(await this.recognizer.write(pcm));
+  }
+
+  // Returns the number of segments stored from this stream
+  async end(): Promise<number> {
+    await this.save(await this.recognizer.end());
+    return this.segmentCount;
+  }
+
+  private async save(segments: TranscribedSegment[]): Promise<void> {
+    if (segments.length === 0) return;
+
+    await this.storage.appendTranscriptSegments(
+      this.meetingId,
+      this.transcriptId,
+      segments.map((segment) => ({
+        speaker_name: segment.speaker ?? this.speaker ?? null,
+        content: segment.text,
+        timestamp_start: formatStreamOffset(segment.startTime + this.offsetTicks),
+        timestamp_end: formatStreamOffset(segment.endTime + this.offsetTicks),
+      }))
+    );
+    this.segmentCount += segments.length;
+    this.logger.debug(
+      `🎧 ${segments.length} live segment(s) added to ${this.meetingId}: ` +
+        `"${segments[0].text.slice(0, 60)}"`
+    );
+  }
+}
+
+/**
+ * Serve the audio route on the bot's HTTP server. Returns false when ingestion is switched
+ * off (no AUDIO_INGEST_TOKEN) or the server can't take raw streams.
+ */
+export function registerAudioIngestionRoute(
+  adapter: IHttpServerAdapter,
+  storage: IDatabase,
+  logger: ILogger
+): boolean {
+  if (!AUDIO_INGESTION_CONFIG.token) {
+    logger.debug("🎧 Live audio ingestion is off (AUDIO_INGEST_TOKEN not set)");
+    return false;
+  }
+  if (!(adapter instanceof ExpressAdapter)) {
+    logger.warn("⚠️ Live audio ingestion needs the Express HTTP adapter; route not registered");
+    return false;
+  }
+
+  adapter.post(AUDIO_INGESTION_PATH, (req: AudioRequest, res: ServerResponse) => {
+    void handleAudioStream(req, res, storage, logger);
+  });
+  logger.debug(
+    `🎧 Live audio ingestion at POST ${AUDIO_INGESTION_PATH} ` +
+      `(${AUDIO_INGESTION_CONFIG.speechProvider} speech)`
+  );
+  return true;
+}
+
+async function handleAudioStream(
+  req: AudioRequest,
+  res: ServerResponse,
+  storage: IDatabase,
+  logger: ILogger
+): Promise<void> {
+  if (!isAuthorized(req.headers.authorization)) {
+    return reply(res, 401, { error: "Missing or invalid bearer token" });
+  }
+
+  const query = new URL(req.url ?? "", "http://localhost").searchParams;
+  const format: PcmFormat = {
+    sampleRate: Number(query.get("rate") ?? 16000),
+    channels: Number(query.get("channels") ?? 1),
+  };
+  if (
+    !Number.isInteger(format.sampleRate) ||
+    format.sampleRate < 8000 ||
+    format.sampleRate > 48000 ||
+    ![1, 2].includes(format.channels)
+  ) {
+    return reply(res, 400, { error: "rate must be 8000-48000 and channels 1 or 2" });
+  }
+
+  const meetingId = req.params.meetingId;
+  const continued = query.get("transcript");
+  const transcriptId = continued || `live-${new Date().toISOString()}`;
+  try {
+    const recognizer = createStreamingRecognizer(
+      AUDIO_INGESTION_CONFIG.speechProvider,
+      format,
+      logger
+    );
+    await storage.upsertMeeting({ meeting_id: meetingId });
+    const session = new AudioIngestionSession(
+      storage,
+      recognizer,
+      meetingId,
+      transcriptId,
+      logger,
+      query.get("speaker") ?? undefined,
+      continued ? await transcriptEndTicks(storage, meetingId, continued) : 0
+    );
+    logger.info(`🎧 Live audio stream started for meeting ${meetingId} (${transcriptId})`);
+
+    // Reading chunk by chunk holds the sender back while a chunk is being transcribed
+    try {
+      for await (const chunk of req) {
+        await session.write(chunk as Buffer);
+      }
+    } catch (error) {
+      logger.warn(
+        `⚠️ Audio stream for ${meetingId} ended early: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    const segments = await session.end();
+    logger.info(`🎧 Live audio stream for ${meetingId} ended with ${segments} segment(s)`);
+    reply(res, 200, { meetingId, transcriptId, segments });
+  } catch (error) {
+    logger.error(`❌ Error ingesting audio for meeting ${meetingId}:`, error);
+    reply(res, 500, { error: error instanceof Error ? error.message : "Unknown error" });
+  }
+}
+
+// A continued transcript picks up after its last stored segment instead of at 00:00:00
+async function transcriptEndTicks(
+  storage: IDatabase,
+  meetingId: string,
+  transcriptId: string
+): Promise<number> {
+  return (await storage.getTranscript(meetingId))
+    .filter((segment) => segment.transcript_id === transcriptId)
+    .map((segment) => parseStreamOffset(segment.timestamp_end ?? "") ?? 0)
+    .reduce((latest, end) => Math.max(latest, end), 0);
+}
+
+function isAuthorized(header: string | undefined): boolean {
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return false;
+  // Hashing first gives equal lengths, which timingSafeEqual requires
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(AUDIO_INGESTION_CONFIG.token));
+}
+
+function reply(res: ServerResponse, status: number, body: unknown): void {
+  // The client may already have gone
+  if (res.headersSent || res.destroyed) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,392 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { AUDIO_INPUT_CONFIG } from "../utils/config";
+import { AudioFormat, DownloadedAudio, TranscribedSegment } from "./audioService";
+import { decodeWav, durationMs, encodeWav, PcmFormat, toMono } from "./wav";
+
+/**
+ * Audio Preprocessing
+ * Recordings are checked and turned into 16 kHz mono WAV before transcription: the container
+ * header must match a WAV, MP3 or M4A file, mp3 and m4a are decoded with ffmpeg, other WAV
+ * sample rates are resampled, and leading silence is trimmed. Empty, corrupt, oversized and
+ * overlong recordings are rejected with an AudioInputError saying what is wrong with them.
+ */
+
+export const SPEECH_FORMAT: PcmFormat = { sampleRate: 16000, channels: 1 };
+
+export interface PreparedAudio extends DownloadedAudio {
+  format: "wav";
+  // What the recording was before decoding
+  sourceFormat: AudioFormat;
+  durationMs: number;
+  // Leading silence cut off; add it back to put segment times on the recording's clock
+  trimmedMs: number;
+}
+
+/**
+ * A recording that can't be transcribed; the message is meant for the user
+ */
+export class AudioInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioInputError";
+  }
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+// Silence kept before the first words, so they aren't clipped
+const LEADING_PADDING_MS = 200;
+const FRAME_MS = 20;
+// Frames count as sound above this many times the recording's noise floor, or this level
+const NOISE_FLOOR_FACTOR = 4;
+const MIN_SOUND_RMS = 300;
+// Longest ffmpeg is given per minute of recording it decodes, and at least this long
+const DECODE_MS_PER_MINUTE = 5_000;
+const MIN_DECODE_TIMEOUT_MS = 60_000;
+
+// MPEG audio bitrates (kbps) by version and bitrate index, for Layer III
+const MP3_BITRATES = {
+  1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  2.5: [11025, 12000, 8000],
+};
+
+/**
+ * Check a recording and turn it into 16 kHz mono WAV for the speech service. The declared
+ * format (e.g., from the download's content type) only matters for the error message: the
+ * file's own header decides how it is read.
+ */
+export async function prepareAudio(audio: Buffer, declared?: AudioFormat): Promise<PreparedAudio> {
+  checkFileSize(audio.length);
+  const sourceFormat = detectAudioFormat(audio, declared);
+
+  let samples: Int16Array;
+  if (sourceFormat === "wav") {
+    samples = readWav(audio);
+  } else {
+    validateContainer(audio, sourceFormat);
+    samples = await decodeWithFfmpeg(audio, sourceFormat);
+  }
+
+  const totalMs = (samples.length / SPEECH_FORMAT.sampleRate) * 1000;
+  if (totalMs > AUDIO_INPUT_CONFIG.maxDurationMinutes * 60_000) {
+    throw new AudioInputError(
+      `The recording is ${Math.round(totalMs / 60_000)} minutes long; ` +
+        `at most ${AUDIO_INPUT_CONFIG.maxDurationMinutes} minutes can be transcribed`
+    );
+  }
+
+  const soundStart = firstSound(samples);
+  if (soundStart === null) {
+    throw new AudioInputError("The recording is silent");
+  }
+  const trimmedSamples = Math.max(
+    0,
+    soundStart - Math.round((SPEECH_FORMAT.sampleRate * LEADING_PADDING_MS) / 1000)
+  );
+  const trimmed = samples.subarray(trimmedSamples);
+
+  return {
+    buffer: encodeWav(
+      Buffer.from(trimmed.buffer, trimmed.byteOffset, trimmed.byteLength),
+      SPEECH_FORMAT
+    ),
+    format: "wav",
+    sourceFormat,
+    durationMs: totalMs,
+    trimmedMs: (trimmedSamples / SPEECH_FORMAT.sampleRate) * 1000,
+  };
+}
+
+/**
+ * Reject a recording before downloading it, when its size is already known to be too large
+ */
+export function checkFileSize(bytes: number): void {
+  if (bytes === 0) {
+    throw new AudioInputError("The audio file is empty");
+  }
+  if (bytes > AUDIO_INPUT_CONFIG.maxFileMb * BYTES_PER_MB) {
+    throw new AudioInputError(
+      `The audio file is ${Math.round(bytes / BYTES_PER_MB)} MB; ` +
+        `files up to ${AUDIO_INPUT_CONFIG.maxFileMb} MB can be transcribed`
+    );
+  }
+}
+
+/**
+ * Segment times from the prepared audio, moved back onto the original recording's clock
+ */
+export function restoreOffsets(
+  segments: TranscribedSegment[],
+  audio: PreparedAudio
+): TranscribedSegment[] {
+  const ticks = Math.round(audio.trimmedMs * 10_000);
+  return segments.map((segment) => ({
+    ...segment,
+    startTime: segment.startTime + ticks,
+    endTime: segment.endTime + ticks,
+  }));
+}
+
+/**
+ * The recording's format, from the magic numbers at the start of the file
+ */
+export function detectAudioFormat(audio: Buffer, declared?: AudioFormat): AudioFormat {
+  if (audio.length >= 12) {
+    if (audio.toString("ascii", 0, 4) === "RIFF" && audio.toString("ascii", 8, 12) === "WAVE") {
+      return "wav";
+    }
+    if (audio.toString("ascii", 4, 8) === "ftyp") {
+      return "m4a";
+    }
+  }
+  if (audio.toString("ascii", 0, 3) === "ID3" || mp3FrameLength(audio, 0) !== null) {
+    return "mp3";
+  }
+  throw new AudioInputError(
+    `This doesn't look like a WAV, MP3 or M4A file${
+      declared ? `, although it was sent as ${declared}` : ""
+    }`
+  );
+}
+
+// 16 kHz mono samples from a WAV file
+function readWav(audio: Buffer): Int16Array {
+  let wav;
+  try {
+    wav = decodeWav(audio);
+  } catch (error) {
+    throw new AudioInputError(
+      `The WAV file can't be read: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (wav.pcm.length === 0 || durationMs(wav) === 0) {
+    throw new AudioInputError("The WAV file has no audio in it");
+  }
+  if (wav.format.sampleRate < 8000) {
+    throw new AudioInputError(
+      `The WAV file's format (${wav.format.sampleRate} Hz, ` +
+        `${wav.format.channels} channels) isn't one speech can be recognized in`
+    );
+  }
+  return resample(toMono(wav), wav.format.sampleRate, SPEECH_FORMAT.sampleRate);
+}
+
+/**
+ * Resample by linear interpolation. Going down, each output sample averages the input samples
+ * it covers first, which keeps out most of the aliasing.
+ */
+export function resample(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  let source = samples;
+  const width = Math.floor(ratio);
+  if (width > 1) {
+    source = new Int16Array(samples.length);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] - (i >= width ? samples[i - width] : 0);
+      source[i] = Math.round(sum / Math.min(i + 1, width));
+    }
+  }
+
+  const output = new Int16Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, source.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(source[index] * (1 - fraction) + source[next] * fraction);
+  }
+  return output;
+}
+
+// Sample index where the recording first rises above its noise floor, or null if it never does
+function firstSound(samples: Int16Array): number | null {
+  const frameSamples = Math.round((SPEECH_FORMAT.sampleRate * FRAME_MS) / 1000);
+  const loudness: number[] = [];
+  for (let start = 0; start + frameSamples <= samples.length; start += frameSamples) {
+    let sum = 0;
+    for (let i = start; i < start + frameSamples; i++) sum += samples[i] * samples[i];
+    loudness.push(Math.sqrt(sum / frameSamples));
+  }
+
+  const floor = [...loudness].sort((a, b) => a - b)[Math.floor(loudness.length / 10)] ?? 0;
+  const threshold = Math.max(MIN_SOUND_RMS, floor * NOISE_FLOOR_FACTOR);
+  const frame = loudness.findIndex((level) => level >= threshold);
+  return frame < 0 ? null : frame * frameSamples;
+}
+
+// Catch truncated uploads and files that only look like mp3 or m4a before decoding them
+function validateContainer(audio: Buffer, format: "mp3" | "m4a"): void {
+  if (format === "m4a") {
+    const boxes = mp4TopLevelBoxes(audio);
+    if (!boxes.includes("moov") || !boxes.includes("mdat")) {
+      throw new AudioInputError("The M4A file is incomplete: its track index or audio data is missing");
+    }
+    return;
+  }
+
+  let offset = 0;
+  if (audio.toString("ascii", 0, 3) === "ID3" && audio.length >= 10) {
+    // Tag size is stored in 7-bit bytes, after the 10-byte header; a footer adds 10 more
+    const size = (audio[6] << 21) | (audio[7] << 14) | (audio[8] << 7) | audio[9];
+    offset = 10 + size + (audio[5] & 0x10 ? 10 : 0);
+  }
+  // Two frames in a row, each where the one before says it ends, is an MPEG audio stream
+  const first = mp3FrameLength(audio, offset);
+  if (first === null || mp3FrameLength(audio, offset + first) === null) {
+    throw new AudioInputError("The MP3 file is corrupt: no audio frames found");
+  }
+}
+
+// Byte length of the MPEG Layer III frame starting at offset, or null if none starts there
+function mp3FrameLength(audio: Buffer, offset: number): number | null {
+  if (offset + 4 > audio.length) return null;
+  const header = audio.readUInt32BE(offset);
+  if (header >>> 21 !== 0x7ff) return null;
+
+  const versionBits = (header >>> 19) & 0b11;
+  const layerBits = (header >>> 17) & 0b11;
+  const bitrateIndex = (header >>> 12) & 0b1111;
+  const sampleRateIndex = (header >>> 10) & 0b11;
+  const padding = (header >>> 9) & 0b1;
+  // 01 is a reserved version; 01 in the layer bits is Layer III
+  if (versionBits === 0b01 || layerBits !== 0b01) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 0b1111 || sampleRateIndex === 0b11) return null;
+
+  const version = versionBits === 0b11 ? 1 : versionBits === 0b10 ? 2 : 2.5;
+  const bitrate = MP3_BITRATES[version === 1 ? 1 : 2][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  return Math.floor(((version === 1 ? 144 : 72) * bitrate) / sampleRate) + padding;
+}
+
+// Types of the boxes at the top of an MP4 file; throws if they don't add up to the file
+function mp4TopLevelBoxes(audio: Buffer): string[] {
+  const types: string[] = [];
+  let offset = 0;
+  while (offset < audio.length) {
+    if (offset + 8 > audio.length) {
+      throw new AudioInputError("The M4A file is corrupt: it ends in the middle of a box header");
+    }
+    let size = audio.readUInt32BE(offset);
+    const type = audio.toString("latin1", offset + 4, offset + 8);
+    if (size === 1) {
+      // 64-bit size follows the type
+      if (offset + 16 > audio.length) {
+        throw new AudioInputError("The M4A file is corrupt: it ends in the middle of a box header");
+      }
+      size = Number(audio.readBigUInt64BE(offset + 8));
+    } else if (size === 0) {
+      // The last box runs to the end of the file
+      size = audio.length - offset;
+    }
+    if (size < 8 || offset + size > audio.length) {
+      throw new AudioInputError(
+        `The M4A file is corrupt or was cut short (its "${type}" box runs past the end)`
+      );
+    }
+    types.push(type);
+    offset += size;
+  }
+  return types;
+}
+
+/**
+ * Decode mp3 or m4a to 16 kHz mono 16-bit samples with ffmpeg. The recording goes through a
+ * temporary file because m4a files often keep their index at the end, out of reach of a pipe.
+ */
+async function decodeWithFfmpeg(audio: Buffer, format: "mp3" | "m4a"): Promise<Int16Array> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "audio-"));
+  const input = path.join(directory, `recording.${format}`);
+  try {
+    await fs.writeFile(input, audio);
+    const pcm = await runFfmpeg(
+      [
+        ...["-hide_banner", "-loglevel", "error", "-i", input, "-vn"],
+        ...["-f", "s16le", "-acodec", "pcm_s16le"],
+        ...["-ac", String(SPEECH_FORMAT.channels), "-ar", String(SPEECH_FORMAT.sampleRate)],
+        "pipe:1",
+      ],
+      format
+    );
+    if (pcm.length < 2) {
+      throw new AudioInputError(`The ${format} file has no audio in it`);
+    }
+    // Copied so the samples are aligned whatever offset the buffer has in its pool
+    const aligned = new Int16Array(Math.floor(pcm.length / 2));
+    for (let i = 0; i < aligned.length; i++) aligned[i] = pcm.readInt16LE(i * 2);
+    return aligned;
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+function runFfmpeg(args: string[], format: string): Promise<Buffer> {
+  // Decoded audio past the duration limit isn't wanted; stop reading there
+  const maxBytes = AUDIO_INPUT_CONFIG.maxDurationMinutes * 60 * SPEECH_FORMAT.sampleRate * 2 + 1;
+  const timeoutMs = Math.max(
+    MIN_DECODE_TIMEOUT_MS,
+    AUDIO_INPUT_CONFIG.maxDurationMinutes * DECODE_MS_PER_MINUTE
+  );
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(AUDIO_INPUT_CONFIG.ffmpegPath, args, {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const output: Buffer[] = [];
+    let outputBytes = 0;
+    let errorOutput = "";
+    let tooLong = false;
+    const timer = setTimeout(() => child.kill("SIGKILL"), timeoutMs);
+
+    child.stdout.on("data", (data: Buffer) => {
+      if (tooLong) return;
+      output.push(data);
+      outputBytes += data.length;
+      if (outputBytes > maxBytes) {
+        tooLong = true;
+        child.kill("SIGKILL");
+      }
+    });
+    child.stderr.on("data", (data: Buffer) => {
+      errorOutput = (errorOutput + data.toString()).slice(-2000);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        error.code === "ENOENT"
+          ? new Error(
+              `Decoding ${format} audio needs ffmpeg; install it or set FFMPEG_PATH ` +
+                `(tried "${AUDIO_INPUT_CONFIG.ffmpegPath}")`
+            )
+          : error
+      );
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (tooLong) {
+        reject(
+          new AudioInputError(
+            `The recording is longer than the ${AUDIO_INPUT_CONFIG.maxDurationMinutes} minutes ` +
+              "that can be transcribed"
+          )
+        );
+      } else if (signal) {
+        reject(new Error(`Decoding the ${format} file took longer than ${timeoutMs / 1000}s`));
+      } else if (code !== 0) {
+        const reason = errorOutput.trim().split("\n").pop() || `ffmpeg exited with code ${code}`;
+        reject(new AudioInputError(`The ${format} file can't be decoded: ${reason}`));
+      } else {
+        resolve(Buffer.concat(output));
+      }
+    });
+  });
+}
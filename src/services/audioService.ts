@@ -1,4 +1,7 @@
 import { ILogger } from "@microsoft/teams.common";
+import { checkFileSize } from "./audioPreprocessing";
+import { LongAudioOptions, LongAudioTranscriber } from "./longAudioTranscriber";
+import { decodeWav } from "./wav";
 
 /**
  * Audio Processing Service
@@ -19,6 +22,28 @@ export interface TranscribedSegment {
   confidence?: number;
 }
 
+export type AudioFormat = "wav" | "mp3" | "m4a";
+
+export interface DownloadedAudio {
+  buffer: Buffer;
+  format: AudioFormat;
+}
+
+// One phrase of a fast transcription result; speakers are numbered by the service
+interface ConversationPhrase {
+  speaker: number;
+  offsetMilliseconds: number;
+  durationMilliseconds: number;
+  text: string;
+  confidence?: number;
+}
+
+const CONTENT_TYPES: Record<AudioFormat, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+};
+
 export interface TranscriptionResult {
   success: boolean;
   text: string;
@@ -31,8 +56,8 @@ export interface TranscriptionResult {
 /**
  * Audio Service - Handles transcription of audio files
  * Supports:
- * - Audio file transcription (WAV, MP3, M4A)
- * - Speaker identification
+ * - Audio file transcription (WAV, MP3, M4A), in chunks for long WAV recordings
+ * - Conversation transcription with speaker separation
  * - Real-time transcription from meeting audio
  */
 export class AudioService {
@@ -51,7 +76,7 @@ export class AudioService {
   /**
    * Transcribe audio file using Azure Cognitive Services
    */
-  async transcribeAudioFile(audioBuffer: Buffer, audioFormat: "wav" | "mp3" | "m4a" = "wav"): Promise<TranscriptionResult> {
+  async transcribeAudioFile(audioBuffer: Buffer, audioFormat: AudioFormat = "wav"): Promise<TranscriptionResult> {
     try {
       this.logger.debug("🎙️ Starting audio transcription...");
 
@@ -67,14 +92,7 @@ export class AudioService {
         };
       }
 
-      // Map audio format to content type
-      const contentTypeMap: Record<string, string> = {
-        wav: "audio/wav",
-        mp3: "audio/mpeg",
-        m4a: "audio/mp4",
-      };
-
-      const contentType = contentTypeMap[audioFormat] || "audio/wav";
+      const contentType = CONTENT_TYPES[audioFormat] || "audio/wav";
 
       // Call Azure Cognitive Services Speech-to-Text API
       const endpoint = `https://${this.region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1`;
@@ -144,36 +162,30 @@ export class AudioService {
   }
 
   /**
-   * Transcribe audio from URL (e.g., Teams recording)
+   * Transcribe a recording of any length. 16-bit PCM WAV audio is cut into chunks at its
+   * pauses and the chunks transcribed in parallel; anything else goes to the service whole.
    */
-  async transcribeAudioFromUrl(audioUrl: string): Promise<TranscriptionResult> {
+  async transcribeLongAudio(
+    audioBuffer: Buffer,
+    audioFormat: AudioFormat = "wav",
+    options: LongAudioOptions = {}
+  ): Promise<TranscriptionResult> {
     try {
-      this.logger.debug(`🎙️ Downloading and transcribing audio from URL...`);
-
-      // Download audio from URL
-      const audioResponse = await fetch(audioUrl);
-      if (!audioResponse.ok) {
-        return {
-          success: false,
-          text: "",
-          segments: [],
-          language: this.language,
-          duration: 0,
-          message: `❌ Failed to download audio from URL: ${audioResponse.status}`,
-        };
-      }
-
-      const audioBuffer = Buffer.from(await audioResponse.arrayBuffer());
-      
-      // Determine format from content type
-      const contentType = audioResponse.headers.get("content-type") || "audio/wav";
-      let format: "wav" | "mp3" | "m4a" = "wav";
-      if (contentType.includes("mp3")) format = "mp3";
-      else if (contentType.includes("mp4")) format = "m4a";
+      decodeWav(audioBuffer);
+    } catch {
+      // Not WAV we can cut up (e.g., mp3, or 24-bit samples); let the service take it whole
+      return this.transcribeAudioFile(audioBuffer, audioFormat);
+    }
 
-      return this.transcribeAudioFile(audioBuffer, format);
+    try {
+      const transcriber = new LongAudioTranscriber(
+        (chunk) => this.transcribeAudioFile(chunk, "wav"),
+        this.logger,
+        options
+      );
+      return await transcriber.transcribe(audioBuffer);
     } catch (error) {
-      this.logger.error("Error transcribing from URL:", error);
+      this.logger.error("Error transcribing long audio:", error);
       return {
         success: false,
         text: "",
@@ -185,6 +197,78 @@ export class AudioService {
     }
   }
 
+  /**
+   * Download audio, e.g. a Teams recording, and tell its format from the content type
+   */
+  async downloadAudio(audioUrl: string): Promise<DownloadedAudio> {
+    const audioResponse = await fetch(audioUrl);
+    if (!audioResponse.ok) {
+      throw new Error(`Failed to download audio from URL: ${audioResponse.status}`);
+    }
+
+    // Too large to transcribe: don't download it at all
+    const contentLength = Number(audioResponse.headers.get("content-length"));
+    if (contentLength > 0) checkFileSize(contentLength);
+
+    const contentType = audioResponse.headers.get("content-type") || "audio/wav";
+    let format: AudioFormat = "wav";
+    if (contentType.includes("mp3") || contentType.includes("mpeg")) format = "mp3";
+    else if (contentType.includes("mp4")) format = "m4a";
+
+    return { buffer: Buffer.from(await audioResponse.arrayBuffer()), format };
+  }
+
+  /**
+   * Transcribe audio with speaker separation ("conversation transcription"), using the Speech
+   * service's fast transcription API. Speakers are numbered "Speaker 1", "Speaker 2", ... in
+   * the order they first speak.
+   */
+  async transcribeConversation(
+    audioBuffer: Buffer,
+    audioFormat: AudioFormat,
+    maxSpeakers: number
+  ): Promise<TranscribedSegment[]> {
+    const form = new FormData();
+    form.append(
+      "audio",
+      new Blob([new Uint8Array(audioBuffer)], { type: CONTENT_TYPES[audioFormat] }),
+      `audio.${audioFormat}`
+    );
+    form.append(
+      "definition",
+      JSON.stringify({
+        locales: [this.language],
+        diarization: { enabled: true, maxSpeakers },
+      })
+    );
+
+    const endpoint = `https://${this.region}.api.cognitive.microsoft.com/speechtotext/transcriptions:transcribe?api-version=2024-11-15`;
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Ocp-Apim-Subscription-Key": this.apiKey },
+      body: form,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Conversation transcription failed: ${response.status} - ${errorText}`);
+    }
+
+    const result = (await response.json()) as { phrases?: ConversationPhrase[] };
+    const speakerNumbers = new Map<number, number>();
+    return (result.phrases ?? []).map((phrase) => {
+      if (!speakerNumbers.has(phrase.speaker)) {
+        speakerNumbers.set(phrase.speaker, speakerNumbers.size + 1);
+      }
+      return {
+        speaker: `Speaker ${speakerNumbers.get(phrase.speaker)}`,
+        text: phrase.text,
+        startTime: phrase.offsetMilliseconds * 10000,
+        endTime: (phrase.offsetMilliseconds + phrase.durationMilliseconds) * 10000,
+        confidence: phrase.confidence,
+      };
+    });
+  }
+
   /**
    * Parse transcription result into segments
    */
@@ -231,54 +315,23 @@ export class AudioService {
         // Fallback: create single segment from full text
         segments.push({
           text: best.Display || result.DisplayText || "",
-          startTime: 0,
-          endTime: result.Duration || 0,
+          startTime: result.Offset || 0,
+          endTime: (result.Offset || 0) + (result.Duration || 0),
           confidence: best.Confidence,
         });
       }
+    } else if (result.DisplayText) {
+      // The simple response format has no NBest, just the text and where it was heard
+      segments.push({
+        text: result.DisplayText,
+        startTime: result.Offset || 0,
+        endTime: (result.Offset || 0) + (result.Duration || 0),
+      });
     }
 
     return segments;
   }
 
-  /**
-   * Identify speakers from transcribed audio
-   * Uses speaker diarization logic
-   */
-  identifySpeakers(segments: TranscribedSegment[]): Map<string, TranscribedSegment[]> {
-    const speakerMap = new Map<string, TranscribedSegment[]>();
-    
-    // Simple speaker identification based on pauses
-    // In production, use Azure Speaker Recognition API
-    let currentSpeaker = "Speaker 1";
-    let speakerCount = 1;
-    const pauseThreshold = 2000000; // 2 seconds in 100-nanosecond units
-
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      
-      // Detect speaker change based on pause
-      if (i > 0) {
-        const previousSegment = segments[i - 1];
-        const pauseDuration = segment.startTime - previousSegment.endTime;
-        
-        if (pauseDuration > pauseThreshold && speakerCount < 10) {
-          speakerCount++;
-          currentSpeaker = `Speaker ${speakerCount}`;
-        }
-      }
-
-      segment.speaker = currentSpeaker;
-      
-      if (!speakerMap.has(currentSpeaker)) {
-        speakerMap.set(currentSpeaker, []);
-      }
-      speakerMap.get(currentSpeaker)!.push(segment);
-    }
-
-    return speakerMap;
-  }
-
   /**
    * Get audio statistics
    */
@@ -0,0 +1,160 @@
+import { ILogger } from "@microsoft/teams.common";
+import { AcousticDiarizer } from "./acousticDiarizer";
+import { AudioFormat, createAudioService, TranscribedSegment } from "./audioService";
+import { MeetingDetails } from "./graphClient";
+
+/**
+ * Diarization
+ * Works out who spoke when in a recording. Diarizers label speakers "Speaker 1", "Speaker 2",
+ * ... and mapSpeakersToAttendees then puts meeting attendees' names on the labels it can.
+ */
+
+export interface Diarizer {
+  /**
+   * Label each part of the transcript with its speaker. A diarizer may return its own
+   * segmentation of the recording rather than the segments it was given.
+   */
+  diarize(
+    audio: Buffer,
+    format: AudioFormat,
+    segments: TranscribedSegment[]
+  ): Promise<TranscribedSegment[]>;
+}
+
+export type DiarizerFactory = (logger: ILogger, maxSpeakers: number) => Diarizer;
+
+const DIARIZERS = new Map<string, DiarizerFactory>([
+  ["local", (_logger, maxSpeakers) => new AcousticDiarizer(maxSpeakers)],
+  [
+    // The Speech service transcribes the recording again with speakers separated, so its own
+    // phrases replace the segments passed in
+    "azure",
+    (logger, maxSpeakers) => {
+      const audioService = createAudioService(logger);
+      if (!audioService) {
+        throw new Error("Azure Speech is not configured (AZURE_SPEECH_KEY, AZURE_SPEECH_REGION)");
+      }
+      return {
+        diarize: (audio, format) =>
+          audioService.transcribeConversation(audio, format, maxSpeakers),
+      };
+    },
+  ],
+]);
+
+/**
+ * Add or replace a diarizer, e.g. a test registering one with fixed labels
+ */
+export function registerDiarizer(name: string, factory: DiarizerFactory): void {
+  DIARIZERS.set(name, factory);
+}
+
+export function createDiarizer(provider: string, logger: ILogger, maxSpeakers: number): Diarizer {
+  const factory = DIARIZERS.get(provider);
+  if (!factory) {
+    const available = [...DIARIZERS.keys()].join(", ");
+    throw new Error(`Unknown diarization provider "${provider}". Available: ${available}`);
+  }
+  return factory(logger, maxSpeakers);
+}
+
+// Words in the first or last few of a segment that address someone by name
+const ADDRESS_WORDS = 3;
+// "I'm Jane", "this is Jane Doe", "my name is Jane"
+const INTRODUCTION =
+  /\b(?:i['’]m|i am|this is|my name is|it['’]s|here['’]s)\s+([\p{L}'-]+)(?:\s+([\p{L}'-]+))?/giu;
+const INTRODUCTION_VOTE = 3;
+const ADDRESSED_VOTE = 1;
+
+/**
+ * Put attendees' names on diarized speaker labels. Speech carries no identity, so this goes by
+ * what was said: a speaker introducing themselves ("Hi, I'm Jane") is Jane, and whoever answers
+ * a question addressed to Jane is probably her. Each attendee names at most one speaker, and
+ * labels without enough evidence are left as they are.
+ */
+export function mapSpeakersToAttendees(
+  segments: TranscribedSegment[],
+  meeting: Pick<MeetingDetails, "organizer" | "participants">
+): TranscribedSegment[] {
+  const attendees = [
+    ...new Set(
+      [meeting.organizer, ...(meeting.participants?.attendees ?? [])]
+        .map((attendee) => attendee?.emailAddress?.name?.trim())
+        .filter((name): name is string => Boolean(name))
+    ),
+  ];
+  const findAttendee = attendeeMatcher(attendees);
+
+  const votes = new Map<string, Map<string, number>>();
+  const vote = (speaker: string | undefined, attendee: string | null, weight: number) => {
+    if (!speaker || !attendee) return;
+    const speakerVotes = votes.get(speaker) ?? new Map<string, number>();
+    speakerVotes.set(attendee, (speakerVotes.get(attendee) ?? 0) + weight);
+    votes.set(speaker, speakerVotes);
+  };
+
+  segments.forEach((segment, i) => {
+    let introduced = false;
+    for (const match of segment.text.matchAll(INTRODUCTION)) {
+      const attendee = findAttendee([match[1], match[2]].filter(Boolean).join(" "));
+      vote(segment.speaker, attendee, INTRODUCTION_VOTE);
+      introduced ||= attendee !== null;
+    }
+    if (introduced) return;
+
+    // "Jane, what do you think?" or "... over to you, Jane": the next speaker is Jane
+    const next = segments.slice(i + 1).find((later) => later.speaker !== segment.speaker);
+    const words = segment.text.split(/\s+/);
+    const addressed =
+      findAttendee(words.slice(0, ADDRESS_WORDS).join(" ")) ??
+      findAttendee(words.slice(-ADDRESS_WORDS).join(" "));
+    vote(next?.speaker, addressed, ADDRESSED_VOTE);
+  });
+
+  // Strongest evidence first, one attendee per speaker
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  const candidates = [...votes].flatMap(([speaker, speakerVotes]) =>
+    [...speakerVotes].map(([attendee, score]) => ({ speaker, attendee, score }))
+  );
+  for (const { speaker, attendee } of candidates.sort((a, b) => b.score - a.score)) {
+    if (names.has(speaker) || taken.has(attendee)) continue;
+    names.set(speaker, attendee);
+    taken.add(attendee);
+  }
+
+  // When everyone spoke and only one speaker and one attendee are left, they must match
+  const speakers = [...new Set(segments.map((segment) => segment.speaker).filter(Boolean))];
+  const unnamed = speakers.filter((speaker) => !names.has(speaker!));
+  const unheard = attendees.filter((attendee) => !taken.has(attendee));
+  if (speakers.length === attendees.length && unnamed.length === 1 && unheard.length === 1) {
+    names.set(unnamed[0]!, unheard[0]);
+  }
+
+  return segments.map((segment) =>
+    segment.speaker && names.has(segment.speaker)
+      ? { ...segment, speaker: names.get(segment.speaker) }
+      : segment
+  );
+}
+
+// Finds the attendee named in a piece of text, by full name or by a first name only one has
+function attendeeMatcher(attendees: string[]): (text: string) => string | null {
+  const firstNames = new Map<string, string | null>();
+  for (const attendee of attendees) {
+    const first = attendee.split(/\s+/)[0].toLowerCase();
+    firstNames.set(first, firstNames.has(first) ? null : attendee);
+  }
+
+  return (text) => {
+    const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}'-]+/gu, " ")} `;
+    const fullName = attendees.find((attendee) =>
+      normalized.includes(` ${attendee.toLowerCase()} `)
+    );
+    if (fullName) return fullName;
+    for (const [first, attendee] of firstNames) {
+      if (attendee && normalized.includes(` ${first} `)) return attendee;
+    }
+    return null;
+  };
+}
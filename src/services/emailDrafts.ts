@@ -0,0 +1,215 @@
+import { ILogger } from "@microsoft/teams.common";
+import { EmailPreviewPayload } from "../capabilities/capability";
+import { IDatabase } from "../storage/database";
+import { EmailDraftRecord, EmailDraftUpdate, NewEmailDraft } from "../storage/types";
+import { EmailTransport } from "./emailTransport";
+import { EmailMessage, GraphClient } from "./graphClient";
+import { stripHtml } from "./mimeMessage";
+
+/**
+ * Email Drafts
+ * Emails the bot composes are stored as drafts and only sent when the person who asked for
+ * them confirms, from the preview card or in a follow-up message. Recipients are checked
+ * against the directory through Graph whichever transport sends the email.
+ */
+
+export interface RecipientCheck {
+  // Addresses safe to send to, as the directory spells them when it knows them
+  accepted: string[];
+  rejected: Array<{ address: string; reason: string }>;
+}
+
+export interface DraftResult {
+  success: boolean;
+  draft?: EmailDraftRecord;
+  error?: string;
+}
+
+export type DraftChanges = Pick<
+  EmailDraftUpdate,
+  "subject" | "body" | "is_html" | "to_recipients" | "cc_recipients"
+>;
+
+// Action.Execute verbs on the draft preview card
+export const EMAIL_DRAFT_VERBS = {
+  send: "email_draft.send",
+  edit: "email_draft.edit",
+  cancel: "email_draft.cancel",
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class EmailDrafts {
+  constructor(
+    private storage: IDatabase,
+    private graphClient: GraphClient,
+    private transport: EmailTransport,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Accept an address when the directory knows it, or when a person typed it themselves
+   * (e.g., an external client's address in the request). Anything else may have been made up
+   * by the model and is rejected.
+   */
+  async checkRecipients(addresses: string[], typedByUser: string[] = []): Promise<RecipientCheck> {
+    const typed = new Set(typedByUser.map((address) => address.toLowerCase()));
+    const check: RecipientCheck = { accepted: [], rejected: [] };
+
+    for (const raw of addresses) {
+      const address = raw.trim();
+      if (!EMAIL_PATTERN.test(address)) {
+        check.rejected.push({ address, reason: "not a valid email address" });
+        continue;
+      }
+
+      const user = await this.graphClient.getUserByEmail(address);
+      const directoryAddress: string | undefined = user?.mail || user?.userPrincipalName;
+      if (directoryAddress) {
+        check.accepted.push(directoryAddress);
+      } else if (typed.has(address.toLowerCase())) {
+        check.accepted.push(address);
+      } else {
+        check.rejected.push({
+          address,
+          reason: "not found in the directory and not given by the user",
+        });
+      }
+    }
+
+    check.accepted = [...new Map(check.accepted.map((a) => [a.toLowerCase(), a])).values()];
+    return check;
+  }
+
+  async create(draft: NewEmailDraft): Promise<EmailDraftRecord> {
+    const record = await this.storage.createEmailDraft(draft);
+    this.logger.debug(`📝 Saved email draft #${record.id} for ${draft.to_recipients.join(", ")}`);
+    return record;
+  }
+
+  /**
+   * Draft the user can act on: theirs, in this conversation, and still pending
+   */
+  async getOwnPending(
+    draftId: number,
+    userId: string | undefined,
+    conversationId: string
+  ): Promise<DraftResult> {
+    const draft = await this.storage.getEmailDraft(draftId);
+    if (!draft || draft.conversation_id !== conversationId) {
+      return { success: false, error: `Email draft #${draftId} not found` };
+    }
+    if (!userId || draft.created_by !== userId) {
+      return { success: false, error: "Only the person who asked for this email can change it" };
+    }
+    if (draft.status !== "pending") {
+      const error = `Email draft #${draftId} was already ${draft.status}`;
+      return { success: false, draft, error };
+    }
+    return { success: true, draft };
+  }
+
+  async send(draft: EmailDraftRecord): Promise<DraftResult> {
+    // Claim the draft first so a double click or a repeated "send it" sends one email
+    if (!(await this.storage.updateEmailDraft(draft.id, { status: "sending" }, "pending"))) {
+      return { success: false, error: `Email draft #${draft.id} is no longer pending` };
+    }
+
+    const message: EmailMessage = {
+      subject: draft.subject,
+      body: { contentType: draft.is_html ? "HTML" : "Text", content: draft.body },
+      toRecipients: draft.to_recipients.map((address) => ({ emailAddress: { address } })),
+    };
+    if (draft.cc_recipients.length > 0) {
+      message.ccRecipients = draft.cc_recipients.map((address) => ({ emailAddress: { address } }));
+    }
+
+    try {
+      await this.transport.send(message);
+    } catch (error) {
+      this.logger.error(`❌ Error sending email draft #${draft.id}:`, error);
+      // Back to pending so the user can try again
+      await this.storage.updateEmailDraft(draft.id, { status: "pending" });
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      return { success: false, draft, error: `Failed to send email: ${reason}` };
+    }
+
+    const sentAt = new Date().toISOString();
+    await this.storage.updateEmailDraft(draft.id, { status: "sent", sent_at: sentAt });
+    this.logger.debug(`📧 Sent email draft #${draft.id} through ${this.transport.name}`);
+    return { success: true, draft: { ...draft, status: "sent", sent_at: sentAt } };
+  }
+
+  async cancel(draft: EmailDraftRecord): Promise<DraftResult> {
+    if (!(await this.storage.updateEmailDraft(draft.id, { status: "cancelled" }, "pending"))) {
+      return { success: false, error: `Email draft #${draft.id} is no longer pending` };
+    }
+    return { success: true, draft: { ...draft, status: "cancelled" } };
+  }
+
+  /**
+   * Apply edits, checking any new recipients the same way as when the draft was created
+   */
+  async edit(
+    draft: EmailDraftRecord,
+    changes: DraftChanges,
+    typedByUser: string[] = []
+  ): Promise<DraftResult> {
+    const update: DraftChanges = {};
+    if (changes.subject?.trim()) update.subject = changes.subject.trim();
+    if (changes.body?.trim()) {
+      update.body = changes.body;
+      update.is_html = changes.is_html ?? draft.is_html;
+    }
+
+    for (const field of ["to_recipients", "cc_recipients"] as const) {
+      const addresses = changes[field];
+      if (!addresses) continue;
+
+      // Addresses already on the draft were checked when they were added
+      const known = [...draft.to_recipients, ...draft.cc_recipients];
+      const check = await this.checkRecipients(addresses, [...typedByUser, ...known]);
+      if (check.rejected.length > 0) {
+        return { success: false, draft, error: describeRejected(check) };
+      }
+      update[field] = check.accepted;
+    }
+
+    if ((update.to_recipients ?? draft.to_recipients).length === 0) {
+      return { success: false, draft, error: "The email needs at least one recipient" };
+    }
+    if (Object.keys(update).length === 0) {
+      return { success: false, draft, error: "No changes were made to the draft" };
+    }
+
+    if (!(await this.storage.updateEmailDraft(draft.id, update, "pending"))) {
+      return { success: false, error: `Email draft #${draft.id} is no longer pending` };
+    }
+    return { success: true, draft: { ...draft, ...update } };
+  }
+
+  toPayload(draft: EmailDraftRecord): EmailPreviewPayload {
+    return {
+      type: "email_preview",
+      status: draft.status === "pending" || draft.status === "sending" ? "draft" : draft.status,
+      draftId: draft.id,
+      subject: draft.subject,
+      to: draft.to_recipients,
+      cc: draft.cc_recipients.length > 0 ? draft.cc_recipients : undefined,
+      body: draft.is_html ? stripHtml(draft.body) : draft.body,
+      from: this.transport.from,
+    };
+  }
+}
+
+/**
+ * Email addresses written in free text, e.g. the user's own request
+ */
+export function findEmailAddresses(text: string): string[] {
+  return text.match(/[^\s@<>(),;:"']+@[^\s@<>(),;:"']+\.[^\s@<>(),;:"']+/g) ?? [];
+}
+
+export function describeRejected(check: RecipientCheck): string {
+  const details = check.rejected.map(({ address, reason }) => `${address} (${reason})`);
+  return `Some recipients could not be verified: ${details.join(", ")}`;
+}
@@ -0,0 +1,92 @@
+import { ILogger } from "@microsoft/teams.common";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { EmailTransportConfig } from "../utils/config";
+import { EmailMessage, GraphClient, getGraphClient } from "./graphClient";
+import { buildMimeMessage, createMessageId, envelopeRecipients } from "./mimeMessage";
+import { sendSmtpMail } from "./smtpClient";
+
+/**
+ * Email Transport
+ * How a confirmed email leaves the bot: Microsoft Graph, an SMTP server, or a local outbox
+ * directory of .eml files
+ */
+
+export interface EmailTransport {
+  readonly name: EmailTransportConfig["transport"];
+  // The address emails are sent from
+  readonly from: string;
+  // Resolves once the message is accepted; rejects with the reason it wasn't
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Sends from the bot's mailbox through Graph; needs the Mail.Send application permission
+ */
+export class GraphEmailTransport implements EmailTransport {
+  readonly name = "graph";
+
+  constructor(private graphClient: GraphClient, readonly from: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    if (!(await this.graphClient.sendEmail(message, this.from))) {
+      throw new Error("Graph rejected the email. Check the Mail.Send permission for the bot.");
+    }
+  }
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+
+  constructor(
+    private config: EmailTransportConfig["smtp"],
+    readonly from: string,
+    private logger: ILogger
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const recipients = envelopeRecipients(message);
+    this.logger.debug(`📧 Sending email through ${this.config.host} to ${recipients.join(", ")}`);
+    await sendSmtpMail(
+      this.config,
+      { from: this.from, to: recipients },
+      buildMimeMessage(message, { from: this.from })
+    );
+  }
+}
+
+/**
+ * Writes each email as an .eml file instead of sending it, for local development and tests
+ */
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = "outbox";
+
+  constructor(private dir: string, readonly from: string, private logger: ILogger) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const date = new Date();
+    const messageId = createMessageId(this.from);
+    // Timestamped names keep the directory listing in the order the emails were sent
+    const fileName = `${date.toISOString().replace(/[:.]/g, "-")}-${messageId.split("@")[0]}.eml`;
+    const filePath = path.join(this.dir, fileName);
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(filePath, buildMimeMessage(message, { from: this.from, date, messageId }));
+    const recipients = envelopeRecipients(message).join(", ");
+    this.logger.debug(`📭 Wrote ${fileName} to the outbox for ${recipients}`);
+  }
+}
+
+export function createEmailTransport(
+  config: EmailTransportConfig,
+  logger: ILogger
+): EmailTransport {
+  switch (config.transport) {
+    case "smtp":
+      return new SmtpEmailTransport(config.smtp, config.from, logger);
+    case "outbox":
+      return new OutboxEmailTransport(config.outboxDir, config.from, logger);
+    default:
+      return new GraphEmailTransport(getGraphClient(logger), config.from);
+  }
+}
@@ -0,0 +1,123 @@
+import { ILogger } from "@microsoft/teams.common";
+import { EmbeddingConfig } from "../utils/config";
+
+/**
+ * Embedding Service
+ * Turns text into vectors for semantic search
+ */
+
+export interface EmbeddingProvider {
+  // Stored with every vector, so switching providers never compares vectors from different models
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Azure OpenAI accepts up to 2048 inputs per request; smaller batches keep requests well under
+// the token limit for long messages
+const AZURE_BATCH_SIZE = 16;
+const MAX_INPUT_CHARS = 8000;
+
+/**
+ * Embeddings from an Azure OpenAI deployment (e.g., text-embedding-3-small)
+ */
+export class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(private config: EmbeddingConfig, private logger: ILogger) {
+    this.model = config.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += AZURE_BATCH_SIZE) {
+      const batch = texts.slice(start, start + AZURE_BATCH_SIZE);
+      vectors.push(...(await this.embedBatch(batch)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const endpoint = this.config.endpoint.replace(/\/+$/, "");
+    const url = `${endpoint}/openai/deployments/${encodeURIComponent(
+      this.config.model
+    )}/embeddings?api-version=${this.config.apiVersion}`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "api-key": this.config.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ input: texts.map((text) => text.slice(0, MAX_INPUT_CHARS)) }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.error(`❌ Embedding request failed: ${response.status} - ${errorText}`);
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { data: { index: number; embedding: number[] }[] };
+    return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * Deterministic embeddings computed in process by hashing words into a fixed number of
+ * dimensions. It only captures word overlap, not meaning, but needs no network or API key,
+ * so it keeps semantic search working locally and gives tests stable vectors.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(private dimensions = 1024) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector: number[] = new Array(this.dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2)
+      .map(stem);
+
+    const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so colliding features tend to cancel instead of pile up
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+export function createEmbeddingProvider(
+  config: EmbeddingConfig,
+  logger: ILogger
+): EmbeddingProvider {
+  if (config.provider === "azure") {
+    return new AzureOpenAIEmbeddingProvider(config, logger);
+  }
+  return new LocalEmbeddingProvider();
+}
+
+// Strip common English suffixes so "meetings" and "meeting" land in the same dimension
+function stem(word: string): string {
+  return word.replace(/(ing|ed|es|s)$/, "") || word;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -47,15 +47,104 @@ export interface MeetingDetails {
   joinWebUrl?: string;
 }
 
+export interface PlannerAssignment {
+  "@odata.type": string;
+  orderHint: string;
+}
+
 export interface PlannerTask {
   id?: string;
   planId: string;
   bucketId?: string;
   title: string;
-  assignments?: Record<string, { "@odata.type": string; orderHint: string }>;
+  assignments?: Record<string, PlannerAssignment>;
   dueDateTime?: string;
   percentComplete?: number;
   priority?: number;
+  "@odata.etag"?: string;
+}
+
+/**
+ * Fields that can be changed on an existing task. Setting an assignment to null unassigns
+ * that user; dueDateTime null clears the due date.
+ */
+export interface PlannerTaskUpdate {
+  title?: string;
+  percentComplete?: number;
+  dueDateTime?: string | null;
+  priority?: number;
+  assignments?: Record<string, PlannerAssignment | null>;
+}
+
+export interface PlannerTaskUpdateResult {
+  success: boolean;
+  task?: PlannerTask;
+  error?: string;
+}
+
+/**
+ * The task as it is after an update, for when Graph doesn't return it
+ */
+function applyPlannerTaskUpdate(task: PlannerTask, update: PlannerTaskUpdate): PlannerTask {
+  const { dueDateTime, assignments, ...fields } = update;
+  const applied: PlannerTask = { ...task, ...fields };
+  if (dueDateTime !== undefined) {
+    applied.dueDateTime = dueDateTime ?? undefined;
+  }
+  if (assignments) {
+    const merged = { ...task.assignments };
+    for (const [userId, assignment] of Object.entries(assignments)) {
+      if (assignment) merged[userId] = assignment;
+      else delete merged[userId];
+    }
+    applied.assignments = merged;
+  }
+  return applied;
+}
+
+/**
+ * Error response from Graph, keeping the status so callers can react to specific codes
+ */
+export class GraphApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "GraphApiError";
+  }
+}
+
+/**
+ * Thrown when a download is larger than its caller allows
+ */
+export class DownloadTooLargeError extends Error {
+  constructor(public maxBytes: number) {
+    super(`The download is over ${maxBytes} bytes`);
+    this.name = "DownloadTooLargeError";
+  }
+}
+
+/**
+ * Read a response body, giving up as soon as it passes maxBytes instead of buffering the rest.
+ * A Content-Length over the limit is rejected before any of the body is read.
+ */
+export async function readResponseBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body.cancel();
+    throw new DownloadTooLargeError(maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new DownloadTooLargeError(maxBytes);
+    }
+    chunks.push(Buffer.from(chunk.value));
+  }
+  return Buffer.concat(chunks);
 }
 
 export interface EmailMessage {
@@ -237,32 +326,59 @@ export class GraphClient {
   }
 
   /**
-   * Make a PATCH request to Microsoft Graph API (reserved for future use)
-   */
-  // Commented out - reserved for future use
-  // private async _graphPatch<T>(endpoint: string, body: any): Promise<T> {
-  //   const token = await this.getAccessToken();
-  //   const response = await fetch(`https://graph.microsoft.com/v1.0${endpoint}`, {
-  //     method: "PATCH",
-  //     headers: {
-  //       Authorization: `Bearer ${token}`,
-  //       "Content-Type": "application/json",
-  //     },
-  //     body: JSON.stringify(body),
-  //   });
-  //
-  //   if (!response.ok) {
-  //     const errorText = await response.text();
-  //     this.logger.error(`Graph API PATCH error: ${response.status} - ${errorText}`);
-  //     throw new Error(`Graph API error: ${response.status} - ${errorText}`);
-  //   }
-  //
-  //   if (response.status === 204) {
-  //     return {} as T;
-  //   }
-  //
-  //   return response.json();
-  // }
+   * Make a PATCH request to Microsoft Graph API with an ETag precondition.
+   * Retries rate limits and server errors; other 4xx responses (including 412 when the ETag
+   * is stale) are thrown as GraphApiError for the caller to handle.
+   */
+  private async graphPatch<T>(
+    endpoint: string,
+    body: PlannerTaskUpdate,
+    etag: string,
+    retries = 3
+  ): Promise<T> {
+    const token = await this.getAccessToken();
+    let lastError: GraphApiError | null = null;
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      const response = await fetch(`https://graph.microsoft.com/v1.0${endpoint}`, {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+          "If-Match": etag,
+          Prefer: "return=representation",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        // Without return=representation support Graph answers 204 No Content
+        return response.status === 204 ? ({} as T) : response.json();
+      }
+
+      const errorText = await response.text();
+      lastError = new GraphApiError(
+        response.status,
+        `Graph API error: ${response.status} - ${errorText}`
+      );
+
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        if (response.status !== 412) {
+          this.logger.error(`Graph API PATCH error: ${response.status} - ${errorText}`);
+        }
+        throw lastError;
+      }
+
+      if (attempt < retries) {
+        const delay = Math.pow(2, attempt - 1) * 1000; // exponential backoff
+        this.logger.debug(`Rate limited or server error, retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    this.logger.error(`Graph API PATCH failed after ${retries} retries:`, lastError);
+    throw lastError;
+  }
 
   // ==================== MEETING OPERATIONS ====================
 
@@ -529,35 +645,61 @@ export class GraphClient {
   }
 
   /**
-   * Update a Planner task
+   * Get a Planner task, including the ETag needed to update it
    */
-  async updatePlannerTask(
-    taskId: string,
-    updates: Partial<PlannerTask>,
-    etag: string
-  ): Promise<boolean> {
+  async getPlannerTask(taskId: string): Promise<PlannerTask | null> {
     try {
-      const token = await this.getAccessToken();
-      const response = await fetch(`https://graph.microsoft.com/v1.0/planner/tasks/${taskId}`, {
-        method: "PATCH",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-          "If-Match": etag,
-        },
-        body: JSON.stringify(updates),
-      });
+      return await this.graphGet<PlannerTask>(`/planner/tasks/${taskId}`);
+    } catch (error) {
+      this.logger.error("Error getting Planner task:", error);
+      return null;
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to update task: ${response.status}`);
+  /**
+   * Update a Planner task. Planner requires the current ETag in If-Match; when someone else
+   * changed the task in between (412), the task is read again and the update reapplied.
+   * Pass a function to compute the update from the current task, e.g. to replace assignees.
+   */
+  async updatePlannerTask(
+    taskId: string,
+    updates: PlannerTaskUpdate | ((current: PlannerTask) => PlannerTaskUpdate),
+    maxAttempts = 3
+  ): Promise<PlannerTaskUpdateResult> {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const current = await this.getPlannerTask(taskId);
+      if (!current) {
+        return { success: false, error: `Task ${taskId} was not found or is not accessible` };
+      }
+      const etag = current["@odata.etag"];
+      if (!etag) {
+        return { success: false, error: `Task ${taskId} has no ETag` };
       }
 
-      this.logger.debug(`✅ Updated Planner task: ${taskId}`);
-      return true;
-    } catch (error) {
-      this.logger.error("Error updating Planner task:", error);
-      return false;
+      try {
+        const body = typeof updates === "function" ? updates(current) : updates;
+        const updated = await this.graphPatch<PlannerTask>(`/planner/tasks/${taskId}`, body, etag);
+        this.logger.debug(`✅ Updated Planner task: ${taskId}`);
+        // Fall back to the values we sent when Graph doesn't return the updated task
+        return { success: true, task: updated.id ? updated : applyPlannerTaskUpdate(current, body) };
+      } catch (error) {
+        if (error instanceof GraphApiError && error.status === 412 && attempt < maxAttempts) {
+          this.logger.debug(`Task ${taskId} changed since it was read, retrying update...`);
+          continue;
+        }
+        this.logger.error("Error updating Planner task:", error);
+        return {
+          success: false,
+          error:
+            error instanceof GraphApiError && error.status === 412
+              ? "The task kept changing while updating it; please try again"
+              : error instanceof Error
+                ? error.message
+                : "Unknown error",
+        };
+      }
     }
+    return { success: false, error: "Update failed" };
   }
 
   /**
@@ -804,6 +946,37 @@ export class GraphClient {
     }
   }
 
+  /**
+   * Download a file shared in a chat from its OneDrive or SharePoint link (requires
+   * Files.Read.All). Throws DownloadTooLargeError once the file passes maxBytes.
+   */
+  async downloadSharedFile(sharingUrl: string, maxBytes: number): Promise<Buffer | null> {
+    try {
+      // Graph takes any sharing link encoded as a share ID
+      const shareId = `u!${Buffer.from(sharingUrl).toString("base64url")}`;
+      const token = await this.getAccessToken();
+      const response = await fetch(
+        `https://graph.microsoft.com/v1.0/shares/${shareId}/driveItem/content`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to download shared file: ${response.status}`);
+      }
+
+      return await readResponseBody(response, maxBytes);
+    } catch (error) {
+      if (error instanceof DownloadTooLargeError) throw error;
+      this.logger.error("Error downloading shared file:", error);
+      return null;
+    }
+  }
+
   /**
    * List available transcripts for a meeting
    */
@@ -0,0 +1,289 @@
+import { ILogger } from "@microsoft/teams.common";
+import { TranscribedSegment, TranscriptionResult } from "./audioService";
+import { decodeWav, durationMs, encodeWav, PcmAudio, toMono } from "./wav";
+
+/**
+ * Long-form transcription, for recordings longer than one speech request takes.
+ *
+ * The short-audio REST API hears at most 60 seconds and stops at the first pause, so the
+ * recording is cut at its pauses into utterances, and an utterance that runs too long is cut
+ * at its quietest moment with some audio repeated either side. Chunks are transcribed a few at
+ * a time and their segments stitched back together at their place in the recording; where
+ * chunks overlap, each segment is kept only from the chunk that owns its midpoint.
+ */
+
+export interface LongAudioOptions {
+  // Longest chunk sent in one request
+  maxChunkMs?: number;
+  // Audio repeated either side of a cut through speech, so words on the cut are heard whole
+  overlapMs?: number;
+  // Chunks transcribed in parallel
+  concurrency?: number;
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+export interface TranscriptionProgress {
+  chunksDone: number;
+  chunkCount: number;
+  // Seconds of the recording covered by the chunks done so far, and in total
+  secondsDone: number;
+  totalSeconds: number;
+}
+
+export interface AudioChunk {
+  wav: Buffer;
+  // Where the chunk's audio starts in the recording
+  startMs: number;
+  // The stretch of the recording this chunk's segments are kept for
+  ownStartMs: number;
+  ownEndMs: number;
+}
+
+export type ChunkTranscriber = (wav: Buffer) => Promise<TranscriptionResult>;
+
+const TICKS_PER_MS = 10_000;
+const FRAME_MS = 20;
+const DEFAULT_MAX_CHUNK_MS = 50_000;
+const DEFAULT_OVERLAP_MS = 1_000;
+const DEFAULT_CONCURRENCY = 4;
+// A pause this long ends an utterance
+const PAUSE_MS = 700;
+// Silence kept either side of an utterance; under half a pause, so neighbours never leak in
+const PADDING_MS = 200;
+// Frames count as speech above this many times the recording's noise floor, or this level
+const NOISE_FLOOR_FACTOR = 4;
+const MIN_SPEECH_RMS = 300;
+// Shorter bursts are clicks and coughs, not speech
+const MIN_SPEECH_MS = 100;
+// Forced cuts look for the quietest frame across this many neighbouring frames
+const QUIET_WINDOW_FRAMES = 15;
+// Azure reports silence and noise as no match; that chunk just has no words
+const NO_SPEECH = /NoMatch|InitialSilenceTimeout|BabbleTimeout/;
+
+export class LongAudioTranscriber {
+  private maxChunkMs: number;
+  private overlapMs: number;
+  private concurrency: number;
+
+  constructor(
+    private transcribeChunk: ChunkTranscriber,
+    private logger: ILogger,
+    private options: LongAudioOptions = {}
+  ) {
+    this.maxChunkMs = options.maxChunkMs ?? DEFAULT_MAX_CHUNK_MS;
+    // Each cut has to move forward by more than the audio it repeats
+    this.overlapMs = Math.min(options.overlapMs ?? DEFAULT_OVERLAP_MS, this.maxChunkMs / 4);
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Transcribe a 16-bit PCM WAV recording of any length
+   */
+  async transcribe(wav: Buffer): Promise<TranscriptionResult> {
+    const audio = decodeWav(wav);
+    const totalMs = durationMs(audio);
+    const chunks = splitOnSilence(audio, this.maxChunkMs, this.overlapMs);
+    if (chunks.length === 0) {
+      return {
+        success: false,
+        text: "",
+        segments: [],
+        language: "",
+        duration: 0,
+        message: "❌ No speech found in the recording",
+      };
+    }
+    this.logger.debug(
+      `🎙️ ${Math.round(totalMs / 1000)}s of audio split into ${chunks.length} chunks`
+    );
+
+    const progress: TranscriptionProgress = {
+      chunksDone: 0,
+      chunkCount: chunks.length,
+      secondsDone: 0,
+      totalSeconds: Math.round(totalMs / 1000),
+    };
+    const results: TranscriptionResult[] = [];
+    for (let start = 0; start < chunks.length; start += this.concurrency) {
+      const batch = chunks.slice(start, start + this.concurrency);
+      results.push(
+        ...(await Promise.all(
+          batch.map(async (chunk) => {
+            const result = await this.transcribeChunk(chunk.wav);
+            progress.chunksDone++;
+            progress.secondsDone += (chunk.ownEndMs - chunk.ownStartMs) / 1000;
+            this.options.onProgress?.({
+              ...progress,
+              secondsDone: Math.round(progress.secondsDone),
+            });
+            return result;
+          })
+        ))
+      );
+    }
+
+    return stitch(chunks, results, totalMs);
+  }
+}
+
+/**
+ * Cut a recording into chunks of at most maxChunkMs, at pauses where there are any. Stretches
+ * of silence between utterances are left out.
+ */
+export function splitOnSilence(
+  audio: PcmAudio,
+  maxChunkMs: number,
+  overlapMs: number
+): AudioChunk[] {
+  const { sampleRate, channels } = audio.format;
+  const samples = toMono(audio);
+  const frameSamples = Math.round((sampleRate * FRAME_MS) / 1000);
+  const loudness: number[] = [];
+  for (let start = 0; start + frameSamples <= samples.length; start += frameSamples) {
+    loudness.push(rms(samples.subarray(start, start + frameSamples)));
+  }
+  const totalMs = durationMs(audio);
+
+  // The recording's own noise floor, so quiet recordings still split
+  const floor = [...loudness].sort((a, b) => a - b)[Math.floor(loudness.length / 10)] ?? 0;
+  const threshold = Math.max(MIN_SPEECH_RMS, floor * NOISE_FLOOR_FACTOR);
+
+  const utterances: Array<[number, number]> = [];
+  let speechStart = -1;
+  let lastLoud = -1;
+  loudness.forEach((level, frame) => {
+    if (level < threshold) {
+      if (speechStart >= 0 && (frame - lastLoud) * FRAME_MS >= PAUSE_MS) {
+        utterances.push([speechStart * FRAME_MS, (lastLoud + 1) * FRAME_MS]);
+        speechStart = -1;
+      }
+      return;
+    }
+    if (speechStart < 0) speechStart = frame;
+    lastLoud = frame;
+  });
+  if (speechStart >= 0) utterances.push([speechStart * FRAME_MS, (lastLoud + 1) * FRAME_MS]);
+
+  const chunks: AudioChunk[] = [];
+  const addChunk = (startMs: number, endMs: number, ownStartMs: number, ownEndMs: number) => {
+    const bytesPerMs = (sampleRate * channels * 2) / 1000;
+    const blockAlign = channels * 2;
+    const from = Math.floor((startMs * bytesPerMs) / blockAlign) * blockAlign;
+    const to = Math.floor((endMs * bytesPerMs) / blockAlign) * blockAlign;
+    chunks.push({
+      wav: encodeWav(audio.pcm.subarray(from, to), audio.format),
+      startMs: from / bytesPerMs,
+      ownStartMs,
+      ownEndMs,
+    });
+  };
+
+  for (const [speechStartMs, speechEndMs] of utterances) {
+    if (speechEndMs - speechStartMs < MIN_SPEECH_MS) continue;
+    let startMs = Math.max(0, speechStartMs - PADDING_MS);
+    let ownStartMs = startMs;
+    const endMs = Math.min(totalMs, speechEndMs + PADDING_MS);
+
+    // Too long for one request: cut at the quietest moment in the second half of the window
+    while (endMs - startMs > maxChunkMs) {
+      const cutMs = quietestMoment(
+        loudness,
+        startMs + maxChunkMs / 2,
+        startMs + maxChunkMs - overlapMs
+      );
+      addChunk(startMs, cutMs + overlapMs, ownStartMs, cutMs);
+      startMs = cutMs - overlapMs;
+      ownStartMs = cutMs;
+    }
+    addChunk(startMs, endMs, ownStartMs, endMs);
+  }
+  return chunks;
+}
+
+// The middle of the quietest stretch between two points, in ms
+function quietestMoment(loudness: number[], fromMs: number, toMs: number): number {
+  const first = Math.ceil(fromMs / FRAME_MS);
+  const last = Math.min(Math.floor(toMs / FRAME_MS), loudness.length - 1);
+  const half = Math.floor(QUIET_WINDOW_FRAMES / 2);
+  let quietest = last;
+  let quietestLevel = Infinity;
+  for (let frame = first; frame <= last; frame++) {
+    const window = loudness.slice(Math.max(0, frame - half), frame + half + 1);
+    const level = window.reduce((sum, value) => sum + value, 0) / window.length;
+    // The latest of equally quiet moments, for the fewest chunks
+    if (level <= quietestLevel) {
+      quietestLevel = level;
+      quietest = frame;
+    }
+  }
+  return quietest * FRAME_MS;
+}
+
+// Put the chunks' segments back at their place in the recording, as one result
+function stitch(
+  chunks: AudioChunk[],
+  results: TranscriptionResult[],
+  totalMs: number
+): TranscriptionResult {
+  const segments: TranscribedSegment[] = [];
+  const failed: string[] = [];
+  results.forEach((result, i) => {
+    const chunk = chunks[i];
+    if (!result.success) {
+      if (!NO_SPEECH.test(result.message)) {
+        failed.push(`${formatTime(chunk.ownStartMs)}-${formatTime(chunk.ownEndMs)}`);
+      }
+      return;
+    }
+
+    const offset = chunk.startMs * TICKS_PER_MS;
+    for (const segment of result.segments) {
+      const placed = {
+        ...segment,
+        startTime: segment.startTime + offset,
+        endTime: segment.endTime + offset,
+      };
+      const midpointMs = (placed.startTime + placed.endTime) / 2 / TICKS_PER_MS;
+      if (midpointMs >= chunk.ownStartMs && midpointMs < chunk.ownEndMs) {
+        segments.push(placed);
+      }
+    }
+  });
+
+  const language = results.find((result) => result.success)?.language ?? results[0].language;
+  if (failed.length === results.length) {
+    return {
+      success: false,
+      text: "",
+      segments: [],
+      language,
+      duration: 0,
+      message: results[0].message,
+    };
+  }
+
+  segments.sort((a, b) => a.startTime - b.startTime);
+  const gaps = failed.length
+    ? `. ${failed.length} of ${chunks.length} chunks failed, so these parts are missing: ` +
+      failed.join(", ")
+    : "";
+  return {
+    success: true,
+    text: segments.map((segment) => segment.text).join(" "),
+    segments,
+    language,
+    duration: Math.round(totalMs * TICKS_PER_MS),
+    message: `✅ Transcribed ${formatTime(totalMs)} of audio in ${chunks.length} chunks${gaps}`,
+  };
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function rms(frame: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / (frame.length || 1));
+}
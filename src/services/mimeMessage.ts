@@ -0,0 +1,166 @@
+import { createHash, randomUUID } from "node:crypto";
+import { EmailMessage } from "./graphClient";
+
+/**
+ * MIME Message
+ * Renders an email as RFC 5322 / MIME text, the form SMTP servers and .eml files expect.
+ * Given the same date and Message-ID the output is byte-for-byte the same.
+ */
+
+export interface MimeOptions {
+  from: string;
+  date?: Date;
+  // Without angle brackets; generated from the sender's domain when not given
+  messageId?: string;
+}
+
+type Recipients = EmailMessage["toRecipients"];
+
+const MAX_LINE_LENGTH = 76;
+// Bytes of UTF-8 per encoded word, so each "=?UTF-8?B?...?=" stays under 76 characters
+const ENCODED_WORD_BYTES = 45;
+
+export function buildMimeMessage(message: EmailMessage, options: MimeOptions): string {
+  const messageId = options.messageId ?? createMessageId(options.from);
+  const headers = [
+    `From: ${options.from}`,
+    `To: ${formatRecipients(message.toRecipients)}`,
+  ];
+  if (message.ccRecipients && message.ccRecipients.length > 0) {
+    headers.push(`Cc: ${formatRecipients(message.ccRecipients)}`);
+  }
+  headers.push(
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    "MIME-Version: 1.0"
+  );
+
+  const { contentType, content } = message.body;
+  if (contentType === "Text") {
+    return [...headers, ...textPart("plain", content)].join("\r\n");
+  }
+
+  // HTML mail carries a plain-text alternative for clients that don't render HTML
+  const boundary = `=_collaborator_${createHash("sha256")
+    .update(`${messageId}\n${content}`)
+    .digest("hex")
+    .slice(0, 24)}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart("plain", stripHtml(content)),
+    `--${boundary}`,
+    ...textPart("html", content),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Every address the message goes to, To and Cc alike, for the SMTP envelope
+ */
+export function envelopeRecipients(message: EmailMessage): string[] {
+  return [...message.toRecipients, ...(message.ccRecipients ?? [])].map(
+    (recipient) => recipient.emailAddress.address
+  );
+}
+
+export function createMessageId(from: string): string {
+  const domain = from.split("@")[1] || "localhost";
+  return `${randomUUID()}@${domain}`;
+}
+
+/**
+ * Plain-text version of an HTML email body for previews
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function textPart(subtype: "plain" | "html", content: string): string[] {
+  return [
+    `Content-Type: text/${subtype}; charset=utf-8`,
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(content),
+  ];
+}
+
+function formatRecipients(recipients: Recipients): string {
+  return recipients
+    .map(({ emailAddress: { address, name } }) =>
+      name ? `${encodeDisplayName(name)} <${address}>` : address
+    )
+    .join(", ");
+}
+
+function encodeDisplayName(name: string): string {
+  if (!isAscii(name)) return encodeHeaderValue(name);
+  return /^[\w !#$%&'*+/=?^`{|}~-]+$/.test(name) ? name : `"${name.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/**
+ * RFC 2047 encoded words for non-ASCII header text, folded onto continuation lines
+ */
+function encodeHeaderValue(value: string): string {
+  if (isAscii(value)) return value;
+
+  const words: string[] = [];
+  let current = "";
+  for (const char of value) {
+    if (Buffer.byteLength(current + char, "utf8") > ENCODED_WORD_BYTES) {
+      words.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) words.push(current);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`)
+    .join("\r\n ");
+}
+
+function encodeQuotedPrintable(text: string): string {
+  return text.replace(/\r\n?/g, "\n").split("\n").map(encodeQuotedPrintableLine).join("\r\n");
+}
+
+function encodeQuotedPrintableLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  let encoded = "";
+  bytes.forEach((byte, index) => {
+    // Trailing whitespace is escaped because mail servers may strip it
+    const whitespace = byte === 0x20 || byte === 0x09;
+    const printable = byte >= 0x21 && byte <= 0x7e && byte !== 0x3d;
+    encoded +=
+      printable || (whitespace && index < bytes.length - 1)
+        ? String.fromCharCode(byte)
+        : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+  });
+
+  // Soft line breaks ("=" at the end of a line) keep every line within the limit
+  const lines: string[] = [];
+  while (encoded.length > MAX_LINE_LENGTH) {
+    let cut = MAX_LINE_LENGTH - 1;
+    // Never split an "=XX" escape across lines
+    const escapeStart = encoded.lastIndexOf("=", cut - 1);
+    if (escapeStart > cut - 3) cut = escapeStart;
+    lines.push(`${encoded.slice(0, cut)}=`);
+    encoded = encoded.slice(cut);
+  }
+  lines.push(encoded);
+  return lines.join("\r\n");
+}
+
+function isAscii(text: string): boolean {
+  return /^[\x20-\x7e]*$/.test(text);
+}
@@ -0,0 +1,128 @@
+import { ChatSendOptions, IChatModel, Message, ModelMessage } from "@microsoft/teams.ai";
+import { OpenAIChatModel } from "@microsoft/teams.openai";
+import { allModelConfigs, ModelConfig } from "../utils/config";
+import { loadModelScript, ScriptedChatModel } from "./scriptedChatModel";
+import { createUsageFetch } from "./usageTracker";
+
+/**
+ * Model Providers
+ * Builds the chat model for a capability from the provider named in its ModelConfig
+ */
+
+export type ChatModelFactory = (config: ModelConfig) => IChatModel;
+
+// What a config still needs before the provider can use it, e.g. ["AZURE_OPENAI_KEY"]
+export type ProviderRequirements = (config: ModelConfig) => string[];
+
+const MODEL_PROVIDERS = new Map<string, ChatModelFactory>([
+  [
+    "azure-openai",
+    (config) =>
+      new OpenAIChatModel({
+        model: config.model,
+        apiKey: config.apiKey,
+        endpoint: config.endpoint,
+        apiVersion: config.apiVersion,
+        fetch: createUsageFetch(config),
+      }),
+  ],
+  [
+    // Any server with the OpenAI chat completions API: OpenAI itself, Ollama, vLLM, ...
+    "openai",
+    (config) =>
+      new OpenAIChatModel({
+        model: config.model,
+        // Local servers usually ignore the key, but the client won't start without one
+        apiKey: config.apiKey || "unused",
+        baseUrl: config.endpoint,
+        fetch: createUsageFetch(config),
+      }),
+  ],
+  ["scripted", (config) => new ScriptedChatModel(loadModelScript(config.scriptPath!))],
+]);
+
+const PROVIDER_REQUIREMENTS = new Map<string, ProviderRequirements>([
+  [
+    "azure-openai",
+    (config) => [
+      ...(config.apiKey ? [] : ["AZURE_OPENAI_KEY"]),
+      ...(config.endpoint ? [] : ["AZURE_OPENAI_ENDPOINT"]),
+    ],
+  ],
+  [
+    // Only OpenAI itself needs a key; a local server is reached through OPENAI_BASE_URL
+    "openai",
+    (config) =>
+      !config.apiKey && /^https:\/\/api\.openai\.com\b/.test(config.endpoint)
+        ? ["OPENAI_BASE_URL or OPENAI_API_KEY"]
+        : [],
+  ],
+  ["scripted", (config) => (config.scriptPath ? [] : ["scriptPath or SCRIPTED_MODEL_PATH"])],
+]);
+
+/**
+ * Add or replace a provider, e.g. a test registering a scripted model it built in code
+ */
+export function registerModelProvider(
+  name: string,
+  factory: ChatModelFactory,
+  requirements?: ProviderRequirements
+): void {
+  MODEL_PROVIDERS.set(name, factory);
+  if (requirements) {
+    PROVIDER_REQUIREMENTS.set(name, requirements);
+  } else {
+    PROVIDER_REQUIREMENTS.delete(name);
+  }
+}
+
+/**
+ * Check that every model config in use names a registered provider and has what that provider
+ * needs. Throws listing every problem; runs on startup and whenever the model config file is
+ * reloaded, so a bad edit is rejected before any capability builds a model from it.
+ */
+export function validateModelConfigs(): void {
+  const errors: string[] = [];
+  for (const [name, config] of allModelConfigs()) {
+    if (!MODEL_PROVIDERS.has(config.provider)) {
+      const available = [...MODEL_PROVIDERS.keys()].join(", ");
+      errors.push(`${name}: unknown model provider "${config.provider}". Available: ${available}`);
+      continue;
+    }
+    const missing = PROVIDER_REQUIREMENTS.get(config.provider)?.(config) ?? [];
+    if (missing.length > 0) {
+      errors.push(`${name}: ${config.provider} needs ${missing.join(", ")}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    const details = errors.map((error) => `  - ${error}`).join("\n");
+    throw new Error(`Invalid model configuration:\n${details}`);
+  }
+}
+
+export function createChatModel(config: ModelConfig): IChatModel {
+  const factory = MODEL_PROVIDERS.get(config.provider);
+  if (!factory) {
+    const available = [...MODEL_PROVIDERS.keys()].join(", ");
+    throw new Error(`Unknown model provider "${config.provider}". Available: ${available}`);
+  }
+
+  const model = factory(config);
+  const request: Record<string, number> = {};
+  if (config.temperature !== undefined) request.temperature = config.temperature;
+  if (config.maxTokens !== undefined) request.max_tokens = config.maxTokens;
+  return Object.keys(request).length > 0 ? new RequestDefaultsModel(model, request) : model;
+}
+
+/**
+ * Adds the configured temperature and max tokens to every request the prompt makes,
+ * including the follow-ups after function calls
+ */
+class RequestDefaultsModel implements IChatModel {
+  constructor(private model: IChatModel, private request: Record<string, number>) {}
+
+  send(input: Message, options: ChatSendOptions = {}): Promise<ModelMessage> {
+    return this.model.send(input, { ...options, request: { ...this.request, ...options.request } });
+  }
+}
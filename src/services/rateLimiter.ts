@@ -0,0 +1,104 @@
+import { ILogger } from "@microsoft/teams.common";
+import { RateLimitDecision, RateLimitRequest } from "../storage/types";
+import { parseRateLimit, RATE_LIMIT_CONFIG } from "../utils/config";
+import { isBotAdmin, MessageContext } from "../utils/messageContext";
+
+/**
+ * Rate Limiter
+ * Token-bucket limits per user, per conversation and per capability, so one busy user or chat
+ * can't use up the model quota for everyone. Buckets are kept in storage and shared by every
+ * bot instance. Admins are never limited and can override the limit of a user or a chat.
+ */
+
+export function userBucketKey(userId: string): string {
+  return `user:${userId.toLowerCase()}`;
+}
+
+export function conversationBucketKey(conversationId: string): string {
+  return `conversation:${conversationId}`;
+}
+
+/**
+ * Take a token for a request from the sender's buckets: their user and conversation buckets,
+ * or with `capability`, their bucket for that capability. Work the bot starts on its own has
+ * no sender and is never limited.
+ */
+export async function checkRateLimit(
+  context: MessageContext,
+  logger: ILogger,
+  capability?: string
+): Promise<RateLimitDecision> {
+  // Teams ids and AAD object ids both identify a user; overrides may name either
+  const userIds = [context.userUpn, context.userId].filter((id): id is string => !!id);
+  if (userIds.length === 0 || isBotAdmin(context)) {
+    return { allowed: true };
+  }
+
+  try {
+    const overrides = new Map(
+      (await context.storage.getRateLimitOverrides()).map((override) => [
+        override.bucket_key,
+        override.rate,
+      ])
+    );
+    const userOverride = userIds
+      .map((id) => overrides.get(userBucketKey(id)))
+      .find((rate) => rate !== undefined);
+    const conversationKey = conversationBucketKey(context.conversationId);
+
+    const buckets: Array<[string, string | undefined]> = capability
+      ? [
+          [
+            `capability:${capability}:${userBucketKey(userIds[0])}`,
+            // Users an admin has exempted are exempt from capability limits too
+            userOverride === "off" ? "off" : RATE_LIMIT_CONFIG.capabilities[capability],
+          ],
+        ]
+      : [
+          [userBucketKey(userIds[0]), userOverride ?? RATE_LIMIT_CONFIG.user],
+          [conversationKey, overrides.get(conversationKey) ?? RATE_LIMIT_CONFIG.conversation],
+        ];
+
+    const requests: RateLimitRequest[] = [];
+    for (const [key, rate] of buckets) {
+      const limit = rate ? parseRateLimit(rate) : null;
+      if (limit) requests.push({ key, limit });
+    }
+    if (requests.length === 0) return { allowed: true };
+
+    const decision = await context.storage.takeRateLimitTokens(requests, new Date().toISOString());
+    if (!decision.allowed) {
+      logger.warn(`🚦 Rate limited ${decision.blockedKey} for ${decision.retryAfterMs}ms`);
+    }
+    return decision;
+  } catch (error) {
+    // A broken limiter shouldn't take the bot down with it
+    logger.error("❌ Error checking rate limits:", error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * The friendly "slow down" reply for a refused request
+ */
+export function rateLimitMessage(decision: RateLimitDecision): string {
+  const wait = formatWait(decision.retryAfterMs ?? 60 * 1000);
+  const key = decision.blockedKey ?? "";
+
+  if (key.startsWith("conversation:")) {
+    return `This chat has sent me a lot of requests in a short time. Please give me ${wait} before asking again.`;
+  }
+  if (key.startsWith("capability:")) {
+    const capability = key.split(":")[1].replace(/_/g, " ");
+    return `You've used ${capability} a lot in a short time. Please try it again in ${wait}.`;
+  }
+  return `You're sending me requests faster than I can keep up with. Please try again in ${wait}.`;
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 120) return `about ${minutes} minute${minutes === 1 ? "" : "s"}`;
+  return `about ${Math.ceil(minutes / 60)} hours`;
+}
@@ -0,0 +1,79 @@
+import { ChatSendOptions, IChatModel, Message, ModelMessage } from "@microsoft/teams.ai";
+import fs from "node:fs";
+
+/**
+ * Scripted Chat Model
+ * Answers from a fixed script instead of calling a model, for tests and offline CI. A turn can
+ * call the prompt's functions before replying, so capabilities still run their real handlers.
+ */
+
+export interface ScriptedTurn {
+  // Regular expression tested against the incoming message; a turn without one matches anything
+  match?: string;
+  // Functions to call, in order, before replying
+  calls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+  // Defaults to the result of the last function call
+  reply?: string;
+}
+
+export class ScriptedChatModel implements IChatModel {
+  // Each turn answers once, so a script reads top to bottom like the conversation it stands for
+  private used = new Set<number>();
+
+  constructor(private turns: ScriptedTurn[]) {}
+
+  async send(input: Message, options: ChatSendOptions = {}): Promise<ModelMessage> {
+    const text = typeof input.content === "string" ? input.content : JSON.stringify(input.content);
+    const memory = options.messages;
+    await memory?.push(input);
+
+    const index = this.turns.findIndex(
+      (turn, i) => !this.used.has(i) && (!turn.match || new RegExp(turn.match, "i").test(text))
+    );
+    if (index < 0) {
+      throw new Error(`No scripted turn left for: ${text?.slice(0, 100)}`);
+    }
+    this.used.add(index);
+    const turn = this.turns[index];
+
+    const calls = (turn.calls ?? []).map((call, i) => ({
+      id: `scripted_${index}_${i}`,
+      name: call.name,
+      arguments: call.arguments ?? {},
+    }));
+    let lastResult = "";
+    if (calls.length > 0) {
+      await memory?.push({ role: "model", function_calls: calls });
+      for (const call of calls) {
+        const fn = findFunction(options.functions, call.name);
+        if (!fn) {
+          throw new Error(`Scripted turn calls unknown function "${call.name}"`);
+        }
+        const result = await fn.handler(call.arguments);
+        lastResult = typeof result === "string" ? result : JSON.stringify(result);
+        await memory?.push({ role: "function", id: call.id, content: lastResult });
+      }
+    }
+
+    const response: ModelMessage = { role: "model", content: turn.reply ?? lastResult };
+    await memory?.push(response);
+    return response;
+  }
+}
+
+/**
+ * Read a script: a JSON array of turns
+ */
+export function loadModelScript(scriptPath: string): ScriptedTurn[] {
+  const turns = JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+  if (!Array.isArray(turns)) {
+    throw new Error(`Model script ${scriptPath} must be a JSON array of turns`);
+  }
+  return turns;
+}
+
+function findFunction(functions: ChatSendOptions["functions"], name: string) {
+  return Array.isArray(functions)
+    ? functions.find((fn: { name: string }) => fn.name === name)
+    : functions?.[name];
+}
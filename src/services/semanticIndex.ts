@@ -0,0 +1,273 @@
+import { ILogger } from "@microsoft/teams.common";
+import { IDatabase } from "../storage/database";
+import { buildSnippet, keywordsToQuery } from "../storage/searchQuery";
+import {
+  EmbeddingSourceType,
+  MessageRecord,
+  MessageSearchHit,
+  NewEmbedding,
+  TranscriptSegmentRecord,
+  VectorSearchHit,
+} from "../storage/types";
+import { EmbeddingProvider } from "./embeddingService";
+
+/**
+ * Semantic Index
+ * Embeds messages and transcript segments as they are stored, and answers searches by
+ * fusing vector similarity with the full-text keyword index
+ */
+
+export interface SemanticSearchOptions {
+  startTime?: string;
+  endTime?: string;
+  participants?: string[];
+  maxResults?: number;
+  includeTranscripts?: boolean;
+  // Keyword query for the full-text side; derived from the search text when omitted
+  keywordQuery?: string;
+}
+
+export interface SemanticSearchHit {
+  source: EmbeddingSourceType;
+  speakerName: string | null;
+  content: string;
+  timestamp: string | null;
+  activityId: string | null; // messages only, for deep links
+  meetingId: string | null; // transcript segments only
+  // Matching excerpt with query words in **bold**
+  snippet: string;
+  // Reciprocal rank fusion score; only comparable within one result set
+  score: number;
+  matchedBy: ("semantic" | "keyword")[];
+}
+
+// Rank constant from the original reciprocal rank fusion paper; dampens the gap between
+// the top few results of each list
+const RRF_K = 60;
+// Vector matches below this similarity are noise rather than related wording
+const MIN_SIMILARITY = 0.1;
+// Each list contributes this many candidates per requested result before fusion
+const CANDIDATE_FACTOR = 4;
+
+const STOP_WORDS = new Set([
+  "about", "and", "are", "did", "does", "for", "from", "how", "the", "that", "this", "was",
+  "were", "what", "when", "where", "which", "who", "why", "with", "talk", "talked", "said",
+  "say", "discuss", "discussed", "mention", "mentioned", "our", "you", "they", "them",
+]);
+
+export class SemanticIndex {
+  constructor(
+    private store: IDatabase,
+    private provider: EmbeddingProvider,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Embed newly stored messages. Failures are logged rather than thrown so an embedding
+   * outage never loses the messages themselves.
+   */
+  async indexMessages(messages: MessageRecord[]): Promise<void> {
+    // Messages are keyed by activity ID, which is also what citations deep link to
+    const indexable = messages.filter(
+      (message) => message.conversation_id && message.activity_id && message.content?.trim()
+    );
+    if (indexable.length === 0) return;
+
+    try {
+      const vectors = await this.provider.embed(indexable.map((message) => message.content));
+      await this.store.upsertEmbeddings(
+        indexable.map((message, index) => ({
+          source_type: "message",
+          source_id: message.activity_id!,
+          conversation_id: message.conversation_id!,
+          speaker_name: message.name,
+          content: message.content,
+          timestamp: message.timestamp,
+          model: this.provider.model,
+          vector: vectors[index],
+        }))
+      );
+      this.logger.debug(`🧭 Embedded ${indexable.length} message(s)`);
+    } catch (error) {
+      this.logger.warn("⚠️ Failed to embed messages:", error);
+    }
+  }
+
+  /**
+   * Embed the segments of a fetched transcript, skipping segments embedded on an earlier fetch
+   */
+  async indexTranscript(
+    conversationId: string,
+    meetingId: string,
+    segments: TranscriptSegmentRecord[]
+  ): Promise<void> {
+    try {
+      const embedded = new Set(
+        await this.store.getEmbeddedSourceIds(conversationId, "transcript", this.provider.model)
+      );
+      const pending = segments.filter(
+        (segment) => segment.content.trim() && !embedded.has(transcriptSourceId(segment))
+      );
+      if (pending.length === 0) return;
+
+      const vectors = await this.provider.embed(pending.map((segment) => segment.content));
+      await this.store.upsertEmbeddings(
+        pending.map(
+          (segment, index): NewEmbedding => ({
+            source_type: "transcript",
+            source_id: transcriptSourceId(segment),
+            conversation_id: conversationId,
+            meeting_id: meetingId,
+            speaker_name: segment.speaker_name,
+            content: segment.content,
+            timestamp: segment.timestamp_start,
+            model: this.provider.model,
+            vector: vectors[index],
+          })
+        )
+      );
+      this.logger.debug(`🧭 Embedded ${pending.length} transcript segment(s) for ${meetingId}`);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to embed transcript for ${meetingId}:`, error);
+    }
+  }
+
+  /**
+   * Search by meaning and by keyword, then merge both rankings with reciprocal rank fusion.
+   * Either side failing leaves the other's results.
+   */
+  async search(
+    conversationId: string,
+    query: string,
+    options: SemanticSearchOptions = {}
+  ): Promise<SemanticSearchHit[]> {
+    const maxResults = options.maxResults ?? 5;
+    const candidates = maxResults * CANDIDATE_FACTOR;
+
+    const [vectorHits, keywordHits] = await Promise.all([
+      this.searchVectors(conversationId, query, options, candidates),
+      this.searchKeywords(conversationId, query, options, candidates),
+    ]);
+
+    const terms = queryWords(query);
+    const fused = new Map<string, SemanticSearchHit>();
+    const addRank = (key: string, rank: number, hit: SemanticSearchHit) => {
+      const existing = fused.get(key);
+      if (existing) {
+        existing.score += 1 / (RRF_K + rank);
+        existing.matchedBy.push(...hit.matchedBy);
+        return;
+      }
+      fused.set(key, { ...hit, score: 1 / (RRF_K + rank) });
+    };
+
+    vectorHits.forEach(({ record }, index) =>
+      addRank(`${record.source_type}:${record.source_id}`, index + 1, {
+        source: record.source_type,
+        speakerName: record.speaker_name,
+        content: record.content,
+        timestamp: record.timestamp,
+        activityId: record.source_type === "message" ? record.source_id : null,
+        meetingId: record.meeting_id,
+        snippet: buildSnippet(record.content, terms),
+        score: 0,
+        matchedBy: ["semantic"],
+      })
+    );
+    keywordHits.forEach((hit, index) =>
+      addRank(`message:${messageSourceId(hit.message)}`, index + 1, fromKeywordHit(hit))
+    );
+
+    return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, maxResults);
+  }
+
+  private async searchVectors(
+    conversationId: string,
+    query: string,
+    options: SemanticSearchOptions,
+    limit: number
+  ): Promise<VectorSearchHit[]> {
+    try {
+      const [vector] = await this.provider.embed([query]);
+      const hits = await this.store.searchEmbeddings(conversationId, vector, {
+        model: this.provider.model,
+        sourceTypes: options.includeTranscripts === false ? ["message"] : undefined,
+        startTime: options.startTime,
+        endTime: options.endTime,
+        limit,
+      });
+      return hits.filter(
+        ({ record, similarity }) =>
+          similarity >= MIN_SIMILARITY &&
+          (record.source_type !== "message" ||
+            matchesParticipants(record.speaker_name, options.participants))
+      );
+    } catch (error) {
+      this.logger.warn("⚠️ Vector search failed; using keyword results only:", error);
+      return [];
+    }
+  }
+
+  private async searchKeywords(
+    conversationId: string,
+    query: string,
+    options: SemanticSearchOptions,
+    limit: number
+  ): Promise<MessageSearchHit[]> {
+    const keywordQuery = options.keywordQuery?.trim() || keywordsToQuery(queryWords(query));
+    if (!keywordQuery || !options.startTime || !options.endTime) return [];
+
+    try {
+      return await this.store.searchMessages(conversationId, keywordQuery, {
+        startTime: options.startTime,
+        endTime: options.endTime,
+        participants: options.participants,
+        maxResults: limit,
+      });
+    } catch (error) {
+      this.logger.warn("⚠️ Keyword search failed; using vector results only:", error);
+      return [];
+    }
+  }
+}
+
+/**
+ * Present full-text hits as semantic search hits, for contexts without a semantic index
+ */
+export function fromKeywordHit(hit: MessageSearchHit): SemanticSearchHit {
+  return {
+    source: "message",
+    speakerName: hit.message.name,
+    content: hit.message.content,
+    timestamp: hit.message.timestamp,
+    activityId: hit.message.activity_id || null,
+    meetingId: null,
+    snippet: hit.snippet,
+    score: hit.rank,
+    matchedBy: ["keyword"],
+  };
+}
+
+// Same key as the vector side for messages with an activity ID, so both lists fuse on them
+function messageSourceId(message: MessageRecord): string {
+  return message.activity_id || `${message.timestamp}:${message.name}`;
+}
+
+// Transcript IDs are only unique within a meeting: every shared transcript file is "file"
+function transcriptSourceId(segment: TranscriptSegmentRecord): string {
+  return `${segment.meeting_id}:${segment.transcript_id}:${segment.sequence_number}`;
+}
+
+// Content words of a natural-language question, e.g. "pricing", "concerns"
+function queryWords(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function matchesParticipants(speakerName: string | null, participants?: string[]): boolean {
+  if (!participants || participants.length === 0) return true;
+  const speaker = (speakerName ?? "").toLowerCase();
+  return participants.some((participant) => speaker.includes(participant.toLowerCase()));
+}
@@ -0,0 +1,221 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+/**
+ * SMTP Client
+ * A single-message SMTP session (RFC 5321): EHLO, STARTTLS when offered, AUTH PLAIN or LOGIN,
+ * then the envelope and the MIME text. Enough for a relay or a mail provider's submission port.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect with TLS from the start instead of upgrading with STARTTLS
+  secure: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export async function sendSmtpMail(
+  options: SmtpOptions,
+  envelope: SmtpEnvelope,
+  data: string
+): Promise<void> {
+  const session = await SmtpSession.connect(options);
+  try {
+    await session.expect([220]);
+    let extensions = await session.ehlo();
+
+    if (!options.secure && extensions.has("STARTTLS")) {
+      await session.command("STARTTLS", [220]);
+      await session.upgrade(options.host);
+      extensions = await session.ehlo();
+    }
+
+    if (options.username) {
+      if (!session.encrypted) {
+        throw new Error(`SMTP server ${options.host} does not offer TLS; not sending credentials`);
+      }
+      await session.authenticate(options.username, options.password ?? "", extensions);
+    }
+
+    await session.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+    // Lines starting with "." are doubled so they can't end the message early
+    const body = data.replace(/(^|\r\n)\./g, "$1..");
+    await session.command(`${body}${body.endsWith("\r\n") ? "" : "\r\n"}.`, [250], "DATA");
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
+
+class SmtpSession {
+  private buffer = "";
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  static connect(options: SmtpOptions): Promise<SmtpSession> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      const ready = options.secure ? "secureConnect" : "connect";
+
+      socket.setTimeout(timeoutMs, () =>
+        socket.destroy(new Error(`Timed out connecting to SMTP server ${options.host}`))
+      );
+      socket.once("error", reject);
+      socket.once(ready, () => {
+        socket.off("error", reject);
+        resolve(new SmtpSession(socket, timeoutMs));
+      });
+    });
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  async ehlo(): Promise<Set<string>> {
+    const reply = await this.command(`EHLO ${os.hostname() || "localhost"}`, [250]);
+    // The first line is the server's greeting; the rest are extensions like "AUTH PLAIN LOGIN"
+    return new Set(
+      reply.lines.slice(1).flatMap((line) => {
+        const [keyword, ...params] = line.toUpperCase().split(" ");
+        return keyword === "AUTH" ? [keyword, ...params.map((p) => `AUTH=${p}`)] : [keyword];
+      })
+    );
+  }
+
+  async authenticate(username: string, password: string, extensions: Set<string>) {
+    if (extensions.has("AUTH=PLAIN") || !extensions.has("AUTH=LOGIN")) {
+      const token = Buffer.from(`\0${username}\0${password}`).toString("base64");
+      await this.command(`AUTH PLAIN ${token}`, [235], "AUTH PLAIN");
+      return;
+    }
+    await this.command("AUTH LOGIN", [334]);
+    await this.command(Buffer.from(username).toString("base64"), [334], "AUTH LOGIN");
+    await this.command(Buffer.from(password).toString("base64"), [235], "AUTH LOGIN");
+  }
+
+  /**
+   * Switch the connection to TLS after the server accepted STARTTLS
+   */
+  upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    for (const event of ["data", "error", "close"]) plain.removeAllListeners(event);
+    plain.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host });
+      secure.once("error", reject);
+      secure.once("secureConnect", () => {
+        secure.off("error", reject);
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Send one line and wait for its reply. `label` replaces the line in errors, so message
+   * bodies and credentials never end up in logs.
+   */
+  async command(line: string, expected: number[], label?: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label ?? line);
+  }
+
+  async expect(expected: number[], label = "connect"): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error("Timed out waiting for the SMTP server"))
+    );
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf8");
+      let reply: SmtpReply | null;
+      while ((reply = this.takeReply())) this.replies.push(reply);
+      this.settle();
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  // A reply is complete at the line with a space after the code ("250 OK", not "250-SIZE")
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let start = 0;
+    for (;;) {
+      const end = this.buffer.indexOf("\r\n", start);
+      if (end < 0) return null;
+      const line = this.buffer.slice(start, end);
+      lines.push(line);
+      start = end + 2;
+      if (line.charAt(3) !== "-") {
+        this.buffer = this.buffer.slice(start);
+        return { code: Number(line.slice(0, 3)), lines: lines.map((l) => l.slice(4)) };
+      }
+    }
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.settle();
+    });
+  }
+
+  private settle(): void {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.settle();
+  }
+}
@@ -0,0 +1,188 @@
+import { ILogger } from "@microsoft/teams.common";
+import { createAudioService, TranscribedSegment } from "./audioService";
+import { encodeWav, PcmFormat, WAV_HEADER_BYTES } from "./wav";
+
+/**
+ * Speech Recognizers
+ * Turns a live stream of PCM audio into transcript segments as the audio arrives. The speech
+ * backend is chosen by name, so a local fake can stand in for Azure in tests.
+ */
+
+export interface StreamingRecognizer {
+  // Feed the next chunk of audio; returns the segments it completed
+  write(pcm: Buffer): Promise<TranscribedSegment[]>;
+  // The stream is over; transcribe whatever audio is left
+  end(): Promise<TranscribedSegment[]>;
+}
+
+// Transcribes one utterance, given as a WAV file; segment times are relative to its start
+export type UtteranceTranscriber = (wav: Buffer) => Promise<TranscribedSegment[]>;
+
+export type SpeechProviderFactory = (format: PcmFormat, logger: ILogger) => StreamingRecognizer;
+
+// Segment times are in 100-nanosecond ticks, like the Azure Speech API
+const TICKS_PER_MS = 10_000;
+const FRAME_MS = 20;
+// Frames quieter than this RMS amplitude (of 32768) count as silence
+const SPEECH_THRESHOLD = 500;
+// A pause this long ends an utterance
+const UTTERANCE_PAUSE_MS = 700;
+// The short-audio REST API takes at most 60 seconds, so long monologues are cut
+const MAX_UTTERANCE_MS = 30_000;
+
+/**
+ * Splits the stream into utterances at pauses and transcribes each one as it ends. Leading
+ * silence is dropped, so long quiet stretches cost nothing.
+ */
+export class UtteranceRecognizer implements StreamingRecognizer {
+  private pending = Buffer.alloc(0);
+  private frames: Buffer[] = [];
+  private utteranceStartMs = 0;
+  private positionMs = 0;
+  private pauseMs = 0;
+  private heardSpeech = false;
+
+  constructor(private format: PcmFormat, private transcribe: UtteranceTranscriber) {}
+
+  async write(pcm: Buffer): Promise<TranscribedSegment[]> {
+    this.pending = Buffer.concat([this.pending, pcm]);
+    // Whole samples only, whatever the sample rate
+    const frameBytes =
+      Math.floor((this.format.sampleRate * FRAME_MS) / 1000) * this.format.channels * 2;
+
+    const segments: TranscribedSegment[] = [];
+    while (this.pending.length >= frameBytes) {
+      const frame = this.pending.subarray(0, frameBytes);
+      this.pending = this.pending.subarray(frameBytes);
+      segments.push(...(await this.addFrame(frame)));
+    }
+    return segments;
+  }
+
+  async end(): Promise<TranscribedSegment[]> {
+    return this.heardSpeech ? this.flush() : [];
+  }
+
+  private async addFrame(frame: Buffer): Promise<TranscribedSegment[]> {
+    const loud = rms(frame) >= SPEECH_THRESHOLD;
+    this.positionMs += FRAME_MS;
+    if (!this.heardSpeech && !loud) {
+      this.utteranceStartMs = this.positionMs;
+      return [];
+    }
+
+    this.frames.push(frame);
+    this.heardSpeech = true;
+    this.pauseMs = loud ? 0 : this.pauseMs + FRAME_MS;
+    const lengthMs = this.positionMs - this.utteranceStartMs;
+    return this.pauseMs >= UTTERANCE_PAUSE_MS || lengthMs >= MAX_UTTERANCE_MS ? this.flush() : [];
+  }
+
+  private async flush(): Promise<TranscribedSegment[]> {
+    const pcm = Buffer.concat(this.frames);
+    const offset = this.utteranceStartMs * TICKS_PER_MS;
+    this.frames = [];
+    this.heardSpeech = false;
+    this.pauseMs = 0;
+    this.utteranceStartMs = this.positionMs;
+
+    const segments = await this.transcribe(encodeWav(pcm, this.format));
+    return segments
+      .filter((segment) => segment.text.trim())
+      .map((segment) => ({
+        ...segment,
+        startTime: segment.startTime + offset,
+        endTime: segment.endTime + offset,
+      }));
+  }
+}
+
+const SPEECH_PROVIDERS = new Map<string, SpeechProviderFactory>([
+  [
+    "azure",
+    (format, logger) => {
+      const audioService = createAudioService(logger);
+      if (!audioService) {
+        throw new Error("Azure Speech is not configured (AZURE_SPEECH_KEY, AZURE_SPEECH_REGION)");
+      }
+      return new UtteranceRecognizer(format, async (wav) => {
+        const result = await audioService.transcribeAudioFile(wav, "wav");
+        // Background noise comes back as NoMatch; nothing was said
+        if (!result.success) logger.debug(`🎧 Utterance not transcribed: ${result.message}`);
+        return result.segments;
+      });
+    },
+  ],
+  [
+    // Stands in for speech recognition offline: every utterance becomes "[speech 1.2s]"
+    "fake",
+    (format) =>
+      new UtteranceRecognizer(format, async (wav) => {
+        const bytesPerMs = (format.sampleRate * format.channels * 2) / 1000;
+        const durationMs = (wav.length - WAV_HEADER_BYTES) / bytesPerMs;
+        return [
+          {
+            text: `[speech ${(durationMs / 1000).toFixed(1)}s]`,
+            startTime: 0,
+            endTime: Math.round(durationMs * TICKS_PER_MS),
+            confidence: 1,
+          },
+        ];
+      }),
+  ],
+]);
+
+/**
+ * Add or replace a speech provider, e.g. a test registering a recognizer with canned text
+ */
+export function registerSpeechProvider(name: string, factory: SpeechProviderFactory): void {
+  SPEECH_PROVIDERS.set(name, factory);
+}
+
+export function createStreamingRecognizer(
+  provider: string,
+  format: PcmFormat,
+  logger: ILogger
+): StreamingRecognizer {
+  const factory = SPEECH_PROVIDERS.get(provider);
+  if (!factory) {
+    const available = [...SPEECH_PROVIDERS.keys()].join(", ");
+    throw new Error(`Unknown speech provider "${provider}". Available: ${available}`);
+  }
+  return factory(format, logger);
+}
+
+/**
+ * Offset into the stream as "HH:MM:SS.mmm", the form Teams transcripts use
+ */
+export function formatStreamOffset(ticks: number): string {
+  const ms = Math.round(ticks / TICKS_PER_MS);
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return (
+    `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:` +
+    `${String(seconds).padStart(2, "0")}.${String(ms % 1000).padStart(3, "0")}`
+  );
+}
+
+/**
+ * Ticks for an offset written by formatStreamOffset, or null when it isn't one
+ */
+export function parseStreamOffset(offset: string): number | null {
+  const match = offset.match(/^(\d+):(\d{2}):(\d{2})\.(\d{3})$/);
+  if (!match) return null;
+  const [hours, minutes, seconds, ms] = match.slice(1).map(Number);
+  return (((hours * 60 + minutes) * 60 + seconds) * 1000 + ms) * TICKS_PER_MS;
+}
+
+// Root mean square of the frame's samples
+function rms(frame: Buffer): number {
+  let sum = 0;
+  const samples = frame.length / 2;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
@@ -0,0 +1,364 @@
+import { inflateRawSync } from "node:zlib";
+import { TranscriptContent } from "./graphClient";
+
+/**
+ * Transcript Files
+ * Reads meeting transcripts saved as files: WebVTT and SRT captions, Word documents and plain
+ * text, as exported by Teams, Zoom and note-taking apps or typed up by hand. Every format comes
+ * back as the speaker-attributed entries a Teams transcript parses into, with timestamps as
+ * "HH:MM:SS.mmm" from the start of the meeting.
+ */
+
+export const TRANSCRIPT_FILE_TYPES = ["vtt", "srt", "docx", "txt"] as const;
+export type TranscriptFileType = (typeof TRANSCRIPT_FILE_TYPES)[number];
+
+// Text transcripts of even day-long meetings are a few MB
+export const MAX_TRANSCRIPT_FILE_BYTES = 20 * 1024 * 1024;
+// Uncompressed size of a Word document's text; stops a zip bomb from filling memory
+const MAX_DOCX_XML_BYTES = 100 * 1024 * 1024;
+
+// "Jane Doe: text", optionally after a timestamp like "[00:01:02]" or "00:01 -"
+const SPOKEN_LINE =
+  /^(?:[[(]?(\d{1,2}(?::\d{1,2}){1,2}(?:[.,]\d+)?)[\])]?\s*(?:[-–]\s*)?)?([^:]{1,60}?):\s+(.+)$/;
+// A speaker heading over their turn: "Jane Doe   0:03" or "[Jane Doe] 10:01:02"
+const SPEAKER_HEADING = /^(.{1,60}?)(\s+)[[(]?(\d{1,2}(?::\d{1,2}){1,2}(?:[.,]\d+)?)[\])]?$/;
+// A cue timing line: "00:00:01.000 --> 00:00:04.000", with optional VTT cue settings after it
+const TIMING_LINE = /^(\d{1,2}(?::\d{1,2}){1,2}(?:[.,]\d+)?)\s*-->\s*\S+/;
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/;
+const MAX_SPEAKER_NAME_WORDS = 5;
+// Labels that introduce document fields rather than someone speaking
+const NOT_SPEAKERS = new Set([
+  "action item",
+  "action items",
+  "agenda",
+  "attendees",
+  "date",
+  "decision",
+  "decisions",
+  "location",
+  "note",
+  "notes",
+  "participants",
+  "subject",
+  "summary",
+  "time",
+  "title",
+  "todo",
+]);
+
+/**
+ * Thrown when a file can't be read as a transcript, with a message that can be shown to the
+ * person who shared it
+ */
+export class TranscriptFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptFileError";
+  }
+}
+
+/**
+ * The transcript format a file name stands for, or null for other files
+ */
+export function transcriptFileType(fileName: string): TranscriptFileType | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return (TRANSCRIPT_FILE_TYPES as readonly string[]).includes(extension)
+    ? (extension as TranscriptFileType)
+    : null;
+}
+
+/**
+ * Read a transcript file into speaker-attributed entries
+ */
+export function parseTranscriptFile(fileName: string, content: Buffer): TranscriptContent[] {
+  const type = transcriptFileType(fileName);
+  if (!type) {
+    const extensions = TRANSCRIPT_FILE_TYPES.map((extension) => `.${extension}`).join(", ");
+    throw new TranscriptFileError(`Transcripts can be imported from ${extensions} files`);
+  }
+  if (content.length > MAX_TRANSCRIPT_FILE_BYTES) {
+    throw new TranscriptFileError(
+      `The file is over ${MAX_TRANSCRIPT_FILE_BYTES / 1024 / 1024} MB, too large for a transcript`
+    );
+  }
+
+  let entries: TranscriptContent[];
+  switch (type) {
+    case "vtt":
+    case "srt":
+      entries = parseCaptions(decodeText(content));
+      break;
+    case "docx":
+      entries = parseTextTranscript(readDocxText(content));
+      break;
+    default:
+      entries = parseTextTranscript(decodeText(content));
+  }
+
+  if (entries.length === 0) {
+    throw new TranscriptFileError("The file has no transcript text in it");
+  }
+  return entries;
+}
+
+/**
+ * Milliseconds from the start of the meeting for a timestamp like "01:02:03.500", "1:02:03,5"
+ * or "02:03", or null when it isn't one
+ */
+export function parseTimestamp(timestamp: string): number | null {
+  const match = timestamp.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    // A fraction of a second: ".5" is 500 ms, ".82" is 820 ms
+    Math.round(Number(`0.${fraction ?? 0}`) * 1000)
+  );
+}
+
+function formatTimestamp(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return (
+    `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:` +
+    `${String(seconds).padStart(2, "0")}.${String(ms % 1000).padStart(3, "0")}`
+  );
+}
+
+function normalizeTimestamp(timestamp: string | undefined): string {
+  const ms = timestamp ? parseTimestamp(timestamp) : null;
+  return ms === null ? "" : formatTimestamp(ms);
+}
+
+// Text files from Windows are often UTF-16 or carry a byte order mark
+function decodeText(content: Buffer): string {
+  const text =
+    content[0] === 0xff && content[1] === 0xfe
+      ? content.toString("utf16le", 2)
+      : content.toString("utf8");
+  return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+function isSpeakerName(name: string): boolean {
+  const words = name.trim().split(/\s+/);
+  return (
+    words.length <= MAX_SPEAKER_NAME_WORDS &&
+    /^\p{L}/u.test(name) &&
+    !/[:?!;"“”]/.test(name) &&
+    !NOT_SPEAKERS.has(name.trim().toLowerCase())
+  );
+}
+
+// A sentence that happens to end in a time ("We meet again at 10:30") isn't a heading: export
+// tools set the time apart with a tab or spaces, bracket the name, or capitalize every word
+function isSpeakerHeading(name: string, gap: string): boolean {
+  const bracketed = /^\[.+\]$/.test(name);
+  const bare = bracketed ? name.slice(1, -1) : name;
+  return (
+    isSpeakerName(bare) &&
+    (bracketed || /\t|\s{2}/.test(gap) || bare.split(/\s+/).every((word) => /^\p{Lu}/u.test(word)))
+  );
+}
+
+function stripTags(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .trim();
+}
+
+/**
+ * WebVTT and SRT cues. The speaker is a VTT voice tag ("<v Jane Doe>", as Teams writes it) or
+ * a "Jane Doe:" prefix (as Zoom writes it); captions that only name the speaker when it
+ * changes carry the last name forward.
+ */
+function parseCaptions(text: string): TranscriptContent[] {
+  const entries: TranscriptContent[] = [];
+  let speaker = "";
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.split("\n").map((line) => line.trim());
+    // The WEBVTT header, NOTE and STYLE blocks have no timing line
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex < 0) continue;
+    const timestamp = normalizeTimestamp(lines[timingIndex].match(TIMING_LINE)![1]);
+    const cue = lines.slice(timingIndex + 1).filter(Boolean).join("\n");
+
+    const voices = [...cue.matchAll(/<v(?:\.[^\s>]*)?\s+([^>]+)>([\s\S]*?)(?=<v[\s.]|$)/g)];
+    if (voices.length > 0) {
+      for (const [, name, said] of voices) {
+        speaker = name.trim();
+        const spoken = stripTags(said).replace(/\s*\n\s*/g, " ");
+        if (spoken) entries.push({ speakerName: speaker, text: spoken, timestamp });
+      }
+      continue;
+    }
+
+    let current: TranscriptContent | null = null;
+    for (const line of stripTags(cue).split("\n")) {
+      // Dialogue markers: "- " in subtitles, ">> " in broadcast captions
+      const spoken = line.replace(/^(?:-|>>)\s*/, "").trim();
+      if (!spoken) continue;
+      const said = spoken.match(/^([^:]{1,60}?):\s+(.+)$/);
+      if (said && isSpeakerName(said[1])) {
+        speaker = said[1].trim();
+        current = { speakerName: speaker, text: said[2].trim(), timestamp };
+        entries.push(current);
+      } else if (current) {
+        current.text += ` ${spoken}`;
+      } else {
+        current = { speakerName: speaker, text: spoken, timestamp };
+        entries.push(current);
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Transcripts written out as text, one turn after another. Each turn starts with a
+ * "Jane Doe: text" line, with a speaker heading ("Jane Doe  0:03") above the text, or with a
+ * timing line and then the speaker's name on its own line (Teams' Word export); lines that
+ * follow belong to the same turn. Text before the first speaker is the document's title
+ * block and is left out.
+ */
+function parseTextTranscript(text: string): TranscriptContent[] {
+  const entries: TranscriptContent[] = [];
+  // A timestamp read on its own line, for the turn that follows it
+  let pendingTimestamp = "";
+  let expectSpeaker = false;
+
+  const startTurn = (speakerName: string, timestamp: string, said: string) => {
+    entries.push({ speakerName, text: said, timestamp: timestamp || pendingTimestamp });
+    pendingTimestamp = "";
+    expectSpeaker = false;
+  };
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const timing = line.match(TIMING_LINE);
+    const bareTimestamp = line.replace(/^[[(]|[\])]$/g, "");
+    if (timing || parseTimestamp(bareTimestamp) !== null) {
+      pendingTimestamp = normalizeTimestamp(timing ? timing[1] : bareTimestamp);
+      expectSpeaker = true;
+      continue;
+    }
+
+    const heading = line.match(SPEAKER_HEADING);
+    if (heading && isSpeakerHeading(heading[1], heading[2])) {
+      startTurn(heading[1].replace(/^\[|\]$/g, ""), normalizeTimestamp(heading[3]), "");
+      continue;
+    }
+
+    const said = line.match(SPOKEN_LINE);
+    if (said && isSpeakerName(said[2])) {
+      startTurn(said[2].trim(), normalizeTimestamp(said[1]), said[3].trim());
+      continue;
+    }
+
+    // The name under a timing line, unless the line reads like a sentence
+    if (expectSpeaker && isSpeakerName(line) && !/[.,:]$/.test(line)) {
+      startTurn(line, "", "");
+      continue;
+    }
+
+    expectSpeaker = false;
+    const turn = entries[entries.length - 1];
+    if (turn) turn.text = turn.text ? `${turn.text} ${line}` : line;
+  }
+
+  if (entries.length === 0) {
+    throw new TranscriptFileError(
+      "No speakers found. Transcript files need lines like \"Jane Doe: what they said\", " +
+        "or each speaker's name above what they said"
+    );
+  }
+  return entries.filter((entry) => entry.text);
+}
+
+/**
+ * The paragraphs of a Word document as lines of text. A .docx file is a zip archive; the text
+ * is in word/document.xml, one <w:p> element per paragraph.
+ */
+function readDocxText(docx: Buffer): string {
+  let xml: Buffer | null;
+  try {
+    xml = readZipEntry(docx, "word/document.xml");
+  } catch (error) {
+    if (error instanceof TranscriptFileError) throw error;
+    throw new TranscriptFileError("The file is damaged or isn't a Word document");
+  }
+  if (!xml) throw new TranscriptFileError("The file isn't a Word document");
+
+  return xml
+    .toString("utf8")
+    .split(/<\/w:p>/)
+    .map((paragraph) =>
+      [...paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)(?:\s[^>]*)?\/>/g)]
+        .map(([, text, control]) => {
+          if (control === "tab") return "\t";
+          if (control) return "\n";
+          return decodeXmlEntities(text);
+        })
+        .join("")
+    )
+    .join("\n");
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const hex = name[1].toLowerCase() === "x";
+      return String.fromCodePoint(hex ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * One file out of a zip archive, found through the archive's central directory, or null when
+ * the archive doesn't have it
+ */
+function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  // The end-of-directory record is last, followed only by a comment of up to 64 KB
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new TranscriptFileError("The file is damaged or isn't a Word document");
+
+  const entryCount = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) break;
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+
+    if (zip.toString("utf8", offset + 46, offset + 46 + nameLength) === name) {
+      // The local header repeats the name and may have an extra field of its own
+      const dataStart =
+        localHeader + 30 + zip.readUInt16LE(localHeader + 26) + zip.readUInt16LE(localHeader + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_DOCX_XML_BYTES });
+      throw new TranscriptFileError("The Word document uses a compression that can't be read");
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+import { ILogger } from "@microsoft/teams.common";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { IDatabase } from "../storage/database";
+import { ModelConfig } from "../utils/config";
+import { MessageContext } from "../utils/messageContext";
+
+/**
+ * Usage Tracker
+ * Records the tokens, latency and estimated cost of every model request. The manager and each
+ * capability run their prompt inside a usage scope naming who the request is for; the HTTP
+ * client given to the model reads the token counts from each response and files them there.
+ */
+
+export interface UsageScope {
+  storage: IDatabase;
+  conversationId: string;
+  conversationName?: string;
+  userId?: string;
+  // Capability name, or "manager" for the routing prompt
+  capability: string;
+  logger: ILogger;
+}
+
+// USD per million tokens, matched by prefix so dated versions (gpt-4.1-2025-04-14) are covered.
+// Longer names come first so gpt-4.1-mini isn't priced as gpt-4.1.
+const MODEL_PRICES: Array<[string, { input: number; output: number }]> = [
+  ["gpt-4.1-nano", { input: 0.1, output: 0.4 }],
+  ["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+  ["gpt-4.1", { input: 2, output: 8 }],
+  ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, output: 10 }],
+];
+
+const usageScopes = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run `fn` with its model requests counted against the given scope. Scopes nest, so a
+ * capability called by the manager records under the capability's own name.
+ */
+export function runWithUsageScope<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+  return usageScopes.run(scope, fn);
+}
+
+export function usageScopeFor(
+  context: MessageContext,
+  capability: string,
+  logger: ILogger
+): UsageScope {
+  return {
+    storage: context.storage,
+    conversationId: context.conversationId,
+    conversationName: context.conversationName,
+    userId: context.userId,
+    capability,
+    logger,
+  };
+}
+
+/**
+ * Estimated cost of a request. Prices set in the model config win over the built-in table;
+ * an unknown model costs nothing rather than a guess.
+ */
+export function estimateCost(
+  config: Pick<ModelConfig, "inputCostPerMillion" | "outputCostPerMillion">,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const known = MODEL_PRICES.find(([prefix]) => model.toLowerCase().startsWith(prefix))?.[1];
+  const input = config.inputCostPerMillion ?? known?.input ?? 0;
+  const output = config.outputCostPerMillion ?? known?.output ?? 0;
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+/**
+ * A fetch for the model's HTTP client that times each request and records the usage the
+ * response reports. Requests made outside a usage scope are not recorded.
+ */
+export function createUsageFetch(config: ModelConfig): typeof fetch {
+  return async (input, init) => {
+    const started = Date.now();
+    const response = await fetch(input, init);
+    const scope = usageScopes.getStore();
+    const contentType = response.headers.get("content-type") ?? "";
+
+    // Streamed responses don't carry usage unless asked for it; only plain JSON is read
+    if (scope && response.ok && contentType.includes("application/json")) {
+      const latencyMs = Date.now() - started;
+      response
+        .clone()
+        .json()
+        .then((body) => recordUsage(scope, config, body, latencyMs))
+        .catch((error) => {
+          scope.logger.warn(
+            `⚠️ Could not record model usage: ${error instanceof Error ? error.message : error}`
+          );
+        });
+    }
+    return response;
+  };
+}
+
+async function recordUsage(
+  scope: UsageScope,
+  config: ModelConfig,
+  body: { model?: string; usage?: { prompt_tokens?: number; completion_tokens?: number } },
+  latencyMs: number
+): Promise<void> {
+  if (!body.usage) return;
+
+  const model = body.model || config.model;
+  const promptTokens = body.usage.prompt_tokens ?? 0;
+  const completionTokens = body.usage.completion_tokens ?? 0;
+  await scope.storage.recordUsage({
+    conversation_id: scope.conversationId,
+    conversation_name: scope.conversationName ?? null,
+    user_id: scope.userId ?? null,
+    capability: scope.capability,
+    provider: config.provider,
+    model,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    latency_ms: latencyMs,
+    cost_usd: estimateCost(config, model, promptTokens, completionTokens),
+  });
+}
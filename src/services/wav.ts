@@ -0,0 +1,103 @@
+/**
+ * WAV
+ * Reading and writing 16-bit PCM WAV files, the format the speech services take.
+ */
+
+// Signed 16-bit little-endian PCM
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+export interface PcmAudio {
+  format: PcmFormat;
+  // Interleaved samples
+  pcm: Buffer;
+}
+
+export const WAV_HEADER_BYTES = 44;
+
+export function encodeWav(pcm: Buffer, format: PcmFormat): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+  const blockAlign = format.channels * 2;
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Read the samples out of a 16-bit PCM WAV file
+ */
+export function decodeWav(wav: Buffer): PcmAudio {
+  if (
+    wav.length < 12 ||
+    wav.toString("ascii", 0, 4) !== "RIFF" ||
+    wav.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: PcmFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString("ascii", offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === "fmt ") {
+      const audioFormat = wav.readUInt16LE(body);
+      const bitsPerSample = wav.readUInt16LE(body + 14);
+      if (audioFormat !== 1 || bitsPerSample !== 16) {
+        throw new Error("Only 16-bit PCM WAV audio is supported");
+      }
+      format = { channels: wav.readUInt16LE(body + 2), sampleRate: wav.readUInt32LE(body + 4) };
+      if (format.channels < 1 || format.sampleRate < 1) {
+        throw new Error("WAV format chunk is corrupt");
+      }
+    } else if (chunkId === "data") {
+      if (!format) throw new Error("WAV file has no format chunk before its data");
+      const blockAlign = format.channels * 2;
+      // A recording cut off mid-write claims more data than it has
+      const end = Math.min(body + chunkSize, wav.length);
+      const length = Math.floor((end - body) / blockAlign) * blockAlign;
+      return { format, pcm: wav.subarray(body, body + length) };
+    }
+    // Chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("WAV file has no audio data");
+}
+
+/**
+ * The samples with channels averaged together
+ */
+export function toMono({ format, pcm }: PcmAudio): Int16Array {
+  const frames = pcm.length / (format.channels * 2);
+  const samples = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let channel = 0; channel < format.channels; channel++) {
+      sum += pcm.readInt16LE((i * format.channels + channel) * 2);
+    }
+    samples[i] = Math.round(sum / format.channels);
+  }
+  return samples;
+}
+
+/**
+ * Length of the audio in milliseconds
+ */
+export function durationMs({ format, pcm }: PcmAudio): number {
+  return (pcm.length / (format.sampleRate * format.channels * 2)) * 1000;
+}
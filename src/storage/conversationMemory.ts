@@ -1,11 +1,27 @@
+import {
+  fromKeywordHit,
+  SemanticIndex,
+  SemanticSearchHit,
+  SemanticSearchOptions,
+} from "../services/semanticIndex";
 import { IDatabase } from "./database";
-import { MessageRecord } from "./types";
+import {
+  MessageRecord,
+  MessageSearchHit,
+  MessageSearchOptions,
+  TranscriptSegmentRecord,
+} from "./types";
 
 export class ConversationMemory {
-  constructor(private store: IDatabase, private conversationId: string) {}
+  constructor(
+    private store: IDatabase,
+    private conversationId: string,
+    private semanticIndex?: SemanticIndex
+  ) {}
 
   async addMessages(messages: MessageRecord[]): Promise<void> {
     await this.store.addMessages(messages);
+    await this.semanticIndex?.indexMessages(messages);
   }
 
   async values(): Promise<MessageRecord[]> {
@@ -50,4 +66,25 @@ export class ConversationMemory {
     );
     return Promise.resolve(result);
   }
+
+  async searchMessages(query: string, options: MessageSearchOptions): Promise<MessageSearchHit[]> {
+    const result = this.store.searchMessages(this.conversationId, query, options);
+    return Promise.resolve(result);
+  }
+
+  async indexTranscript(meetingId: string, segments: TranscriptSegmentRecord[]): Promise<void> {
+    await this.semanticIndex?.indexTranscript(this.conversationId, meetingId, segments);
+  }
+
+  // Falls back to full-text search when the conversation has no semantic index
+  async semanticSearch(
+    query: string,
+    options: SemanticSearchOptions & MessageSearchOptions
+  ): Promise<SemanticSearchHit[]> {
+    if (this.semanticIndex) {
+      return this.semanticIndex.search(this.conversationId, query, options);
+    }
+    const hits = await this.searchMessages(options.keywordQuery || query, options);
+    return hits.map(fromKeywordHit);
+  }
 }
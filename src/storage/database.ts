@@ -1,9 +1,253 @@
-import { MessageRecord } from "./types";
+import {
+  ActionItemFilter,
+  ActionItemRecord,
+  ActionItemStatus,
+  DigestScheduleRecord,
+  DigestScheduleUpdate,
+  EmailDraftRecord,
+  EmailDraftStatus,
+  EmailDraftUpdate,
+  EmbeddingSourceType,
+  ErasureMode,
+  FeedbackWithReply,
+  MeetingFilter,
+  MeetingNoteRecord,
+  MeetingNoteType,
+  MeetingRecord,
+  MessageRecord,
+  MessageSearchHit,
+  MessageSearchOptions,
+  NewActionItem,
+  NewDigestSchedule,
+  NewEmailDraft,
+  NewEmbedding,
+  NewMeeting,
+  NewMeetingNote,
+  NewPurgeAuditEntry,
+  NewSummaryCacheEntry,
+  NewTranscriptSegment,
+  NewUsageRecord,
+  PurgeAuditRecord,
+  RateLimitDecision,
+  RateLimitOverrideRecord,
+  RateLimitRequest,
+  RetentionPolicyRecord,
+  SummaryCacheRecord,
+  SummaryKind,
+  TranscriptSegmentRecord,
+  UsageTotals,
+  UserDataErasure,
+  UserDataExport,
+  VectorSearchHit,
+  VectorSearchOptions,
+} from "./types";
+
+/**
+ * Ledger of action items extracted from conversations, tracked until they are done
+ */
+export interface ActionItemStore {
+  addActionItems(items: NewActionItem[]): ActionItemRecord[] | Promise<ActionItemRecord[]>;
+  getActionItem(id: number): ActionItemRecord | null | Promise<ActionItemRecord | null>;
+  getOpenActionItems(filter: ActionItemFilter): ActionItemRecord[] | Promise<ActionItemRecord[]>;
+  // Items in the conversation already filed as Planner tasks, whether done or not
+  getFiledActionItems(conversationId: string): ActionItemRecord[] | Promise<ActionItemRecord[]>;
+  setActionItemStatus(id: number, status: ActionItemStatus): boolean | Promise<boolean>;
+  reassignActionItem(
+    id: number,
+    assigneeName: string,
+    assigneeEmail?: string
+  ): boolean | Promise<boolean>;
+  setActionItemPlannerTask(id: number, plannerTaskId: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Meetings with their saved notes, summaries and transcripts, keyed by meeting ID
+ */
+export interface MeetingStore {
+  // Insert the meeting or update the fields provided for an existing meeting ID
+  upsertMeeting(meeting: NewMeeting): MeetingRecord | Promise<MeetingRecord>;
+  getMeeting(meetingId: string): MeetingRecord | null | Promise<MeetingRecord | null>;
+  findMeetings(filter: MeetingFilter): MeetingRecord[] | Promise<MeetingRecord[]>;
+  addMeetingNote(note: NewMeetingNote): MeetingNoteRecord | Promise<MeetingNoteRecord>;
+  getMeetingNotes(
+    meetingId: string,
+    noteType?: MeetingNoteType
+  ): MeetingNoteRecord[] | Promise<MeetingNoteRecord[]>;
+  // Replace any segments previously saved for this transcript and mark the meeting as transcribed.
+  // The meeting's transcript embeddings are dropped too, to be rebuilt from what is stored now.
+  saveTranscript(
+    meetingId: string,
+    transcriptId: string,
+    segments: NewTranscriptSegment[]
+  ): void | Promise<void>;
+  // Add segments after the ones already stored for the transcript, e.g. from live audio
+  appendTranscriptSegments(
+    meetingId: string,
+    transcriptId: string,
+    segments: NewTranscriptSegment[]
+  ): void | Promise<void>;
+  getTranscript(meetingId: string): TranscriptSegmentRecord[] | Promise<TranscriptSegmentRecord[]>;
+}
+
+/**
+ * Recurring digest posts configured per conversation
+ */
+export interface DigestScheduleStore {
+  addDigestSchedule(
+    schedule: NewDigestSchedule
+  ): DigestScheduleRecord | Promise<DigestScheduleRecord>;
+  getDigestSchedule(id: number): DigestScheduleRecord | null | Promise<DigestScheduleRecord | null>;
+  getDigestSchedules(
+    conversationId: string
+  ): DigestScheduleRecord[] | Promise<DigestScheduleRecord[]>;
+  // Active schedules whose next run is at or before the given ISO time
+  getDueDigestSchedules(now: string): DigestScheduleRecord[] | Promise<DigestScheduleRecord[]>;
+  updateDigestSchedule(id: number, changes: DigestScheduleUpdate): boolean | Promise<boolean>;
+  // Move a due schedule to its next run only if it is still due at `due`, so one instance of
+  // the bot runs it; false when another instance claimed it first
+  claimDigestSchedule(id: number, due: string, next: string): boolean | Promise<boolean>;
+  deleteDigestSchedule(id: number): boolean | Promise<boolean>;
+}
+
+/**
+ * Embedding vectors for messages and transcript segments, searched by cosine similarity
+ */
+export interface VectorStore {
+  // Insert embeddings, replacing any vector already stored for the same source and model
+  upsertEmbeddings(embeddings: NewEmbedding[]): void | Promise<void>;
+  // Source IDs in the conversation that already have a vector from the model
+  getEmbeddedSourceIds(
+    conversationId: string,
+    sourceType: EmbeddingSourceType,
+    model: string
+  ): string[] | Promise<string[]>;
+  searchEmbeddings(
+    conversationId: string,
+    vector: number[],
+    options: VectorSearchOptions
+  ): VectorSearchHit[] | Promise<VectorSearchHit[]>;
+}
+
+/**
+ * Summaries of message ranges, reused when the same period is summarized again
+ */
+export interface SummaryCacheStore {
+  getCachedSummary(
+    conversationId: string,
+    kind: SummaryKind,
+    rangeKey: string
+  ): SummaryCacheRecord | null | Promise<SummaryCacheRecord | null>;
+  // Insert the summary, replacing any summary already cached for the same range
+  saveCachedSummary(entry: NewSummaryCacheEntry): void | Promise<void>;
+}
+
+/**
+ * Emails composed by the bot and held until the requester confirms them
+ */
+export interface EmailDraftStore {
+  createEmailDraft(draft: NewEmailDraft): EmailDraftRecord | Promise<EmailDraftRecord>;
+  getEmailDraft(id: number): EmailDraftRecord | null | Promise<EmailDraftRecord | null>;
+  getPendingEmailDrafts(conversationId: string): EmailDraftRecord[] | Promise<EmailDraftRecord[]>;
+  // With expectedStatus, only changes a draft still in that status (a compare-and-set)
+  updateEmailDraft(
+    id: number,
+    changes: EmailDraftUpdate,
+    expectedStatus?: EmailDraftStatus
+  ): boolean | Promise<boolean>;
+}
+
+/**
+ * Which capability wrote each bot reply, so reactions to replies can be reported per capability
+ */
+export interface FeedbackStore {
+  recordReplyCapabilities(
+    activityId: string,
+    conversationId: string,
+    capabilities: string[]
+  ): void | Promise<void>;
+  // Feedback left from `since` up to `until`, one row per capability behind the reply
+  getFeedbackWithReplies(
+    since: string,
+    until: string
+  ): FeedbackWithReply[] | Promise<FeedbackWithReply[]>;
+}
+
+/**
+ * Tokens, latency and cost of model requests, for spend reports
+ */
+export interface UsageStore {
+  recordUsage(entry: NewUsageRecord): void | Promise<void>;
+  // Totals per capability and conversation for requests made from `since` up to `until`
+  getUsageTotals(since: string, until: string): UsageTotals[] | Promise<UsageTotals[]>;
+}
+
+/**
+ * Token buckets for rate limits, shared by every bot instance, and admins' overrides
+ */
+export interface RateLimitStore {
+  // Take a token from every bucket, or from none if any is empty; atomic across instances
+  takeRateLimitTokens(
+    requests: RateLimitRequest[],
+    now: string
+  ): RateLimitDecision | Promise<RateLimitDecision>;
+  getRateLimitOverrides(): RateLimitOverrideRecord[] | Promise<RateLimitOverrideRecord[]>;
+  // A null rate removes the override; either way the bucket starts over full
+  setRateLimitOverride(key: string, rate: string | null, updatedBy: string): void | Promise<void>;
+}
+
+/**
+ * Per-conversation retention periods, purging of old messages and the audit log of purges
+ */
+export interface RetentionStore {
+  getRetentionPolicies(): RetentionPolicyRecord[] | Promise<RetentionPolicyRecord[]>;
+  setRetentionPolicy(
+    conversationId: string,
+    retentionDays: number | null,
+    updatedBy: string
+  ): void | Promise<void>;
+  deleteRetentionPolicy(conversationId: string): void | Promise<void>;
+  getConversationsWithMessagesBefore(before: string): string[] | Promise<string[]>;
+  // Delete messages older than `before`, with their embeddings and any cached summary reaching
+  // back before it; returns the number of messages deleted
+  purgeMessagesBefore(conversationId: string, before: string): number | Promise<number>;
+  recordPurge(entry: NewPurgeAuditEntry): void | Promise<void>;
+  // Most recent first, for one conversation or all of them
+  getPurgeAudit(
+    conversationId?: string,
+    limit?: number
+  ): PurgeAuditRecord[] | Promise<PurgeAuditRecord[]>;
+}
+
+/**
+ * Data export and erasure requests for one user. `user` is an AAD object ID or display name,
+ * matched case-insensitively against the sender of messages, the author of meeting notes, the
+ * assignee of action items and the speaker of transcript segments. Feedback, email drafts,
+ * usage records and rate limits only carry an ID, so they are matched by the ID given or by
+ * the IDs the user's messages were sent with.
+ */
+export interface UserDataStore {
+  getUserData(user: string): UserDataExport | Promise<UserDataExport>;
+  // Removes or redacts the user's messages and transcript segments, deletes their feedback,
+  // email drafts and rate limits, and takes the user off the notes, action items and usage
+  // records that carry them
+  eraseUserData(user: string, mode: ErasureMode): UserDataErasure | Promise<UserDataErasure>;
+}
 
 /**
  * Abstract database interface that both SQLite and MSSQL implementations follow
  */
-export interface IDatabase {
+export interface IDatabase
+  extends ActionItemStore,
+    MeetingStore,
+    DigestScheduleStore,
+    VectorStore,
+    SummaryCacheStore,
+    EmailDraftStore,
+    FeedbackStore,
+    UsageStore,
+    RateLimitStore,
+    RetentionStore,
+    UserDataStore {
   initialize(): Promise<void>;
   clearAll(): void | Promise<void>;
   get(conversationId: string): MessageRecord[] | Promise<MessageRecord[]>;
@@ -28,10 +272,17 @@ export interface IDatabase {
     participants?: string[],
     maxResults?: number
   ): MessageRecord[] | Promise<MessageRecord[]>;
+  // Ranked full-text search; query supports "phrases", AND/OR/NOT, -exclusions and prefix*
+  searchMessages(
+    conversationId: string,
+    query: string,
+    options: MessageSearchOptions
+  ): MessageSearchHit[] | Promise<MessageSearchHit[]>;
   recordFeedback(
     replyToId: string,
     reaction: "like" | "dislike" | string,
-    feedbackJson?: unknown
+    feedbackJson?: unknown,
+    userId?: string
   ): boolean | Promise<boolean>;
   close(): void | Promise<void>;
 }
@@ -2,11 +2,70 @@ import { ILogger } from "@microsoft/teams.common";
 import * as mssql from "mssql";
 import { DatabaseConfig } from "../utils/config";
 import { IDatabase } from "./database";
-import { MessageRecord } from "./types";
+import {
+  buildSnippet,
+  countMatchedTerms,
+  getHighlightTerms,
+  keywordsToQuery,
+  parseSearchQuery,
+  QueryNode,
+  toContainsQuery,
+  toLikeCondition,
+} from "./searchQuery";
+import { takeTokens } from "./tokenBucket";
+import {
+  ActionItemFilter,
+  ActionItemRecord,
+  ActionItemStatus,
+  DigestScheduleRecord,
+  DigestScheduleUpdate,
+  EmailDraftRecord,
+  EmailDraftStatus,
+  EmailDraftUpdate,
+  EmbeddingRecord,
+  EmbeddingSourceType,
+  ErasureMode,
+  FeedbackRecord,
+  FeedbackWithReply,
+  MeetingFilter,
+  MeetingNoteRecord,
+  MeetingNoteType,
+  MeetingRecord,
+  MessageRecord,
+  MessageSearchHit,
+  MessageSearchOptions,
+  NewActionItem,
+  NewDigestSchedule,
+  NewEmailDraft,
+  NewEmbedding,
+  NewMeeting,
+  NewMeetingNote,
+  NewPurgeAuditEntry,
+  NewSummaryCacheEntry,
+  NewTranscriptSegment,
+  NewUsageRecord,
+  PurgeAuditRecord,
+  RateLimitBucketRecord,
+  RateLimitDecision,
+  RateLimitOverrideRecord,
+  RateLimitRequest,
+  RetentionPolicyRecord,
+  SummaryCacheRecord,
+  SummaryKind,
+  TranscriptSegmentRecord,
+  UsageRecord,
+  UsageTotals,
+  UserDataErasure,
+  UserDataExport,
+  VectorSearchHit,
+  VectorSearchOptions,
+} from "./types";
+import { decodeVector, encodeVector, rankByVector } from "./vectors";
 
 export class MssqlKVStore implements IDatabase {
   private pool: mssql.ConnectionPool | null = null;
   private isInitialized = false;
+  private fullTextEnabled = false;
 
   constructor(private logger: ILogger, private config: DatabaseConfig) {}
 
@@ -82,10 +141,16 @@ export class MssqlKVStore implements IDatabase {
             reply_to_id NVARCHAR(255) NOT NULL,
             reaction NVARCHAR(50) NOT NULL CHECK (reaction IN ('like','dislike')),
             feedback NVARCHAR(MAX),
+            user_id NVARCHAR(255),
             created_at DATETIME NOT NULL DEFAULT GETDATE()
           )
         END
       `);
+      // Databases created before feedback was kept per user lack the column
+      await this.pool.request().query(`
+        IF COL_LENGTH('feedback', 'user_id') IS NULL
+          ALTER TABLE feedback ADD user_id NVARCHAR(255)
+      `);
 
       // Create meetings table for meeting intelligence
       await this.pool.request().query(`
@@ -170,6 +235,208 @@ export class MssqlKVStore implements IDatabase {
         END
       `);
 
+      // Create index on conversation_id for action items
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name='idx_action_items_conversation_id' AND object_id = OBJECT_ID('action_items'))
+        BEGIN
+          CREATE INDEX idx_action_items_conversation_id ON action_items(conversation_id)
+        END
+      `);
+
+      // Create index on meeting_id for notes
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name='idx_meeting_notes_meeting_id' AND object_id = OBJECT_ID('meeting_notes'))
+        BEGIN
+          CREATE INDEX idx_meeting_notes_meeting_id ON meeting_notes(meeting_id)
+        END
+      `);
+
+      // Create digest_schedules table for recurring recap posts
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='digest_schedules' AND xtype='U')
+        BEGIN
+          CREATE TABLE digest_schedules (
+            id INT IDENTITY(1,1) PRIMARY KEY,
+            conversation_id NVARCHAR(255) NOT NULL,
+            cadence NVARCHAR(20) NOT NULL CHECK (cadence IN ('daily','weekdays','weekly')),
+            time_of_day NVARCHAR(5) NOT NULL,
+            day_of_week INT,
+            timezone NVARCHAR(100) NOT NULL,
+            status NVARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active','paused')),
+            created_by NVARCHAR(255),
+            last_run_at DATETIME2,
+            next_run_at DATETIME2 NOT NULL,
+            created_at DATETIME NOT NULL DEFAULT GETDATE(),
+            updated_at DATETIME NOT NULL DEFAULT GETDATE()
+          )
+        END
+      `);
+
+      // Create index for finding due schedules
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name='idx_digest_schedules_next_run' AND object_id = OBJECT_ID('digest_schedules'))
+        BEGIN
+          CREATE INDEX idx_digest_schedules_next_run ON digest_schedules(status, next_run_at)
+        END
+      `);
+
+      // Create embeddings table for semantic search over messages and transcripts
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='embeddings' AND xtype='U')
+        BEGIN
+          CREATE TABLE embeddings (
+            id INT IDENTITY(1,1) PRIMARY KEY,
+            source_type NVARCHAR(20) NOT NULL CHECK (source_type IN ('message','transcript')),
+            source_id NVARCHAR(255) NOT NULL,
+            conversation_id NVARCHAR(255) NOT NULL,
+            meeting_id NVARCHAR(255),
+            speaker_name NVARCHAR(255),
+            content NVARCHAR(MAX) NOT NULL,
+            timestamp NVARCHAR(50),
+            model NVARCHAR(100) NOT NULL,
+            vector VARBINARY(MAX) NOT NULL,
+            created_at DATETIME NOT NULL DEFAULT GETDATE(),
+            CONSTRAINT uq_embeddings_source UNIQUE (conversation_id, source_type, source_id, model)
+          )
+        END
+      `);
+
+      // Create summary_cache table for reusing chunk summaries across recaps
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='summary_cache' AND xtype='U')
+        BEGIN
+          CREATE TABLE summary_cache (
+            id INT IDENTITY(1,1) PRIMARY KEY,
+            conversation_id NVARCHAR(255) NOT NULL,
+            kind NVARCHAR(20) NOT NULL CHECK (kind IN ('summary','action_items')),
+            range_key NVARCHAR(64) NOT NULL,
+            start_time NVARCHAR(50) NOT NULL,
+            end_time NVARCHAR(50) NOT NULL,
+            message_count INT NOT NULL,
+            summary NVARCHAR(MAX) NOT NULL,
+            created_at DATETIME NOT NULL DEFAULT GETDATE(),
+            CONSTRAINT uq_summary_cache_range UNIQUE (conversation_id, kind, range_key)
+          )
+        END
+      `);
+
+      // Create email_drafts table for emails awaiting the requester's confirmation
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='email_drafts' AND xtype='U')
+        BEGIN
+          CREATE TABLE email_drafts (
+            id INT IDENTITY(1,1) PRIMARY KEY,
+            conversation_id NVARCHAR(255) NOT NULL,
+            created_by NVARCHAR(255) NOT NULL,
+            subject NVARCHAR(1000) NOT NULL,
+            body NVARCHAR(MAX) NOT NULL,
+            is_html BIT NOT NULL DEFAULT 0,
+            to_recipients NVARCHAR(MAX) NOT NULL,
+            cc_recipients NVARCHAR(MAX) NOT NULL DEFAULT '[]',
+            status NVARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','sending','sent','cancelled')),
+            sent_at DATETIME2,
+            created_at DATETIME NOT NULL DEFAULT GETDATE(),
+            updated_at DATETIME NOT NULL DEFAULT GETDATE()
+          )
+        END
+      `);
+
+      // Create reply_capabilities table tracing bot replies to the capabilities that wrote them
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='reply_capabilities' AND xtype='U')
+        BEGIN
+          CREATE TABLE reply_capabilities (
+            activity_id NVARCHAR(255) NOT NULL,
+            conversation_id NVARCHAR(255) NOT NULL,
+            capability NVARCHAR(100) NOT NULL,
+            created_at DATETIME NOT NULL DEFAULT GETDATE(),
+            CONSTRAINT pk_reply_capabilities PRIMARY KEY (activity_id, capability)
+          )
+        END
+      `);
+
+      // Create usage table for model calls; [usage] is bracketed as an ODBC reserved word
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='usage' AND xtype='U')
+        BEGIN
+          CREATE TABLE [usage] (
+            id INT IDENTITY(1,1) PRIMARY KEY,
+            conversation_id NVARCHAR(255) NOT NULL,
+            conversation_name NVARCHAR(500),
+            user_id NVARCHAR(255),
+            capability NVARCHAR(100) NOT NULL,
+            provider NVARCHAR(100) NOT NULL,
+            model NVARCHAR(255) NOT NULL,
+            prompt_tokens INT NOT NULL,
+            completion_tokens INT NOT NULL,
+            latency_ms INT NOT NULL,
+            cost_usd FLOAT NOT NULL,
+            created_at DATETIME2 NOT NULL DEFAULT SYSUTCDATETIME()
+          )
+        END
+      `);
+
+      // Create index for usage reports over a period
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name='idx_usage_created_at' AND object_id = OBJECT_ID('usage'))
+        BEGIN
+          CREATE INDEX idx_usage_created_at ON [usage](created_at)
+        END
+      `);
+
+      // Create rate limit tables: token buckets shared by every instance, and admin overrides
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='rate_limit_buckets' AND xtype='U')
+        BEGIN
+          CREATE TABLE rate_limit_buckets (
+            bucket_key NVARCHAR(450) PRIMARY KEY,
+            tokens FLOAT NOT NULL,
+            updated_at DATETIME2 NOT NULL
+          )
+        END
+      `);
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='rate_limit_overrides' AND xtype='U')
+        BEGIN
+          CREATE TABLE rate_limit_overrides (
+            bucket_key NVARCHAR(450) PRIMARY KEY,
+            rate NVARCHAR(50) NOT NULL,
+            updated_by NVARCHAR(255) NOT NULL,
+            updated_at DATETIME NOT NULL DEFAULT GETDATE()
+          )
+        END
+      `);
+
+      // Create retention tables: per-conversation retention periods and the audit log of purges
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='retention_policies' AND xtype='U')
+        BEGIN
+          CREATE TABLE retention_policies (
+            conversation_id NVARCHAR(255) PRIMARY KEY,
+            retention_days INT,
+            updated_by NVARCHAR(255) NOT NULL,
+            updated_at DATETIME NOT NULL DEFAULT GETDATE()
+          )
+        END
+      `);
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='purge_audit' AND xtype='U')
+        BEGIN
+          CREATE TABLE purge_audit (
+            id INT IDENTITY(1,1) PRIMARY KEY,
+            conversation_id NVARCHAR(255) NOT NULL,
+            reason NVARCHAR(20) NOT NULL CHECK (reason IN ('retention','cleared')),
+            cutoff NVARCHAR(50),
+            retention_days INT,
+            messages_deleted INT NOT NULL,
+            requested_by NVARCHAR(255),
+            purged_at DATETIME NOT NULL DEFAULT GETDATE()
+          )
+        END
+      `);
+
+      await this.initializeFullTextIndex();
+
       this.logger.debug("✅ Database tables initialized");
     } catch (error) {
       this.logger.error("❌ Error initializing database tables:", error);
@@ -177,11 +444,63 @@ export class MssqlKVStore implements IDatabase {
     }
   }
 
+  /**
+   * Full-text index on message content for ranked search.
+   * Not every SQL Server edition has full-text search installed; searches fall back to LIKE then.
+   */
+  private async initializeFullTextIndex(): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const installed = await this.pool
+        .request()
+        .query("SELECT CAST(FULLTEXTSERVICEPROPERTY('IsFullTextInstalled') AS INT) AS installed");
+      if (!installed.recordset[0]?.installed) {
+        this.logger.warn("⚠️ Full-text search is not installed; message search will use LIKE");
+        return;
+      }
+
+      // A full-text index is keyed on a unique index; use the table's primary key
+      const primaryKey = await this.pool
+        .request()
+        .query(
+          "SELECT name FROM sys.indexes WHERE object_id = OBJECT_ID('conversations') AND is_primary_key = 1"
+        );
+      const keyIndex = primaryKey.recordset[0]?.name;
+      if (!keyIndex) {
+        this.logger.warn("⚠️ conversations table has no primary key; message search will use LIKE");
+        return;
+      }
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.fulltext_catalogs WHERE name='collaborator_catalog')
+        BEGIN
+          CREATE FULLTEXT CATALOG collaborator_catalog
+        END
+      `);
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.fulltext_indexes WHERE object_id = OBJECT_ID('conversations'))
+        BEGIN
+          CREATE FULLTEXT INDEX ON conversations(content)
+          KEY INDEX [${keyIndex}] ON collaborator_catalog
+          WITH CHANGE_TRACKING AUTO
+        END
+      `);
+
+      this.fullTextEnabled = true;
+      this.logger.debug("✅ Full-text index ready");
+    } catch (error) {
+      this.logger.warn("⚠️ Could not set up full-text index; message search will use LIKE:", error);
+    }
+  }
+
   async clearAll(): Promise<void> {
     if (!this.pool) throw new Error("Database not connected");
 
     try {
       await this.pool.request().query("DELETE FROM conversations");
+      await this.pool.request().query("DELETE FROM embeddings WHERE source_type = 'message'");
+      await this.pool.request().query("DELETE FROM summary_cache");
       this.logger.debug("🧹 Cleared all conversations from MSSQL store.");
     } catch (error) {
       this.logger.error("❌ Error clearing all conversations:", error);
@@ -246,7 +565,11 @@ export class MssqlKVStore implements IDatabase {
       await this.pool
         .request()
         .input("conversationId", mssql.NVarChar, conversationId)
-        .query("DELETE FROM conversations WHERE conversation_id = @conversationId");
+        .query(`
+          DELETE FROM conversations WHERE conversation_id = @conversationId;
+          DELETE FROM embeddings WHERE conversation_id = @conversationId AND source_type = 'message';
+          DELETE FROM summary_cache WHERE conversation_id = @conversationId;
+        `);
     } catch (error) {
       this.logger.error("❌ Error clearing conversation:", error);
       throw error;
@@ -317,63 +640,136 @@ export class MssqlKVStore implements IDatabase {
     participants?: string[],
     maxResults = 5
   ): Promise<MessageRecord[]> {
-    if (!this.pool) throw new Error("Database not connected");
+    const hits = await this.searchMessages(conversationId, keywordsToQuery(keywords), {
+      startTime,
+      endTime,
+      participants,
+      maxResults,
+    });
+    return hits.map((hit) => hit.message);
+  }
 
-    try {
-      const request = this.pool.request();
+  async searchMessages(
+    conversationId: string,
+    query: string,
+    options: MessageSearchOptions
+  ): Promise<MessageSearchHit[]> {
+    if (!this.pool) throw new Error("Database not connected");
 
-      // Build dynamic query
-      let whereClause =
-        "conversation_id = @conversationId AND timestamp >= @startTime AND timestamp <= @endTime";
-      request.input("conversationId", mssql.NVarChar, conversationId);
-      request.input("startTime", mssql.NVarChar, startTime);
-      request.input("endTime", mssql.NVarChar, endTime);
-      request.input("maxResults", mssql.Int, maxResults);
-
-      // Add keyword filters
-      if (keywords.length > 0) {
-        const keywordConditions = keywords
-          .map((_, index) => {
-            request.input(`keyword${index}`, mssql.NVarChar, `%${keywords[index].toLowerCase()}%`);
-            return `content LIKE @keyword${index}`;
-          })
-          .join(" OR ");
-        whereClause += ` AND (${keywordConditions})`;
-      }
+    const parsed = parseSearchQuery(query);
+    if (!parsed) {
+      this.logger.debug(`🔎 Nothing searchable in query "${query}"`);
+      return [];
+    }
 
-      // Add participant filters
-      if (participants && participants.length > 0) {
-        const participantConditions = participants
-          .map((_, index) => {
-            request.input(
-              `participant${index}`,
-              mssql.NVarChar,
-              `%${participants[index].toLowerCase()}%`
-            );
-            return `name LIKE @participant${index}`;
-          })
-          .join(" OR ");
-        whereClause += ` AND (${participantConditions})`;
+    const containsQuery = this.fullTextEnabled ? toContainsQuery(parsed) : null;
+    if (containsQuery) {
+      try {
+        return await this.searchWithFullText(conversationId, parsed, containsQuery, options);
+      } catch (error) {
+        // e.g. a query made only of noise words; LIKE still finds something
+        this.logger.warn(`⚠️ Full-text search failed for "${containsQuery}", using LIKE:`, error);
       }
+    }
 
-      const query = `
-        SELECT TOP (@maxResults) blob FROM conversations
-        WHERE ${whereClause}
-        ORDER BY timestamp DESC
-      `;
-
-      const result = await request.query(query);
-      return result.recordset.map((row) => JSON.parse(row.blob) as MessageRecord);
+    try {
+      return await this.searchWithLike(conversationId, parsed, options);
     } catch (error) {
-      this.logger.error("❌ Error getting filtered messages:", error);
+      this.logger.error("❌ Error searching messages:", error);
       return [];
     }
   }
 
+  private async searchWithFullText(
+    conversationId: string,
+    parsed: QueryNode,
+    containsQuery: string,
+    options: MessageSearchOptions
+  ): Promise<MessageSearchHit[]> {
+    const request = this.pool!.request().input("query", mssql.NVarChar, containsQuery);
+    const whereClause = this.addSearchFilters(request, conversationId, options, "c.");
+
+    const result = await request.query(`
+      SELECT TOP (@maxResults) c.blob, c.content, ft.[RANK] AS rank
+      FROM CONTAINSTABLE(conversations, content, @query) AS ft
+      JOIN conversations c ON c.id = ft.[KEY]
+      WHERE ${whereClause}
+      ORDER BY ft.[RANK] DESC, c.timestamp DESC
+    `);
+
+    const terms = getHighlightTerms(parsed);
+    return result.recordset.map((row) => ({
+      message: JSON.parse(row.blob) as MessageRecord,
+      rank: row.rank,
+      snippet: buildSnippet(row.content, terms),
+    }));
+  }
+
+  // Without a full-text index, rank the newest candidates by how many query terms they contain
+  private async searchWithLike(
+    conversationId: string,
+    parsed: QueryNode,
+    options: MessageSearchOptions
+  ): Promise<MessageSearchHit[]> {
+    const request = this.pool!.request();
+    let whereClause = this.addSearchFilters(request, conversationId, options, "");
+
+    let paramIndex = 0;
+    whereClause += ` AND ${toLikeCondition(parsed, "content", (value) => {
+      const name = `term${paramIndex++}`;
+      request.input(name, mssql.NVarChar, value);
+      return `@${name}`;
+    })}`;
+    request.input("candidates", mssql.Int, (options.maxResults ?? 5) * 20);
+
+    const result = await request.query(`
+      SELECT TOP (@candidates) blob, content FROM conversations
+      WHERE ${whereClause}
+      ORDER BY timestamp DESC
+    `);
+
+    const terms = getHighlightTerms(parsed);
+    return result.recordset
+      .map((row) => ({
+        message: JSON.parse(row.blob) as MessageRecord,
+        rank: countMatchedTerms(row.content, terms),
+        snippet: buildSnippet(row.content, terms),
+      }))
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, options.maxResults ?? 5);
+  }
+
+  private addSearchFilters(
+    request: mssql.Request,
+    conversationId: string,
+    options: MessageSearchOptions,
+    prefix: string
+  ): string {
+    request.input("conversationId", mssql.NVarChar, conversationId);
+    request.input("startTime", mssql.NVarChar, options.startTime);
+    request.input("endTime", mssql.NVarChar, options.endTime);
+    request.input("maxResults", mssql.Int, options.maxResults ?? 5);
+
+    let whereClause = `${prefix}conversation_id = @conversationId AND ${prefix}timestamp >= @startTime AND ${prefix}timestamp <= @endTime`;
+
+    const participants = options.participants ?? [];
+    if (participants.length > 0) {
+      const participantConditions = participants
+        .map((participant, index) => {
+          request.input(`participant${index}`, mssql.NVarChar, `%${participant.toLowerCase()}%`);
+          return `${prefix}name LIKE @participant${index}`;
+        })
+        .join(" OR ");
+      whereClause += ` AND (${participantConditions})`;
+    }
+    return whereClause;
+  }
+
   async recordFeedback(
     replyToId: string,
     reaction: "like" | "dislike" | string,
-    feedbackJson?: unknown
+    feedbackJson?: unknown,
+    userId?: string
   ): Promise<boolean> {
     if (!this.pool) throw new Error("Database not connected");
 
@@ -383,9 +779,10 @@ export class MssqlKVStore implements IDatabase {
         .input("replyToId", mssql.NVarChar, replyToId)
         .input("reaction", mssql.NVarChar, reaction)
         .input("feedback", mssql.NVarChar, feedbackJson ? JSON.stringify(feedbackJson) : null)
+        .input("userId", mssql.NVarChar, userId ?? null)
         .query(`
-          INSERT INTO feedback (reply_to_id, reaction, feedback)
-          VALUES (@replyToId, @reaction, @feedback)
+          INSERT INTO feedback (reply_to_id, reaction, feedback, user_id)
+          VALUES (@replyToId, @reaction, @feedback, @userId)
         `);
 
       return true;
@@ -395,12 +792,1447 @@ export class MssqlKVStore implements IDatabase {
     }
   }
 
-  async close(): Promise<void> {
-    if (this.pool) {
-      await this.pool.close();
-      this.pool = null;
-      this.isInitialized = false;
-      this.logger.debug("🔌 Closed MSSQL database connection");
+  // ===== ACTION ITEM LEDGER =====
+
+  async addActionItems(items: NewActionItem[]): Promise<ActionItemRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const created: ActionItemRecord[] = [];
+      for (const item of items) {
+        const result = await this.pool
+          .request()
+          .input("meetingId", mssql.NVarChar, item.meeting_id ?? null)
+          .input("conversationId", mssql.NVarChar, item.conversation_id)
+          .input("title", mssql.NVarChar, item.title)
+          .input("description", mssql.NVarChar, item.description ?? null)
+          .input("assigneeEmail", mssql.NVarChar, item.assignee_email ?? null)
+          .input("assigneeName", mssql.NVarChar, item.assignee_name ?? null)
+          .input("dueDate", mssql.DateTime, item.due_date ? new Date(item.due_date) : null)
+          .input("plannerTaskId", mssql.NVarChar, item.planner_task_id ?? null).query(`
+            INSERT INTO action_items (meeting_id, conversation_id, title, description, assignee_email, assignee_name, due_date, status, planner_task_id)
+            OUTPUT INSERTED.*
+            VALUES (@meetingId, @conversationId, @title, @description, @assigneeEmail, @assigneeName, @dueDate, 'pending', @plannerTaskId)
+          `);
+        created.push(toActionItemRecord(result.recordset[0]));
+      }
+      return created;
+    } catch (error) {
+      this.logger.error("❌ Error adding action items:", error);
+      throw error;
+    }
+  }
+
+  async getActionItem(id: number): Promise<ActionItemRecord | null> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .query("SELECT * FROM action_items WHERE id = @id");
+      return result.recordset.length > 0 ? toActionItemRecord(result.recordset[0]) : null;
+    } catch (error) {
+      this.logger.error("❌ Error getting action item:", error);
+      return null;
+    }
+  }
+
+  async getOpenActionItems(filter: ActionItemFilter): Promise<ActionItemRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool.request();
+      let whereClause = "status != 'done'";
+
+      if (filter.conversationId) {
+        request.input("conversationId", mssql.NVarChar, filter.conversationId);
+        whereClause += " AND conversation_id = @conversationId";
+      }
+      if (filter.assignee) {
+        request.input("assigneeLike", mssql.NVarChar, `%${filter.assignee.toLowerCase()}%`);
+        request.input("assignee", mssql.NVarChar, filter.assignee.toLowerCase());
+        whereClause +=
+          " AND (LOWER(assignee_name) LIKE @assigneeLike OR LOWER(assignee_email) = @assignee)";
+      }
+      if (filter.assigneeIds) {
+        filter.assigneeIds.forEach((id, i) => {
+          request.input(`assigneeId${i}`, mssql.NVarChar, id.toLowerCase());
+        });
+        const ids = filter.assigneeIds.map((_, i) => `@assigneeId${i}`).join(", ") || "NULL";
+        whereClause += ` AND LOWER(assignee_email) IN (${ids})`;
+      }
+      if (filter.assigneeExactName) {
+        request.input("assigneeExactName", mssql.NVarChar, filter.assigneeExactName.toLowerCase());
+        whereClause += " AND LOWER(assignee_name) = @assigneeExactName";
+      }
+
+      const result = await request.query(
+        `SELECT * FROM action_items WHERE ${whereClause} ORDER BY created_at ASC`
+      );
+      return result.recordset.map(toActionItemRecord);
+    } catch (error) {
+      this.logger.error("❌ Error getting open action items:", error);
+      return [];
+    }
+  }
+
+  async getFiledActionItems(conversationId: string): Promise<ActionItemRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId).query(`
+          SELECT * FROM action_items
+          WHERE conversation_id = @conversationId AND planner_task_id IS NOT NULL
+          ORDER BY created_at ASC
+        `);
+      return result.recordset.map(toActionItemRecord);
+    } catch (error) {
+      this.logger.error("❌ Error getting filed action items:", error);
+      return [];
+    }
+  }
+
+  async setActionItemStatus(id: number, status: ActionItemStatus): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .input("status", mssql.NVarChar, status)
+        .query("UPDATE action_items SET status = @status, updated_at = GETDATE() WHERE id = @id");
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error updating action item status:", error);
+      return false;
+    }
+  }
+
+  async reassignActionItem(
+    id: number,
+    assigneeName: string,
+    assigneeEmail?: string
+  ): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .input("assigneeName", mssql.NVarChar, assigneeName)
+        .input("assigneeEmail", mssql.NVarChar, assigneeEmail ?? null).query(`
+          UPDATE action_items
+          SET assignee_name = @assigneeName, assignee_email = @assigneeEmail, updated_at = GETDATE()
+          WHERE id = @id
+        `);
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error reassigning action item:", error);
+      return false;
+    }
+  }
+
+  async setActionItemPlannerTask(id: number, plannerTaskId: string): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .input("plannerTaskId", mssql.NVarChar, plannerTaskId).query(`
+          UPDATE action_items
+          SET planner_task_id = @plannerTaskId, updated_at = GETDATE()
+          WHERE id = @id
+        `);
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error linking action item to Planner task:", error);
+      return false;
     }
   }
+
+  // ===== MEETINGS =====
+
+  async upsertMeeting(meeting: NewMeeting): Promise<MeetingRecord> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      // Only overwrite the fields the caller provided
+      const result = await this.pool
+        .request()
+        .input("meetingId", mssql.NVarChar, meeting.meeting_id)
+        .input("conversationId", mssql.NVarChar, meeting.conversation_id ?? null)
+        .input("subject", mssql.NVarChar, meeting.subject ?? null)
+        .input("organizerEmail", mssql.NVarChar, meeting.organizer_email ?? null)
+        .input("organizerName", mssql.NVarChar, meeting.organizer_name ?? null)
+        .input("startTime", mssql.DateTime, meeting.start_time ? new Date(meeting.start_time) : null)
+        .input("endTime", mssql.DateTime, meeting.end_time ? new Date(meeting.end_time) : null)
+        .input("joinUrl", mssql.NVarChar, meeting.join_url ?? null).query(`
+          MERGE meetings AS target
+          USING (SELECT @meetingId AS meeting_id) AS source
+          ON target.meeting_id = source.meeting_id
+          WHEN MATCHED THEN UPDATE SET
+            conversation_id = COALESCE(@conversationId, target.conversation_id),
+            subject = COALESCE(@subject, target.subject),
+            organizer_email = COALESCE(@organizerEmail, target.organizer_email),
+            organizer_name = COALESCE(@organizerName, target.organizer_name),
+            start_time = COALESCE(@startTime, target.start_time),
+            end_time = COALESCE(@endTime, target.end_time),
+            join_url = COALESCE(@joinUrl, target.join_url),
+            updated_at = GETDATE()
+          WHEN NOT MATCHED THEN
+            INSERT (meeting_id, conversation_id, subject, organizer_email, organizer_name, start_time, end_time, join_url)
+            VALUES (@meetingId, @conversationId, @subject, @organizerEmail, @organizerName, @startTime, @endTime, @joinUrl)
+          OUTPUT INSERTED.*;
+        `);
+      return toMeetingRecord(result.recordset[0]);
+    } catch (error) {
+      this.logger.error("❌ Error saving meeting:", error);
+      throw error;
+    }
+  }
+
+  async getMeeting(meetingId: string): Promise<MeetingRecord | null> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .query("SELECT * FROM meetings WHERE meeting_id = @meetingId");
+      return result.recordset.length > 0 ? toMeetingRecord(result.recordset[0]) : null;
+    } catch (error) {
+      this.logger.error("❌ Error getting meeting:", error);
+      return null;
+    }
+  }
+
+  async findMeetings(filter: MeetingFilter): Promise<MeetingRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool.request().input("limit", mssql.Int, filter.limit ?? 10);
+      const whereClauses: string[] = [];
+
+      if (filter.conversationId) {
+        request.input("conversationId", mssql.NVarChar, filter.conversationId);
+        whereClauses.push("conversation_id = @conversationId");
+      }
+      if (filter.subject) {
+        request.input("subject", mssql.NVarChar, `%${filter.subject.toLowerCase()}%`);
+        whereClauses.push("LOWER(subject) LIKE @subject");
+      }
+
+      const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+      const result = await request.query(
+        `SELECT TOP (@limit) * FROM meetings ${where} ORDER BY COALESCE(start_time, created_at) DESC`
+      );
+      return result.recordset.map(toMeetingRecord);
+    } catch (error) {
+      this.logger.error("❌ Error finding meetings:", error);
+      return [];
+    }
+  }
+
+  async addMeetingNote(note: NewMeetingNote): Promise<MeetingNoteRecord> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("meetingId", mssql.NVarChar, note.meeting_id)
+        .input("noteType", mssql.NVarChar, note.note_type)
+        .input("content", mssql.NVarChar, note.content)
+        .input("createdBy", mssql.NVarChar, note.created_by ?? null).query(`
+          INSERT INTO meeting_notes (meeting_id, note_type, content, created_by)
+          OUTPUT INSERTED.*
+          VALUES (@meetingId, @noteType, @content, @createdBy)
+        `);
+      return toMeetingNoteRecord(result.recordset[0]);
+    } catch (error) {
+      this.logger.error("❌ Error adding meeting note:", error);
+      throw error;
+    }
+  }
+
+  async getMeetingNotes(meetingId: string, noteType?: MeetingNoteType): Promise<MeetingNoteRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool.request().input("meetingId", mssql.NVarChar, meetingId);
+      let whereClause = "meeting_id = @meetingId";
+      if (noteType) {
+        request.input("noteType", mssql.NVarChar, noteType);
+        whereClause += " AND note_type = @noteType";
+      }
+
+      const result = await request.query(
+        `SELECT * FROM meeting_notes WHERE ${whereClause} ORDER BY created_at ASC`
+      );
+      return result.recordset.map(toMeetingNoteRecord);
+    } catch (error) {
+      this.logger.error("❌ Error getting meeting notes:", error);
+      return [];
+    }
+  }
+
+  async saveTranscript(
+    meetingId: string,
+    transcriptId: string,
+    segments: NewTranscriptSegment[]
+  ): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    const transaction = new mssql.Transaction(this.pool);
+    try {
+      await transaction.begin();
+
+      await new mssql.Request(transaction)
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .input("transcriptId", mssql.NVarChar, transcriptId)
+        .query(
+          "DELETE FROM meeting_transcripts WHERE meeting_id = @meetingId AND transcript_id = @transcriptId"
+        );
+      await new mssql.Request(transaction)
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .query(
+          "DELETE FROM embeddings WHERE source_type = 'transcript' AND meeting_id = @meetingId"
+        );
+
+      for (const [index, segment] of segments.entries()) {
+        await new mssql.Request(transaction)
+          .input("meetingId", mssql.NVarChar, meetingId)
+          .input("transcriptId", mssql.NVarChar, transcriptId)
+          .input("speakerName", mssql.NVarChar, segment.speaker_name ?? null)
+          .input("content", mssql.NVarChar, segment.content)
+          .input("timestampStart", mssql.NVarChar, segment.timestamp_start ?? null)
+          .input("timestampEnd", mssql.NVarChar, segment.timestamp_end ?? null)
+          .input("sequenceNumber", mssql.Int, index).query(`
+            INSERT INTO meeting_transcripts (meeting_id, transcript_id, speaker_name, content, timestamp_start, timestamp_end, sequence_number)
+            VALUES (@meetingId, @transcriptId, @speakerName, @content, @timestampStart, @timestampEnd, @sequenceNumber)
+          `);
+      }
+
+      await new mssql.Request(transaction)
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .query(
+          "UPDATE meetings SET has_transcript = 1, updated_at = GETDATE() WHERE meeting_id = @meetingId"
+        );
+
+      await transaction.commit();
+    } catch (error) {
+      this.logger.error("❌ Error saving transcript:", error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  async appendTranscriptSegments(
+    meetingId: string,
+    transcriptId: string,
+    segments: NewTranscriptSegment[]
+  ): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    const transaction = new mssql.Transaction(this.pool);
+    try {
+      await transaction.begin();
+
+      // Locks the transcript's rows so two appends can't take the same sequence numbers
+      const result = await new mssql.Request(transaction)
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .input("transcriptId", mssql.NVarChar, transcriptId).query(`
+          SELECT COALESCE(MAX(sequence_number) + 1, 0) AS next
+          FROM meeting_transcripts WITH (UPDLOCK, HOLDLOCK)
+          WHERE meeting_id = @meetingId AND transcript_id = @transcriptId
+        `);
+      const next: number = result.recordset[0].next;
+
+      for (const [index, segment] of segments.entries()) {
+        await new mssql.Request(transaction)
+          .input("meetingId", mssql.NVarChar, meetingId)
+          .input("transcriptId", mssql.NVarChar, transcriptId)
+          .input("speakerName", mssql.NVarChar, segment.speaker_name ?? null)
+          .input("content", mssql.NVarChar, segment.content)
+          .input("timestampStart", mssql.NVarChar, segment.timestamp_start ?? null)
+          .input("timestampEnd", mssql.NVarChar, segment.timestamp_end ?? null)
+          .input("sequenceNumber", mssql.Int, next + index).query(`
+            INSERT INTO meeting_transcripts (meeting_id, transcript_id, speaker_name, content, timestamp_start, timestamp_end, sequence_number)
+            VALUES (@meetingId, @transcriptId, @speakerName, @content, @timestampStart, @timestampEnd, @sequenceNumber)
+          `);
+      }
+
+      await new mssql.Request(transaction)
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .query(
+          "UPDATE meetings SET has_transcript = 1, updated_at = GETDATE() WHERE meeting_id = @meetingId"
+        );
+
+      await transaction.commit();
+    } catch (error) {
+      this.logger.error("❌ Error appending transcript segments:", error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  async getTranscript(meetingId: string): Promise<TranscriptSegmentRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("meetingId", mssql.NVarChar, meetingId)
+        .query(
+          "SELECT * FROM meeting_transcripts WHERE meeting_id = @meetingId ORDER BY transcript_id ASC, sequence_number ASC"
+        );
+      return result.recordset.map((row: any) => ({
+        ...row,
+        created_at: toIsoString(row.created_at)!,
+      }));
+    } catch (error) {
+      this.logger.error("❌ Error getting transcript:", error);
+      return [];
+    }
+  }
+
+  // ===== DIGEST SCHEDULES =====
+
+  async addDigestSchedule(schedule: NewDigestSchedule): Promise<DigestScheduleRecord> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, schedule.conversation_id)
+        .input("cadence", mssql.NVarChar, schedule.cadence)
+        .input("timeOfDay", mssql.NVarChar, schedule.time_of_day)
+        .input("dayOfWeek", mssql.Int, schedule.day_of_week ?? null)
+        .input("timezone", mssql.NVarChar, schedule.timezone)
+        .input("createdBy", mssql.NVarChar, schedule.created_by ?? null)
+        .input("nextRunAt", mssql.DateTime2, new Date(schedule.next_run_at)).query(`
+          INSERT INTO digest_schedules (conversation_id, cadence, time_of_day, day_of_week, timezone, created_by, next_run_at)
+          OUTPUT INSERTED.*
+          VALUES (@conversationId, @cadence, @timeOfDay, @dayOfWeek, @timezone, @createdBy, @nextRunAt)
+        `);
+      return toDigestScheduleRecord(result.recordset[0]);
+    } catch (error) {
+      this.logger.error("❌ Error adding digest schedule:", error);
+      throw error;
+    }
+  }
+
+  async getDigestSchedule(id: number): Promise<DigestScheduleRecord | null> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .query("SELECT * FROM digest_schedules WHERE id = @id");
+      return result.recordset.length > 0 ? toDigestScheduleRecord(result.recordset[0]) : null;
+    } catch (error) {
+      this.logger.error("❌ Error getting digest schedule:", error);
+      return null;
+    }
+  }
+
+  async getDigestSchedules(conversationId: string): Promise<DigestScheduleRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .query("SELECT * FROM digest_schedules WHERE conversation_id = @conversationId ORDER BY id ASC");
+      return result.recordset.map(toDigestScheduleRecord);
+    } catch (error) {
+      this.logger.error("❌ Error getting digest schedules:", error);
+      return [];
+    }
+  }
+
+  async getDueDigestSchedules(now: string): Promise<DigestScheduleRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("now", mssql.DateTime2, new Date(now))
+        .query(
+          "SELECT * FROM digest_schedules WHERE status = 'active' AND next_run_at <= @now ORDER BY next_run_at ASC"
+        );
+      return result.recordset.map(toDigestScheduleRecord);
+    } catch (error) {
+      this.logger.error("❌ Error getting due digest schedules:", error);
+      return [];
+    }
+  }
+
+  async updateDigestSchedule(id: number, changes: DigestScheduleUpdate): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool.request().input("id", mssql.Int, id);
+      const assignments: string[] = [];
+
+      if (changes.status !== undefined) {
+        request.input("status", mssql.NVarChar, changes.status);
+        assignments.push("status = @status");
+      }
+      if (changes.last_run_at !== undefined) {
+        request.input(
+          "lastRunAt",
+          mssql.DateTime2,
+          changes.last_run_at ? new Date(changes.last_run_at) : null
+        );
+        assignments.push("last_run_at = @lastRunAt");
+      }
+      if (changes.next_run_at !== undefined) {
+        request.input("nextRunAt", mssql.DateTime2, new Date(changes.next_run_at));
+        assignments.push("next_run_at = @nextRunAt");
+      }
+      if (assignments.length === 0) return false;
+
+      const result = await request.query(
+        `UPDATE digest_schedules SET ${assignments.join(", ")}, updated_at = GETDATE() WHERE id = @id`
+      );
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error updating digest schedule:", error);
+      return false;
+    }
+  }
+
+  async claimDigestSchedule(id: number, due: string, next: string): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .input("due", mssql.DateTime2, new Date(due))
+        .input("next", mssql.DateTime2, new Date(next))
+        .query(
+          `UPDATE digest_schedules SET next_run_at = @next, updated_at = GETDATE()
+           WHERE id = @id AND next_run_at = @due`
+        );
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error claiming digest schedule:", error);
+      return false;
+    }
+  }
+
+  async deleteDigestSchedule(id: number): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .query("DELETE FROM digest_schedules WHERE id = @id");
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error deleting digest schedule:", error);
+      return false;
+    }
+  }
+
+  // ===== EMBEDDINGS =====
+
+  async upsertEmbeddings(embeddings: NewEmbedding[]): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+    if (embeddings.length === 0) return;
+
+    try {
+      const transaction = new mssql.Transaction(this.pool);
+      await transaction.begin();
+
+      try {
+        for (const embedding of embeddings) {
+          await transaction
+            .request()
+            .input("sourceType", mssql.NVarChar, embedding.source_type)
+            .input("sourceId", mssql.NVarChar, embedding.source_id)
+            .input("conversationId", mssql.NVarChar, embedding.conversation_id)
+            .input("meetingId", mssql.NVarChar, embedding.meeting_id ?? null)
+            .input("speakerName", mssql.NVarChar, embedding.speaker_name ?? null)
+            .input("content", mssql.NVarChar, embedding.content)
+            .input("timestamp", mssql.NVarChar, embedding.timestamp ?? null)
+            .input("model", mssql.NVarChar, embedding.model)
+            .input("vector", mssql.VarBinary(mssql.MAX), encodeVector(embedding.vector)).query(`
+              MERGE embeddings AS target
+              USING (SELECT @conversationId AS conversation_id, @sourceType AS source_type, @sourceId AS source_id, @model AS model) AS source
+              ON target.conversation_id = source.conversation_id
+                AND target.source_type = source.source_type
+                AND target.source_id = source.source_id
+                AND target.model = source.model
+              WHEN MATCHED THEN UPDATE SET
+                meeting_id = @meetingId,
+                speaker_name = @speakerName,
+                content = @content,
+                timestamp = @timestamp,
+                vector = @vector
+              WHEN NOT MATCHED THEN
+                INSERT (source_type, source_id, conversation_id, meeting_id, speaker_name, content, timestamp, model, vector)
+                VALUES (@sourceType, @sourceId, @conversationId, @meetingId, @speakerName, @content, @timestamp, @model, @vector);
+            `);
+        }
+
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        throw error;
+      }
+    } catch (error) {
+      this.logger.error("❌ Error saving embeddings:", error);
+      throw error;
+    }
+  }
+
+  async getEmbeddedSourceIds(
+    conversationId: string,
+    sourceType: EmbeddingSourceType,
+    model: string
+  ): Promise<string[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("sourceType", mssql.NVarChar, sourceType)
+        .input("model", mssql.NVarChar, model)
+        .query(
+          "SELECT source_id FROM embeddings WHERE conversation_id = @conversationId AND source_type = @sourceType AND model = @model"
+        );
+      return result.recordset.map((row: { source_id: string }) => row.source_id);
+    } catch (error) {
+      this.logger.error("❌ Error getting embedded source IDs:", error);
+      return [];
+    }
+  }
+
+  async searchEmbeddings(
+    conversationId: string,
+    vector: number[],
+    options: VectorSearchOptions
+  ): Promise<VectorSearchHit[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("model", mssql.NVarChar, options.model);
+      const conditions = ["conversation_id = @conversationId", "model = @model"];
+
+      if (options.sourceTypes && options.sourceTypes.length > 0) {
+        const params = options.sourceTypes.map((sourceType, index) => {
+          request.input(`sourceType${index}`, mssql.NVarChar, sourceType);
+          return `@sourceType${index}`;
+        });
+        conditions.push(`source_type IN (${params.join(", ")})`);
+      }
+      if (options.startTime && options.endTime) {
+        request
+          .input("startTime", mssql.NVarChar, options.startTime)
+          .input("endTime", mssql.NVarChar, options.endTime);
+        conditions.push("(source_type <> 'message' OR timestamp BETWEEN @startTime AND @endTime)");
+      }
+
+      const result = await request.query(
+        `SELECT * FROM embeddings WHERE ${conditions.join(" AND ")}`
+      );
+      return rankByVector(vector, result.recordset.map(toEmbeddingRecord), options.limit ?? 10);
+    } catch (error) {
+      this.logger.error("❌ Error searching embeddings:", error);
+      return [];
+    }
+  }
+
+  // ===== SUMMARY CACHE =====
+
+  async getCachedSummary(
+    conversationId: string,
+    kind: SummaryKind,
+    rangeKey: string
+  ): Promise<SummaryCacheRecord | null> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("kind", mssql.NVarChar, kind)
+        .input("rangeKey", mssql.NVarChar, rangeKey)
+        .query(
+          "SELECT * FROM summary_cache WHERE conversation_id = @conversationId AND kind = @kind AND range_key = @rangeKey"
+        );
+      if (result.recordset.length === 0) return null;
+      const row = result.recordset[0];
+      return { ...row, created_at: toIsoString(row.created_at)! };
+    } catch (error) {
+      this.logger.error("❌ Error getting cached summary:", error);
+      return null;
+    }
+  }
+
+  async saveCachedSummary(entry: NewSummaryCacheEntry): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, entry.conversation_id)
+        .input("kind", mssql.NVarChar, entry.kind)
+        .input("rangeKey", mssql.NVarChar, entry.range_key)
+        .input("startTime", mssql.NVarChar, entry.start_time)
+        .input("endTime", mssql.NVarChar, entry.end_time)
+        .input("messageCount", mssql.Int, entry.message_count)
+        .input("summary", mssql.NVarChar, entry.summary).query(`
+          MERGE summary_cache AS target
+          USING (SELECT @conversationId AS conversation_id, @kind AS kind, @rangeKey AS range_key) AS source
+          ON target.conversation_id = source.conversation_id
+            AND target.kind = source.kind
+            AND target.range_key = source.range_key
+          WHEN MATCHED THEN UPDATE SET
+            summary = @summary,
+            created_at = GETDATE()
+          WHEN NOT MATCHED THEN
+            INSERT (conversation_id, kind, range_key, start_time, end_time, message_count, summary)
+            VALUES (@conversationId, @kind, @rangeKey, @startTime, @endTime, @messageCount, @summary);
+        `);
+    } catch (error) {
+      // A missed cache write only costs a re-summarization later
+      this.logger.error("❌ Error saving cached summary:", error);
+    }
+  }
+
+  // ===== EMAIL DRAFTS =====
+
+  async createEmailDraft(draft: NewEmailDraft): Promise<EmailDraftRecord> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, draft.conversation_id)
+        .input("createdBy", mssql.NVarChar, draft.created_by)
+        .input("subject", mssql.NVarChar, draft.subject)
+        .input("body", mssql.NVarChar(mssql.MAX), draft.body)
+        .input("isHtml", mssql.Bit, draft.is_html ? 1 : 0)
+        .input("toRecipients", mssql.NVarChar(mssql.MAX), JSON.stringify(draft.to_recipients))
+        .input(
+          "ccRecipients",
+          mssql.NVarChar(mssql.MAX),
+          JSON.stringify(draft.cc_recipients ?? [])
+        ).query(`
+          INSERT INTO email_drafts (conversation_id, created_by, subject, body, is_html, to_recipients, cc_recipients)
+          OUTPUT INSERTED.*
+          VALUES (@conversationId, @createdBy, @subject, @body, @isHtml, @toRecipients, @ccRecipients)
+        `);
+      return toEmailDraftRecord(result.recordset[0]);
+    } catch (error) {
+      this.logger.error("❌ Error creating email draft:", error);
+      throw error;
+    }
+  }
+
+  async getEmailDraft(id: number): Promise<EmailDraftRecord | null> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("id", mssql.Int, id)
+        .query("SELECT * FROM email_drafts WHERE id = @id");
+      return result.recordset.length > 0 ? toEmailDraftRecord(result.recordset[0]) : null;
+    } catch (error) {
+      this.logger.error("❌ Error getting email draft:", error);
+      return null;
+    }
+  }
+
+  async getPendingEmailDrafts(conversationId: string): Promise<EmailDraftRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .query(
+          "SELECT * FROM email_drafts WHERE conversation_id = @conversationId AND status = 'pending' ORDER BY id ASC"
+        );
+      return result.recordset.map(toEmailDraftRecord);
+    } catch (error) {
+      this.logger.error("❌ Error getting pending email drafts:", error);
+      return [];
+    }
+  }
+
+  async updateEmailDraft(
+    id: number,
+    changes: EmailDraftUpdate,
+    expectedStatus?: EmailDraftStatus
+  ): Promise<boolean> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool.request().input("id", mssql.Int, id);
+      const assignments: string[] = [];
+
+      if (changes.subject !== undefined) {
+        request.input("subject", mssql.NVarChar, changes.subject);
+        assignments.push("subject = @subject");
+      }
+      if (changes.body !== undefined) {
+        request.input("body", mssql.NVarChar(mssql.MAX), changes.body);
+        assignments.push("body = @body");
+      }
+      if (changes.is_html !== undefined) {
+        request.input("isHtml", mssql.Bit, changes.is_html ? 1 : 0);
+        assignments.push("is_html = @isHtml");
+      }
+      if (changes.to_recipients !== undefined) {
+        request.input(
+          "toRecipients",
+          mssql.NVarChar(mssql.MAX),
+          JSON.stringify(changes.to_recipients)
+        );
+        assignments.push("to_recipients = @toRecipients");
+      }
+      if (changes.cc_recipients !== undefined) {
+        request.input(
+          "ccRecipients",
+          mssql.NVarChar(mssql.MAX),
+          JSON.stringify(changes.cc_recipients)
+        );
+        assignments.push("cc_recipients = @ccRecipients");
+      }
+      if (changes.status !== undefined) {
+        request.input("status", mssql.NVarChar, changes.status);
+        assignments.push("status = @status");
+      }
+      if (changes.sent_at !== undefined) {
+        request.input("sentAt", mssql.DateTime2, changes.sent_at ? new Date(changes.sent_at) : null);
+        assignments.push("sent_at = @sentAt");
+      }
+      if (assignments.length === 0) return false;
+
+      let whereClause = "id = @id";
+      if (expectedStatus) {
+        request.input("expectedStatus", mssql.NVarChar, expectedStatus);
+        whereClause += " AND status = @expectedStatus";
+      }
+
+      const result = await request.query(
+        `UPDATE email_drafts SET ${assignments.join(", ")}, updated_at = GETDATE() WHERE ${whereClause}`
+      );
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      this.logger.error("❌ Error updating email draft:", error);
+      return false;
+    }
+  }
+
+  // ===== FEEDBACK =====
+
+  async recordReplyCapabilities(
+    activityId: string,
+    conversationId: string,
+    capabilities: string[]
+  ): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      for (const capability of new Set(capabilities)) {
+        await this.pool
+          .request()
+          .input("activityId", mssql.NVarChar, activityId)
+          .input("conversationId", mssql.NVarChar, conversationId)
+          .input("capability", mssql.NVarChar, capability).query(`
+            IF NOT EXISTS (SELECT 1 FROM reply_capabilities WHERE activity_id = @activityId AND capability = @capability)
+              INSERT INTO reply_capabilities (activity_id, conversation_id, capability)
+              VALUES (@activityId, @conversationId, @capability)
+          `);
+      }
+    } catch (error) {
+      // Without it the reply's feedback is only reported as unattributed
+      this.logger.error("❌ Error recording reply capabilities:", error);
+    }
+  }
+
+  async getFeedbackWithReplies(since: string, until: string): Promise<FeedbackWithReply[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("since", mssql.DateTime2, new Date(since))
+        .input("until", mssql.DateTime2, new Date(until)).query(`
+          SELECT f.id, f.reply_to_id, f.reaction, f.feedback, f.user_id, f.created_at,
+            COALESCE(r.conversation_id, c.conversation_id) AS conversation_id,
+            c.content AS reply_content, r.capability
+          FROM feedback f
+          LEFT JOIN conversations c ON c.activity_id = f.reply_to_id AND c.role = 'model'
+          LEFT JOIN reply_capabilities r ON r.activity_id = f.reply_to_id
+          WHERE f.created_at >= @since AND f.created_at < @until
+          ORDER BY f.created_at ASC
+        `);
+      return result.recordset.map((row: any) => ({
+        ...row,
+        created_at: toIsoString(row.created_at)!,
+      }));
+    } catch (error) {
+      this.logger.error("❌ Error getting feedback:", error);
+      return [];
+    }
+  }
+
+  // ===== USAGE =====
+
+  async recordUsage(entry: NewUsageRecord): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, entry.conversation_id)
+        .input("conversationName", mssql.NVarChar, entry.conversation_name)
+        .input("userId", mssql.NVarChar, entry.user_id)
+        .input("capability", mssql.NVarChar, entry.capability)
+        .input("provider", mssql.NVarChar, entry.provider)
+        .input("model", mssql.NVarChar, entry.model)
+        .input("promptTokens", mssql.Int, entry.prompt_tokens)
+        .input("completionTokens", mssql.Int, entry.completion_tokens)
+        .input("latencyMs", mssql.Int, entry.latency_ms)
+        .input("costUsd", mssql.Float, entry.cost_usd).query(`
+          INSERT INTO [usage] (conversation_id, conversation_name, user_id, capability, provider, model, prompt_tokens, completion_tokens, latency_ms, cost_usd)
+          VALUES (@conversationId, @conversationName, @userId, @capability, @provider, @model, @promptTokens, @completionTokens, @latencyMs, @costUsd)
+        `);
+    } catch (error) {
+      // A missed usage row only understates the report; the reply itself went through
+      this.logger.error("❌ Error recording usage:", error);
+    }
+  }
+
+  async getUsageTotals(since: string, until: string): Promise<UsageTotals[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("since", mssql.DateTime2, new Date(since))
+        .input("until", mssql.DateTime2, new Date(until)).query(`
+          SELECT capability, conversation_id, MAX(conversation_name) AS conversation_name,
+            COUNT(*) AS requests, SUM(prompt_tokens) AS prompt_tokens,
+            SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+          FROM [usage] WHERE created_at >= @since AND created_at < @until
+          GROUP BY capability, conversation_id
+          ORDER BY cost_usd DESC
+        `);
+      return result.recordset;
+    } catch (error) {
+      this.logger.error("❌ Error getting usage totals:", error);
+      return [];
+    }
+  }
+
+  // ===== RATE LIMITS =====
+
+  async takeRateLimitTokens(requests: RateLimitRequest[], now: string): Promise<RateLimitDecision> {
+    if (!this.pool) throw new Error("Database not connected");
+    if (requests.length === 0) return { allowed: true };
+
+    const transaction = new mssql.Transaction(this.pool);
+    try {
+      await transaction.begin();
+
+      // UPDLOCK + HOLDLOCK makes other instances wait on these buckets, including ones that
+      // don't have a row yet, until this transaction commits
+      const select = new mssql.Request(transaction);
+      requests.forEach((request, index) => select.input(`key${index}`, mssql.NVarChar, request.key));
+      const result = await select.query(
+        `SELECT * FROM rate_limit_buckets WITH (UPDLOCK, HOLDLOCK) WHERE bucket_key IN (${requests
+          .map((_, index) => `@key${index}`)
+          .join(", ")})`
+      );
+      const { decision, updated } = takeTokens(
+        requests,
+        new Map(
+          result.recordset.map((row: any): [string, RateLimitBucketRecord] => [
+            row.bucket_key,
+            { ...row, updated_at: toIsoString(row.updated_at)! },
+          ])
+        ),
+        now
+      );
+
+      for (const bucket of updated) {
+        await new mssql.Request(transaction)
+          .input("key", mssql.NVarChar, bucket.bucket_key)
+          .input("tokens", mssql.Float, bucket.tokens)
+          .input("updatedAt", mssql.DateTime2, new Date(bucket.updated_at)).query(`
+            MERGE rate_limit_buckets AS target
+            USING (SELECT @key AS bucket_key) AS source
+            ON target.bucket_key = source.bucket_key
+            WHEN MATCHED THEN UPDATE SET tokens = @tokens, updated_at = @updatedAt
+            WHEN NOT MATCHED THEN
+              INSERT (bucket_key, tokens, updated_at) VALUES (@key, @tokens, @updatedAt);
+          `);
+      }
+
+      await transaction.commit();
+      return decision;
+    } catch (error) {
+      this.logger.error("❌ Error taking rate limit tokens:", error);
+      await transaction.rollback();
+      // Better to let a request through than to lock everyone out while the database is down
+      return { allowed: true };
+    }
+  }
+
+  async getRateLimitOverrides(): Promise<RateLimitOverrideRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .query("SELECT * FROM rate_limit_overrides ORDER BY bucket_key ASC");
+      return result.recordset.map((row: any) => ({
+        ...row,
+        updated_at: toIsoString(row.updated_at)!,
+      }));
+    } catch (error) {
+      this.logger.error("❌ Error getting rate limit overrides:", error);
+      return [];
+    }
+  }
+
+  async setRateLimitOverride(key: string, rate: string | null, updatedBy: string): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool
+        .request()
+        .input("key", mssql.NVarChar, key)
+        .input("rate", mssql.NVarChar, rate)
+        .input("updatedBy", mssql.NVarChar, updatedBy);
+      await request.query(
+        rate === null
+          ? "DELETE FROM rate_limit_overrides WHERE bucket_key = @key"
+          : `MERGE rate_limit_overrides AS target
+             USING (SELECT @key AS bucket_key) AS source
+             ON target.bucket_key = source.bucket_key
+             WHEN MATCHED THEN UPDATE SET rate = @rate, updated_by = @updatedBy, updated_at = GETDATE()
+             WHEN NOT MATCHED THEN
+               INSERT (bucket_key, rate, updated_by) VALUES (@key, @rate, @updatedBy);`
+      );
+      await this.pool
+        .request()
+        .input("key", mssql.NVarChar, key)
+        .query("DELETE FROM rate_limit_buckets WHERE bucket_key = @key");
+    } catch (error) {
+      this.logger.error("❌ Error setting rate limit override:", error);
+      throw error;
+    }
+  }
+
+  // ===== RETENTION =====
+
+  async getRetentionPolicies(): Promise<RetentionPolicyRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool.request().query("SELECT * FROM retention_policies");
+      return result.recordset.map((row: any) => ({
+        ...row,
+        updated_at: toIsoString(row.updated_at)!,
+      }));
+    } catch (error) {
+      this.logger.error("❌ Error getting retention policies:", error);
+      throw error;
+    }
+  }
+
+  async setRetentionPolicy(
+    conversationId: string,
+    retentionDays: number | null,
+    updatedBy: string
+  ): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("retentionDays", mssql.Int, retentionDays)
+        .input("updatedBy", mssql.NVarChar, updatedBy).query(`
+          MERGE retention_policies AS target
+          USING (SELECT @conversationId AS conversation_id) AS source
+          ON target.conversation_id = source.conversation_id
+          WHEN MATCHED THEN UPDATE SET
+            retention_days = @retentionDays,
+            updated_by = @updatedBy,
+            updated_at = GETDATE()
+          WHEN NOT MATCHED THEN
+            INSERT (conversation_id, retention_days, updated_by)
+            VALUES (@conversationId, @retentionDays, @updatedBy);
+        `);
+    } catch (error) {
+      this.logger.error("❌ Error setting retention policy:", error);
+      throw error;
+    }
+  }
+
+  async deleteRetentionPolicy(conversationId: string): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .query("DELETE FROM retention_policies WHERE conversation_id = @conversationId");
+    } catch (error) {
+      this.logger.error("❌ Error deleting retention policy:", error);
+      throw error;
+    }
+  }
+
+  async getConversationsWithMessagesBefore(before: string): Promise<string[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const result = await this.pool
+        .request()
+        .input("before", mssql.NVarChar, before)
+        .query("SELECT DISTINCT conversation_id FROM conversations WHERE timestamp < @before");
+      return result.recordset.map((row: any) => row.conversation_id);
+    } catch (error) {
+      this.logger.error("❌ Error finding conversations to purge:", error);
+      return [];
+    }
+  }
+
+  async purgeMessagesBefore(conversationId: string, before: string): Promise<number> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    const transaction = new mssql.Transaction(this.pool);
+    try {
+      await transaction.begin();
+
+      const messages = await new mssql.Request(transaction)
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("before", mssql.NVarChar, before)
+        .query(
+          "DELETE FROM conversations WHERE conversation_id = @conversationId AND timestamp < @before"
+        );
+      await new mssql.Request(transaction)
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("before", mssql.NVarChar, before)
+        .query(
+          "DELETE FROM embeddings WHERE conversation_id = @conversationId AND source_type = 'message' AND timestamp < @before"
+        );
+      await new mssql.Request(transaction)
+        .input("conversationId", mssql.NVarChar, conversationId)
+        .input("before", mssql.NVarChar, before)
+        .query(
+          "DELETE FROM summary_cache WHERE conversation_id = @conversationId AND start_time < @before"
+        );
+
+      await transaction.commit();
+      return messages.rowsAffected[0] ?? 0;
+    } catch (error) {
+      this.logger.error("❌ Error purging messages:", error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  async recordPurge(entry: NewPurgeAuditEntry): Promise<void> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      await this.pool
+        .request()
+        .input("conversationId", mssql.NVarChar, entry.conversation_id)
+        .input("reason", mssql.NVarChar, entry.reason)
+        .input("cutoff", mssql.NVarChar, entry.cutoff)
+        .input("retentionDays", mssql.Int, entry.retention_days)
+        .input("messagesDeleted", mssql.Int, entry.messages_deleted)
+        .input("requestedBy", mssql.NVarChar, entry.requested_by).query(`
+          INSERT INTO purge_audit (conversation_id, reason, cutoff, retention_days, messages_deleted, requested_by)
+          VALUES (@conversationId, @reason, @cutoff, @retentionDays, @messagesDeleted, @requestedBy)
+        `);
+    } catch (error) {
+      // The audit log is the record compliance relies on, so a failed write must surface
+      this.logger.error("❌ Error recording purge:", error);
+      throw error;
+    }
+  }
+
+  async getPurgeAudit(conversationId?: string, limit = 20): Promise<PurgeAuditRecord[]> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const request = this.pool.request().input("limit", mssql.Int, limit);
+      if (conversationId) request.input("conversationId", mssql.NVarChar, conversationId);
+      const result = await request.query(
+        `SELECT TOP (@limit) * FROM purge_audit${
+          conversationId ? " WHERE conversation_id = @conversationId" : ""
+        } ORDER BY id DESC`
+      );
+      return result.recordset.map((row: any) => ({
+        ...row,
+        purged_at: toIsoString(row.purged_at)!,
+      }));
+    } catch (error) {
+      this.logger.error("❌ Error getting purge audit:", error);
+      return [];
+    }
+  }
+
+  // ===== USER DATA =====
+
+  async getUserData(user: string): Promise<UserDataExport> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    try {
+      const who = user.toLowerCase();
+      const query = (sql: string) =>
+        this.pool!.request().input("user", mssql.NVarChar, who).query(sql);
+      const [
+        messages,
+        feedback,
+        meetingNotes,
+        actionItems,
+        transcriptSegments,
+        emailDrafts,
+        usage,
+        rateLimitBuckets,
+        rateLimitOverrides,
+      ] = await Promise.all([
+        query(`SELECT blob FROM conversations WHERE ${USER_MESSAGES} ORDER BY timestamp ASC`),
+        query(
+          `SELECT id, reply_to_id, reaction, feedback, user_id, created_at
+           FROM feedback WHERE ${USER_FEEDBACK} ORDER BY created_at ASC`
+        ),
+        query("SELECT * FROM meeting_notes WHERE LOWER(created_by) = @user ORDER BY created_at ASC"),
+        query(`SELECT * FROM action_items WHERE ${USER_ACTION_ITEMS} ORDER BY created_at ASC`),
+        query(
+          `SELECT * FROM meeting_transcripts WHERE ${USER_TRANSCRIPT}
+           ORDER BY meeting_id ASC, transcript_id ASC, sequence_number ASC`
+        ),
+        query(`SELECT * FROM email_drafts WHERE ${USER_EMAIL_DRAFTS} ORDER BY id ASC`),
+        query(`SELECT * FROM [usage] WHERE ${USER_USAGE} ORDER BY created_at ASC`),
+        query(`SELECT * FROM rate_limit_buckets WHERE ${USER_RATE_LIMITS} ORDER BY bucket_key ASC`),
+        query(
+          `SELECT * FROM rate_limit_overrides WHERE ${USER_RATE_LIMITS} ORDER BY bucket_key ASC`
+        ),
+      ]);
+
+      return {
+        messages: messages.recordset.map((row: any) => JSON.parse(row.blob) as MessageRecord),
+        feedback: feedback.recordset.map(
+          (row: any): FeedbackRecord => ({ ...row, created_at: toIsoString(row.created_at)! })
+        ),
+        meeting_notes: meetingNotes.recordset.map(toMeetingNoteRecord),
+        action_items: actionItems.recordset.map(toActionItemRecord),
+        transcript_segments: transcriptSegments.recordset.map(
+          (row: any): TranscriptSegmentRecord => ({
+            ...row,
+            created_at: toIsoString(row.created_at)!,
+          })
+        ),
+        email_drafts: emailDrafts.recordset.map(toEmailDraftRecord),
+        usage: usage.recordset.map(
+          (row: any): UsageRecord => ({ ...row, created_at: toIsoString(row.created_at)! })
+        ),
+        rate_limit_buckets: rateLimitBuckets.recordset.map(
+          (row: any): RateLimitBucketRecord => ({
+            ...row,
+            updated_at: toIsoString(row.updated_at)!,
+          })
+        ),
+        rate_limit_overrides: rateLimitOverrides.recordset.map(
+          (row: any): RateLimitOverrideRecord => ({
+            ...row,
+            updated_at: toIsoString(row.updated_at)!,
+          })
+        ),
+      };
+    } catch (error) {
+      this.logger.error("❌ Error getting user data:", error);
+      throw error;
+    }
+  }
+
+  async eraseUserData(user: string, mode: ErasureMode): Promise<UserDataErasure> {
+    if (!this.pool) throw new Error("Database not connected");
+
+    const who = user.toLowerCase();
+    const transaction = new mssql.Transaction(this.pool);
+    const run = (sql: string) =>
+      new mssql.Request(transaction)
+        .input("user", mssql.NVarChar, who)
+        .input("redacted", mssql.NVarChar, REDACTED)
+        .query(sql)
+        .then((result) => result.rowsAffected[0] ?? 0);
+
+    try {
+      await transaction.begin();
+
+      // Feedback is matched through the IDs on the user's messages, so it goes first
+      const feedback = await run(`DELETE FROM feedback WHERE ${USER_FEEDBACK}`);
+      const meetingNotes = await run(
+        "UPDATE meeting_notes SET created_by = NULL WHERE LOWER(created_by) = @user"
+      );
+      const actionItems = await run(
+        `UPDATE action_items SET assignee_name = NULL, assignee_email = NULL, updated_at = GETDATE()
+         WHERE ${USER_ACTION_ITEMS}`
+      );
+      // Also matched through the IDs on the user's messages
+      const emailDrafts = await run(`DELETE FROM email_drafts WHERE ${USER_EMAIL_DRAFTS}`);
+      const usage = await run(`UPDATE [usage] SET user_id = NULL WHERE ${USER_USAGE}`);
+      const rateLimitBuckets = await run(`DELETE FROM rate_limit_buckets WHERE ${USER_RATE_LIMITS}`);
+      const rateLimitOverrides = await run(
+        `DELETE FROM rate_limit_overrides WHERE ${USER_RATE_LIMITS}`
+      );
+
+      await run(`DELETE FROM embeddings WHERE source_type = 'transcript' AND (${USER_TRANSCRIPT})`);
+      const transcriptSegments = await run(
+        mode === "delete"
+          ? `DELETE FROM meeting_transcripts WHERE ${USER_TRANSCRIPT}`
+          : `UPDATE meeting_transcripts SET speaker_name = @redacted, content = @redacted
+             WHERE ${USER_TRANSCRIPT}`
+      );
+
+      // Embeddings and cached summaries hold copies of the messages' text
+      await run(
+        `DELETE FROM embeddings WHERE source_type = 'message' AND source_id IN (
+           SELECT activity_id FROM conversations WHERE ${USER_MESSAGES})`
+      );
+      await run(
+        `DELETE FROM summary_cache WHERE conversation_id IN (
+           SELECT conversation_id FROM conversations WHERE ${USER_MESSAGES})`
+      );
+      const messages = await run(
+        mode === "delete"
+          ? `DELETE FROM conversations WHERE ${USER_MESSAGES}`
+          : `UPDATE conversations SET name = @redacted, content = @redacted,
+               blob = JSON_MODIFY(JSON_MODIFY(JSON_MODIFY(blob, '$.user_id', NULL),
+                 '$.name', @redacted), '$.content', @redacted)
+             WHERE ${USER_MESSAGES}`
+      );
+
+      await transaction.commit();
+      return {
+        messages,
+        feedback,
+        meeting_notes: meetingNotes,
+        action_items: actionItems,
+        transcript_segments: transcriptSegments,
+        email_drafts: emailDrafts,
+        usage,
+        rate_limit_buckets: rateLimitBuckets,
+        rate_limit_overrides: rateLimitOverrides,
+      };
+    } catch (error) {
+      this.logger.error("❌ Error erasing user data:", error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.close();
+      this.pool = null;
+      this.isInitialized = false;
+      this.logger.debug("🔌 Closed MSSQL database connection");
+    }
+  }
+}
+
+// Data export and erasure matches on the lowercased @user
+const USER_MESSAGES =
+  "role = 'user' AND (LOWER(name) = @user OR LOWER(JSON_VALUE(blob, '$.user_id')) = @user)";
+// Feedback only carries an ID, so a name is matched through the IDs on that user's messages
+const USER_FEEDBACK = `LOWER(user_id) = @user OR LOWER(user_id) IN (
+  SELECT LOWER(JSON_VALUE(blob, '$.user_id')) FROM conversations WHERE role = 'user' AND LOWER(name) = @user)`;
+const USER_ACTION_ITEMS = "LOWER(assignee_name) = @user OR LOWER(assignee_email) = @user";
+// Transcript segments only carry the speaker's display name, so an ID is matched through the
+// names on that user's messages
+const USER_TRANSCRIPT = `LOWER(speaker_name) = @user OR LOWER(speaker_name) IN (
+  SELECT LOWER(name) FROM conversations WHERE role = 'user' AND LOWER(JSON_VALUE(blob, '$.user_id')) = @user)`;
+// The ID given, or the IDs on the messages sent under the name given
+const USER_IDS = `SELECT @user AS id UNION
+  SELECT LOWER(JSON_VALUE(blob, '$.user_id')) FROM conversations WHERE role = 'user' AND LOWER(name) = @user`;
+const USER_EMAIL_DRAFTS = `LOWER(created_by) IN (${USER_IDS})`;
+const USER_USAGE = `LOWER(user_id) IN (${USER_IDS})`;
+// Bucket keys are "user:<id>", or "capability:<name>:user:<id>" for a capability's limit
+const USER_RATE_LIMITS = `EXISTS (SELECT 1 FROM (${USER_IDS}) AS ids
+  WHERE bucket_key = 'user:' + ids.id OR bucket_key LIKE 'capability:%:user:' + ids.id)`;
+// Name and text left on a redacted message
+const REDACTED = "[removed]";
+
+// DATETIME columns come back as Date objects; the ledger API uses ISO strings like SQLite
+function toIsoString(value: Date | string | null): string | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function toActionItemRecord(row: any): ActionItemRecord {
+  return {
+    ...row,
+    due_date: toIsoString(row.due_date),
+    created_at: toIsoString(row.created_at)!,
+    updated_at: toIsoString(row.updated_at)!,
+  };
+}
+
+function toMeetingRecord(row: any): MeetingRecord {
+  return {
+    ...row,
+    has_transcript: !!row.has_transcript,
+    start_time: toIsoString(row.start_time),
+    end_time: toIsoString(row.end_time),
+    created_at: toIsoString(row.created_at)!,
+    updated_at: toIsoString(row.updated_at)!,
+  };
+}
+
+function toMeetingNoteRecord(row: any): MeetingNoteRecord {
+  return { ...row, created_at: toIsoString(row.created_at)! };
+}
+
+function toDigestScheduleRecord(row: any): DigestScheduleRecord {
+  return {
+    ...row,
+    last_run_at: toIsoString(row.last_run_at),
+    next_run_at: toIsoString(row.next_run_at)!,
+    created_at: toIsoString(row.created_at)!,
+    updated_at: toIsoString(row.updated_at)!,
+  };
+}
+
+function toEmbeddingRecord(row: any): EmbeddingRecord {
+  return { ...row, vector: decodeVector(row.vector), created_at: toIsoString(row.created_at)! };
+}
+
+function toEmailDraftRecord(row: any): EmailDraftRecord {
+  return {
+    ...row,
+    is_html: !!row.is_html,
+    to_recipients: JSON.parse(row.to_recipients),
+    cc_recipients: JSON.parse(row.cc_recipients),
+    sent_at: toIsoString(row.sent_at),
+    created_at: toIsoString(row.created_at)!,
+    updated_at: toIsoString(row.updated_at)!,
+  };
 }
@@ -0,0 +1,306 @@
+/**
+ * Search query parser shared by the storage backends
+ *
+ * Accepts the query syntax users (and the search prompt) write:
+ * - budget review          → both words (implicit AND)
+ * - "budget review"        → exact phrase
+ * - budget OR forecast     → either word
+ * - budget NOT draft       → budget without draft (also: budget -draft)
+ * - (budget OR cost) AND q3 → grouping
+ * - launch*                → prefix match
+ *
+ * The parsed tree is rendered into each backend's dialect: SQLite FTS MATCH syntax,
+ * SQL Server CONTAINS syntax, or plain LIKE conditions as a fallback.
+ */
+
+export type QueryNode =
+  | { type: "term"; value: string; prefix: boolean }
+  | { type: "phrase"; value: string }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+type Token =
+  | { kind: "word"; value: string }
+  | { kind: "phrase"; value: string }
+  | { kind: "and" | "or" | "not" | "minus" | "lparen" | "rparen" };
+
+const TOKEN_PATTERN = /"([^"]*)"?|(\()|(\))|(-)(?=[^\s-])|([^\s()"]+)/g;
+
+/**
+ * Parse a search query, or return null if it contains nothing searchable
+ */
+export function parseSearchQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  function parseOr(): QueryNode | null {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      next();
+      children.push(parseAnd());
+    }
+    return combine("or", children);
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children = [parseUnary()];
+    while (position < tokens.length) {
+      const token = peek();
+      if (token.kind === "or" || token.kind === "rparen") break;
+      if (token.kind === "and") {
+        next();
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    return combine("and", children);
+  }
+
+  function parseUnary(): QueryNode | null {
+    const token = peek();
+    if (token?.kind === "not" || token?.kind === "minus") {
+      next();
+      const child = parseUnary();
+      return child ? { type: "not", child } : null;
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode | null {
+    const token = next();
+    if (!token) return null;
+
+    switch (token.kind) {
+      case "lparen": {
+        const node = parseOr();
+        if (peek()?.kind === "rparen") next();
+        return node;
+      }
+      case "phrase": {
+        const words = splitWords(token.value);
+        if (words.length === 0) return null;
+        return words.length === 1
+          ? { type: "term", value: words[0], prefix: false }
+          : { type: "phrase", value: words.join(" ") };
+      }
+      case "word": {
+        const prefix = token.value.endsWith("*");
+        const words = splitWords(token.value);
+        if (words.length === 0) return null;
+        // Hyphenated or dotted words ("q3-report") are searched as a phrase
+        return words.length === 1
+          ? { type: "term", value: words[0], prefix }
+          : { type: "phrase", value: words.join(" ") };
+      }
+      default:
+        // Stray operator or closing paren; skip it
+        return null;
+    }
+  }
+
+  const nodes: (QueryNode | null)[] = [];
+  while (position < tokens.length) {
+    nodes.push(parseOr());
+    // Unbalanced closing parens end parseOr early; skip them and keep going
+    if (peek()?.kind === "rparen") next();
+  }
+  return combine("and", nodes);
+}
+
+/**
+ * Build a query from a list of keywords, matching any of them
+ */
+export function keywordsToQuery(keywords: string[]): string {
+  return keywords
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .map((keyword) => (/\s/.test(keyword) ? `"${keyword.replace(/"/g, "")}"` : keyword))
+    .join(" OR ");
+}
+
+/**
+ * Render for SQLite FTS4/FTS5 MATCH. Returns null if the query has no positive terms,
+ * since FTS can't evaluate a query that only excludes words.
+ */
+export function toFtsMatchQuery(node: QueryNode): string | null {
+  return renderBoolean(node, {
+    term: (value, prefix) => (prefix ? `${value}*` : value),
+    phrase: (value) => `"${value}"`,
+    and: (parts) => parts.join(" AND "),
+    or: (parts) => parts.join(" OR "),
+    andNot: (positive, negative) => `${positive} NOT ${negative}`,
+  });
+}
+
+/**
+ * Render for SQL Server CONTAINS/CONTAINSTABLE, with inflectional (stemmed) term matching.
+ * Returns null if the query has no positive terms.
+ */
+export function toContainsQuery(node: QueryNode): string | null {
+  return renderBoolean(node, {
+    term: (value, prefix) => (prefix ? `"${value}*"` : `FORMSOF(INFLECTIONAL, "${value}")`),
+    phrase: (value) => `"${value}"`,
+    and: (parts) => parts.join(" AND "),
+    or: (parts) => parts.join(" OR "),
+    andNot: (positive, negative) => `${positive} AND NOT ${negative}`,
+  });
+}
+
+/**
+ * Render as LIKE conditions over a column. `param` registers a bound value and
+ * returns its placeholder (e.g. "?" or "@q0").
+ */
+export function toLikeCondition(
+  node: QueryNode,
+  column: string,
+  param: (value: string) => string
+): string {
+  switch (node.type) {
+    case "term":
+      return `LOWER(${column}) LIKE ${param(`%${node.value}%`)}`;
+    case "phrase":
+      return `LOWER(${column}) LIKE ${param(`%${node.value}%`)}`;
+    case "not":
+      return `NOT (${toLikeCondition(node.child, column, param)})`;
+    case "and":
+    case "or": {
+      const parts = node.children.map((child) => toLikeCondition(child, column, param));
+      return `(${parts.join(node.type === "and" ? " AND " : " OR ")})`;
+    }
+  }
+}
+
+/**
+ * Words and phrases the query looks for (excluded terms are left out), for highlighting
+ */
+export function getHighlightTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      return [node.value];
+    case "not":
+      return [];
+    case "and":
+    case "or":
+      return node.children.flatMap(getHighlightTerms);
+  }
+}
+
+/**
+ * Cut a window of text around the first match and bold every match, for backends
+ * without a native snippet function
+ */
+export function buildSnippet(content: string, terms: string[], maxLength = 160): string {
+  const pattern = highlightPattern(terms);
+  const firstMatch = pattern ? content.search(pattern) : -1;
+
+  let start = 0;
+  if (firstMatch > maxLength / 3) {
+    start = firstMatch - Math.floor(maxLength / 3);
+    // Don't start mid-word
+    const space = content.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  const end = Math.min(content.length, start + maxLength);
+
+  let snippet = content.slice(start, end);
+  if (pattern) snippet = snippet.replace(pattern, (match) => `**${match}**`);
+  return `${start > 0 ? "…" : ""}${snippet}${end < content.length ? "…" : ""}`;
+}
+
+/**
+ * Count how many distinct highlight terms appear in the content, as a simple relevance score
+ */
+export function countMatchedTerms(content: string, terms: string[]): number {
+  const lower = content.toLowerCase();
+  return [...new Set(terms)].filter((term) => lower.includes(term)).length;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, phrase, lparen, rparen, minus, word] = match;
+    if (phrase !== undefined) tokens.push({ kind: "phrase", value: phrase });
+    else if (lparen) tokens.push({ kind: "lparen" });
+    else if (rparen) tokens.push({ kind: "rparen" });
+    else if (minus) tokens.push({ kind: "minus" });
+    // Operators are only recognized in upper case, so "not" and "or" stay searchable words
+    else if (word === "AND") tokens.push({ kind: "and" });
+    else if (word === "OR") tokens.push({ kind: "or" });
+    else if (word === "NOT") tokens.push({ kind: "not" });
+    else if (word) tokens.push({ kind: "word", value: word });
+  }
+  return tokens;
+}
+
+function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean);
+}
+
+function combine(type: "and" | "or", nodes: (QueryNode | null)[]): QueryNode | null {
+  const children = nodes.filter((node): node is QueryNode => node !== null);
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+interface BooleanDialect {
+  term(value: string, prefix: boolean): string;
+  phrase(value: string): string;
+  and(parts: string[]): string;
+  or(parts: string[]): string;
+  andNot(positive: string, negative: string): string;
+}
+
+// FTS and CONTAINS only support NOT as "x AND NOT y", so exclusions attach to the
+// positive terms of their AND group; an exclusion with nothing to attach to is dropped
+function renderBoolean(node: QueryNode, dialect: BooleanDialect): string | null {
+  switch (node.type) {
+    case "term":
+      return dialect.term(node.value, node.prefix);
+    case "phrase":
+      return dialect.phrase(node.value);
+    case "not":
+      return null;
+    case "or": {
+      const parts = node.children
+        .map((child) => renderBoolean(child, dialect))
+        .filter((part): part is string => part !== null);
+      if (parts.length === 0) return null;
+      return parts.length === 1 ? parts[0] : `(${dialect.or(parts)})`;
+    }
+    case "and": {
+      const positives = node.children
+        .filter((child) => child.type !== "not")
+        .map((child) => renderBoolean(child, dialect))
+        .filter((part): part is string => part !== null);
+      if (positives.length === 0) return null;
+
+      let rendered = positives.length === 1 ? positives[0] : `(${dialect.and(positives)})`;
+      for (const child of node.children) {
+        if (child.type !== "not") continue;
+        const negative = renderBoolean(stripNot(child), dialect);
+        if (negative) rendered = `(${dialect.andNot(rendered, negative)})`;
+      }
+      return rendered;
+    }
+  }
+}
+
+function stripNot(node: QueryNode): QueryNode {
+  return node.type === "not" ? node.child : node;
+}
+
+function highlightPattern(terms: string[]): RegExp | null {
+  const escaped = [...new Set(terms)]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return escaped.length > 0 ? new RegExp(escaped.join("|"), "gi") : null;
+}
@@ -3,7 +3,56 @@ import initSqlJs, { Database as SqlJsDatabase } from "sql.js";
 import fs from "node:fs";
 import path from "node:path";
 import { IDatabase } from "./database";
-import { MessageRecord } from "./types";
+import { keywordsToQuery, parseSearchQuery, toFtsMatchQuery } from "./searchQuery";
+import { takeTokens } from "./tokenBucket";
+import {
+  ActionItemFilter,
+  ActionItemRecord,
+  ActionItemStatus,
+  DigestScheduleRecord,
+  DigestScheduleUpdate,
+  EmailDraftRecord,
+  EmailDraftStatus,
+  EmailDraftUpdate,
+  EmbeddingRecord,
+  EmbeddingSourceType,
+  ErasureMode,
+  FeedbackRecord,
+  FeedbackWithReply,
+  MeetingFilter,
+  MeetingNoteRecord,
+  MeetingNoteType,
+  MeetingRecord,
+  MessageRecord,
+  MessageSearchHit,
+  MessageSearchOptions,
+  NewActionItem,
+  NewDigestSchedule,
+  NewEmailDraft,
+  NewEmbedding,
+  NewMeeting,
+  NewMeetingNote,
+  NewPurgeAuditEntry,
+  NewSummaryCacheEntry,
+  NewTranscriptSegment,
+  NewUsageRecord,
+  PurgeAuditRecord,
+  RateLimitBucketRecord,
+  RateLimitDecision,
+  RateLimitOverrideRecord,
+  RateLimitRequest,
+  RetentionPolicyRecord,
+  SummaryCacheRecord,
+  SummaryKind,
+  TranscriptSegmentRecord,
+  UsageRecord,
+  UsageTotals,
+  UserDataErasure,
+  UserDataExport,
+  VectorSearchHit,
+  VectorSearchOptions,
+} from "./types";
+import { decodeVector, encodeVector, rankByVector } from "./vectors";
 
 export class SqlJsKVStore implements IDatabase {
   private db: SqlJsDatabase | null = null;
@@ -57,18 +106,269 @@ export class SqlJsKVStore implements IDatabase {
     this.db.run(`
       CREATE INDEX IF NOT EXISTS idx_conversation_id ON conversations(conversation_id);
     `);
+    this.initializeSearchIndex();
     this.db.run(`
     CREATE TABLE IF NOT EXISTS feedback (
     reply_to_id  TEXT    NOT NULL,
     reaction     TEXT    NOT NULL CHECK (reaction IN ('like','dislike')),
     feedback     TEXT,
+    user_id      TEXT,
     created_at   TEXT    NOT NULL DEFAULT (CURRENT_TIMESTAMP)
   );
     `);
+    // Databases created before feedback was kept per user lack the column
+    const feedbackColumns = this.selectAll<{ name: string }>("PRAGMA table_info(feedback)");
+    if (!feedbackColumns.some((column) => column.name === "user_id")) {
+      this.db.run("ALTER TABLE feedback ADD COLUMN user_id TEXT");
+    }
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS action_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT,
+        conversation_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        assignee_email TEXT,
+        assignee_name TEXT,
+        due_date TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        planner_task_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_action_items_conversation_id ON action_items(conversation_id);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS meetings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT NOT NULL UNIQUE,
+        conversation_id TEXT,
+        subject TEXT,
+        organizer_email TEXT,
+        organizer_name TEXT,
+        start_time TEXT,
+        end_time TEXT,
+        join_url TEXT,
+        has_transcript INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_meetings_conversation_id ON meetings(conversation_id);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS meeting_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT NOT NULL,
+        note_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_by TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_meeting_notes_meeting_id ON meeting_notes(meeting_id);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS meeting_transcripts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT NOT NULL,
+        transcript_id TEXT NOT NULL,
+        speaker_name TEXT,
+        content TEXT NOT NULL,
+        timestamp_start TEXT,
+        timestamp_end TEXT,
+        sequence_number INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_transcript_meeting_id ON meeting_transcripts(meeting_id);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS digest_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        cadence TEXT NOT NULL CHECK (cadence IN ('daily','weekdays','weekly')),
+        time_of_day TEXT NOT NULL,
+        day_of_week INTEGER,
+        timezone TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','paused')),
+        created_by TEXT,
+        last_run_at TEXT,
+        next_run_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_digest_schedules_next_run ON digest_schedules(status, next_run_at);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_type TEXT NOT NULL CHECK (source_type IN ('message','transcript')),
+        source_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        meeting_id TEXT,
+        speaker_name TEXT,
+        content TEXT NOT NULL,
+        timestamp TEXT,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (conversation_id, source_type, source_id, model)
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_embeddings_conversation_model ON embeddings(conversation_id, model);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS summary_cache (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('summary','action_items')),
+        range_key TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (conversation_id, kind, range_key)
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS email_drafts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        is_html INTEGER NOT NULL DEFAULT 0,
+        to_recipients TEXT NOT NULL,
+        cc_recipients TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','sending','sent','cancelled')),
+        sent_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS reply_capabilities (
+        activity_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        capability TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (activity_id, capability)
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        conversation_name TEXT,
+        user_id TEXT,
+        capability TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_usage_created_at ON usage(created_at);
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        bucket_key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS rate_limit_overrides (
+        bucket_key TEXT PRIMARY KEY,
+        rate TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS retention_policies (
+        conversation_id TEXT PRIMARY KEY,
+        retention_days INTEGER,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS purge_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        reason TEXT NOT NULL CHECK (reason IN ('retention','cleared')),
+        cutoff TEXT,
+        retention_days INTEGER,
+        messages_deleted INTEGER NOT NULL,
+        requested_by TEXT,
+        purged_at TEXT NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_conversations_timestamp ON conversations(timestamp);
+    `);
     
     this.saveToFile();
   }
 
+  /**
+   * Full-text index over message content, kept in sync with the conversations table by triggers.
+   * The stock sql.js build ships FTS4 but not FTS5, so ranking is done by fts4_bm25 over matchinfo.
+   */
+  private initializeSearchIndex(): void {
+    if (!this.db) throw new Error("Database not initialized");
+    const exists =
+      this.selectAll("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'conversations_fts'")
+        .length > 0;
+
+    this.db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts4(
+        content="conversations", content, tokenize=porter
+      )
+    `);
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_insert AFTER INSERT ON conversations BEGIN
+        INSERT INTO conversations_fts(docid, content) VALUES (new.rowid, new.content);
+      END
+    `);
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_delete BEFORE DELETE ON conversations BEGIN
+        DELETE FROM conversations_fts WHERE docid = old.rowid;
+      END
+    `);
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_update_before BEFORE UPDATE ON conversations BEGIN
+        DELETE FROM conversations_fts WHERE docid = old.rowid;
+      END
+    `);
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_update_after AFTER UPDATE ON conversations BEGIN
+        INSERT INTO conversations_fts(docid, content) VALUES (new.rowid, new.content);
+      END
+    `);
+
+    // Index messages stored before the index existed
+    if (!exists) {
+      this.db.run("INSERT INTO conversations_fts(conversations_fts) VALUES ('rebuild')");
+      this.logger.debug("🔎 Built full-text index for existing messages");
+    }
+  }
+
   private saveToFile(): void {
     if (!this.db) return;
     try {
@@ -87,6 +387,8 @@ export class SqlJsKVStore implements IDatabase {
   clearAll(): void {
     if (!this.db) throw new Error("Database not initialized");
     this.db.run("DELETE FROM conversations");
+    this.db.run("DELETE FROM embeddings WHERE source_type = 'message'");
+    this.db.run("DELETE FROM summary_cache");
     this.saveToFile();
     this.logger.debug("🧹 Cleared all conversations from SQLite store.");
   }
@@ -135,6 +437,10 @@ export class SqlJsKVStore implements IDatabase {
   clearConversation(conversationId: string): void {
     if (!this.db) throw new Error("Database not initialized");
     this.db.run("DELETE FROM conversations WHERE conversation_id = ?", [conversationId]);
+    this.db.run("DELETE FROM embeddings WHERE conversation_id = ? AND source_type = 'message'", [
+      conversationId,
+    ]);
+    this.db.run("DELETE FROM summary_cache WHERE conversation_id = ?", [conversationId]);
     this.saveToFile();
   }
 
@@ -177,6 +483,8 @@ export class SqlJsKVStore implements IDatabase {
     if (!this.db) throw new Error("Database not initialized");
     try {
       this.db.run("DELETE FROM conversations");
+      this.db.run("DELETE FROM embeddings WHERE source_type = 'message'");
+      this.db.run("DELETE FROM summary_cache");
       this.saveToFile();
       this.logger.debug(`🧹 Cleared all conversations from database.`);
     } catch (error) {
@@ -192,62 +500,78 @@ export class SqlJsKVStore implements IDatabase {
     participants?: string[],
     maxResults?: number
   ): MessageRecord[] {
-    if (!this.db) throw new Error("Database not initialized");
-    
-    const keywordClauses = keywords.map(() => `content LIKE ?`).join(" OR ");
-    const participantClauses = participants?.map(() => `name LIKE ?`).join(" OR ");
-
-    const whereClauses = [
-      `conversation_id = ?`,
-      `timestamp >= ?`,
-      `timestamp <= ?`,
-      `(${keywordClauses})`,
-    ];
-
-    const values: (string | number)[] = [
-      conversationId,
+    return this.searchMessages(conversationId, keywordsToQuery(keywords), {
       startTime,
       endTime,
-      ...keywords.map((k) => `%${k.toLowerCase()}%`),
-    ];
+      participants,
+      maxResults,
+    }).map((hit) => hit.message);
+  }
+
+  searchMessages(
+    conversationId: string,
+    query: string,
+    options: MessageSearchOptions
+  ): MessageSearchHit[] {
+    if (!this.db) throw new Error("Database not initialized");
 
-    if (participants && participants.length > 0) {
-      whereClauses.push(`(${participantClauses})`);
-      values.push(...participants.map((p) => `%${p.toLowerCase()}%`));
+    const parsed = parseSearchQuery(query);
+    const match = parsed ? toFtsMatchQuery(parsed) : null;
+    if (!match) {
+      this.logger.debug(`🔎 Nothing searchable in query "${query}"`);
+      return [];
     }
 
-    const limit = maxResults && typeof maxResults === "number" ? maxResults : 5;
-    values.push(limit);
+    const whereClauses = [
+      `conversations_fts MATCH ?`,
+      `c.conversation_id = ?`,
+      `c.timestamp >= ?`,
+      `c.timestamp <= ?`,
+    ];
+    const values: (string | number)[] = [match, conversationId, options.startTime, options.endTime];
 
-    const query = `
-  SELECT blob FROM conversations
-  WHERE ${whereClauses.join(" AND ")}
-  ORDER BY timestamp DESC
-  LIMIT ?
-`;
+    if (options.participants && options.participants.length > 0) {
+      whereClauses.push(`(${options.participants.map(() => `c.name LIKE ?`).join(" OR ")})`);
+      values.push(...options.participants.map((p) => `%${p.toLowerCase()}%`));
+    }
+    values.push(options.maxResults ?? 5);
 
-    const stmt = this.db.prepare(query);
-    stmt.bind(values);
-    
-    const results: MessageRecord[] = [];
-    while (stmt.step()) {
-      const row = stmt.getAsObject() as { blob: string };
-      results.push(JSON.parse(row.blob) as MessageRecord);
+    try {
+      // sql.js drops custom functions whenever export() reopens the database, so register per query
+      this.db.create_function("fts4_bm25", fts4Bm25);
+      const rows = this.selectAll<{ blob: string; snippet: string; rank: number }>(
+        `SELECT c.blob AS blob,
+                snippet(conversations_fts, '**', '**', '…', -1, 16) AS snippet,
+                fts4_bm25(matchinfo(conversations_fts, 'pcnalx')) AS rank
+         FROM conversations_fts
+         JOIN conversations c ON c.rowid = conversations_fts.docid
+         WHERE ${whereClauses.join(" AND ")}
+         ORDER BY rank DESC, c.timestamp DESC
+         LIMIT ?`,
+        values
+      );
+      return rows.map((row) => ({
+        message: JSON.parse(row.blob) as MessageRecord,
+        rank: row.rank,
+        snippet: row.snippet,
+      }));
+    } catch (error) {
+      this.logger.error(`❌ Full-text search failed for "${match}":`, error);
+      return [];
     }
-    stmt.free();
-    return results;
   }
 
   recordFeedback(
     replyToId: string,
     reaction: "like" | "dislike" | string,
-    feedbackJson?: unknown
+    feedbackJson?: unknown,
+    userId?: string
   ): boolean {
     if (!this.db) throw new Error("Database not initialized");
     try {
       this.db.run(
-        `INSERT INTO feedback (reply_to_id, reaction, feedback) VALUES (?, ?, ?)`,
-        [replyToId, reaction, feedbackJson ? JSON.stringify(feedbackJson) : null]
+        `INSERT INTO feedback (reply_to_id, reaction, feedback, user_id) VALUES (?, ?, ?, ?)`,
+        [replyToId, reaction, feedbackJson ? JSON.stringify(feedbackJson) : null, userId ?? null]
       );
       this.saveToFile();
       return true;
@@ -257,6 +581,892 @@ export class SqlJsKVStore implements IDatabase {
     }
   }
 
+  // ===== ACTION ITEM LEDGER =====
+
+  addActionItems(items: NewActionItem[]): ActionItemRecord[] {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+    const ids: number[] = [];
+
+    for (const item of items) {
+      this.db.run(
+        `INSERT INTO action_items (meeting_id, conversation_id, title, description, assignee_email, assignee_name, due_date, status, planner_task_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)`,
+        [
+          item.meeting_id ?? null,
+          item.conversation_id,
+          item.title,
+          item.description ?? null,
+          item.assignee_email ?? null,
+          item.assignee_name ?? null,
+          item.due_date ?? null,
+          item.planner_task_id ?? null,
+          now,
+          now,
+        ]
+      );
+      ids.push(this.selectAll<{ id: number }>("SELECT last_insert_rowid() AS id")[0].id);
+    }
+    this.saveToFile();
+
+    return ids
+      .map((id) => this.getActionItem(id))
+      .filter((item): item is ActionItemRecord => item !== null);
+  }
+
+  getActionItem(id: number): ActionItemRecord | null {
+    const rows = this.selectAll<ActionItemRecord>("SELECT * FROM action_items WHERE id = ?", [id]);
+    return rows[0] ?? null;
+  }
+
+  getOpenActionItems(filter: ActionItemFilter): ActionItemRecord[] {
+    const whereClauses = [`status != 'done'`];
+    const values: string[] = [];
+
+    if (filter.conversationId) {
+      whereClauses.push(`conversation_id = ?`);
+      values.push(filter.conversationId);
+    }
+    if (filter.assignee) {
+      whereClauses.push(`(LOWER(assignee_name) LIKE ? OR LOWER(assignee_email) = ?)`);
+      values.push(`%${filter.assignee.toLowerCase()}%`, filter.assignee.toLowerCase());
+    }
+    if (filter.assigneeIds) {
+      whereClauses.push(
+        `LOWER(assignee_email) IN (${filter.assigneeIds.map(() => "?").join(", ") || "NULL"})`
+      );
+      values.push(...filter.assigneeIds.map((id) => id.toLowerCase()));
+    }
+    if (filter.assigneeExactName) {
+      whereClauses.push(`LOWER(assignee_name) = ?`);
+      values.push(filter.assigneeExactName.toLowerCase());
+    }
+
+    return this.selectAll<ActionItemRecord>(
+      `SELECT * FROM action_items WHERE ${whereClauses.join(" AND ")} ORDER BY created_at ASC`,
+      values
+    );
+  }
+
+  getFiledActionItems(conversationId: string): ActionItemRecord[] {
+    return this.selectAll<ActionItemRecord>(
+      `SELECT * FROM action_items
+       WHERE conversation_id = ? AND planner_task_id IS NOT NULL
+       ORDER BY created_at ASC`,
+      [conversationId]
+    );
+  }
+
+  setActionItemStatus(id: number, status: ActionItemStatus): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run("UPDATE action_items SET status = ?, updated_at = ? WHERE id = ?", [
+      status,
+      new Date().toISOString(),
+      id,
+    ]);
+    const changed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return changed;
+  }
+
+  reassignActionItem(id: number, assigneeName: string, assigneeEmail?: string): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      "UPDATE action_items SET assignee_name = ?, assignee_email = ?, updated_at = ? WHERE id = ?",
+      [assigneeName, assigneeEmail ?? null, new Date().toISOString(), id]
+    );
+    const changed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return changed;
+  }
+
+  setActionItemPlannerTask(id: number, plannerTaskId: string): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run("UPDATE action_items SET planner_task_id = ?, updated_at = ? WHERE id = ?", [
+      plannerTaskId,
+      new Date().toISOString(),
+      id,
+    ]);
+    const changed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return changed;
+  }
+
+  // ===== MEETINGS =====
+
+  upsertMeeting(meeting: NewMeeting): MeetingRecord {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+
+    // Only overwrite the fields the caller provided
+    this.db.run(
+      `INSERT INTO meetings (meeting_id, conversation_id, subject, organizer_email, organizer_name, start_time, end_time, join_url, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(meeting_id) DO UPDATE SET
+         conversation_id = COALESCE(excluded.conversation_id, meetings.conversation_id),
+         subject = COALESCE(excluded.subject, meetings.subject),
+         organizer_email = COALESCE(excluded.organizer_email, meetings.organizer_email),
+         organizer_name = COALESCE(excluded.organizer_name, meetings.organizer_name),
+         start_time = COALESCE(excluded.start_time, meetings.start_time),
+         end_time = COALESCE(excluded.end_time, meetings.end_time),
+         join_url = COALESCE(excluded.join_url, meetings.join_url),
+         updated_at = excluded.updated_at`,
+      [
+        meeting.meeting_id,
+        meeting.conversation_id ?? null,
+        meeting.subject ?? null,
+        meeting.organizer_email ?? null,
+        meeting.organizer_name ?? null,
+        meeting.start_time ?? null,
+        meeting.end_time ?? null,
+        meeting.join_url ?? null,
+        now,
+        now,
+      ]
+    );
+    this.saveToFile();
+    return this.getMeeting(meeting.meeting_id)!;
+  }
+
+  getMeeting(meetingId: string): MeetingRecord | null {
+    const rows = this.selectAll<any>("SELECT * FROM meetings WHERE meeting_id = ?", [meetingId]);
+    return rows.length > 0 ? toMeetingRecord(rows[0]) : null;
+  }
+
+  findMeetings(filter: MeetingFilter): MeetingRecord[] {
+    const whereClauses: string[] = [];
+    const values: (string | number)[] = [];
+
+    if (filter.conversationId) {
+      whereClauses.push(`conversation_id = ?`);
+      values.push(filter.conversationId);
+    }
+    if (filter.subject) {
+      whereClauses.push(`LOWER(subject) LIKE ?`);
+      values.push(`%${filter.subject.toLowerCase()}%`);
+    }
+    values.push(filter.limit ?? 10);
+
+    const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+    return this.selectAll<any>(
+      `SELECT * FROM meetings ${where} ORDER BY COALESCE(start_time, created_at) DESC LIMIT ?`,
+      values
+    ).map(toMeetingRecord);
+  }
+
+  addMeetingNote(note: NewMeetingNote): MeetingNoteRecord {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      `INSERT INTO meeting_notes (meeting_id, note_type, content, created_by, created_at) VALUES (?, ?, ?, ?, ?)`,
+      [note.meeting_id, note.note_type, note.content, note.created_by ?? null, new Date().toISOString()]
+    );
+    const id = this.selectAll<{ id: number }>("SELECT last_insert_rowid() AS id")[0].id;
+    this.saveToFile();
+    return this.selectAll<MeetingNoteRecord>("SELECT * FROM meeting_notes WHERE id = ?", [id])[0];
+  }
+
+  getMeetingNotes(meetingId: string, noteType?: MeetingNoteType): MeetingNoteRecord[] {
+    return noteType
+      ? this.selectAll<MeetingNoteRecord>(
+          "SELECT * FROM meeting_notes WHERE meeting_id = ? AND note_type = ? ORDER BY created_at ASC",
+          [meetingId, noteType]
+        )
+      : this.selectAll<MeetingNoteRecord>(
+          "SELECT * FROM meeting_notes WHERE meeting_id = ? ORDER BY created_at ASC",
+          [meetingId]
+        );
+  }
+
+  saveTranscript(meetingId: string, transcriptId: string, segments: NewTranscriptSegment[]): void {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+
+    this.db.run("BEGIN TRANSACTION");
+    try {
+      this.db.run("DELETE FROM meeting_transcripts WHERE meeting_id = ? AND transcript_id = ?", [
+        meetingId,
+        transcriptId,
+      ]);
+      this.db.run("DELETE FROM embeddings WHERE source_type = 'transcript' AND meeting_id = ?", [
+        meetingId,
+      ]);
+      segments.forEach((segment, index) => {
+        this.db!.run(
+          `INSERT INTO meeting_transcripts (meeting_id, transcript_id, speaker_name, content, timestamp_start, timestamp_end, sequence_number, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            meetingId,
+            transcriptId,
+            segment.speaker_name ?? null,
+            segment.content,
+            segment.timestamp_start ?? null,
+            segment.timestamp_end ?? null,
+            index,
+            now,
+          ]
+        );
+      });
+      this.db.run("UPDATE meetings SET has_transcript = 1, updated_at = ? WHERE meeting_id = ?", [
+        now,
+        meetingId,
+      ]);
+      this.db.run("COMMIT");
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+    this.saveToFile();
+  }
+
+  appendTranscriptSegments(
+    meetingId: string,
+    transcriptId: string,
+    segments: NewTranscriptSegment[]
+  ): void {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+
+    this.db.run("BEGIN TRANSACTION");
+    try {
+      const next = this.selectAll<{ next: number }>(
+        `SELECT COALESCE(MAX(sequence_number) + 1, 0) AS next FROM meeting_transcripts
+         WHERE meeting_id = ? AND transcript_id = ?`,
+        [meetingId, transcriptId]
+      )[0].next;
+      segments.forEach((segment, index) => {
+        this.db!.run(
+          `INSERT INTO meeting_transcripts (meeting_id, transcript_id, speaker_name, content, timestamp_start, timestamp_end, sequence_number, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            meetingId,
+            transcriptId,
+            segment.speaker_name ?? null,
+            segment.content,
+            segment.timestamp_start ?? null,
+            segment.timestamp_end ?? null,
+            next + index,
+            now,
+          ]
+        );
+      });
+      this.db.run("UPDATE meetings SET has_transcript = 1, updated_at = ? WHERE meeting_id = ?", [
+        now,
+        meetingId,
+      ]);
+      this.db.run("COMMIT");
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+    this.saveToFile();
+  }
+
+  getTranscript(meetingId: string): TranscriptSegmentRecord[] {
+    return this.selectAll<TranscriptSegmentRecord>(
+      "SELECT * FROM meeting_transcripts WHERE meeting_id = ? ORDER BY transcript_id ASC, sequence_number ASC",
+      [meetingId]
+    );
+  }
+
+  // ===== DIGEST SCHEDULES =====
+
+  addDigestSchedule(schedule: NewDigestSchedule): DigestScheduleRecord {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+    this.db.run(
+      `INSERT INTO digest_schedules (conversation_id, cadence, time_of_day, day_of_week, timezone, status, created_by, next_run_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 'active', ?, ?, ?, ?)`,
+      [
+        schedule.conversation_id,
+        schedule.cadence,
+        schedule.time_of_day,
+        schedule.day_of_week ?? null,
+        schedule.timezone,
+        schedule.created_by ?? null,
+        schedule.next_run_at,
+        now,
+        now,
+      ]
+    );
+    const id = this.selectAll<{ id: number }>("SELECT last_insert_rowid() AS id")[0].id;
+    this.saveToFile();
+    return this.getDigestSchedule(id)!;
+  }
+
+  getDigestSchedule(id: number): DigestScheduleRecord | null {
+    const rows = this.selectAll<DigestScheduleRecord>(
+      "SELECT * FROM digest_schedules WHERE id = ?",
+      [id]
+    );
+    return rows[0] ?? null;
+  }
+
+  getDigestSchedules(conversationId: string): DigestScheduleRecord[] {
+    return this.selectAll<DigestScheduleRecord>(
+      "SELECT * FROM digest_schedules WHERE conversation_id = ? ORDER BY id ASC",
+      [conversationId]
+    );
+  }
+
+  getDueDigestSchedules(now: string): DigestScheduleRecord[] {
+    return this.selectAll<DigestScheduleRecord>(
+      "SELECT * FROM digest_schedules WHERE status = 'active' AND next_run_at <= ? ORDER BY next_run_at ASC",
+      [now]
+    );
+  }
+
+  updateDigestSchedule(id: number, changes: DigestScheduleUpdate): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    const columns = (["status", "last_run_at", "next_run_at"] as const).filter(
+      (column) => changes[column] !== undefined
+    );
+    if (columns.length === 0) return false;
+
+    this.db.run(
+      `UPDATE digest_schedules SET ${columns.map((column) => `${column} = ?`).join(", ")}, updated_at = ? WHERE id = ?`,
+      [...columns.map((column) => changes[column]!), new Date().toISOString(), id]
+    );
+    const changed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return changed;
+  }
+
+  claimDigestSchedule(id: number, due: string, next: string): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      "UPDATE digest_schedules SET next_run_at = ?, updated_at = ? WHERE id = ? AND next_run_at = ?",
+      [next, new Date().toISOString(), id, due]
+    );
+    const claimed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return claimed;
+  }
+
+  deleteDigestSchedule(id: number): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run("DELETE FROM digest_schedules WHERE id = ?", [id]);
+    const changed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return changed;
+  }
+
+  // ===== EMBEDDINGS =====
+
+  upsertEmbeddings(embeddings: NewEmbedding[]): void {
+    if (!this.db) throw new Error("Database not initialized");
+    if (embeddings.length === 0) return;
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(
+      `INSERT INTO embeddings (source_type, source_id, conversation_id, meeting_id, speaker_name, content, timestamp, model, vector, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (conversation_id, source_type, source_id, model) DO UPDATE SET
+         meeting_id = excluded.meeting_id,
+         speaker_name = excluded.speaker_name,
+         content = excluded.content,
+         timestamp = excluded.timestamp,
+         vector = excluded.vector`
+    );
+
+    for (const embedding of embeddings) {
+      stmt.run([
+        embedding.source_type,
+        embedding.source_id,
+        embedding.conversation_id,
+        embedding.meeting_id ?? null,
+        embedding.speaker_name ?? null,
+        embedding.content,
+        embedding.timestamp ?? null,
+        embedding.model,
+        encodeVector(embedding.vector),
+        now,
+      ]);
+    }
+    stmt.free();
+    this.saveToFile();
+  }
+
+  getEmbeddedSourceIds(
+    conversationId: string,
+    sourceType: EmbeddingSourceType,
+    model: string
+  ): string[] {
+    return this.selectAll<{ source_id: string }>(
+      "SELECT source_id FROM embeddings WHERE conversation_id = ? AND source_type = ? AND model = ?",
+      [conversationId, sourceType, model]
+    ).map((row) => row.source_id);
+  }
+
+  searchEmbeddings(
+    conversationId: string,
+    vector: number[],
+    options: VectorSearchOptions
+  ): VectorSearchHit[] {
+    const conditions = ["conversation_id = ?", "model = ?"];
+    const params: (string | number | null)[] = [conversationId, options.model];
+
+    if (options.sourceTypes && options.sourceTypes.length > 0) {
+      conditions.push(`source_type IN (${options.sourceTypes.map(() => "?").join(", ")})`);
+      params.push(...options.sourceTypes);
+    }
+    if (options.startTime && options.endTime) {
+      conditions.push("(source_type <> 'message' OR timestamp BETWEEN ? AND ?)");
+      params.push(options.startTime, options.endTime);
+    }
+
+    const records = this.selectAll<any>(
+      `SELECT * FROM embeddings WHERE ${conditions.join(" AND ")}`,
+      params
+    ).map(toEmbeddingRecord);
+    return rankByVector(vector, records, options.limit ?? 10);
+  }
+
+  // ===== SUMMARY CACHE =====
+
+  getCachedSummary(
+    conversationId: string,
+    kind: SummaryKind,
+    rangeKey: string
+  ): SummaryCacheRecord | null {
+    const rows = this.selectAll<SummaryCacheRecord>(
+      "SELECT * FROM summary_cache WHERE conversation_id = ? AND kind = ? AND range_key = ?",
+      [conversationId, kind, rangeKey]
+    );
+    return rows[0] ?? null;
+  }
+
+  saveCachedSummary(entry: NewSummaryCacheEntry): void {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      `INSERT INTO summary_cache (conversation_id, kind, range_key, start_time, end_time, message_count, summary, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (conversation_id, kind, range_key) DO UPDATE SET
+         summary = excluded.summary,
+         created_at = excluded.created_at`,
+      [
+        entry.conversation_id,
+        entry.kind,
+        entry.range_key,
+        entry.start_time,
+        entry.end_time,
+        entry.message_count,
+        entry.summary,
+        new Date().toISOString(),
+      ]
+    );
+    this.saveToFile();
+  }
+
+  // ===== EMAIL DRAFTS =====
+
+  createEmailDraft(draft: NewEmailDraft): EmailDraftRecord {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+    this.db.run(
+      `INSERT INTO email_drafts (conversation_id, created_by, subject, body, is_html, to_recipients, cc_recipients, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
+      [
+        draft.conversation_id,
+        draft.created_by,
+        draft.subject,
+        draft.body,
+        draft.is_html ? 1 : 0,
+        JSON.stringify(draft.to_recipients),
+        JSON.stringify(draft.cc_recipients ?? []),
+        now,
+        now,
+      ]
+    );
+    const id = this.selectAll<{ id: number }>("SELECT last_insert_rowid() AS id")[0].id;
+    this.saveToFile();
+    return this.getEmailDraft(id)!;
+  }
+
+  getEmailDraft(id: number): EmailDraftRecord | null {
+    const rows = this.selectAll("SELECT * FROM email_drafts WHERE id = ?", [id]);
+    return rows.length > 0 ? toEmailDraftRecord(rows[0]) : null;
+  }
+
+  getPendingEmailDrafts(conversationId: string): EmailDraftRecord[] {
+    return this.selectAll(
+      "SELECT * FROM email_drafts WHERE conversation_id = ? AND status = 'pending' ORDER BY id ASC",
+      [conversationId]
+    ).map(toEmailDraftRecord);
+  }
+
+  updateEmailDraft(
+    id: number,
+    changes: EmailDraftUpdate,
+    expectedStatus?: EmailDraftStatus
+  ): boolean {
+    if (!this.db) throw new Error("Database not initialized");
+    const columns = EMAIL_DRAFT_COLUMNS.filter((column) => changes[column] !== undefined);
+    if (columns.length === 0) return false;
+
+    this.db.run(
+      `UPDATE email_drafts SET ${columns.map((column) => `${column} = ?`).join(", ")}, updated_at = ?
+       WHERE id = ?${expectedStatus ? " AND status = ?" : ""}`,
+      [
+        ...columns.map((column) => toDraftColumnValue(changes[column])),
+        new Date().toISOString(),
+        id,
+        ...(expectedStatus ? [expectedStatus] : []),
+      ]
+    );
+    const changed = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return changed;
+  }
+
+  // ===== FEEDBACK =====
+
+  recordReplyCapabilities(activityId: string, conversationId: string, capabilities: string[]): void {
+    if (!this.db) throw new Error("Database not initialized");
+    const now = new Date().toISOString();
+    for (const capability of new Set(capabilities)) {
+      this.db.run(
+        `INSERT OR IGNORE INTO reply_capabilities (activity_id, conversation_id, capability, created_at)
+         VALUES (?, ?, ?, ?)`,
+        [activityId, conversationId, capability, now]
+      );
+    }
+    this.saveToFile();
+  }
+
+  getFeedbackWithReplies(since: string, until: string): FeedbackWithReply[] {
+    // Feedback rows default to SQLite's "YYYY-MM-DD HH:MM:SS", so both sides go through julianday()
+    return this.selectAll<FeedbackWithReply>(
+      `SELECT f.rowid AS id, f.reply_to_id, f.reaction, f.feedback, f.user_id,
+         strftime('%Y-%m-%dT%H:%M:%fZ', f.created_at) AS created_at,
+         COALESCE(r.conversation_id, c.conversation_id) AS conversation_id,
+         c.content AS reply_content, r.capability
+       FROM feedback f
+       LEFT JOIN conversations c ON c.activity_id = f.reply_to_id AND c.role = 'model'
+       LEFT JOIN reply_capabilities r ON r.activity_id = f.reply_to_id
+       WHERE julianday(f.created_at) >= julianday(?) AND julianday(f.created_at) < julianday(?)
+       ORDER BY f.created_at ASC`,
+      [since, until]
+    );
+  }
+
+  // ===== USAGE =====
+
+  recordUsage(entry: NewUsageRecord): void {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      `INSERT INTO usage (conversation_id, conversation_name, user_id, capability, provider, model, prompt_tokens, completion_tokens, latency_ms, cost_usd, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.conversation_id,
+        entry.conversation_name,
+        entry.user_id,
+        entry.capability,
+        entry.provider,
+        entry.model,
+        entry.prompt_tokens,
+        entry.completion_tokens,
+        entry.latency_ms,
+        entry.cost_usd,
+        new Date().toISOString(),
+      ]
+    );
+    this.saveToFile();
+  }
+
+  getUsageTotals(since: string, until: string): UsageTotals[] {
+    return this.selectAll<UsageTotals>(
+      `SELECT capability, conversation_id, MAX(conversation_name) AS conversation_name,
+         COUNT(*) AS requests, SUM(prompt_tokens) AS prompt_tokens,
+         SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+       FROM usage WHERE created_at >= ? AND created_at < ?
+       GROUP BY capability, conversation_id
+       ORDER BY cost_usd DESC`,
+      [since, until]
+    );
+  }
+
+  // ===== RATE LIMITS =====
+
+  takeRateLimitTokens(requests: RateLimitRequest[], now: string): RateLimitDecision {
+    if (!this.db) throw new Error("Database not initialized");
+    if (requests.length === 0) return { allowed: true };
+
+    // sql.js runs in this process only, so reading and writing back can't interleave
+    const rows = this.selectAll<RateLimitBucketRecord>(
+      `SELECT * FROM rate_limit_buckets WHERE bucket_key IN (${requests.map(() => "?").join(", ")})`,
+      requests.map((request) => request.key)
+    );
+    const { decision, updated } = takeTokens(
+      requests,
+      new Map(rows.map((row) => [row.bucket_key, row])),
+      now
+    );
+    for (const bucket of updated) {
+      this.db.run(
+        `INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT (bucket_key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at`,
+        [bucket.bucket_key, bucket.tokens, bucket.updated_at]
+      );
+    }
+    if (updated.length > 0) this.saveToFile();
+    return decision;
+  }
+
+  getRateLimitOverrides(): RateLimitOverrideRecord[] {
+    return this.selectAll<RateLimitOverrideRecord>(
+      "SELECT * FROM rate_limit_overrides ORDER BY bucket_key ASC"
+    );
+  }
+
+  setRateLimitOverride(key: string, rate: string | null, updatedBy: string): void {
+    if (!this.db) throw new Error("Database not initialized");
+    if (rate === null) {
+      this.db.run("DELETE FROM rate_limit_overrides WHERE bucket_key = ?", [key]);
+    } else {
+      this.db.run(
+        `INSERT INTO rate_limit_overrides (bucket_key, rate, updated_by, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (bucket_key) DO UPDATE SET
+           rate = excluded.rate,
+           updated_by = excluded.updated_by,
+           updated_at = excluded.updated_at`,
+        [key, rate, updatedBy, new Date().toISOString()]
+      );
+    }
+    this.db.run("DELETE FROM rate_limit_buckets WHERE bucket_key = ?", [key]);
+    this.saveToFile();
+  }
+
+  // ===== RETENTION =====
+
+  getRetentionPolicies(): RetentionPolicyRecord[] {
+    return this.selectAll<RetentionPolicyRecord>("SELECT * FROM retention_policies");
+  }
+
+  setRetentionPolicy(conversationId: string, retentionDays: number | null, updatedBy: string): void {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      `INSERT INTO retention_policies (conversation_id, retention_days, updated_by, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (conversation_id) DO UPDATE SET
+         retention_days = excluded.retention_days,
+         updated_by = excluded.updated_by,
+         updated_at = excluded.updated_at`,
+      [conversationId, retentionDays, updatedBy, new Date().toISOString()]
+    );
+    this.saveToFile();
+  }
+
+  deleteRetentionPolicy(conversationId: string): void {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run("DELETE FROM retention_policies WHERE conversation_id = ?", [conversationId]);
+    this.saveToFile();
+  }
+
+  getConversationsWithMessagesBefore(before: string): string[] {
+    return this.selectAll<{ conversation_id: string }>(
+      "SELECT DISTINCT conversation_id FROM conversations WHERE timestamp < ?",
+      [before]
+    ).map((row) => row.conversation_id);
+  }
+
+  purgeMessagesBefore(conversationId: string, before: string): number {
+    if (!this.db) throw new Error("Database not initialized");
+
+    this.db.run("BEGIN TRANSACTION");
+    try {
+      this.db.run("DELETE FROM conversations WHERE conversation_id = ? AND timestamp < ?", [
+        conversationId,
+        before,
+      ]);
+      const deleted = this.db.getRowsModified();
+      this.db.run(
+        "DELETE FROM embeddings WHERE conversation_id = ? AND source_type = 'message' AND timestamp < ?",
+        [conversationId, before]
+      );
+      this.db.run("DELETE FROM summary_cache WHERE conversation_id = ? AND start_time < ?", [
+        conversationId,
+        before,
+      ]);
+      this.db.run("COMMIT");
+      this.saveToFile();
+      return deleted;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  recordPurge(entry: NewPurgeAuditEntry): void {
+    if (!this.db) throw new Error("Database not initialized");
+    this.db.run(
+      `INSERT INTO purge_audit (conversation_id, reason, cutoff, retention_days, messages_deleted, requested_by, purged_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.conversation_id,
+        entry.reason,
+        entry.cutoff,
+        entry.retention_days,
+        entry.messages_deleted,
+        entry.requested_by,
+        new Date().toISOString(),
+      ]
+    );
+    this.saveToFile();
+  }
+
+  getPurgeAudit(conversationId?: string, limit = 20): PurgeAuditRecord[] {
+    return conversationId
+      ? this.selectAll<PurgeAuditRecord>(
+          "SELECT * FROM purge_audit WHERE conversation_id = ? ORDER BY id DESC LIMIT ?",
+          [conversationId, limit]
+        )
+      : this.selectAll<PurgeAuditRecord>("SELECT * FROM purge_audit ORDER BY id DESC LIMIT ?", [
+          limit,
+        ]);
+  }
+
+  // ===== USER DATA =====
+
+  getUserData(user: string): UserDataExport {
+    const who = user.toLowerCase();
+    return {
+      messages: this.selectAll<{ blob: string }>(
+        `SELECT blob FROM conversations WHERE ${USER_MESSAGES} ORDER BY timestamp ASC`,
+        [who, who]
+      ).map((row) => JSON.parse(row.blob) as MessageRecord),
+      feedback: this.selectAll<FeedbackRecord>(
+        `SELECT rowid AS id, reply_to_id, reaction, feedback, user_id,
+           strftime('%Y-%m-%dT%H:%M:%fZ', created_at) AS created_at
+         FROM feedback WHERE ${USER_FEEDBACK} ORDER BY created_at ASC`,
+        [who, who]
+      ),
+      meeting_notes: this.selectAll<MeetingNoteRecord>(
+        "SELECT * FROM meeting_notes WHERE LOWER(created_by) = ? ORDER BY created_at ASC",
+        [who]
+      ),
+      action_items: this.selectAll<ActionItemRecord>(
+        `SELECT * FROM action_items WHERE ${USER_ACTION_ITEMS} ORDER BY created_at ASC`,
+        [who, who]
+      ),
+      transcript_segments: this.selectAll<TranscriptSegmentRecord>(
+        `SELECT * FROM meeting_transcripts WHERE ${USER_TRANSCRIPT}
+         ORDER BY meeting_id ASC, transcript_id ASC, sequence_number ASC`,
+        [who, who]
+      ),
+      email_drafts: this.selectAll(
+        `SELECT * FROM email_drafts WHERE ${USER_EMAIL_DRAFTS} ORDER BY id ASC`,
+        [who, who]
+      ).map(toEmailDraftRecord),
+      usage: this.selectAll<UsageRecord>(
+        `SELECT * FROM usage WHERE ${USER_USAGE} ORDER BY created_at ASC`,
+        [who, who]
+      ),
+      rate_limit_buckets: this.selectAll<RateLimitBucketRecord>(
+        `SELECT * FROM rate_limit_buckets WHERE ${USER_RATE_LIMITS} ORDER BY bucket_key ASC`,
+        [who, who]
+      ),
+      rate_limit_overrides: this.selectAll<RateLimitOverrideRecord>(
+        `SELECT * FROM rate_limit_overrides WHERE ${USER_RATE_LIMITS} ORDER BY bucket_key ASC`,
+        [who, who]
+      ),
+    };
+  }
+
+  eraseUserData(user: string, mode: ErasureMode): UserDataErasure {
+    if (!this.db) throw new Error("Database not initialized");
+    const who = user.toLowerCase();
+    const messages = this.selectAll<{ activity_id: string; conversation_id: string }>(
+      `SELECT activity_id, conversation_id FROM conversations WHERE ${USER_MESSAGES}`,
+      [who, who]
+    );
+
+    this.db.run("BEGIN TRANSACTION");
+    try {
+      // Feedback is matched through the IDs on the user's messages, so it goes first
+      this.db.run(`DELETE FROM feedback WHERE ${USER_FEEDBACK}`, [who, who]);
+      const feedback = this.db.getRowsModified();
+      this.db.run("UPDATE meeting_notes SET created_by = NULL WHERE LOWER(created_by) = ?", [who]);
+      const meetingNotes = this.db.getRowsModified();
+      this.db.run(
+        `UPDATE action_items SET assignee_name = NULL, assignee_email = NULL, updated_at = ?
+         WHERE ${USER_ACTION_ITEMS}`,
+        [new Date().toISOString(), who, who]
+      );
+      const actionItems = this.db.getRowsModified();
+      // Also matched through the IDs on the user's messages
+      this.db.run(`DELETE FROM email_drafts WHERE ${USER_EMAIL_DRAFTS}`, [who, who]);
+      const emailDrafts = this.db.getRowsModified();
+      this.db.run(`UPDATE usage SET user_id = NULL WHERE ${USER_USAGE}`, [who, who]);
+      const usage = this.db.getRowsModified();
+      this.db.run(`DELETE FROM rate_limit_buckets WHERE ${USER_RATE_LIMITS}`, [who, who]);
+      const rateLimitBuckets = this.db.getRowsModified();
+      this.db.run(`DELETE FROM rate_limit_overrides WHERE ${USER_RATE_LIMITS}`, [who, who]);
+      const rateLimitOverrides = this.db.getRowsModified();
+
+      this.db.run(
+        `DELETE FROM embeddings WHERE source_type = 'transcript' AND (${USER_TRANSCRIPT})`,
+        [who, who]
+      );
+      if (mode === "delete") {
+        this.db.run(`DELETE FROM meeting_transcripts WHERE ${USER_TRANSCRIPT}`, [who, who]);
+      } else {
+        this.db.run(
+          `UPDATE meeting_transcripts SET speaker_name = ?, content = ? WHERE ${USER_TRANSCRIPT}`,
+          [REDACTED, REDACTED, who, who]
+        );
+      }
+      const transcriptSegments = this.db.getRowsModified();
+
+      // Embeddings and cached summaries hold copies of the messages' text
+      for (const message of messages) {
+        this.db.run("DELETE FROM embeddings WHERE source_type = 'message' AND source_id = ?", [
+          message.activity_id,
+        ]);
+      }
+      for (const conversationId of new Set(messages.map((message) => message.conversation_id))) {
+        this.db.run("DELETE FROM summary_cache WHERE conversation_id = ?", [conversationId]);
+      }
+      if (mode === "delete") {
+        this.db.run(`DELETE FROM conversations WHERE ${USER_MESSAGES}`, [who, who]);
+      } else {
+        this.db.run(
+          `UPDATE conversations SET name = ?, content = ?,
+             blob = json_set(json_remove(blob, '$.user_id'), '$.name', ?, '$.content', ?)
+           WHERE ${USER_MESSAGES}`,
+          [REDACTED, REDACTED, REDACTED, REDACTED, who, who]
+        );
+      }
+
+      this.db.run("COMMIT");
+      this.saveToFile();
+      return {
+        messages: messages.length,
+        feedback,
+        meeting_notes: meetingNotes,
+        action_items: actionItems,
+        transcript_segments: transcriptSegments,
+        email_drafts: emailDrafts,
+        usage,
+        rate_limit_buckets: rateLimitBuckets,
+        rate_limit_overrides: rateLimitOverrides,
+      };
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  private selectAll<T>(sql: string, params: (string | number | null)[] = []): T[] {
+    if (!this.db) throw new Error("Database not initialized");
+    const stmt = this.db.prepare(sql);
+    stmt.bind(params);
+
+    const results: T[] = [];
+    while (stmt.step()) {
+      results.push(stmt.getAsObject() as T);
+    }
+    stmt.free();
+    return results;
+  }
+
   close(): void {
     if (this.db) {
       this.saveToFile();
@@ -266,3 +1476,94 @@ export class SqlJsKVStore implements IDatabase {
     }
   }
 }
+
+// Okapi BM25 over matchinfo(table, 'pcnalx'), since FTS4 has no built-in ranking function
+function fts4Bm25(matchinfo: Uint8Array): number {
+  const k1 = 1.2;
+  const b = 0.75;
+  const view = new DataView(matchinfo.buffer, matchinfo.byteOffset, matchinfo.byteLength);
+  const at = (index: number) => view.getUint32(index * 4, true);
+
+  const phraseCount = at(0);
+  const columnCount = at(1);
+  const rowCount = at(2);
+  let score = 0;
+
+  for (let column = 0; column < columnCount; column++) {
+    const averageLength = at(3 + column) || 1;
+    const length = at(3 + columnCount + column);
+
+    for (let phrase = 0; phrase < phraseCount; phrase++) {
+      const hits = 3 + 2 * columnCount + 3 * (phrase * columnCount + column);
+      const termFrequency = at(hits);
+      const documentFrequency = at(hits + 2);
+      if (termFrequency === 0) continue;
+
+      // The non-negative form, so a term in most rows still counts and ranks by frequency
+      const idf = Math.log(1 + (rowCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score +=
+        (idf * termFrequency * (k1 + 1)) /
+        (termFrequency + k1 * (1 - b + (b * length) / averageLength));
+    }
+  }
+  return score;
+}
+
+// SQLite stores booleans as 0/1
+function toMeetingRecord(row: any): MeetingRecord {
+  return { ...row, has_transcript: row.has_transcript === 1 };
+}
+
+function toEmbeddingRecord(row: any): EmbeddingRecord {
+  return { ...row, vector: decodeVector(row.vector) };
+}
+
+// Data export and erasure matches; each "?" takes the lowercased user
+const USER_MESSAGES =
+  "role = 'user' AND (LOWER(name) = ? OR LOWER(json_extract(blob, '$.user_id')) = ?)";
+// Feedback only carries an ID, so a name is matched through the IDs on that user's messages
+const USER_FEEDBACK = `LOWER(user_id) = ? OR LOWER(user_id) IN (
+  SELECT LOWER(json_extract(blob, '$.user_id')) FROM conversations WHERE role = 'user' AND LOWER(name) = ?)`;
+const USER_ACTION_ITEMS = "LOWER(assignee_name) = ? OR LOWER(assignee_email) = ?";
+// Transcript segments only carry the speaker's display name, so an ID is matched through the
+// names on that user's messages
+const USER_TRANSCRIPT = `LOWER(speaker_name) = ? OR LOWER(speaker_name) IN (
+  SELECT LOWER(name) FROM conversations WHERE role = 'user' AND LOWER(json_extract(blob, '$.user_id')) = ?)`;
+// The ID given, or the IDs on the messages sent under the name given
+const USER_IDS = `SELECT ? AS id UNION
+  SELECT LOWER(json_extract(blob, '$.user_id')) FROM conversations WHERE role = 'user' AND LOWER(name) = ?`;
+const USER_EMAIL_DRAFTS = `LOWER(created_by) IN (${USER_IDS})`;
+const USER_USAGE = `LOWER(user_id) IN (${USER_IDS})`;
+// Bucket keys are "user:<id>", or "capability:<name>:user:<id>" for a capability's limit
+const USER_RATE_LIMITS = `EXISTS (SELECT 1 FROM (${USER_IDS}) AS ids
+  WHERE bucket_key = ('user:' || ids.id) OR bucket_key LIKE ('capability:%:user:' || ids.id))`;
+// Name and text left on a redacted message
+const REDACTED = "[removed]";
+
+const EMAIL_DRAFT_COLUMNS = [
+  "subject",
+  "body",
+  "is_html",
+  "to_recipients",
+  "cc_recipients",
+  "status",
+  "sent_at",
+] as const;
+
+// Recipient lists are stored as JSON arrays
+function toDraftColumnValue(
+  value: EmailDraftUpdate[keyof EmailDraftUpdate]
+): string | number | null {
+  if (Array.isArray(value)) return JSON.stringify(value);
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value ?? null;
+}
+
+function toEmailDraftRecord(row: any): EmailDraftRecord {
+  return {
+    ...row,
+    is_html: row.is_html === 1,
+    to_recipients: JSON.parse(row.to_recipients),
+    cc_recipients: JSON.parse(row.cc_recipients),
+  };
+}
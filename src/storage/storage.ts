@@ -2,7 +2,56 @@ import { ILogger } from "@microsoft/teams.common";
 import Database from "better-sqlite3";
 import path from "node:path";
 import { IDatabase } from "./database";
-import { MessageRecord } from "./types";
+import { keywordsToQuery, parseSearchQuery, toFtsMatchQuery } from "./searchQuery";
+import { takeTokens } from "./tokenBucket";
+import {
+  ActionItemFilter,
+  ActionItemRecord,
+  ActionItemStatus,
+  DigestScheduleRecord,
+  DigestScheduleUpdate,
+  EmailDraftRecord,
+  EmailDraftStatus,
+  EmailDraftUpdate,
+  EmbeddingRecord,
+  EmbeddingSourceType,
+  ErasureMode,
+  FeedbackRecord,
+  FeedbackWithReply,
+  MeetingFilter,
+  MeetingNoteRecord,
+  MeetingNoteType,
+  MeetingRecord,
+  MessageRecord,
+  MessageSearchHit,
+  MessageSearchOptions,
+  NewActionItem,
+  NewDigestSchedule,
+  NewEmailDraft,
+  NewEmbedding,
+  NewMeeting,
+  NewMeetingNote,
+  NewPurgeAuditEntry,
+  NewSummaryCacheEntry,
+  NewTranscriptSegment,
+  NewUsageRecord,
+  PurgeAuditRecord,
+  RateLimitBucketRecord,
+  RateLimitDecision,
+  RateLimitOverrideRecord,
+  RateLimitRequest,
+  RetentionPolicyRecord,
+  SummaryCacheRecord,
+  SummaryKind,
+  TranscriptSegmentRecord,
+  UsageRecord,
+  UsageTotals,
+  UserDataErasure,
+  UserDataExport,
+  VectorSearchHit,
+  VectorSearchOptions,
+} from "./types";
+import { decodeVector, encodeVector, rankByVector } from "./vectors";
 
 export class SqliteKVStore implements IDatabase {
   private db: Database.Database;
@@ -37,18 +86,264 @@ export class SqliteKVStore implements IDatabase {
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_conversation_id ON conversations(conversation_id);
     `);
+    this.initializeSearchIndex();
     this.db.exec(`
     CREATE TABLE IF NOT EXISTS feedback (
     reply_to_id  TEXT    NOT NULL,                -- the Teams message ID you replied to
     reaction     TEXT    NOT NULL CHECK (reaction IN ('like','dislike')),
     feedback     TEXT,                           -- JSON or plain text
+    user_id      TEXT,                           -- AAD object ID of whoever reacted
     created_at   TEXT    NOT NULL DEFAULT (CURRENT_TIMESTAMP)
   );
     `);
+    // Databases created before feedback was kept per user lack the column
+    const feedbackColumns = this.db.prepare("PRAGMA table_info(feedback)").all() as {
+      name: string;
+    }[];
+    if (!feedbackColumns.some((column) => column.name === "user_id")) {
+      this.db.exec("ALTER TABLE feedback ADD COLUMN user_id TEXT");
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS action_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT,
+        conversation_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        assignee_email TEXT,
+        assignee_name TEXT,
+        due_date TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        planner_task_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_action_items_conversation_id ON action_items(conversation_id);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meetings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT NOT NULL UNIQUE,
+        conversation_id TEXT,
+        subject TEXT,
+        organizer_email TEXT,
+        organizer_name TEXT,
+        start_time TEXT,
+        end_time TEXT,
+        join_url TEXT,
+        has_transcript INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_meetings_conversation_id ON meetings(conversation_id);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meeting_notes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT NOT NULL,
+        note_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_by TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_meeting_notes_meeting_id ON meeting_notes(meeting_id);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meeting_transcripts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        meeting_id TEXT NOT NULL,
+        transcript_id TEXT NOT NULL,
+        speaker_name TEXT,
+        content TEXT NOT NULL,
+        timestamp_start TEXT,
+        timestamp_end TEXT,
+        sequence_number INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_transcript_meeting_id ON meeting_transcripts(meeting_id);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS digest_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        cadence TEXT NOT NULL CHECK (cadence IN ('daily','weekdays','weekly')),
+        time_of_day TEXT NOT NULL,
+        day_of_week INTEGER,
+        timezone TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','paused')),
+        created_by TEXT,
+        last_run_at TEXT,
+        next_run_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_digest_schedules_next_run ON digest_schedules(status, next_run_at);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_type TEXT NOT NULL CHECK (source_type IN ('message','transcript')),
+        source_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        meeting_id TEXT,
+        speaker_name TEXT,
+        content TEXT NOT NULL,
+        timestamp TEXT,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (conversation_id, source_type, source_id, model)
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_embeddings_conversation_model ON embeddings(conversation_id, model);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS summary_cache (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('summary','action_items')),
+        range_key TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (conversation_id, kind, range_key)
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS email_drafts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        is_html INTEGER NOT NULL DEFAULT 0,
+        to_recipients TEXT NOT NULL,
+        cc_recipients TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','sending','sent','cancelled')),
+        sent_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS reply_capabilities (
+        activity_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        capability TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (activity_id, capability)
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        conversation_name TEXT,
+        user_id TEXT,
+        capability TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_usage_created_at ON usage(created_at);
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        bucket_key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_overrides (
+        bucket_key TEXT PRIMARY KEY,
+        rate TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS retention_policies (
+        conversation_id TEXT PRIMARY KEY,
+        retention_days INTEGER,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS purge_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        reason TEXT NOT NULL CHECK (reason IN ('retention','cleared')),
+        cutoff TEXT,
+        retention_days INTEGER,
+        messages_deleted INTEGER NOT NULL,
+        requested_by TEXT,
+        purged_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_conversations_timestamp ON conversations(timestamp);
+    `);
+  }
+
+  /**
+   * FTS5 index over message content, kept in sync with the conversations table by triggers
+   */
+  private initializeSearchIndex(): void {
+    const exists = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'conversations_fts'")
+      .get();
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+        content, content='conversations', content_rowid='rowid', tokenize='porter unicode61'
+      );
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_insert AFTER INSERT ON conversations BEGIN
+        INSERT INTO conversations_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_delete AFTER DELETE ON conversations BEGIN
+        INSERT INTO conversations_fts(conversations_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_update AFTER UPDATE ON conversations BEGIN
+        INSERT INTO conversations_fts(conversations_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO conversations_fts(rowid, content) VALUES (new.rowid, new.content);
+      END;
+    `);
+
+    // Index messages stored before the index existed
+    if (!exists) {
+      this.db.exec("INSERT INTO conversations_fts(conversations_fts) VALUES ('rebuild')");
+      this.logger.debug("🔎 Built full-text index for existing messages");
+    }
   }
 
   clearAll(): void {
-    this.db.exec("DELETE FROM conversations; VACUUM;");
+    this.db.exec(`
+      DELETE FROM conversations;
+      DELETE FROM embeddings WHERE source_type = 'message';
+      DELETE FROM summary_cache;
+      VACUUM;
+    `);
     this.logger.debug("🧹 Cleared all conversations from SQLite store.");
   }
 
@@ -80,6 +375,10 @@ export class SqliteKVStore implements IDatabase {
   clearConversation(conversationId: string): void {
     const stmt = this.db.prepare("DELETE FROM conversations WHERE conversation_id = ?");
     stmt.run(conversationId);
+    this.db
+      .prepare("DELETE FROM embeddings WHERE conversation_id = ? AND source_type = 'message'")
+      .run(conversationId);
+    this.db.prepare("DELETE FROM summary_cache WHERE conversation_id = ?").run(conversationId);
   }
 
   addMessages(messages: MessageRecord[]): void {
@@ -112,6 +411,8 @@ export class SqliteKVStore implements IDatabase {
     try {
       const stmt = this.db.prepare("DELETE FROM conversations");
       const result = stmt.run();
+      this.db.prepare("DELETE FROM embeddings WHERE source_type = 'message'").run();
+      this.db.prepare("DELETE FROM summary_cache").run();
       this.logger.debug(
         `🧹 Cleared all conversations from database. Deleted ${result.changes} records.`
       );
@@ -128,63 +429,80 @@ export class SqliteKVStore implements IDatabase {
     participants?: string[],
     maxResults?: number
   ): MessageRecord[] {
-    const keywordClauses = keywords.map(() => `content LIKE ?`).join(" OR ");
-    const participantClauses = participants?.map(() => `name LIKE ?`).join(" OR ");
-
-    // Base where clauses
-    const whereClauses = [
-      `conversation_id = ?`,
-      `timestamp >= ?`,
-      `timestamp <= ?`,
-      `(${keywordClauses})`,
-    ];
-
-    // Values for the prepared statement
-    const values: (string | number)[] = [
-      conversationId,
+    return this.searchMessages(conversationId, keywordsToQuery(keywords), {
       startTime,
       endTime,
-      ...keywords.map((k) => `%${k.toLowerCase()}%`),
-    ];
+      participants,
+      maxResults,
+    }).map((hit) => hit.message);
+  }
 
-    // Add participant filters if present
-    if (participants && participants.length > 0) {
-      whereClauses.push(`(${participantClauses})`);
-      values.push(...participants.map((p) => `%${p.toLowerCase()}%`));
+  searchMessages(
+    conversationId: string,
+    query: string,
+    options: MessageSearchOptions
+  ): MessageSearchHit[] {
+    const parsed = parseSearchQuery(query);
+    const match = parsed ? toFtsMatchQuery(parsed) : null;
+    if (!match) {
+      this.logger.debug(`🔎 Nothing searchable in query "${query}"`);
+      return [];
     }
 
-    const limit = maxResults && typeof maxResults === "number" ? maxResults : 5;
-    values.push(limit);
+    const whereClauses = [
+      `conversations_fts MATCH ?`,
+      `c.conversation_id = ?`,
+      `c.timestamp >= ?`,
+      `c.timestamp <= ?`,
+    ];
+    const values: (string | number)[] = [match, conversationId, options.startTime, options.endTime];
 
-    const query = `
-  SELECT blob FROM conversations
-  WHERE ${whereClauses.join(" AND ")}
-  ORDER BY timestamp DESC
-  LIMIT ?
-`;
+    if (options.participants && options.participants.length > 0) {
+      whereClauses.push(`(${options.participants.map(() => `c.name LIKE ?`).join(" OR ")})`);
+      values.push(...options.participants.map((p) => `%${p.toLowerCase()}%`));
+    }
+    values.push(options.maxResults ?? 5);
 
-    const stmt = this.db.prepare(query);
-    const rows = stmt.all(...values) as Array<{ blob: string }>;
-    return rows.map((row) => JSON.parse(row.blob) as MessageRecord);
+    try {
+      // bm25() is lower-is-better, so negate it to match the rank convention
+      const stmt = this.db.prepare(`
+        SELECT c.blob AS blob,
+               snippet(conversations_fts, 0, '**', '**', '…', 16) AS snippet,
+               -bm25(conversations_fts) AS rank
+        FROM conversations_fts
+        JOIN conversations c ON c.rowid = conversations_fts.rowid
+        WHERE ${whereClauses.join(" AND ")}
+        ORDER BY rank DESC, c.timestamp DESC
+        LIMIT ?
+      `);
+      const rows = stmt.all(...values) as Array<{ blob: string; snippet: string; rank: number }>;
+      return rows.map((row) => ({
+        message: JSON.parse(row.blob) as MessageRecord,
+        rank: row.rank,
+        snippet: row.snippet,
+      }));
+    } catch (error) {
+      this.logger.error(`❌ Full-text search failed for "${match}":`, error);
+      return [];
+    }
   }
-  // ===== FEEDBACK MANAGEMENT =====
 
-  // Initialize feedback record for a message with optional delegated capability
-  // Insert one row per submission
   recordFeedback(
     replyToId: string,
     reaction: "like" | "dislike" | string,
-    feedbackJson?: unknown
+    feedbackJson?: unknown,
+    userId?: string
   ): boolean {
     try {
       const stmt = this.db.prepare(`
-      INSERT INTO feedback (reply_to_id, reaction, feedback)
-      VALUES (?, ?, ?)
+      INSERT INTO feedback (reply_to_id, reaction, feedback, user_id)
+      VALUES (?, ?, ?, ?)
     `);
       const result = stmt.run(
         replyToId,
         reaction,
-        feedbackJson ? JSON.stringify(feedbackJson) : null
+        feedbackJson ? JSON.stringify(feedbackJson) : null,
+        userId ?? null
       );
       return result.changes > 0;
     } catch (err) {
@@ -193,6 +511,816 @@ export class SqliteKVStore implements IDatabase {
     }
   }
 
+  // ===== ACTION ITEM LEDGER =====
+
+  addActionItems(items: NewActionItem[]): ActionItemRecord[] {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO action_items (meeting_id, conversation_id, title, description, assignee_email, assignee_name, due_date, status, planner_task_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+    `);
+    const ids: number[] = [];
+
+    for (const item of items) {
+      const result = stmt.run(
+        item.meeting_id ?? null,
+        item.conversation_id,
+        item.title,
+        item.description ?? null,
+        item.assignee_email ?? null,
+        item.assignee_name ?? null,
+        item.due_date ?? null,
+        item.planner_task_id ?? null,
+        now,
+        now
+      );
+      ids.push(Number(result.lastInsertRowid));
+    }
+
+    return ids
+      .map((id) => this.getActionItem(id))
+      .filter((item): item is ActionItemRecord => item !== null);
+  }
+
+  getActionItem(id: number): ActionItemRecord | null {
+    const stmt = this.db.prepare("SELECT * FROM action_items WHERE id = ?");
+    return (stmt.get(id) as ActionItemRecord | undefined) ?? null;
+  }
+
+  getOpenActionItems(filter: ActionItemFilter): ActionItemRecord[] {
+    const whereClauses = [`status != 'done'`];
+    const values: string[] = [];
+
+    if (filter.conversationId) {
+      whereClauses.push(`conversation_id = ?`);
+      values.push(filter.conversationId);
+    }
+    if (filter.assignee) {
+      whereClauses.push(`(LOWER(assignee_name) LIKE ? OR LOWER(assignee_email) = ?)`);
+      values.push(`%${filter.assignee.toLowerCase()}%`, filter.assignee.toLowerCase());
+    }
+    if (filter.assigneeIds) {
+      whereClauses.push(
+        `LOWER(assignee_email) IN (${filter.assigneeIds.map(() => "?").join(", ") || "NULL"})`
+      );
+      values.push(...filter.assigneeIds.map((id) => id.toLowerCase()));
+    }
+    if (filter.assigneeExactName) {
+      whereClauses.push(`LOWER(assignee_name) = ?`);
+      values.push(filter.assigneeExactName.toLowerCase());
+    }
+
+    const stmt = this.db.prepare(
+      `SELECT * FROM action_items WHERE ${whereClauses.join(" AND ")} ORDER BY created_at ASC`
+    );
+    return stmt.all(...values) as ActionItemRecord[];
+  }
+
+  getFiledActionItems(conversationId: string): ActionItemRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM action_items
+      WHERE conversation_id = ? AND planner_task_id IS NOT NULL
+      ORDER BY created_at ASC
+    `);
+    return stmt.all(conversationId) as ActionItemRecord[];
+  }
+
+  setActionItemStatus(id: number, status: ActionItemStatus): boolean {
+    const stmt = this.db.prepare("UPDATE action_items SET status = ?, updated_at = ? WHERE id = ?");
+    return stmt.run(status, new Date().toISOString(), id).changes > 0;
+  }
+
+  reassignActionItem(id: number, assigneeName: string, assigneeEmail?: string): boolean {
+    const stmt = this.db.prepare(
+      "UPDATE action_items SET assignee_name = ?, assignee_email = ?, updated_at = ? WHERE id = ?"
+    );
+    return (
+      stmt.run(assigneeName, assigneeEmail ?? null, new Date().toISOString(), id).changes > 0
+    );
+  }
+
+  setActionItemPlannerTask(id: number, plannerTaskId: string): boolean {
+    const stmt = this.db.prepare(
+      "UPDATE action_items SET planner_task_id = ?, updated_at = ? WHERE id = ?"
+    );
+    return stmt.run(plannerTaskId, new Date().toISOString(), id).changes > 0;
+  }
+
+  // ===== MEETINGS =====
+
+  upsertMeeting(meeting: NewMeeting): MeetingRecord {
+    const now = new Date().toISOString();
+    // Only overwrite the fields the caller provided
+    const stmt = this.db.prepare(`
+      INSERT INTO meetings (meeting_id, conversation_id, subject, organizer_email, organizer_name, start_time, end_time, join_url, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(meeting_id) DO UPDATE SET
+        conversation_id = COALESCE(excluded.conversation_id, meetings.conversation_id),
+        subject = COALESCE(excluded.subject, meetings.subject),
+        organizer_email = COALESCE(excluded.organizer_email, meetings.organizer_email),
+        organizer_name = COALESCE(excluded.organizer_name, meetings.organizer_name),
+        start_time = COALESCE(excluded.start_time, meetings.start_time),
+        end_time = COALESCE(excluded.end_time, meetings.end_time),
+        join_url = COALESCE(excluded.join_url, meetings.join_url),
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(
+      meeting.meeting_id,
+      meeting.conversation_id ?? null,
+      meeting.subject ?? null,
+      meeting.organizer_email ?? null,
+      meeting.organizer_name ?? null,
+      meeting.start_time ?? null,
+      meeting.end_time ?? null,
+      meeting.join_url ?? null,
+      now,
+      now
+    );
+    return this.getMeeting(meeting.meeting_id)!;
+  }
+
+  getMeeting(meetingId: string): MeetingRecord | null {
+    const stmt = this.db.prepare("SELECT * FROM meetings WHERE meeting_id = ?");
+    const row = stmt.get(meetingId);
+    return row ? toMeetingRecord(row) : null;
+  }
+
+  findMeetings(filter: MeetingFilter): MeetingRecord[] {
+    const whereClauses: string[] = [];
+    const values: (string | number)[] = [];
+
+    if (filter.conversationId) {
+      whereClauses.push(`conversation_id = ?`);
+      values.push(filter.conversationId);
+    }
+    if (filter.subject) {
+      whereClauses.push(`LOWER(subject) LIKE ?`);
+      values.push(`%${filter.subject.toLowerCase()}%`);
+    }
+    values.push(filter.limit ?? 10);
+
+    const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+    const stmt = this.db.prepare(
+      `SELECT * FROM meetings ${where} ORDER BY COALESCE(start_time, created_at) DESC LIMIT ?`
+    );
+    return stmt.all(...values).map(toMeetingRecord);
+  }
+
+  addMeetingNote(note: NewMeetingNote): MeetingNoteRecord {
+    const stmt = this.db.prepare(
+      `INSERT INTO meeting_notes (meeting_id, note_type, content, created_by, created_at) VALUES (?, ?, ?, ?, ?)`
+    );
+    const result = stmt.run(
+      note.meeting_id,
+      note.note_type,
+      note.content,
+      note.created_by ?? null,
+      new Date().toISOString()
+    );
+    return this.db
+      .prepare("SELECT * FROM meeting_notes WHERE id = ?")
+      .get(Number(result.lastInsertRowid)) as MeetingNoteRecord;
+  }
+
+  getMeetingNotes(meetingId: string, noteType?: MeetingNoteType): MeetingNoteRecord[] {
+    if (noteType) {
+      const stmt = this.db.prepare(
+        "SELECT * FROM meeting_notes WHERE meeting_id = ? AND note_type = ? ORDER BY created_at ASC"
+      );
+      return stmt.all(meetingId, noteType) as MeetingNoteRecord[];
+    }
+    const stmt = this.db.prepare(
+      "SELECT * FROM meeting_notes WHERE meeting_id = ? ORDER BY created_at ASC"
+    );
+    return stmt.all(meetingId) as MeetingNoteRecord[];
+  }
+
+  saveTranscript(meetingId: string, transcriptId: string, segments: NewTranscriptSegment[]): void {
+    const now = new Date().toISOString();
+    const deleteStmt = this.db.prepare(
+      "DELETE FROM meeting_transcripts WHERE meeting_id = ? AND transcript_id = ?"
+    );
+    const deleteEmbeddingsStmt = this.db.prepare(
+      "DELETE FROM embeddings WHERE source_type = 'transcript' AND meeting_id = ?"
+    );
+    const insertStmt = this.db.prepare(`
+      INSERT INTO meeting_transcripts (meeting_id, transcript_id, speaker_name, content, timestamp_start, timestamp_end, sequence_number, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const markStmt = this.db.prepare(
+      "UPDATE meetings SET has_transcript = 1, updated_at = ? WHERE meeting_id = ?"
+    );
+
+    const replace = this.db.transaction((rows: NewTranscriptSegment[]) => {
+      deleteStmt.run(meetingId, transcriptId);
+      deleteEmbeddingsStmt.run(meetingId);
+      rows.forEach((segment, index) => {
+        insertStmt.run(
+          meetingId,
+          transcriptId,
+          segment.speaker_name ?? null,
+          segment.content,
+          segment.timestamp_start ?? null,
+          segment.timestamp_end ?? null,
+          index,
+          now
+        );
+      });
+      markStmt.run(now, meetingId);
+    });
+    replace(segments);
+  }
+
+  appendTranscriptSegments(
+    meetingId: string,
+    transcriptId: string,
+    segments: NewTranscriptSegment[]
+  ): void {
+    const now = new Date().toISOString();
+    const nextStmt = this.db.prepare(`
+      SELECT COALESCE(MAX(sequence_number) + 1, 0) AS next FROM meeting_transcripts
+      WHERE meeting_id = ? AND transcript_id = ?
+    `);
+    const insertStmt = this.db.prepare(`
+      INSERT INTO meeting_transcripts (meeting_id, transcript_id, speaker_name, content, timestamp_start, timestamp_end, sequence_number, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const markStmt = this.db.prepare(
+      "UPDATE meetings SET has_transcript = 1, updated_at = ? WHERE meeting_id = ?"
+    );
+
+    const append = this.db.transaction((rows: NewTranscriptSegment[]) => {
+      const { next } = nextStmt.get(meetingId, transcriptId) as { next: number };
+      rows.forEach((segment, index) => {
+        insertStmt.run(
+          meetingId,
+          transcriptId,
+          segment.speaker_name ?? null,
+          segment.content,
+          segment.timestamp_start ?? null,
+          segment.timestamp_end ?? null,
+          next + index,
+          now
+        );
+      });
+      markStmt.run(now, meetingId);
+    });
+    append(segments);
+  }
+
+  getTranscript(meetingId: string): TranscriptSegmentRecord[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM meeting_transcripts WHERE meeting_id = ? ORDER BY transcript_id ASC, sequence_number ASC"
+    );
+    return stmt.all(meetingId) as TranscriptSegmentRecord[];
+  }
+
+  // ===== DIGEST SCHEDULES =====
+
+  addDigestSchedule(schedule: NewDigestSchedule): DigestScheduleRecord {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO digest_schedules (conversation_id, cadence, time_of_day, day_of_week, timezone, status, created_by, next_run_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'active', ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      schedule.conversation_id,
+      schedule.cadence,
+      schedule.time_of_day,
+      schedule.day_of_week ?? null,
+      schedule.timezone,
+      schedule.created_by ?? null,
+      schedule.next_run_at,
+      now,
+      now
+    );
+    return this.getDigestSchedule(Number(result.lastInsertRowid))!;
+  }
+
+  getDigestSchedule(id: number): DigestScheduleRecord | null {
+    const stmt = this.db.prepare("SELECT * FROM digest_schedules WHERE id = ?");
+    return (stmt.get(id) as DigestScheduleRecord | undefined) ?? null;
+  }
+
+  getDigestSchedules(conversationId: string): DigestScheduleRecord[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM digest_schedules WHERE conversation_id = ? ORDER BY id ASC"
+    );
+    return stmt.all(conversationId) as DigestScheduleRecord[];
+  }
+
+  getDueDigestSchedules(now: string): DigestScheduleRecord[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM digest_schedules WHERE status = 'active' AND next_run_at <= ? ORDER BY next_run_at ASC"
+    );
+    return stmt.all(now) as DigestScheduleRecord[];
+  }
+
+  updateDigestSchedule(id: number, changes: DigestScheduleUpdate): boolean {
+    const columns = (["status", "last_run_at", "next_run_at"] as const).filter(
+      (column) => changes[column] !== undefined
+    );
+    if (columns.length === 0) return false;
+
+    const stmt = this.db.prepare(
+      `UPDATE digest_schedules SET ${columns.map((column) => `${column} = ?`).join(", ")}, updated_at = ? WHERE id = ?`
+    );
+    return (
+      stmt.run(...columns.map((column) => changes[column]), new Date().toISOString(), id).changes > 0
+    );
+  }
+
+  claimDigestSchedule(id: number, due: string, next: string): boolean {
+    const stmt = this.db.prepare(
+      "UPDATE digest_schedules SET next_run_at = ?, updated_at = ? WHERE id = ? AND next_run_at = ?"
+    );
+    return stmt.run(next, new Date().toISOString(), id, due).changes > 0;
+  }
+
+  deleteDigestSchedule(id: number): boolean {
+    const stmt = this.db.prepare("DELETE FROM digest_schedules WHERE id = ?");
+    return stmt.run(id).changes > 0;
+  }
+
+  // ===== EMBEDDINGS =====
+
+  upsertEmbeddings(embeddings: NewEmbedding[]): void {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(
+      `INSERT INTO embeddings (source_type, source_id, conversation_id, meeting_id, speaker_name, content, timestamp, model, vector, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (conversation_id, source_type, source_id, model) DO UPDATE SET
+         meeting_id = excluded.meeting_id,
+         speaker_name = excluded.speaker_name,
+         content = excluded.content,
+         timestamp = excluded.timestamp,
+         vector = excluded.vector`
+    );
+
+    const upsert = this.db.transaction((rows: NewEmbedding[]) => {
+      for (const embedding of rows) {
+        stmt.run(
+          embedding.source_type,
+          embedding.source_id,
+          embedding.conversation_id,
+          embedding.meeting_id ?? null,
+          embedding.speaker_name ?? null,
+          embedding.content,
+          embedding.timestamp ?? null,
+          embedding.model,
+          encodeVector(embedding.vector),
+          now
+        );
+      }
+    });
+    upsert(embeddings);
+  }
+
+  getEmbeddedSourceIds(
+    conversationId: string,
+    sourceType: EmbeddingSourceType,
+    model: string
+  ): string[] {
+    const stmt = this.db.prepare(
+      "SELECT source_id FROM embeddings WHERE conversation_id = ? AND source_type = ? AND model = ?"
+    );
+    return stmt
+      .all(conversationId, sourceType, model)
+      .map((row: { source_id: string }) => row.source_id);
+  }
+
+  searchEmbeddings(
+    conversationId: string,
+    vector: number[],
+    options: VectorSearchOptions
+  ): VectorSearchHit[] {
+    const conditions = ["conversation_id = ?", "model = ?"];
+    const params: string[] = [conversationId, options.model];
+
+    if (options.sourceTypes && options.sourceTypes.length > 0) {
+      conditions.push(`source_type IN (${options.sourceTypes.map(() => "?").join(", ")})`);
+      params.push(...options.sourceTypes);
+    }
+    if (options.startTime && options.endTime) {
+      conditions.push("(source_type <> 'message' OR timestamp BETWEEN ? AND ?)");
+      params.push(options.startTime, options.endTime);
+    }
+
+    const records = this.db
+      .prepare(`SELECT * FROM embeddings WHERE ${conditions.join(" AND ")}`)
+      .all(params)
+      .map(toEmbeddingRecord);
+    return rankByVector(vector, records, options.limit ?? 10);
+  }
+
+  // ===== SUMMARY CACHE =====
+
+  getCachedSummary(
+    conversationId: string,
+    kind: SummaryKind,
+    rangeKey: string
+  ): SummaryCacheRecord | null {
+    const stmt = this.db.prepare(
+      "SELECT * FROM summary_cache WHERE conversation_id = ? AND kind = ? AND range_key = ?"
+    );
+    return (stmt.get(conversationId, kind, rangeKey) as SummaryCacheRecord | undefined) ?? null;
+  }
+
+  saveCachedSummary(entry: NewSummaryCacheEntry): void {
+    const stmt = this.db.prepare(
+      `INSERT INTO summary_cache (conversation_id, kind, range_key, start_time, end_time, message_count, summary, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (conversation_id, kind, range_key) DO UPDATE SET
+         summary = excluded.summary,
+         created_at = excluded.created_at`
+    );
+    stmt.run(
+      entry.conversation_id,
+      entry.kind,
+      entry.range_key,
+      entry.start_time,
+      entry.end_time,
+      entry.message_count,
+      entry.summary,
+      new Date().toISOString()
+    );
+  }
+  // ===== EMAIL DRAFTS =====
+
+  createEmailDraft(draft: NewEmailDraft): EmailDraftRecord {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO email_drafts (conversation_id, created_by, subject, body, is_html, to_recipients, cc_recipients, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+    `);
+    const result = stmt.run(
+      draft.conversation_id,
+      draft.created_by,
+      draft.subject,
+      draft.body,
+      draft.is_html ? 1 : 0,
+      JSON.stringify(draft.to_recipients),
+      JSON.stringify(draft.cc_recipients ?? []),
+      now,
+      now
+    );
+    return this.getEmailDraft(Number(result.lastInsertRowid))!;
+  }
+
+  getEmailDraft(id: number): EmailDraftRecord | null {
+    const row = this.db.prepare("SELECT * FROM email_drafts WHERE id = ?").get(id);
+    return row ? toEmailDraftRecord(row) : null;
+  }
+
+  getPendingEmailDrafts(conversationId: string): EmailDraftRecord[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM email_drafts WHERE conversation_id = ? AND status = 'pending' ORDER BY id ASC"
+    );
+    return stmt.all(conversationId).map(toEmailDraftRecord);
+  }
+
+  updateEmailDraft(
+    id: number,
+    changes: EmailDraftUpdate,
+    expectedStatus?: EmailDraftStatus
+  ): boolean {
+    const columns = EMAIL_DRAFT_COLUMNS.filter((column) => changes[column] !== undefined);
+    if (columns.length === 0) return false;
+
+    const stmt = this.db.prepare(
+      `UPDATE email_drafts SET ${columns.map((column) => `${column} = ?`).join(", ")}, updated_at = ?
+       WHERE id = ?${expectedStatus ? " AND status = ?" : ""}`
+    );
+    return (
+      stmt.run(
+        ...columns.map((column) => toDraftColumnValue(changes[column])),
+        new Date().toISOString(),
+        id,
+        ...(expectedStatus ? [expectedStatus] : [])
+      ).changes > 0
+    );
+  }
+
+  // ===== FEEDBACK =====
+
+  recordReplyCapabilities(activityId: string, conversationId: string, capabilities: string[]): void {
+    const stmt = this.db.prepare(
+      `INSERT OR IGNORE INTO reply_capabilities (activity_id, conversation_id, capability, created_at)
+       VALUES (?, ?, ?, ?)`
+    );
+    const now = new Date().toISOString();
+    for (const capability of new Set(capabilities)) {
+      stmt.run(activityId, conversationId, capability, now);
+    }
+  }
+
+  getFeedbackWithReplies(since: string, until: string): FeedbackWithReply[] {
+    // Feedback rows default to SQLite's "YYYY-MM-DD HH:MM:SS", so both sides go through julianday()
+    const stmt = this.db.prepare(
+      `SELECT f.rowid AS id, f.reply_to_id, f.reaction, f.feedback, f.user_id,
+         strftime('%Y-%m-%dT%H:%M:%fZ', f.created_at) AS created_at,
+         COALESCE(r.conversation_id, c.conversation_id) AS conversation_id,
+         c.content AS reply_content, r.capability
+       FROM feedback f
+       LEFT JOIN conversations c ON c.activity_id = f.reply_to_id AND c.role = 'model'
+       LEFT JOIN reply_capabilities r ON r.activity_id = f.reply_to_id
+       WHERE julianday(f.created_at) >= julianday(?) AND julianday(f.created_at) < julianday(?)
+       ORDER BY f.created_at ASC`
+    );
+    return stmt.all(since, until) as FeedbackWithReply[];
+  }
+
+  // ===== USAGE =====
+
+  recordUsage(entry: NewUsageRecord): void {
+    const stmt = this.db.prepare(
+      `INSERT INTO usage (conversation_id, conversation_name, user_id, capability, provider, model, prompt_tokens, completion_tokens, latency_ms, cost_usd, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    stmt.run(
+      entry.conversation_id,
+      entry.conversation_name,
+      entry.user_id,
+      entry.capability,
+      entry.provider,
+      entry.model,
+      entry.prompt_tokens,
+      entry.completion_tokens,
+      entry.latency_ms,
+      entry.cost_usd,
+      new Date().toISOString()
+    );
+  }
+
+  getUsageTotals(since: string, until: string): UsageTotals[] {
+    const stmt = this.db.prepare(
+      `SELECT capability, conversation_id, MAX(conversation_name) AS conversation_name,
+         COUNT(*) AS requests, SUM(prompt_tokens) AS prompt_tokens,
+         SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+       FROM usage WHERE created_at >= ? AND created_at < ?
+       GROUP BY capability, conversation_id
+       ORDER BY cost_usd DESC`
+    );
+    return stmt.all(since, until) as UsageTotals[];
+  }
+
+  // ===== RATE LIMITS =====
+
+  takeRateLimitTokens(requests: RateLimitRequest[], now: string): RateLimitDecision {
+    if (requests.length === 0) return { allowed: true };
+
+    const select = this.db.prepare(
+      `SELECT * FROM rate_limit_buckets WHERE bucket_key IN (${requests.map(() => "?").join(", ")})`
+    );
+    const upsert = this.db.prepare(
+      `INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (bucket_key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at`
+    );
+    // An immediate transaction holds the write lock from the read on, so processes sharing
+    // the file can't both spend the last token
+    const take = this.db.transaction(() => {
+      const rows = select.all(...requests.map((request) => request.key)) as RateLimitBucketRecord[];
+      const { decision, updated } = takeTokens(
+        requests,
+        new Map(rows.map((row) => [row.bucket_key, row])),
+        now
+      );
+      for (const bucket of updated) {
+        upsert.run(bucket.bucket_key, bucket.tokens, bucket.updated_at);
+      }
+      return decision;
+    });
+    return take.immediate();
+  }
+
+  getRateLimitOverrides(): RateLimitOverrideRecord[] {
+    const stmt = this.db.prepare("SELECT * FROM rate_limit_overrides ORDER BY bucket_key ASC");
+    return stmt.all() as RateLimitOverrideRecord[];
+  }
+
+  setRateLimitOverride(key: string, rate: string | null, updatedBy: string): void {
+    if (rate === null) {
+      this.db.prepare("DELETE FROM rate_limit_overrides WHERE bucket_key = ?").run(key);
+    } else {
+      this.db
+        .prepare(
+          `INSERT INTO rate_limit_overrides (bucket_key, rate, updated_by, updated_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (bucket_key) DO UPDATE SET
+             rate = excluded.rate,
+             updated_by = excluded.updated_by,
+             updated_at = excluded.updated_at`
+        )
+        .run(key, rate, updatedBy, new Date().toISOString());
+    }
+    this.db.prepare("DELETE FROM rate_limit_buckets WHERE bucket_key = ?").run(key);
+  }
+
+  // ===== RETENTION =====
+
+  getRetentionPolicies(): RetentionPolicyRecord[] {
+    return this.db.prepare("SELECT * FROM retention_policies").all() as RetentionPolicyRecord[];
+  }
+
+  setRetentionPolicy(conversationId: string, retentionDays: number | null, updatedBy: string): void {
+    const stmt = this.db.prepare(
+      `INSERT INTO retention_policies (conversation_id, retention_days, updated_by, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (conversation_id) DO UPDATE SET
+         retention_days = excluded.retention_days,
+         updated_by = excluded.updated_by,
+         updated_at = excluded.updated_at`
+    );
+    stmt.run(conversationId, retentionDays, updatedBy, new Date().toISOString());
+  }
+
+  deleteRetentionPolicy(conversationId: string): void {
+    this.db.prepare("DELETE FROM retention_policies WHERE conversation_id = ?").run(conversationId);
+  }
+
+  getConversationsWithMessagesBefore(before: string): string[] {
+    const stmt = this.db.prepare(
+      "SELECT DISTINCT conversation_id FROM conversations WHERE timestamp < ?"
+    );
+    return (stmt.all(before) as { conversation_id: string }[]).map((row) => row.conversation_id);
+  }
+
+  purgeMessagesBefore(conversationId: string, before: string): number {
+    const purge = this.db.transaction(() => {
+      const deleted = this.db
+        .prepare("DELETE FROM conversations WHERE conversation_id = ? AND timestamp < ?")
+        .run(conversationId, before).changes;
+      this.db
+        .prepare(
+          "DELETE FROM embeddings WHERE conversation_id = ? AND source_type = 'message' AND timestamp < ?"
+        )
+        .run(conversationId, before);
+      this.db
+        .prepare("DELETE FROM summary_cache WHERE conversation_id = ? AND start_time < ?")
+        .run(conversationId, before);
+      return deleted;
+    });
+    return purge();
+  }
+
+  recordPurge(entry: NewPurgeAuditEntry): void {
+    const stmt = this.db.prepare(
+      `INSERT INTO purge_audit (conversation_id, reason, cutoff, retention_days, messages_deleted, requested_by, purged_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    stmt.run(
+      entry.conversation_id,
+      entry.reason,
+      entry.cutoff,
+      entry.retention_days,
+      entry.messages_deleted,
+      entry.requested_by,
+      new Date().toISOString()
+    );
+  }
+
+  getPurgeAudit(conversationId?: string, limit = 20): PurgeAuditRecord[] {
+    return (
+      conversationId
+        ? this.db
+            .prepare("SELECT * FROM purge_audit WHERE conversation_id = ? ORDER BY id DESC LIMIT ?")
+            .all(conversationId, limit)
+        : this.db.prepare("SELECT * FROM purge_audit ORDER BY id DESC LIMIT ?").all(limit)
+    ) as PurgeAuditRecord[];
+  }
+
+  // ===== USER DATA =====
+
+  getUserData(user: string): UserDataExport {
+    const who = user.toLowerCase();
+    const messages = this.db
+      .prepare(`SELECT blob FROM conversations WHERE ${USER_MESSAGES} ORDER BY timestamp ASC`)
+      .all(who, who) as { blob: string }[];
+    return {
+      messages: messages.map((row) => JSON.parse(row.blob) as MessageRecord),
+      feedback: this.db
+        .prepare(
+          `SELECT rowid AS id, reply_to_id, reaction, feedback, user_id,
+             strftime('%Y-%m-%dT%H:%M:%fZ', created_at) AS created_at
+           FROM feedback WHERE ${USER_FEEDBACK} ORDER BY created_at ASC`
+        )
+        .all(who, who) as FeedbackRecord[],
+      meeting_notes: this.db
+        .prepare("SELECT * FROM meeting_notes WHERE LOWER(created_by) = ? ORDER BY created_at ASC")
+        .all(who) as MeetingNoteRecord[],
+      action_items: this.db
+        .prepare(`SELECT * FROM action_items WHERE ${USER_ACTION_ITEMS} ORDER BY created_at ASC`)
+        .all(who, who) as ActionItemRecord[],
+      transcript_segments: this.db
+        .prepare(
+          `SELECT * FROM meeting_transcripts WHERE ${USER_TRANSCRIPT}
+           ORDER BY meeting_id ASC, transcript_id ASC, sequence_number ASC`
+        )
+        .all(who, who) as TranscriptSegmentRecord[],
+      email_drafts: this.db
+        .prepare(`SELECT * FROM email_drafts WHERE ${USER_EMAIL_DRAFTS} ORDER BY id ASC`)
+        .all(who, who)
+        .map(toEmailDraftRecord),
+      usage: this.db
+        .prepare(`SELECT * FROM usage WHERE ${USER_USAGE} ORDER BY created_at ASC`)
+        .all(who, who) as UsageRecord[],
+      rate_limit_buckets: this.db
+        .prepare(
+          `SELECT * FROM rate_limit_buckets WHERE ${USER_RATE_LIMITS} ORDER BY bucket_key ASC`
+        )
+        .all(who, who) as RateLimitBucketRecord[],
+      rate_limit_overrides: this.db
+        .prepare(
+          `SELECT * FROM rate_limit_overrides WHERE ${USER_RATE_LIMITS} ORDER BY bucket_key ASC`
+        )
+        .all(who, who) as RateLimitOverrideRecord[],
+    };
+  }
+
+  eraseUserData(user: string, mode: ErasureMode): UserDataErasure {
+    const who = user.toLowerCase();
+    const erase = this.db.transaction((): UserDataErasure => {
+      const messages = this.db
+        .prepare(`SELECT activity_id, conversation_id FROM conversations WHERE ${USER_MESSAGES}`)
+        .all(who, who) as { activity_id: string; conversation_id: string }[];
+
+      // Feedback is matched through the IDs on the user's messages, so it goes first
+      const feedback = this.db
+        .prepare(`DELETE FROM feedback WHERE ${USER_FEEDBACK}`)
+        .run(who, who).changes;
+      const meetingNotes = this.db
+        .prepare("UPDATE meeting_notes SET created_by = NULL WHERE LOWER(created_by) = ?")
+        .run(who).changes;
+      const actionItems = this.db
+        .prepare(
+          `UPDATE action_items SET assignee_name = NULL, assignee_email = NULL, updated_at = ?
+           WHERE ${USER_ACTION_ITEMS}`
+        )
+        .run(new Date().toISOString(), who, who).changes;
+      // Also matched through the IDs on the user's messages
+      const emailDrafts = this.db
+        .prepare(`DELETE FROM email_drafts WHERE ${USER_EMAIL_DRAFTS}`)
+        .run(who, who).changes;
+      const usage = this.db
+        .prepare(`UPDATE usage SET user_id = NULL WHERE ${USER_USAGE}`)
+        .run(who, who).changes;
+      const rateLimitBuckets = this.db
+        .prepare(`DELETE FROM rate_limit_buckets WHERE ${USER_RATE_LIMITS}`)
+        .run(who, who).changes;
+      const rateLimitOverrides = this.db
+        .prepare(`DELETE FROM rate_limit_overrides WHERE ${USER_RATE_LIMITS}`)
+        .run(who, who).changes;
+
+      this.db
+        .prepare(`DELETE FROM embeddings WHERE source_type = 'transcript' AND (${USER_TRANSCRIPT})`)
+        .run(who, who);
+      const transcriptSegments = (
+        mode === "delete"
+          ? this.db.prepare(`DELETE FROM meeting_transcripts WHERE ${USER_TRANSCRIPT}`).run(who, who)
+          : this.db
+              .prepare(
+                `UPDATE meeting_transcripts SET speaker_name = ?, content = ?
+                 WHERE ${USER_TRANSCRIPT}`
+              )
+              .run(REDACTED, REDACTED, who, who)
+      ).changes;
+
+      // Embeddings and cached summaries hold copies of the messages' text
+      const deleteEmbedding = this.db.prepare(
+        "DELETE FROM embeddings WHERE source_type = 'message' AND source_id = ?"
+      );
+      for (const message of messages) {
+        deleteEmbedding.run(message.activity_id);
+      }
+      const deleteSummaries = this.db.prepare("DELETE FROM summary_cache WHERE conversation_id = ?");
+      for (const conversationId of new Set(messages.map((message) => message.conversation_id))) {
+        deleteSummaries.run(conversationId);
+      }
+      if (mode === "delete") {
+        this.db.prepare(`DELETE FROM conversations WHERE ${USER_MESSAGES}`).run(who, who);
+      } else {
+        this.db
+          .prepare(
+            `UPDATE conversations SET name = ?, content = ?,
+               blob = json_set(json_remove(blob, '$.user_id'), '$.name', ?, '$.content', ?)
+             WHERE ${USER_MESSAGES}`
+          )
+          .run(REDACTED, REDACTED, REDACTED, REDACTED, who, who);
+      }
+
+      return {
+        messages: messages.length,
+        feedback,
+        meeting_notes: meetingNotes,
+        action_items: actionItems,
+        transcript_segments: transcriptSegments,
+        email_drafts: emailDrafts,
+        usage,
+        rate_limit_buckets: rateLimitBuckets,
+        rate_limit_overrides: rateLimitOverrides,
+      };
+    });
+    return erase();
+  }
+
   close(): void {
     if (this.db) {
       this.db.close();
@@ -200,3 +1328,62 @@ export class SqliteKVStore implements IDatabase {
     }
   }
 }
+
+// SQLite stores booleans as 0/1
+function toMeetingRecord(row: any): MeetingRecord {
+  return { ...row, has_transcript: row.has_transcript === 1 };
+}
+
+function toEmbeddingRecord(row: any): EmbeddingRecord {
+  return { ...row, vector: decodeVector(row.vector) };
+}
+
+// Data export and erasure matches; each "?" takes the lowercased user
+const USER_MESSAGES =
+  "role = 'user' AND (LOWER(name) = ? OR LOWER(json_extract(blob, '$.user_id')) = ?)";
+// Feedback only carries an ID, so a name is matched through the IDs on that user's messages
+const USER_FEEDBACK = `LOWER(user_id) = ? OR LOWER(user_id) IN (
+  SELECT LOWER(json_extract(blob, '$.user_id')) FROM conversations WHERE role = 'user' AND LOWER(name) = ?)`;
+const USER_ACTION_ITEMS = "LOWER(assignee_name) = ? OR LOWER(assignee_email) = ?";
+// Transcript segments only carry the speaker's display name, so an ID is matched through the
+// names on that user's messages
+const USER_TRANSCRIPT = `LOWER(speaker_name) = ? OR LOWER(speaker_name) IN (
+  SELECT LOWER(name) FROM conversations WHERE role = 'user' AND LOWER(json_extract(blob, '$.user_id')) = ?)`;
+// The ID given, or the IDs on the messages sent under the name given
+const USER_IDS = `SELECT ? AS id UNION
+  SELECT LOWER(json_extract(blob, '$.user_id')) FROM conversations WHERE role = 'user' AND LOWER(name) = ?`;
+const USER_EMAIL_DRAFTS = `LOWER(created_by) IN (${USER_IDS})`;
+const USER_USAGE = `LOWER(user_id) IN (${USER_IDS})`;
+// Bucket keys are "user:<id>", or "capability:<name>:user:<id>" for a capability's limit
+const USER_RATE_LIMITS = `EXISTS (SELECT 1 FROM (${USER_IDS}) AS ids
+  WHERE bucket_key = ('user:' || ids.id) OR bucket_key LIKE ('capability:%:user:' || ids.id))`;
+// Name and text left on a redacted message
+const REDACTED = "[removed]";
+
+const EMAIL_DRAFT_COLUMNS = [
+  "subject",
+  "body",
+  "is_html",
+  "to_recipients",
+  "cc_recipients",
+  "status",
+  "sent_at",
+] as const;
+
+// Recipient lists are stored as JSON arrays
+function toDraftColumnValue(
+  value: EmailDraftUpdate[keyof EmailDraftUpdate]
+): string | number | null {
+  if (Array.isArray(value)) return JSON.stringify(value);
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value ?? null;
+}
+
+function toEmailDraftRecord(row: any): EmailDraftRecord {
+  return {
+    ...row,
+    is_html: row.is_html === 1,
+    to_recipients: JSON.parse(row.to_recipients),
+    cc_recipients: JSON.parse(row.cc_recipients),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Token bucket helpers shared by the storage backends
+ *
+ * Buckets live in the database rather than in memory so every bot instance draws from the same
+ * ones. A bucket that has never been used is full, so only buckets in use need a row.
+ */
+
+import { RateLimitBucketRecord, RateLimitDecision, RateLimitRequest } from "./types";
+
+/**
+ * Take one token from every requested bucket, or none at all if any of them is empty, so a
+ * request refused by one limit doesn't use up the others. Returns the decision and the buckets
+ * to write back (none when refused).
+ */
+export function takeTokens(
+  requests: RateLimitRequest[],
+  buckets: Map<string, RateLimitBucketRecord>,
+  now: string
+): { decision: RateLimitDecision; updated: RateLimitBucketRecord[] } {
+  const nowMs = new Date(now).getTime();
+  const refilled = requests.map(({ key, limit }) => {
+    const bucket = buckets.get(key);
+    const perMs = limit.capacity / limit.periodMs;
+    const tokens = bucket
+      ? Math.min(
+          limit.capacity,
+          bucket.tokens + Math.max(0, nowMs - new Date(bucket.updated_at).getTime()) * perMs
+        )
+      : limit.capacity;
+    return { key, tokens, perMs };
+  });
+
+  const empty = refilled
+    .filter((bucket) => bucket.tokens < 1)
+    .map((bucket) => ({ key: bucket.key, waitMs: Math.ceil((1 - bucket.tokens) / bucket.perMs) }))
+    .sort((a, b) => b.waitMs - a.waitMs);
+  if (empty.length > 0) {
+    return {
+      decision: { allowed: false, blockedKey: empty[0].key, retryAfterMs: empty[0].waitMs },
+      updated: [],
+    };
+  }
+
+  return {
+    decision: { allowed: true },
+    updated: refilled.map((bucket) => ({
+      bucket_key: bucket.key,
+      tokens: bucket.tokens - 1,
+      updated_at: now,
+    })),
+  };
+}
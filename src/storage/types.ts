@@ -7,6 +7,7 @@ interface MessageRecordExtension {
   name: string;
   timestamp: string;
   activity_id?: string; // used to create deeplink for Search Capability
+  user_id?: string; // AAD object ID of the sender; unset for the bot's replies and older messages
 }
 
 export type MessageRecord = Message & MessageRecordExtension;
@@ -16,5 +17,368 @@ export interface FeedbackRecord {
   reply_to_id: string;
   reaction: "like" | "dislike" | string;
   feedback: string | null;
+  // AAD object ID of whoever reacted; null for feedback recorded before it was kept
+  user_id: string | null;
   created_at: string;
 }
+
+// A reaction joined to the bot reply it was left on
+export interface FeedbackWithReply extends FeedbackRecord {
+  conversation_id: string | null;
+  // The reply's text, while the conversation is still stored
+  reply_content: string | null;
+  // Capability that wrote the reply; null for replies sent before capabilities were recorded
+  capability: string | null;
+}
+
+export type ActionItemStatus = "pending" | "done";
+
+export interface ActionItemRecord {
+  id: number;
+  conversation_id: string;
+  meeting_id: string | null;
+  title: string;
+  description: string | null;
+  assignee_name: string | null;
+  assignee_email: string | null;
+  due_date: string | null;
+  status: ActionItemStatus;
+  planner_task_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewActionItem = Pick<ActionItemRecord, "conversation_id" | "title"> &
+  Partial<
+    Pick<
+      ActionItemRecord,
+      "meeting_id" | "description" | "assignee_name" | "assignee_email" | "due_date" | "planner_task_id"
+    >
+  >;
+
+export interface ActionItemFilter {
+  conversationId?: string;
+  // Matches assignee_name (case-insensitive, partial) or assignee_email (exact)
+  assignee?: string;
+  // Matches assignee_email exactly (case-insensitive) against any of these; never by name
+  assigneeIds?: string[];
+  // Matches assignee_name exactly (case-insensitive), for looking up someone by display name
+  assigneeExactName?: string;
+}
+
+export interface MeetingRecord {
+  id: number;
+  meeting_id: string;
+  conversation_id: string | null;
+  subject: string | null;
+  organizer_email: string | null;
+  organizer_name: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  join_url: string | null;
+  has_transcript: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewMeeting = Pick<MeetingRecord, "meeting_id"> &
+  Partial<
+    Pick<
+      MeetingRecord,
+      | "conversation_id"
+      | "subject"
+      | "organizer_email"
+      | "organizer_name"
+      | "start_time"
+      | "end_time"
+      | "join_url"
+    >
+  >;
+
+export interface MeetingFilter {
+  conversationId?: string;
+  // Case-insensitive, partial match on the meeting subject
+  subject?: string;
+  limit?: number;
+}
+
+export type MeetingNoteType = "summary" | "action_items" | "notes" | "transcript";
+
+export interface MeetingNoteRecord {
+  id: number;
+  meeting_id: string;
+  note_type: MeetingNoteType;
+  content: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type NewMeetingNote = Pick<MeetingNoteRecord, "meeting_id" | "note_type" | "content"> &
+  Partial<Pick<MeetingNoteRecord, "created_by">>;
+
+export interface TranscriptSegmentRecord {
+  id: number;
+  meeting_id: string;
+  transcript_id: string;
+  speaker_name: string | null;
+  content: string;
+  timestamp_start: string | null;
+  timestamp_end: string | null;
+  sequence_number: number;
+  created_at: string;
+}
+
+export type NewTranscriptSegment = Pick<TranscriptSegmentRecord, "content"> &
+  Partial<Pick<TranscriptSegmentRecord, "speaker_name" | "timestamp_start" | "timestamp_end">>;
+
+export type DigestCadence = "daily" | "weekdays" | "weekly";
+
+export type DigestScheduleStatus = "active" | "paused";
+
+export interface DigestScheduleRecord {
+  id: number;
+  conversation_id: string;
+  cadence: DigestCadence;
+  time_of_day: string; // HH:MM in the schedule's time zone
+  day_of_week: number | null; // 0 (Sunday) - 6 (Saturday), weekly schedules only
+  timezone: string; // IANA time zone, e.g. "America/New_York"
+  status: DigestScheduleStatus;
+  created_by: string | null;
+  last_run_at: string | null;
+  next_run_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewDigestSchedule = Pick<
+  DigestScheduleRecord,
+  "conversation_id" | "cadence" | "time_of_day" | "timezone" | "next_run_at"
+> &
+  Partial<Pick<DigestScheduleRecord, "day_of_week" | "created_by">>;
+
+export type DigestScheduleUpdate = Partial<
+  Pick<DigestScheduleRecord, "status" | "last_run_at" | "next_run_at">
+>;
+
+export interface MessageSearchOptions {
+  startTime: string;
+  endTime: string;
+  participants?: string[];
+  maxResults?: number;
+}
+
+export interface MessageSearchHit {
+  message: MessageRecord;
+  // Higher is more relevant; only comparable within one result set
+  rank: number;
+  // Matching excerpt with the matched terms in **bold**
+  snippet: string;
+}
+
+export type EmbeddingSourceType = "message" | "transcript";
+
+export interface EmbeddingRecord {
+  id: number;
+  source_type: EmbeddingSourceType;
+  // Activity ID for messages, "<meeting_id>:<transcript_id>:<sequence_number>" for transcript
+  // segments
+  source_id: string;
+  conversation_id: string;
+  meeting_id: string | null;
+  speaker_name: string | null;
+  content: string;
+  timestamp: string | null;
+  // Embedding model that produced the vector; vectors from different models are never compared
+  model: string;
+  vector: number[];
+  created_at: string;
+}
+
+export type NewEmbedding = Pick<
+  EmbeddingRecord,
+  "source_type" | "source_id" | "conversation_id" | "content" | "model" | "vector"
+> &
+  Partial<Pick<EmbeddingRecord, "meeting_id" | "speaker_name" | "timestamp">>;
+
+export interface VectorSearchOptions {
+  model: string;
+  sourceTypes?: EmbeddingSourceType[];
+  // Time range applies to messages only; transcript segments carry meeting offsets, not dates
+  startTime?: string;
+  endTime?: string;
+  limit?: number;
+}
+
+export interface VectorSearchHit {
+  record: EmbeddingRecord;
+  // Cosine similarity, -1 to 1
+  similarity: number;
+}
+
+// What a cached summary was written for; action item chunks keep tasks, owners and dates verbatim
+export type SummaryKind = "summary" | "action_items";
+
+export interface SummaryCacheRecord {
+  id: number;
+  conversation_id: string;
+  kind: SummaryKind;
+  // Hash of the summarized messages (or of the merged child keys), so edits change the key
+  range_key: string;
+  start_time: string;
+  end_time: string;
+  message_count: number;
+  summary: string;
+  created_at: string;
+}
+
+export type NewSummaryCacheEntry = Omit<SummaryCacheRecord, "id" | "created_at">;
+
+// "sending" is held while the message is handed to Graph, so a second click can't send it twice
+export type EmailDraftStatus = "pending" | "sending" | "sent" | "cancelled";
+
+export interface EmailDraftRecord {
+  id: number;
+  conversation_id: string;
+  // User ID of whoever asked for the draft; only they can send, edit or cancel it
+  created_by: string;
+  subject: string;
+  body: string;
+  is_html: boolean;
+  to_recipients: string[];
+  cc_recipients: string[];
+  status: EmailDraftStatus;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewEmailDraft = Pick<
+  EmailDraftRecord,
+  "conversation_id" | "created_by" | "subject" | "body" | "to_recipients"
+> &
+  Partial<Pick<EmailDraftRecord, "is_html" | "cc_recipients">>;
+
+export type EmailDraftUpdate = Partial<
+  Pick<
+    EmailDraftRecord,
+    "subject" | "body" | "is_html" | "to_recipients" | "cc_recipients" | "status" | "sent_at"
+  >
+>;
+
+// One model request, as reported by the provider
+export interface UsageRecord {
+  id: number;
+  conversation_id: string;
+  // Chat title when Teams gives one, so reports can name the chat
+  conversation_name: string | null;
+  user_id: string | null;
+  // Capability (or "manager") the request was made for
+  capability: string;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  // Estimated from the model's price per million tokens when the request was made
+  cost_usd: number;
+  created_at: string;
+}
+
+export type NewUsageRecord = Omit<UsageRecord, "id" | "created_at">;
+
+export interface UsageTotals {
+  capability: string;
+  conversation_id: string;
+  conversation_name: string | null;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+// A token bucket: up to `capacity` requests at once, refilled evenly over `periodMs`
+export interface RateLimit {
+  capacity: number;
+  periodMs: number;
+}
+
+export interface RateLimitBucketRecord {
+  // e.g. "user:<id>", "conversation:<id>", "capability:summarizer:user:<id>"
+  bucket_key: string;
+  tokens: number;
+  updated_at: string;
+}
+
+export interface RateLimitRequest {
+  key: string;
+  limit: RateLimit;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // The bucket that ran out, and how long until it holds a token again
+  blockedKey?: string;
+  retryAfterMs?: number;
+}
+
+// An admin's replacement for the configured limit of one bucket
+export interface RateLimitOverrideRecord {
+  bucket_key: string;
+  // Same format as the RATE_LIMIT_* settings ("100/hour"), or "off" for no limit
+  rate: string;
+  updated_by: string;
+  updated_at: string;
+}
+
+// A conversation's own retention period, replacing the global RETENTION_DAYS
+export interface RetentionPolicyRecord {
+  conversation_id: string;
+  // null keeps the conversation's messages forever
+  retention_days: number | null;
+  updated_by: string;
+  updated_at: string;
+}
+
+export type PurgeReason = "retention" | "cleared";
+
+// Audit entry for messages deleted from a conversation
+export interface PurgeAuditRecord {
+  id: number;
+  conversation_id: string;
+  reason: PurgeReason;
+  // Messages older than this were deleted; null when the whole history was cleared
+  cutoff: string | null;
+  retention_days: number | null;
+  messages_deleted: number;
+  // Who asked for it; null for the retention sweeper
+  requested_by: string | null;
+  purged_at: string;
+}
+
+export type NewPurgeAuditEntry = Omit<PurgeAuditRecord, "id" | "purged_at">;
+
+// Everything stored about one user, for a data export
+export interface UserDataExport {
+  messages: MessageRecord[];
+  feedback: FeedbackRecord[];
+  // Notes the user saved
+  meeting_notes: MeetingNoteRecord[];
+  // Action items assigned to the user
+  action_items: ActionItemRecord[];
+  // What the user said in saved meeting transcripts, matched by speaker name
+  transcript_segments: TranscriptSegmentRecord[];
+  // Email drafts the user asked for
+  email_drafts: EmailDraftRecord[];
+  // Model requests made for the user
+  usage: UsageRecord[];
+  // The user's own rate limit buckets, including per-capability ones, and admin overrides
+  rate_limit_buckets: RateLimitBucketRecord[];
+  rate_limit_overrides: RateLimitOverrideRecord[];
+}
+
+// "redact" keeps a placeholder for each message so the rest of the conversation still reads
+// in order; "delete" removes them
+export type ErasureMode = "delete" | "redact";
+
+// Rows removed or redacted by an erasure
+export type UserDataErasure = Record<keyof UserDataExport, number>;
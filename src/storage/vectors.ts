@@ -0,0 +1,52 @@
+/**
+ * Vector helpers shared by the storage backends
+ *
+ * Vectors are stored as little-endian float32 blobs and compared in process. Conversations
+ * hold thousands of messages rather than millions, so a scan per query is fast enough and
+ * keeps the vectors in the existing database without a vector extension.
+ */
+
+import { EmbeddingRecord, VectorSearchHit } from "./types";
+
+export function encodeVector(vector: number[]): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4);
+  vector.forEach((value, index) => buffer.writeFloatLE(value, index * 4));
+  return buffer;
+}
+
+export function decodeVector(bytes: Uint8Array): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vector: number[] = new Array(Math.floor(bytes.byteLength / 4));
+  for (let index = 0; index < vector.length; index++) {
+    vector[index] = view.getFloat32(index * 4, true);
+  }
+  return vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Score records against the query vector and keep the most similar
+ */
+export function rankByVector(
+  query: number[],
+  records: EmbeddingRecord[],
+  limit: number
+): VectorSearchHit[] {
+  return records
+    .map((record) => ({ record, similarity: cosineSimilarity(query, record.vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,217 @@
+import {
+  ActionSet,
+  AdaptiveCard,
+  CardElement,
+  Container,
+  ExecuteAction,
+  Fact,
+  FactSet,
+  ShowCardAction,
+  TextBlock,
+  TextInput,
+} from "@microsoft/teams.cards";
+import {
+  ActionItemsPayload,
+  CapabilityPayload,
+  EmailPreviewPayload,
+  PlannerTasksPayload,
+  SummaryPayload,
+} from "../capabilities/capability";
+import { EMAIL_DRAFT_VERBS } from "../services/emailDrafts";
+
+/**
+ * Render a capability payload as an Adaptive Card.
+ * The card carries the plain-text rendering as its fallback for clients that can't show cards.
+ */
+export function renderPayloadCard(payload: CapabilityPayload): AdaptiveCard {
+  let body: CardElement[];
+  switch (payload.type) {
+    case "summary":
+      body = renderSummary(payload);
+      break;
+    case "action_items":
+      body = renderActionItems(payload);
+      break;
+    case "planner_tasks":
+      body = renderPlannerTasks(payload);
+      break;
+    case "email_preview":
+      body = renderEmailPreview(payload);
+      break;
+  }
+
+  return new AdaptiveCard(...body)
+    .withVersion("1.5")
+    .withFallbackText(renderPayloadText(payload));
+}
+
+/**
+ * Render a capability payload as plain markdown text
+ */
+export function renderPayloadText(payload: CapabilityPayload): string {
+  switch (payload.type) {
+    case "summary":
+      return [
+        `**${payload.title}**`,
+        ...payload.sections.map(
+          (section) =>
+            `\n**${section.heading}**\n${section.points.map((point) => `- ${point}`).join("\n")}`
+        ),
+      ].join("\n");
+    case "action_items":
+      return [
+        `**${payload.title}**`,
+        ...payload.items.map((item) => {
+          const owner = item.owner ? ` — ${item.owner}` : "";
+          const due = item.dueDate ? ` (due ${item.dueDate})` : "";
+          const status = item.status ? ` [${item.status}]` : "";
+          const id = item.id !== undefined ? `#${item.id} ` : "";
+          return `- ${id}${item.task}${owner}${due}${status}`;
+        }),
+      ].join("\n");
+    case "planner_tasks":
+      return [
+        `**${payload.title}**`,
+        ...payload.tasks.map((task) => {
+          const details = [
+            task.assignees?.length ? task.assignees.join(", ") : undefined,
+            task.dueDate ? `due ${task.dueDate}` : undefined,
+            task.priority,
+            task.note,
+          ].filter(Boolean);
+          return `- ${TASK_STATUS_ICONS[task.status]} ${task.title}${
+            details.length ? ` (${details.join(", ")})` : ""
+          }`;
+        }),
+      ].join("\n");
+    case "email_preview":
+      return [
+        `**${EMAIL_STATUS_LABELS[payload.status]}: ${payload.subject}**`,
+        `To: ${payload.to.join(", ")}`,
+        ...(payload.cc?.length ? [`Cc: ${payload.cc.join(", ")}`] : []),
+        "",
+        payload.body,
+      ].join("\n");
+  }
+}
+
+const TASK_STATUS_ICONS: Record<PlannerTasksPayload["tasks"][number]["status"], string> = {
+  created: "✅",
+  updated: "📝",
+  skipped: "⏭️",
+  failed: "❌",
+  preview: "👀",
+};
+
+const EMAIL_STATUS_LABELS: Record<EmailPreviewPayload["status"], string> = {
+  sent: "📧 Email sent",
+  draft: "📝 Email draft",
+  failed: "❌ Email not sent",
+  cancelled: "🚫 Email cancelled",
+};
+
+function title(text: string): TextBlock {
+  return new TextBlock(text, { size: "Medium", weight: "Bolder", wrap: true });
+}
+
+function renderSummary(payload: SummaryPayload): CardElement[] {
+  return [
+    title(payload.title),
+    ...payload.sections.map(
+      (section) =>
+        new Container(
+          new TextBlock(section.heading, { weight: "Bolder", wrap: true }),
+          ...section.points.map((point) => new TextBlock(`• ${point}`, { wrap: true, spacing: "Small" }))
+        ).withSeparator(true)
+    ),
+  ];
+}
+
+function renderActionItems(payload: ActionItemsPayload): CardElement[] {
+  if (payload.items.length === 0) {
+    return [title(payload.title), new TextBlock("No action items found.", { isSubtle: true, wrap: true })];
+  }
+
+  return [
+    title(payload.title),
+    ...payload.items.map((item) => {
+      const facts = [
+        new Fact("Owner", item.owner || "Unassigned"),
+        ...(item.dueDate ? [new Fact("Due", item.dueDate)] : []),
+        ...(item.status ? [new Fact("Status", item.status)] : []),
+      ];
+      return new Container(
+        new TextBlock(
+          `${item.status === "done" ? "☑" : "☐"} ${item.id !== undefined ? `#${item.id} ` : ""}${item.task}`,
+          { weight: "Bolder", wrap: true }
+        ),
+        new FactSet(...facts)
+      ).withSeparator(true);
+    }),
+  ];
+}
+
+function renderPlannerTasks(payload: PlannerTasksPayload): CardElement[] {
+  return [
+    title(payload.title),
+    ...payload.tasks.map((task) => {
+      const facts = [
+        ...(task.assignees?.length ? [new Fact("Assigned to", task.assignees.join(", "))] : []),
+        ...(task.dueDate ? [new Fact("Due", task.dueDate)] : []),
+        ...(task.priority ? [new Fact("Priority", task.priority)] : []),
+        ...(task.note ? [new Fact("Note", task.note)] : []),
+      ];
+      return new Container(
+        new TextBlock(`${TASK_STATUS_ICONS[task.status]} ${task.title}`, { weight: "Bolder", wrap: true }),
+        ...(facts.length ? [new FactSet(...facts)] : [])
+      ).withSeparator(true);
+    }),
+  ];
+}
+
+function renderEmailPreview(payload: EmailPreviewPayload): CardElement[] {
+  const facts = [
+    ...(payload.from ? [new Fact("From", payload.from)] : []),
+    new Fact("To", payload.to.join(", ")),
+    ...(payload.cc?.length ? [new Fact("Cc", payload.cc.join(", "))] : []),
+    new Fact("Subject", payload.subject),
+  ];
+
+  return [
+    title(EMAIL_STATUS_LABELS[payload.status]),
+    new FactSet(...facts),
+    new Container(new TextBlock(payload.body, { wrap: true })).withSeparator(true),
+    ...(payload.status === "draft" && payload.draftId !== undefined
+      ? [renderDraftActions(payload, payload.draftId)]
+      : []),
+  ];
+}
+
+// Buttons invoke the bot (Action.Execute), which answers with the updated card
+function renderDraftActions(payload: EmailPreviewPayload, draftId: number): ActionSet {
+  const data = { draftId };
+  const editCard = new AdaptiveCard(
+    new TextInput({ id: "to", label: "To", value: payload.to.join(", "), isRequired: true }),
+    new TextInput({ id: "cc", label: "Cc", value: payload.cc?.join(", ") ?? "" }),
+    new TextInput({ id: "subject", label: "Subject", value: payload.subject, isRequired: true }),
+    new TextInput({ id: "body", label: "Message", value: payload.body, isMultiline: true })
+  ).withActions(
+    new ExecuteAction({ title: "Save changes", verb: EMAIL_DRAFT_VERBS.edit, data })
+  );
+
+  return new ActionSet(
+    new ExecuteAction({
+      title: "Send",
+      verb: EMAIL_DRAFT_VERBS.send,
+      data,
+      style: "positive",
+    }),
+    new ShowCardAction({ title: "Edit", card: editCard }),
+    new ExecuteAction({
+      title: "Cancel",
+      verb: EMAIL_DRAFT_VERBS.cancel,
+      data,
+      style: "destructive",
+    })
+  );
+}
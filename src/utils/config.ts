@@ -1,11 +1,23 @@
 import { ILogger } from "@microsoft/teams.common";
+import { RateLimit } from "../storage/types";
+import { configuredCapabilities, getModelSettings, loadModelConfigFile } from "./modelConfigFile";
 
 // Configuration for AI models used by different capabilities
 export interface ModelConfig {
+  // Registered name in services/modelProviders: "azure-openai", "openai" or "scripted"
+  provider: string;
   model: string;
   apiKey: string;
+  // Azure OpenAI resource endpoint, or the base URL of an OpenAI-compatible server
   endpoint: string;
   apiVersion: string;
+  // JSON script of replies for the scripted provider
+  scriptPath?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // USD per million tokens, for models missing from the usage tracker's price table
+  inputCostPerMillion?: number;
+  outputCostPerMillion?: number;
 }
 
 // Database configuration
@@ -30,103 +42,250 @@ export const DATABASE_CONFIG: DatabaseConfig = {
   sqlitePath: process.env.CONVERSATIONS_DB_PATH,
 };
 
-// Model configurations for different capabilities
-export const AI_MODELS = {
-  // Manager Capability - Uses lighter, faster model for routing decisions
-  MANAGER: {
-    model: "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Summarizer Capability - Uses more capable model for complex analysis
-  SUMMARIZER: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Action Items Capability - Uses capable model for analysis and task management
-  ACTION_ITEMS: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Search Capability - Uses capable model for semantic search and deep linking
-  SEARCH: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Meeting Manager Capability - For meeting transcripts and intelligence
-  MEETING_MANAGER: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Email Sender Capability - For composing and sending emails
-  EMAIL_SENDER: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Planner Capability - For task management
-  PLANNER: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
-
-  // Default model configuration (fallback)
-  DEFAULT: {
-    model: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1",
-    apiKey: process.env.AZURE_OPENAI_KEY!,
-    endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
-  } as ModelConfig,
+// Embedding configuration for semantic search
+export interface EmbeddingConfig {
+  // "azure" calls an Azure OpenAI embedding deployment; "local" hashes words in process
+  provider: "azure" | "local";
+  model: string;
+  apiKey: string;
+  endpoint: string;
+  apiVersion: string;
+}
+
+export const EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider:
+    (process.env.EMBEDDING_PROVIDER as EmbeddingConfig["provider"]) ||
+    (process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT ? "azure" : "local"),
+  model: process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || "text-embedding-3-small",
+  apiKey: process.env.AZURE_OPENAI_KEY!,
+  endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
+  apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
+};
+
+// Email transport configuration
+export interface EmailTransportConfig {
+  // "graph" sends from the bot's mailbox through Microsoft Graph (needs Mail.Send), "smtp"
+  // through any SMTP server, and "outbox" only writes .eml files to a directory
+  transport: "graph" | "smtp" | "outbox";
+  from: string;
+  smtp: {
+    host: string;
+    port: number;
+    // true connects with TLS from the start (usually port 465); otherwise STARTTLS is used
+    // when the server offers it
+    secure: boolean;
+    username?: string;
+    password?: string;
+  };
+  outboxDir: string;
+}
+
+export const EMAIL_TRANSPORT_CONFIG: EmailTransportConfig = {
+  transport:
+    (process.env.EMAIL_TRANSPORT as EmailTransportConfig["transport"]) ||
+    (process.env.SMTP_HOST ? "smtp" : "graph"),
+  from: process.env.BOT_EMAIL_ADDRESS || "ai.solutions@armely.com",
+  smtp: {
+    host: process.env.SMTP_HOST || "localhost",
+    port: Number(process.env.SMTP_PORT) || (process.env.SMTP_SECURE === "true" ? 465 : 587),
+    secure: process.env.SMTP_SECURE === "true",
+    username: process.env.SMTP_USERNAME,
+    password: process.env.SMTP_PASSWORD,
+  },
+  outboxDir: process.env.EMAIL_OUTBOX_DIR || "./outbox",
+};
+
+// Live meeting audio streamed to the bot. The route is only served when AUDIO_INGEST_TOKEN is
+// set, and callers must send it as a bearer token.
+export const AUDIO_INGESTION_CONFIG = {
+  token: process.env.AUDIO_INGEST_TOKEN || "",
+  // "azure" (Azure Speech), or "fake" for placeholder text without a speech service
+  speechProvider: process.env.SPEECH_PROVIDER || "azure",
+};
+
+// Recordings are checked and decoded locally before they reach the speech service
+export const AUDIO_INPUT_CONFIG = {
+  maxFileMb: parseInt(process.env.AUDIO_MAX_FILE_MB || "500"),
+  maxDurationMinutes: parseInt(process.env.AUDIO_MAX_DURATION_MINUTES || "240"),
+  // Decodes mp3 and m4a recordings
+  ffmpegPath: process.env.FFMPEG_PATH || "ffmpeg",
+};
+
+// Telling speakers apart in transcribed recordings
+export const DIARIZATION_CONFIG = {
+  // "azure" (Speech service conversation transcription), or "local" to cluster voices on the CPU
+  provider: process.env.DIARIZATION_PROVIDER || "azure",
+  maxSpeakers: parseInt(process.env.DIARIZATION_MAX_SPEAKERS || "10"),
 };
 
-// Helper function to get model config for a specific capability
-export function getModelConfig(capabilityType: string): ModelConfig {
-  switch (capabilityType.toLowerCase()) {
-    case "manager":
-      return AI_MODELS.MANAGER;
-    case "summarizer":
-      return AI_MODELS.SUMMARIZER;
-    case "actionitems":
-      return AI_MODELS.ACTION_ITEMS;
-    case "search":
-      return AI_MODELS.SEARCH;
-    case "meeting_manager":
-      return AI_MODELS.MEETING_MANAGER;
-    case "email_sender":
-      return AI_MODELS.EMAIL_SENDER;
-    case "planner":
-      return AI_MODELS.PLANNER;
+// Users allowed to run admin commands such as "usage", by AAD object id, Teams id or email
+export const BOT_ADMINS = (process.env.BOT_ADMINS || "")
+  .split(",")
+  .map((admin) => admin.trim().toLowerCase())
+  .filter(Boolean);
+
+// Where the admin "export user" command writes its JSON files
+export const USER_DATA_EXPORT_DIR = process.env.USER_DATA_EXPORT_DIR || "./exports";
+
+// Provider chosen for every capability without its own LLM_PROVIDER_<KEY>
+const DEFAULT_MODEL_PROVIDER =
+  process.env.LLM_PROVIDER ||
+  (!process.env.AZURE_OPENAI_KEY && (process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY)
+    ? "openai"
+    : "azure-openai");
+
+const CHAT_DEPLOYMENT = process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4.1";
+
+// Capabilities with their own model settings, named as in their `name`. Any other name uses
+// the "default" settings unless the model config file has an entry for it.
+export const MODEL_CAPABILITIES = [
+  "manager",
+  "summarizer",
+  "action_items",
+  "search",
+  "meeting_manager",
+  "email_sender",
+  "planner",
+  "digest",
+];
+
+/**
+ * Model settings for a capability, by its name (e.g., "meeting_manager"). The model config
+ * file wins; the environment fills in the rest, where LLM_PROVIDER_<NAME> and LLM_MODEL_<NAME>
+ * (e.g., LLM_PROVIDER_SUMMARIZER=openai) apply to one capability alone.
+ */
+export function getModelConfig(capability: string): ModelConfig {
+  const name = capability.toLowerCase();
+  const envKey = MODEL_CAPABILITIES.includes(name) ? name.toUpperCase() : "DEFAULT";
+  const settings = getModelSettings(name);
+  const provider =
+    settings.provider || process.env[`LLM_PROVIDER_${envKey}`] || DEFAULT_MODEL_PROVIDER;
+  const base = providerDefaults(provider, envKey);
+
+  return {
+    ...base,
+    model: settings.model ?? base.model,
+    endpoint: settings.endpoint ?? base.endpoint,
+    apiVersion: settings.apiVersion ?? base.apiVersion,
+    apiKey: settings.apiKeyEnv ? process.env[settings.apiKeyEnv] || "" : base.apiKey,
+    scriptPath: settings.scriptPath ?? base.scriptPath,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    inputCostPerMillion: settings.inputCostPerMillion,
+    outputCostPerMillion: settings.outputCostPerMillion,
+  };
+}
+
+// What each provider uses when the model config file doesn't say otherwise
+function providerDefaults(provider: string, envKey: string): ModelConfig {
+  const model = process.env[`LLM_MODEL_${envKey}`];
+
+  switch (provider) {
+    case "openai":
+      return {
+        provider,
+        model: model || process.env.OPENAI_MODEL || "gpt-4.1",
+        apiKey: process.env.OPENAI_API_KEY || "",
+        endpoint: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiVersion: "",
+      };
+    case "scripted":
+      return {
+        provider,
+        model: model || "scripted",
+        apiKey: "",
+        endpoint: "",
+        apiVersion: "",
+        scriptPath:
+          process.env[`SCRIPTED_MODEL_PATH_${envKey}`] || process.env.SCRIPTED_MODEL_PATH,
+      };
     default:
-      return AI_MODELS.DEFAULT;
+      return {
+        provider,
+        model: model || CHAT_DEPLOYMENT,
+        apiKey: process.env.AZURE_OPENAI_KEY!,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-05-01-preview",
+      };
   }
 }
 
-// Environment validation
-export function validateEnvironment(logger: ILogger): void {
-  const requiredEnvVars = ["AZURE_OPENAI_KEY", "AZURE_OPENAI_ENDPOINT"];
-  const missing = requiredEnvVars.filter((envVar) => !process.env[envVar]);
+// Rate limits as "<requests>/<period>" (e.g. "30/hour", "5/10m") or "off". The user and
+// conversation limits apply to every message the bot answers; RATE_LIMIT_<CAPABILITY>
+// (e.g. RATE_LIMIT_SUMMARIZER=10/hour) limits each user's use of one capability.
+export const RATE_LIMIT_CONFIG = {
+  user: process.env.RATE_LIMIT_USER || "30/hour",
+  conversation: process.env.RATE_LIMIT_CONVERSATION || "60/hour",
+  capabilities: Object.fromEntries(
+    MODEL_CAPABILITIES.filter((name) => process.env[`RATE_LIMIT_${name.toUpperCase()}`]).map(
+      (name) => [name, process.env[`RATE_LIMIT_${name.toUpperCase()}`]!]
+    )
+  ) as Record<string, string>,
+};
+
+const RATE_PERIODS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
 
-  if (missing.length > 0) {
-    throw new Error(`Missing required environment variables: ${missing.join(", ")}`);
+/**
+ * Parse a rate such as "30/hour", "5/10m" or "100/day"; null means "off". Throws on anything
+ * else so a typo doesn't silently remove a limit.
+ */
+export function parseRateLimit(rate: string): RateLimit | null {
+  const value = rate.trim().toLowerCase();
+  if (value === "off") return null;
+
+  const match = value.match(
+    /^(\d+)\s*\/\s*(\d+)?\s*(s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?)$/
+  );
+  if (!match || Number(match[1]) < 1 || match[2] === "0") {
+    throw new Error(`Invalid rate limit "${rate}". Use e.g. "30/hour", "5/10m" or "off".`);
+  }
+  return {
+    capacity: Number(match[1]),
+    periodMs: Number(match[2] ?? 1) * RATE_PERIODS[match[3][0]],
+  };
+}
+
+// Messages older than RETENTION_DAYS are purged by the retention sweeper; "off" keeps them
+// forever. Retention is off, with no sweeper at all, unless RETENTION_DAYS is set. Admins can
+// then override the period for a single conversation.
+export const RETENTION_CONFIG = {
+  enabled: Boolean(process.env.RETENTION_DAYS),
+  days: process.env.RETENTION_DAYS || "off",
+  sweepIntervalMs: Number(process.env.RETENTION_SWEEP_INTERVAL_MINUTES || 60) * 60 * 1000,
+};
+
+/**
+ * Parse a retention period in days ("90", "30 days"); null means "off" (keep forever). Throws
+ * on anything else so a typo doesn't purge the wrong messages.
+ */
+export function parseRetentionDays(days: string): number | null {
+  const value = days.trim().toLowerCase();
+  if (value === "off" || value === "forever") return null;
+
+  const match = value.match(/^(\d+)\s*(d|days?)?$/);
+  if (!match || Number(match[1]) < 1) {
+    throw new Error(`Invalid retention period "${days}". Use a number of days or "off".`);
   }
+  return Number(match[1]);
+}
+
+// Every model configuration in use: the known capabilities, the file's own entries and the
+// fallback
+export function allModelConfigs(): Array<[string, ModelConfig]> {
+  const names = new Set([...MODEL_CAPABILITIES, ...configuredCapabilities(), "default"]);
+  return [...names].map((name) => [name, getModelConfig(name)]);
+}
+
+// Environment validation
+export function validateEnvironment(logger: ILogger): void {
+  // Throws when the model config file doesn't match its schema. The providers it names are
+  // checked by validateModelConfigs in services/modelProviders.
+  loadModelConfigFile();
 
   // Validate database configuration
   if (DATABASE_CONFIG.type === "mssql") {
@@ -144,16 +303,78 @@ export function validateEnvironment(logger: ILogger): void {
     }
   }
 
+  // Validate email transport configuration
+  if (!["graph", "smtp", "outbox"].includes(EMAIL_TRANSPORT_CONFIG.transport)) {
+    throw new Error(
+      `Unknown EMAIL_TRANSPORT "${EMAIL_TRANSPORT_CONFIG.transport}". Use graph, smtp or outbox.`
+    );
+  }
+  if (EMAIL_TRANSPORT_CONFIG.transport === "smtp" && !process.env.SMTP_HOST) {
+    logger.warn("SMTP_HOST is not set. Sending email through SMTP on localhost.");
+  }
+
+  // Validate live audio ingestion
+  if (
+    AUDIO_INGESTION_CONFIG.token &&
+    AUDIO_INGESTION_CONFIG.speechProvider === "azure" &&
+    (!process.env.AZURE_SPEECH_KEY || !process.env.AZURE_SPEECH_REGION)
+  ) {
+    logger.warn(
+      "AUDIO_INGEST_TOKEN is set but Azure Speech is not configured. Streamed audio will be rejected."
+    );
+  }
+
+  // Validate audio limits
+  if (!(AUDIO_INPUT_CONFIG.maxFileMb > 0) || !(AUDIO_INPUT_CONFIG.maxDurationMinutes > 0)) {
+    throw new Error("AUDIO_MAX_FILE_MB and AUDIO_MAX_DURATION_MINUTES must be positive numbers");
+  }
+
+  // Validate diarization; the Speech service separates at most 36 speakers
+  if (
+    !Number.isInteger(DIARIZATION_CONFIG.maxSpeakers) ||
+    DIARIZATION_CONFIG.maxSpeakers < 2 ||
+    DIARIZATION_CONFIG.maxSpeakers > 36
+  ) {
+    throw new Error("DIARIZATION_MAX_SPEAKERS must be a whole number from 2 to 36");
+  }
+
+  // Validate rate limits; throws on a malformed rate
+  for (const rate of [
+    RATE_LIMIT_CONFIG.user,
+    RATE_LIMIT_CONFIG.conversation,
+    ...Object.values(RATE_LIMIT_CONFIG.capabilities),
+  ]) {
+    parseRateLimit(rate);
+  }
+
+  // Validate data retention; throws on a malformed period
+  parseRetentionDays(RETENTION_CONFIG.days);
+  if (!(RETENTION_CONFIG.sweepIntervalMs > 0)) {
+    throw new Error(
+      `Invalid RETENTION_SWEEP_INTERVAL_MINUTES "${process.env.RETENTION_SWEEP_INTERVAL_MINUTES}".`
+    );
+  }
+
   logger.debug(`📦 Using database: ${DATABASE_CONFIG.type}`);
+  logger.debug(`📧 Using email transport: ${EMAIL_TRANSPORT_CONFIG.transport}`);
   logger.debug("✅ Environment validation passed");
 }
 
 // Model configuration logging
 export function logModelConfigs(logger: ILogger): void {
   logger.debug("🔧 AI Model Configuration:");
-  logger.debug(`  Manager Capability: ${AI_MODELS.MANAGER.model}`);
-  logger.debug(`  Summarizer Capability: ${AI_MODELS.SUMMARIZER.model}`);
-  logger.debug(`  Action Items Capability: ${AI_MODELS.ACTION_ITEMS.model}`);
-  logger.debug(`  Search Capability: ${AI_MODELS.SEARCH.model}`);
-  logger.debug(`  Default Model: ${AI_MODELS.DEFAULT.model}`);
+  for (const [name, config] of allModelConfigs()) {
+    logger.debug(`  ${name}: ${config.model} (${config.provider})`);
+  }
+  logger.debug(
+    `  Embeddings: ${
+      EMBEDDING_CONFIG.provider === "azure" ? EMBEDDING_CONFIG.model : "local (hashed words)"
+    }`
+  );
+
+  for (const name of configuredCapabilities()) {
+    if (!MODEL_CAPABILITIES.includes(name)) {
+      logger.warn(`⚠️ Model config has settings for "${name}", which is not a capability`);
+    }
+  }
 }
@@ -1,6 +1,9 @@
-import { CitationAppearance, Client, IMessageActivity } from "@microsoft/teams.api";
+import { Attachment, CitationAppearance, Client, IMessageActivity } from "@microsoft/teams.api";
+import { CapabilityPayload } from "../capabilities/capability";
+import { SemanticIndex } from "../services/semanticIndex";
 import { ConversationMemory } from "../storage/conversationMemory";
 import { IDatabase } from "../storage/database";
+import { BOT_ADMINS } from "./config";
 
 /**
  * Context object that stores all important information for processing a message
@@ -8,17 +11,23 @@ import { IDatabase } from "../storage/database";
 export interface MessageContext {
   text: string;
   conversationId: string;
+  conversationName?: string; // Chat title, when the chat has one
   userId?: string;
   userUpn?: string; // User Principal Name (email) for Graph API calls
   userName: string;
   timestamp: string;
   isPersonalChat: boolean;
+  timezone?: string; // IANA time zone reported by the user's Teams client
   activityId: string;
   members: Array<{ name: string; id: string; email?: string }>; // Available conversation members
   memory: ConversationMemory; // get convo memory by agent type
+  storage: IDatabase; // shared database for stores that span conversations (e.g., action item ledger)
   startTime: string;
   endTime: string;
   citations: CitationAppearance[];
+  payloads: CapabilityPayload[]; // structured capability output rendered as cards
+  attachments: Attachment[]; // sent with the reply as they are, e.g. a file offered to the user
+  capabilities: string[]; // capabilities that ran for this message, recorded with the reply
 }
 
 async function getConversationParticipantsFromAPI(
@@ -49,10 +58,12 @@ async function getConversationParticipantsFromAPI(
 export async function createMessageContext(
   storage: IDatabase,
   activity: IMessageActivity,
-  api?: Client
+  api?: Client,
+  semanticIndex?: SemanticIndex
 ): Promise<MessageContext> {
   const text = activity.text || "";
   const conversationId = `${activity.conversation.id}`;
+  const conversationName = activity.conversation.name;
   const userId = activity.from.id;
   // Extract UPN (email) from the activity if available
   const userUpn = (activity.from as any).userPrincipalName || 
@@ -61,6 +72,9 @@ export async function createMessageContext(
   const userName = activity.from.name || "User";
   const timestamp = activity.timestamp?.toString() || "Unknown";
   const isPersonalChat = activity.conversation.conversationType === "personal";
+  const timezone =
+    (activity as any).localTimezone ||
+    activity.entities?.find((e: any) => e.type === "clientInfo")?.timezone;
   const activityId = activity.id;
 
   // Fetch members for group conversations
@@ -69,29 +83,83 @@ export async function createMessageContext(
     members = await getConversationParticipantsFromAPI(api, conversationId);
   }
 
-  const memory = new ConversationMemory(storage, conversationId);
+  const memory = new ConversationMemory(storage, conversationId, semanticIndex);
 
   const now = new Date();
 
   const startTime = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
   const endTime = now.toISOString();
   const citations: CitationAppearance[] = [];
+  const payloads: CapabilityPayload[] = [];
+  const attachments: Attachment[] = [];
+  const capabilities: string[] = [];
 
   const context: MessageContext = {
     text,
     conversationId,
+    conversationName,
     userId,
     userUpn,
     userName,
     timestamp,
     isPersonalChat,
+    timezone,
     activityId,
     members,
     memory,
+    storage,
     startTime,
     endTime,
     citations,
+    payloads,
+    attachments,
+    capabilities,
   };
 
   return context;
 }
+
+/**
+ * Create a MessageContext for work the bot starts on its own (e.g., scheduled digests),
+ * where there is no incoming activity or user to respond to
+ */
+export function createSystemMessageContext(
+  storage: IDatabase,
+  conversationId: string,
+  text: string,
+  startTime: string,
+  endTime: string
+): MessageContext {
+  return {
+    text,
+    conversationId,
+    userName: "Collaborator",
+    timestamp: new Date().toISOString(),
+    isPersonalChat: false,
+    activityId: "",
+    members: [],
+    memory: new ConversationMemory(storage, conversationId),
+    storage,
+    startTime,
+    endTime,
+    citations: [],
+    payloads: [],
+    attachments: [],
+    capabilities: [],
+  };
+}
+
+/**
+ * Whether the sender is listed in BOT_ADMINS, by Teams id or by UPN / AAD object id
+ */
+export function isBotAdmin(context: MessageContext): boolean {
+  return isBotAdminId(context.userId, context.userUpn);
+}
+
+/**
+ * Whether any of a user's ids is listed in BOT_ADMINS, for activities without a MessageContext
+ */
+export function isBotAdminId(...userIds: (string | undefined)[]): boolean {
+  const ids = userIds.filter(Boolean).map((id) => id!.toLowerCase());
+  return ids.some((id) => BOT_ADMINS.includes(id));
+}
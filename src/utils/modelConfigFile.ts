@@ -0,0 +1,183 @@
+import { ILogger } from "@microsoft/teams.common";
+import fs from "node:fs";
+
+/**
+ * Model Config File
+ * Per-capability model settings read from a JSON file (MODEL_CONFIG_PATH, default
+ * models.json) and reloaded when the file changes, so models can be swapped without a restart.
+ *
+ * {
+ *   "defaults": { "provider": "azure-openai", "model": "gpt-4.1", "temperature": 0.2 },
+ *   "capabilities": {
+ *     "manager": { "model": "gpt-4.1-mini" },
+ *     "summarizer": { "maxTokens": 4000 }
+ *   }
+ * }
+ *
+ * Settings in the file win over the environment; anything left out falls back to it.
+ */
+
+export interface ModelSettings {
+  provider?: string;
+  model?: string;
+  endpoint?: string;
+  apiVersion?: string;
+  // Name of the environment variable holding the API key; keys never go in the file itself
+  apiKeyEnv?: string;
+  temperature?: number;
+  maxTokens?: number;
+  scriptPath?: string;
+  // Prices in USD per million tokens, used for the usage report
+  inputCostPerMillion?: number;
+  outputCostPerMillion?: number;
+}
+
+export interface ModelConfigFile {
+  defaults?: ModelSettings;
+  capabilities?: Record<string, ModelSettings>;
+}
+
+export const MODEL_CONFIG_PATH = process.env.MODEL_CONFIG_PATH || "models.json";
+
+const STRING_SETTINGS = ["provider", "model", "endpoint", "apiVersion", "apiKeyEnv", "scriptPath"];
+const PRICE_SETTINGS = ["inputCostPerMillion", "outputCostPerMillion"];
+const WATCH_INTERVAL_MS = 2000;
+
+let current: ModelConfigFile = {};
+
+/**
+ * Settings for one capability: the file's defaults with the capability's own entry on top
+ */
+export function getModelSettings(capability: string): ModelSettings {
+  return { ...current.defaults, ...current.capabilities?.[capability] };
+}
+
+export function configuredCapabilities(): string[] {
+  return Object.keys(current.capabilities ?? {});
+}
+
+/**
+ * Read and validate the file, replacing the settings in use. A missing file means no
+ * settings unless MODEL_CONFIG_PATH points at it explicitly.
+ */
+export function loadModelConfigFile(filePath: string = MODEL_CONFIG_PATH): ModelConfigFile {
+  if (!fs.existsSync(filePath)) {
+    if (process.env.MODEL_CONFIG_PATH) {
+      throw new Error(`Model config file not found: ${filePath}`);
+    }
+    current = {};
+    return current;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Model config file ${filePath} is not valid JSON: ${reason}`);
+  }
+
+  const errors = validateModelConfigFile(parsed);
+  if (errors.length > 0) {
+    const details = errors.map((error) => `  - ${error}`).join("\n");
+    throw new Error(`Invalid model config file ${filePath}:\n${details}`);
+  }
+  current = parsed as ModelConfigFile;
+  return current;
+}
+
+/**
+ * Reload the file whenever it changes. `validate` checks the reloaded settings the way startup
+ * does and throws to reject them; an invalid edit is logged and the previous settings stay in
+ * use. Returns a function that stops watching.
+ */
+export function watchModelConfigFile(
+  logger: ILogger,
+  validate: () => void,
+  onReload: () => void,
+  filePath: string = MODEL_CONFIG_PATH
+): () => void {
+  // Polling survives editors that save by replacing the file, which breaks fs.watch
+  const listener = (currentStat: fs.Stats, previousStat: fs.Stats) => {
+    if (currentStat.mtimeMs === previousStat.mtimeMs) return;
+    const previous = current;
+    try {
+      loadModelConfigFile(filePath);
+      validate();
+      logger.info(`🔄 Reloaded model config from ${filePath}`);
+      onReload();
+    } catch (error) {
+      current = previous;
+      logger.error(
+        `❌ Keeping the previous model config: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  fs.watchFile(filePath, { interval: WATCH_INTERVAL_MS, persistent: false }, listener);
+  return () => fs.unwatchFile(filePath, listener);
+}
+
+/**
+ * Check the file's shape, returning every problem found rather than stopping at the first
+ */
+export function validateModelConfigFile(value: unknown): string[] {
+  if (!isObject(value)) return ["the file must contain a JSON object"];
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (key !== "defaults" && key !== "capabilities" && key !== "$schema") {
+      errors.push(`unknown top-level key "${key}" (expected "defaults" or "capabilities")`);
+    }
+  }
+
+  if (value.defaults !== undefined) {
+    errors.push(...validateSettings(value.defaults, "defaults"));
+  }
+  if (value.capabilities !== undefined) {
+    if (!isObject(value.capabilities)) {
+      errors.push("capabilities must be an object keyed by capability name");
+    } else {
+      for (const [name, settings] of Object.entries(value.capabilities)) {
+        // Capabilities ask for their settings by their lowercase name, e.g. "meeting_manager"
+        if (name !== name.toLowerCase()) {
+          errors.push(`capabilities.${name} must be written in lowercase`);
+        }
+        errors.push(...validateSettings(settings, `capabilities.${name}`));
+      }
+    }
+  }
+  return errors;
+}
+
+function validateSettings(settings: unknown, at: string): string[] {
+  if (!isObject(settings)) return [`${at} must be an object`];
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(settings)) {
+    if (STRING_SETTINGS.includes(key)) {
+      if (typeof value !== "string" || !value.trim()) {
+        errors.push(`${at}.${key} must be a non-empty string`);
+      }
+    } else if (key === "temperature") {
+      if (typeof value !== "number" || value < 0 || value > 2) {
+        errors.push(`${at}.temperature must be a number from 0 to 2`);
+      }
+    } else if (key === "maxTokens") {
+      if (!Number.isInteger(value) || (value as number) <= 0) {
+        errors.push(`${at}.maxTokens must be a positive integer`);
+      }
+    } else if (PRICE_SETTINGS.includes(key)) {
+      if (typeof value !== "number" || value < 0) {
+        errors.push(`${at}.${key} must be a number of at least 0`);
+      }
+    } else {
+      errors.push(`${at}.${key} is not a model setting`);
+    }
+  }
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,63 @@
+/**
+ * Return the time zone if the runtime recognizes it, otherwise UTC
+ */
+export function normalizeTimeZone(timezone?: string): string {
+  if (!timezone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * The calendar date and wall-clock time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second"),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+export function getZoneOffset(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in a time zone happens at
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  // Correct twice so times next to a DST change land on the right offset
+  let utc = wallClock - getZoneOffset(new Date(wallClock), timezone);
+  utc = wallClock - getZoneOffset(new Date(utc), timezone);
+  return new Date(utc);
+}
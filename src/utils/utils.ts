@@ -2,10 +2,12 @@ import { IMessageActivity, MessageActivity } from "@microsoft/teams.api";
 import { ILogger } from "@microsoft/teams.common";
 import * as chrono from "chrono-node";
 import { MessageRecord } from "../storage/types";
+import { renderPayloadCard } from "./cards";
 import { MessageContext } from "./messageContext";
+import { getZonedParts, getZoneOffset, normalizeTimeZone, zonedTimeToUtc } from "./timeZones";
 
 /**
- * Helper function to finalize and send a prompt response with citations
+ * Helper function to finalize and send a prompt response with citations and cards
  */
 export function finalizePromptResponse(
   text: string,
@@ -27,6 +29,15 @@ export function finalizePromptResponse(
     });
   }
 
+  // Render structured capability output as Adaptive Cards
+  for (const payload of context.payloads) {
+    logger.debug(`Adding ${payload.type} card to message activity`);
+    messageActivity.addCard("adaptive", renderPayloadCard(payload));
+  }
+  if (context.attachments.length > 0) {
+    messageActivity.addAttachments(...context.attachments);
+  }
+
   return messageActivity;
 }
 
@@ -49,6 +60,98 @@ export function extractTimeRange(
   return { from, to };
 }
 
+/**
+ * The start of a "since" time range. A day named without its week or year ("monday",
+ * "march 3") is the latest one up to now rather than the nearest, and a day given without a
+ * time starts at midnight in the user's time zone. Can still be in the future, e.g. "tomorrow".
+ */
+export function extractStartTime(
+  phrase: string,
+  now: Date = new Date(),
+  timezone?: string
+): Date | null {
+  return resolvePastTime(phrase, now, timezone)?.start ?? null;
+}
+
+/**
+ * The end of an "until" time range, read like `extractStartTime`: a day given without a time
+ * runs to the following midnight, or to now for today. Can still be in the future, e.g.
+ * "tomorrow".
+ */
+export function extractEndTime(
+  phrase: string,
+  now: Date = new Date(),
+  timezone?: string
+): Date | null {
+  const time = resolvePastTime(phrase, now, timezone);
+  if (!time) return null;
+  if (time.timed) return time.start;
+  return time.start <= now && time.nextDay > now ? now : time.nextDay;
+}
+
+// The time a phrase names, and the midnight that ends its day, in the user's time zone
+function resolvePastTime(
+  phrase: string,
+  now: Date,
+  timezone?: string
+): { start: Date; nextDay: Date; timed: boolean } | null {
+  const zone = normalizeTimeZone(timezone);
+  const reference = { instant: now, timezone: getZoneOffset(now, zone) / 60_000 };
+  const parsed = chrono.parse(phrase, reference, { forwardDate: false })[0]?.start;
+  if (!parsed) return null;
+
+  const day = getZonedParts(parsed.date(), zone);
+  const timed = parsed.isCertain("hour");
+  const resolve = (year: number, dayOfMonth: number) => ({
+    start: zonedTimeToUtc(
+      year,
+      day.month,
+      dayOfMonth,
+      timed ? day.hour : 0,
+      timed ? day.minute : 0,
+      zone
+    ),
+    nextDay: zonedTimeToUtc(year, day.month, dayOfMonth + 1, 0, 0, zone),
+    timed,
+  });
+
+  const time = resolve(day.year, day.day);
+  if (time.start > now && parsed.isCertain("weekday") && !parsed.isCertain("day")) {
+    return resolve(day.year, day.day - 7);
+  }
+  if (time.start > now && parsed.isCertain("month") && !parsed.isCertain("year")) {
+    return resolve(day.year - 1, day.day);
+  }
+  return time;
+}
+
+/**
+ * The period an admin report covers, with a label for its heading ("for October 2026").
+ * "this month" (the default) and "last month" are calendar months in UTC; anything else is
+ * read as a time phrase and runs up to now.
+ */
+export function resolveReportPeriod(
+  phrase: string,
+  now: Date = new Date()
+): { from: Date; to: Date; label: string } | null {
+  const normalized = phrase.trim().toLowerCase();
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (!normalized || normalized === "this month") {
+    const from = new Date(Date.UTC(year, month, 1));
+    return { from, to: now, label: monthLabel(from) };
+  }
+  if (normalized === "last month") {
+    const from = new Date(Date.UTC(year, month - 1, 1));
+    return { from, to: new Date(Date.UTC(year, month, 1)), label: monthLabel(from) };
+  }
+
+  const range = extractTimeRange(phrase, now);
+  if (!range) return null;
+  return { from: range.from, to: now, label: `since ${range.from.toISOString().slice(0, 10)}` };
+}
+
 export function createMessageRecords(activities: IMessageActivity[]): MessageRecord[] {
   const conversation_id = activities[0].conversation.id; // get conversation ID from user message no matter what
   return activities.map((activity) => ({
@@ -60,5 +163,12 @@ export function createMessageRecords(activities: IMessageActivity[]): MessageRec
     timestamp: activity.timestamp?.toString() || new Date().toISOString(),
     activity_id: activity.id,
     name: activity.from?.name || "Collaborator",
+    // Kept so the sender's data can be found for export and erasure requests
+    user_id: activity.from?.aadObjectId,
   }));
 }
+
+function monthLabel(date: Date): string {
+  const month = date.toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+  return `for ${month}`;
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { TranscribedSegment } from "../src/services/audioService";
+import {
+  createDiarizer,
+  mapSpeakersToAttendees,
+  registerDiarizer,
+} from "../src/services/diarization";
+import { MeetingDetails } from "../src/services/graphClient";
+import { testLogger } from "./helpers";
+
+function attendee(name: string) {
+  return { emailAddress: { name, address: `${name.split(" ")[0].toLowerCase()}@example.com` } };
+}
+
+const MEETING: Pick<MeetingDetails, "organizer" | "participants"> = {
+  organizer: attendee("Jane Doe"),
+  participants: {
+    attendees: [attendee("Jane Doe"), attendee("Bob Smith"), attendee("Carol King")],
+  },
+};
+
+function segment(text: string, second: number): TranscribedSegment {
+  return { text, startTime: second * 10_000_000, endTime: (second + 1) * 10_000_000 };
+}
+
+test("a registered diarizer's labels are named after the attendees they match", async () => {
+  // Alternates speakers, the way a diarizer with fixed labels would
+  registerDiarizer("alternating", () => ({
+    diarize: async (_audio, _format, segments) =>
+      segments.map((part, i) => ({ ...part, speaker: `Speaker ${(i % 2) + 1}` })),
+  }));
+  const diarizer = createDiarizer("alternating", testLogger, 10);
+
+  const diarized = await diarizer.diarize(Buffer.alloc(0), "wav", [
+    segment("Hi everyone, I'm Jane and I'll run this.", 0),
+    segment("Morning.", 1),
+    segment("Bob, can you give us the update?", 2),
+    segment("Sure, the numbers are up.", 3),
+  ]);
+
+  assert.deepEqual(
+    mapSpeakersToAttendees(diarized, MEETING).map((part) => part.speaker),
+    ["Jane Doe", "Bob Smith", "Jane Doe", "Bob Smith"]
+  );
+});
+
+test("an unknown diarizer is rejected with the ones available", () => {
+  assert.throws(
+    () => createDiarizer("missing", testLogger, 10),
+    /Unknown diarization provider "missing"\. Available: local, azure/
+  );
+});
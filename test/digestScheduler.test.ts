@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Clock } from "../src/scheduler/clock";
+import { DigestScheduler } from "../src/scheduler/digestScheduler";
+import { SqlJsKVStore } from "../src/storage/sqljsStorage";
+import { createTestStore, testLogger } from "./helpers";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Time only moves, and timers only fire, when the test advances the clock
+class FakeClock implements Clock {
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.current.getTime() + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+    for (const [handle, timer] of this.timers) {
+      if (timer.at > this.current.getTime()) continue;
+      this.timers.delete(handle);
+      timer.callback();
+    }
+  }
+}
+
+// Lets the scheduler's pending storage calls and promise callbacks run
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+async function storeWithDailyDigest(nextRunAt: string): Promise<SqlJsKVStore> {
+  const store = await createTestStore();
+  store.addDigestSchedule({
+    conversation_id: "chat-1",
+    cadence: "daily",
+    time_of_day: "17:00",
+    timezone: "UTC",
+    next_run_at: nextRunAt,
+  });
+  return store;
+}
+
+function createScheduler(store: SqlJsKVStore, clock: Clock): DigestScheduler {
+  return new DigestScheduler(store, async () => undefined, testLogger, {
+    clock,
+    pollIntervalMs: POLL_INTERVAL_MS,
+  });
+}
+
+test("a due digest is claimed by one scheduler and moved to its next slot", async () => {
+  const store = await storeWithDailyDigest("2026-03-02T17:00:00.000Z");
+  const clock = new FakeClock(new Date("2026-03-02T17:00:30.000Z"));
+  const claims: boolean[] = [];
+  const claimDigestSchedule = store.claimDigestSchedule.bind(store);
+  store.claimDigestSchedule = (id, due, next) => {
+    const claimed = claimDigestSchedule(id, due, next);
+    claims.push(claimed);
+    return claimed;
+  };
+
+  // Two instances polling the same storage at the same moment
+  await Promise.all([createScheduler(store, clock).tick(), createScheduler(store, clock).tick()]);
+
+  assert.deepEqual(claims, [true, false]);
+  const schedule = store.getDigestSchedule(1)!;
+  assert.equal(schedule.next_run_at, "2026-03-03T17:00:00.000Z");
+  // Nothing was posted in the chat, so the run completes without a recap
+  assert.equal(schedule.last_run_at, "2026-03-02T17:00:30.000Z");
+  store.close();
+});
+
+test("a paused digest is skipped when its run time passes", async () => {
+  const store = await storeWithDailyDigest("2026-03-02T17:00:00.000Z");
+  store.updateDigestSchedule(1, { status: "paused" });
+  const clock = new FakeClock(new Date("2026-03-02T17:00:30.000Z"));
+
+  await createScheduler(store, clock).tick();
+
+  const schedule = store.getDigestSchedule(1)!;
+  assert.equal(schedule.next_run_at, "2026-03-02T17:00:00.000Z");
+  assert.equal(schedule.last_run_at, null);
+  store.close();
+});
+
+test("the scheduler polls on the clock and stops re-arming once stopped", async () => {
+  const store = await storeWithDailyDigest("2026-03-02T17:00:00.000Z");
+  const clock = new FakeClock(new Date("2026-03-02T16:59:30.000Z"));
+  const scheduler = createScheduler(store, clock);
+
+  scheduler.start();
+  await settle();
+  assert.equal(store.getDigestSchedule(1)!.last_run_at, null);
+  assert.equal(clock.pendingTimers, 1);
+
+  clock.advance(POLL_INTERVAL_MS);
+  // Stopped while that tick is still running
+  scheduler.stop();
+  await settle();
+
+  assert.equal(store.getDigestSchedule(1)!.last_run_at, "2026-03-02T17:00:30.000Z");
+  assert.equal(store.getDigestSchedule(1)!.next_run_at, "2026-03-03T17:00:00.000Z");
+  assert.equal(clock.pendingTimers, 0);
+  store.close();
+});
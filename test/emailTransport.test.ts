@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { OutboxEmailTransport } from "../src/services/emailTransport";
+import { testLogger } from "./helpers";
+
+test("the outbox transport writes each email as an .eml file", async () => {
+  const dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "collaborator-test-")), "outbox");
+  const transport = new OutboxEmailTransport(dir, "bot@example.com", testLogger);
+
+  await transport.send({
+    subject: "Budget",
+    body: { contentType: "Text", content: "The budget is final." },
+    toRecipients: [{ emailAddress: { address: "bob@example.com" } }],
+    ccRecipients: [{ emailAddress: { address: "jane@example.com", name: "Jane Doe" } }],
+  });
+
+  const files = fs.readdirSync(dir);
+  assert.equal(files.length, 1);
+  assert.match(files[0], /^\d{4}-\d{2}-\d{2}T[\d-]+Z-[0-9a-f-]+\.eml$/);
+  const eml = fs.readFileSync(path.join(dir, files[0]), "utf8");
+  assert.ok(
+    eml.startsWith(
+      "From: bot@example.com\r\nTo: bob@example.com\r\nCc: Jane Doe <jane@example.com>\r\n"
+    )
+  );
+  assert.match(eml, /\r\nMessage-ID: <[0-9a-f-]+@example\.com>\r\n/);
+  assert.ok(eml.endsWith("\r\n\r\nThe budget is final."));
+});
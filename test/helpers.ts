@@ -0,0 +1,17 @@
+import { ConsoleLogger } from "@microsoft/teams.common";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { SqlJsKVStore } from "../src/storage/sqljsStorage";
+
+export const testLogger = new ConsoleLogger("test", { level: "error" });
+
+/**
+ * A fresh sql.js store backed by a file in a temporary directory
+ */
+export async function createTestStore(): Promise<SqlJsKVStore> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "collaborator-test-"));
+  const store = new SqlJsKVStore(testLogger, path.join(dir, "test.db"));
+  await store.initialize();
+  return store;
+}
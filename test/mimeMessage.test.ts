@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { EmailMessage } from "../src/services/graphClient";
+import { buildMimeMessage } from "../src/services/mimeMessage";
+
+const OPTIONS = {
+  from: "bot@example.com",
+  date: new Date("2026-03-02T12:00:00.000Z"),
+  messageId: "budget@example.com",
+};
+
+function email(subject: string, body: EmailMessage["body"]): EmailMessage {
+  return {
+    subject,
+    body,
+    toRecipients: [{ emailAddress: { address: "bob@example.com", name: "Bob Smith" } }],
+  };
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes = text
+    .replace(/=\r\n/g, "")
+    .replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+function bodyOf(mime: string): string {
+  return mime.slice(mime.indexOf("\r\n\r\n") + 4);
+}
+
+test("a plain-text email is the same bytes for the same date and Message-ID", () => {
+  const message = email("Budget", {
+    contentType: "Text",
+    content: "Hi Bob,\nThe budget is final.",
+  });
+
+  const mime = buildMimeMessage(message, OPTIONS);
+
+  assert.equal(
+    mime,
+    [
+      "From: bot@example.com",
+      "To: Bob Smith <bob@example.com>",
+      "Subject: Budget",
+      "Date: Mon, 02 Mar 2026 12:00:00 GMT",
+      "Message-ID: <budget@example.com>",
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Hi Bob,",
+      "The budget is final.",
+    ].join("\r\n")
+  );
+  assert.equal(buildMimeMessage(message, OPTIONS), mime);
+});
+
+test("a non-ASCII subject is split into encoded words on folded lines", () => {
+  const subject = "Résumé of the Q3 planning meeting — décisions et prochaines étapes";
+
+  const mime = buildMimeMessage(email(subject, { contentType: "Text", content: "" }), OPTIONS);
+
+  const header = mime.match(/^Subject: (.*(?:\r\n .*)*)$/m)![1];
+  const words = header.split("\r\n ");
+  assert.equal(words.length, 2);
+  for (const word of words) {
+    assert.match(word, /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    assert.ok(word.length <= 76);
+  }
+  const decoded = words
+    .map((word) => Buffer.from(word.slice(10, -2), "base64").toString("utf8"))
+    .join("");
+  assert.equal(decoded, subject);
+});
+
+test("an HTML email carries a plain-text alternative", () => {
+  const html = "<p>Hello&nbsp;team</p><p>Café = good</p>";
+
+  const mime = buildMimeMessage(email("Notes", { contentType: "HTML", content: html }), OPTIONS);
+
+  const boundary = mime.match(/boundary="([^"]+)"/)![1];
+  const parts = mime.split(`--${boundary}`).slice(1, -1).map((part) => part.trim());
+  assert.equal(parts.length, 2);
+  assert.match(parts[0], /^Content-Type: text\/plain; charset=utf-8/);
+  assert.equal(decodeQuotedPrintable(bodyOf(parts[0])), "Hello team\r\nCafé = good");
+  assert.match(parts[1], /^Content-Type: text\/html; charset=utf-8/);
+  assert.equal(decodeQuotedPrintable(bodyOf(parts[1])), html);
+  assert.ok(mime.endsWith(`--${boundary}--\r\n`));
+});
+
+test("quoted-printable lines are folded at 76 characters without splitting an escape", () => {
+  const content = `${"é".repeat(10)}${"a".repeat(80)} `;
+
+  const mime = buildMimeMessage(email("Long", { contentType: "Text", content }), OPTIONS);
+
+  const lines = bodyOf(mime).split("\r\n");
+  assert.deepEqual(
+    lines.map((line) => line.length),
+    [76, 68]
+  );
+  assert.ok(lines[0].endsWith("a="));
+  // Trailing whitespace is escaped so mail servers can't strip it
+  assert.ok(lines[1].endsWith("=20"));
+  assert.equal(decodeQuotedPrintable(bodyOf(mime)), content);
+});
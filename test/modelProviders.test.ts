@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ActionItemsCapability } from "../src/capabilities/actionItems/actionItems";
+import { registerModelProvider } from "../src/services/modelProviders";
+import { ScriptedChatModel } from "../src/services/scriptedChatModel";
+import { createSystemMessageContext } from "../src/utils/messageContext";
+import { createTestStore, testLogger } from "./helpers";
+
+test("a capability runs its real functions against a scripted model registered in code", async () => {
+  registerModelProvider(
+    "scripted-test",
+    () =>
+      new ScriptedChatModel([
+        {
+          match: "action items",
+          calls: [
+            {
+              name: "present_action_items",
+              arguments: { items: [{ task: "Send the budget", owner: "Jane Doe" }] },
+            },
+          ],
+          reply: "Jane Doe will send the budget.",
+        },
+      ])
+  );
+  process.env.LLM_PROVIDER_ACTION_ITEMS = "scripted-test";
+  const store = await createTestStore();
+  const context = createSystemMessageContext(
+    store,
+    "chat-1",
+    "What are the action items?",
+    "2026-03-02T00:00:00.000Z",
+    "2026-03-03T00:00:00.000Z"
+  );
+
+  try {
+    const result = await new ActionItemsCapability(testLogger).processRequest(context);
+
+    assert.equal(result.error, undefined);
+    assert.equal(result.response, "Jane Doe will send the budget.");
+    assert.equal(result.payload?.type, "action_items");
+    assert.deepEqual(
+      store
+        .getOpenActionItems({ conversationId: "chat-1" })
+        .map((item) => [item.title, item.assignee_name]),
+      [["Send the budget", "Jane Doe"]]
+    );
+  } finally {
+    delete process.env.LLM_PROVIDER_ACTION_ITEMS;
+    store.close();
+  }
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { LocalEmbeddingProvider } from "../src/services/embeddingService";
+import { SemanticIndex } from "../src/services/semanticIndex";
+import { SqlJsKVStore } from "../src/storage/sqljsStorage";
+import { createTestStore, testLogger } from "./helpers";
+
+const provider = new LocalEmbeddingProvider(64);
+
+// Each shared transcript file is saved as its own meeting with transcript ID "file"
+function saveFile(store: SqlJsKVStore, meetingId: string, lines: string[]): void {
+  store.upsertMeeting({ meeting_id: meetingId, conversation_id: "chat-1", subject: meetingId });
+  store.saveTranscript(
+    meetingId,
+    "file",
+    lines.map((content) => ({ speaker_name: "Jane Doe", content }))
+  );
+}
+
+function embeddedContent(store: SqlJsKVStore): string[] {
+  return store
+    .searchEmbeddings("chat-1", new Array(64).fill(1), { model: provider.model, limit: 10 })
+    .map((hit) => hit.record.content)
+    .sort();
+}
+
+test("each shared transcript file is embedded, and a re-import replaces its vectors", async () => {
+  const store = await createTestStore();
+  const index = new SemanticIndex(store, provider, testLogger);
+  const indexFile = (meetingId: string) =>
+    index.indexTranscript("chat-1", meetingId, store.getTranscript(meetingId));
+
+  saveFile(store, "file-standup", ["Budget review is on Friday"]);
+  await indexFile("file-standup");
+  saveFile(store, "file-retro", ["Deploys were slow this sprint"]);
+  await indexFile("file-retro");
+
+  assert.deepEqual(store.getEmbeddedSourceIds("chat-1", "transcript", provider.model).sort(), [
+    "file-retro:file:0",
+    "file-standup:file:0",
+  ]);
+
+  saveFile(store, "file-standup", ["Budget review moved to Monday"]);
+  await indexFile("file-standup");
+
+  assert.deepEqual(embeddedContent(store), [
+    "Budget review moved to Monday",
+    "Deploys were slow this sprint",
+  ]);
+  store.close();
+});
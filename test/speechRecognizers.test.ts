@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  createStreamingRecognizer,
+  formatStreamOffset,
+  registerSpeechProvider,
+  UtteranceRecognizer,
+} from "../src/services/speechRecognizers";
+import { testLogger } from "./helpers";
+
+const FORMAT = { sampleRate: 16000, channels: 1 };
+
+function tone(ms: number): Buffer {
+  const samples = (FORMAT.sampleRate * ms) / 1000;
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const sample = 8000 * Math.sin((2 * Math.PI * 220 * i) / FORMAT.sampleRate);
+    pcm.writeInt16LE(Math.round(sample), i * 2);
+  }
+  return pcm;
+}
+
+function silence(ms: number): Buffer {
+  return Buffer.alloc(((FORMAT.sampleRate * ms) / 1000) * 2);
+}
+
+// Length of the 16-bit mono audio after the 44-byte WAV header
+function durationMs(wav: Buffer): number {
+  return ((wav.length - 44) / 2 / FORMAT.sampleRate) * 1000;
+}
+
+test("a registered speech provider transcribes each utterance at its stream offset", async () => {
+  const heardMs: number[] = [];
+  registerSpeechProvider(
+    "canned",
+    (format) =>
+      new UtteranceRecognizer(format, async (wav) => {
+        heardMs.push(durationMs(wav));
+        return [{ text: `utterance ${heardMs.length}`, startTime: 0, endTime: 1000 }];
+      })
+  );
+  const recognizer = createStreamingRecognizer("canned", FORMAT, testLogger);
+
+  const segments = [
+    ...(await recognizer.write(Buffer.concat([silence(500), tone(1000), silence(1000)]))),
+    ...(await recognizer.write(tone(600))),
+    ...(await recognizer.end()),
+  ];
+
+  assert.deepEqual(
+    segments.map((segment) => [segment.text, formatStreamOffset(segment.startTime)]),
+    [
+      ["utterance 1", "00:00:00.500"],
+      ["utterance 2", "00:00:02.500"],
+    ]
+  );
+  // The first utterance ends once the pause is long enough; leading silence is dropped
+  assert.equal(heardMs[0], 1700);
+  assert.equal(heardMs[1], 600);
+});
+
+test("an unknown speech provider is rejected with the ones available", () => {
+  assert.throws(
+    () => createStreamingRecognizer("missing", FORMAT, testLogger),
+    /Unknown speech provider "missing"\. Available: azure, fake/
+  );
+});
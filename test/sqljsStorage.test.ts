@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MessageRecord } from "../src/storage/types";
+import { createTestStore } from "./helpers";
+
+const RANGE = { startTime: "2026-01-01T00:00:00.000Z", endTime: "2026-12-31T00:00:00.000Z" };
+
+function message(content: string, timestamp: string): MessageRecord {
+  return { conversation_id: "chat-1", role: "user", name: "Jane Doe", content, timestamp };
+}
+
+test("full-text search ranks a term found in most messages by how often it appears", async () => {
+  const store = await createTestStore();
+  store.addMessages([
+    message("Budget budget: the budget review needs the final budget", "2026-03-01T10:00:00.000Z"),
+    message("Short note on the budget", "2026-03-02T10:00:00.000Z"),
+    message("The budget for travel, lunch and offsites this quarter", "2026-03-03T10:00:00.000Z"),
+    message("Lunch is at noon", "2026-03-04T10:00:00.000Z"),
+  ]);
+
+  const hits = store.searchMessages("chat-1", "budget", { ...RANGE, maxResults: 5 });
+
+  assert.equal(hits.length, 3);
+  // Scores are shown rounded to three decimals, so a common term must not score near zero
+  assert.ok(hits.every((hit) => hit.rank >= 0.01), "every hit has a visible relevance score");
+  // The oldest message mentions the budget most, so relevance rather than recency puts it first
+  assert.match(hits[0].message.content, /^Budget budget:/);
+  assert.ok(hits[0].rank > hits[1].rank);
+  store.close();
+});
+
+test("an exact assignee name doesn't match a longer name that contains it", async () => {
+  const store = await createTestStore();
+  store.addActionItems(
+    ["Ann", "Joanna", "ann"].map((name, i) => ({
+      conversation_id: "chat-1",
+      title: `Task ${i + 1}`,
+      assignee_name: name,
+    }))
+  );
+
+  const items = store.getOpenActionItems({ conversationId: "chat-1", assigneeExactName: "ANN" });
+
+  assert.deepEqual(
+    items.map((item) => item.title),
+    ["Task 1", "Task 3"]
+  );
+  store.close();
+});
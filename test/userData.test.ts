@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SqlJsKVStore } from "../src/storage/sqljsStorage";
+import { MessageRecord } from "../src/storage/types";
+import { createTestStore } from "./helpers";
+
+const NOW = "2026-03-02T12:00:00.000Z";
+const LIMIT = { capacity: 10, periodMs: 60 * 60 * 1000 };
+
+function message(name: string, userId: string, content: string, minute: number): MessageRecord {
+  return {
+    conversation_id: "chat-1",
+    role: "user",
+    name,
+    content,
+    timestamp: `2026-03-02T10:${String(minute).padStart(2, "0")}:00.000Z`,
+    activity_id: `activity-${minute}`,
+    user_id: userId,
+  };
+}
+
+// Jane and Bob each have a message, a transcript turn, a draft, a usage record and rate limits
+async function seed(): Promise<SqlJsKVStore> {
+  const store = await createTestStore();
+  store.addMessages([
+    message("Jane Doe", "AAD-JANE", "I'll send the budget", 1),
+    message("Bob", "aad-bob", "Thanks", 2),
+  ]);
+
+  store.upsertMeeting({ meeting_id: "meeting-1", conversation_id: "chat-1", subject: "Standup" });
+  store.saveTranscript("meeting-1", "transcript-1", [
+    { speaker_name: "Jane Doe", content: "The budget is final" },
+    { speaker_name: "Bob", content: "Great" },
+  ]);
+  store.upsertEmbeddings(
+    store.getTranscript("meeting-1").map((segment) => ({
+      source_type: "transcript",
+      source_id: `${segment.transcript_id}:${segment.sequence_number}`,
+      conversation_id: "chat-1",
+      meeting_id: "meeting-1",
+      speaker_name: segment.speaker_name,
+      content: segment.content,
+      model: "test",
+      vector: [1, 0],
+    }))
+  );
+
+  for (const [createdBy, subject] of [
+    ["AAD-JANE", "Budget"],
+    ["aad-bob", "Lunch"],
+  ]) {
+    store.createEmailDraft({
+      conversation_id: "chat-1",
+      created_by: createdBy,
+      subject,
+      body: "Hi",
+      to_recipients: ["team@example.com"],
+    });
+  }
+
+  for (const userId of ["AAD-JANE", "aad-bob"]) {
+    store.recordUsage({
+      conversation_id: "chat-1",
+      conversation_name: null,
+      user_id: userId,
+      capability: "summarizer",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      prompt_tokens: 100,
+      completion_tokens: 20,
+      latency_ms: 500,
+      cost_usd: 0.001,
+    });
+  }
+
+  // Setting an override resets the bucket, so the overrides go first
+  store.setRateLimitOverride("user:aad-jane", "100/hour", "admin");
+  store.setRateLimitOverride("user:aad-bob", "off", "admin");
+  store.takeRateLimitTokens(
+    [
+      { key: "user:aad-jane", limit: LIMIT },
+      { key: "capability:summarizer:user:aad-jane", limit: LIMIT },
+      { key: "user:aad-bob", limit: LIMIT },
+      { key: "conversation:chat-1", limit: LIMIT },
+    ],
+    NOW
+  );
+  return store;
+}
+
+test("a user data export by name includes what was stored under the user's ID", async () => {
+  const store = await seed();
+
+  const data = store.getUserData("jane doe");
+
+  assert.deepEqual(
+    data.transcript_segments.map((segment) => segment.content),
+    ["The budget is final"]
+  );
+  assert.deepEqual(data.email_drafts.map((draft) => draft.subject), ["Budget"]);
+  assert.deepEqual(data.usage.map((entry) => entry.user_id), ["AAD-JANE"]);
+  assert.deepEqual(
+    data.rate_limit_buckets.map((bucket) => bucket.bucket_key),
+    ["capability:summarizer:user:aad-jane", "user:aad-jane"]
+  );
+  assert.deepEqual(
+    data.rate_limit_overrides.map((override) => override.bucket_key),
+    ["user:aad-jane"]
+  );
+  store.close();
+});
+
+test("erasing a user removes their drafts, rate limits and transcript turns only", async () => {
+  const store = await seed();
+
+  const erased = store.eraseUserData("Jane Doe", "delete");
+
+  assert.equal(erased.transcript_segments, 1);
+  assert.equal(erased.email_drafts, 1);
+  assert.equal(erased.usage, 1);
+  assert.equal(erased.rate_limit_buckets, 2);
+  assert.equal(erased.rate_limit_overrides, 1);
+
+  assert.deepEqual(
+    store.getTranscript("meeting-1").map((segment) => segment.speaker_name),
+    ["Bob"]
+  );
+  assert.deepEqual(store.getEmbeddedSourceIds("chat-1", "transcript", "test"), [
+    "transcript-1:1",
+  ]);
+  assert.deepEqual(
+    store.getRateLimitOverrides().map((override) => override.bucket_key),
+    ["user:aad-bob"]
+  );
+  // Usage records stay for cost reporting, without the user's ID
+  assert.equal(store.getUsageTotals("2026-01-01", "2027-01-01")[0].requests, 2);
+
+  const bob = store.getUserData("aad-bob");
+  assert.equal(bob.email_drafts.length, 1);
+  assert.equal(bob.usage.length, 1);
+  assert.equal(bob.rate_limit_buckets.length, 1);
+  store.close();
+});
+
+test("redacting a user keeps a placeholder for each of their transcript turns", async () => {
+  const store = await seed();
+
+  const erased = store.eraseUserData("aad-jane", "redact");
+
+  assert.equal(erased.transcript_segments, 1);
+  assert.deepEqual(
+    store.getTranscript("meeting-1").map((segment) => [segment.speaker_name, segment.content]),
+    [
+      ["[removed]", "[removed]"],
+      ["Bob", "Great"],
+    ]
+  );
+  store.close();
+});
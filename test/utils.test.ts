@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractEndTime, extractStartTime } from "../src/utils/utils";
+
+// A Wednesday afternoon
+const NOW = new Date("2026-10-21T15:30:00.000Z");
+
+function end(phrase: string, timezone = "UTC"): string | undefined {
+  return extractEndTime(phrase, NOW, timezone)?.toISOString();
+}
+
+test("since: starts at local midnight of the latest matching day", () => {
+  assert.equal(extractStartTime("monday", NOW, "UTC")?.toISOString(), "2026-10-19T00:00:00.000Z");
+  assert.equal(
+    extractStartTime("monday", NOW, "America/New_York")?.toISOString(),
+    "2026-10-19T04:00:00.000Z"
+  );
+  assert.equal(extractStartTime("march 3", NOW, "UTC")?.toISOString(), "2026-03-03T00:00:00.000Z");
+});
+
+test("until: ends at the midnight after the latest matching day", () => {
+  assert.equal(end("yesterday"), "2026-10-21T00:00:00.000Z");
+  assert.equal(end("monday"), "2026-10-20T00:00:00.000Z");
+  assert.equal(end("march 3"), "2026-03-04T00:00:00.000Z");
+  assert.equal(end("monday", "America/New_York"), "2026-10-20T04:00:00.000Z");
+});
+
+test("until: a time of day is used as is, and today runs up to now", () => {
+  assert.equal(end("2pm"), "2026-10-21T14:00:00.000Z");
+  assert.equal(end("today"), NOW.toISOString());
+  // The command rejects it
+  assert.ok(extractEndTime("tomorrow", NOW, "UTC")! > NOW);
+});